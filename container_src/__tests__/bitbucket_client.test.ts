@@ -0,0 +1,136 @@
+/**
+ * Tests for the Bitbucket API client against a local mock of the Bitbucket 2.0 API
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { BitbucketClient } from '../src/bitbucket_client';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  authorization?: string;
+  body: any;
+}
+
+describe('BitbucketClient', () => {
+  let server: http.Server;
+  let apiUrl: string;
+  let requests: RecordedRequest[];
+  let respond: (request: RecordedRequest) => { status: number; body: any };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        const request = {
+          method: req.method || '',
+          url: req.url || '',
+          authorization: req.headers.authorization,
+          body: raw ? JSON.parse(raw) : undefined
+        };
+        requests.push(request);
+
+        const { status, body } = respond(request);
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/2.0`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    respond = () => ({ status: 200, body: {} });
+  });
+
+  const createClient = (maxRetries?: number) => new BitbucketClient({
+    username: 'claude-bot',
+    appPassword: 'app-password',
+    repository: 'acme/widgets',
+    apiUrl,
+    maxRetries
+  });
+
+  it('should authenticate with the app password', async () => {
+    respond = () => ({ status: 200, body: { full_name: 'acme/widgets', mainbranch: { name: 'main' } } });
+
+    const repository = await createClient().getRepository();
+
+    expect(repository.mainbranch.name).toBe('main');
+    expect(requests[0].url).toBe('/2.0/repositories/acme/widgets');
+    expect(requests[0].authorization).toBe(`Basic ${Buffer.from('claude-bot:app-password').toString('base64')}`);
+  });
+
+  it('should create a branch from a commit', async () => {
+    respond = () => ({ status: 201, body: { name: 'claude/issue-7', target: { hash: 'abc123' } } });
+
+    await createClient().createBranch('claude/issue-7', 'abc123');
+
+    expect(requests[0]).toMatchObject({
+      method: 'POST',
+      url: '/2.0/repositories/acme/widgets/refs/branches',
+      body: { name: 'claude/issue-7', target: { hash: 'abc123' } }
+    });
+  });
+
+  it('should open a pull request between branches', async () => {
+    respond = () => ({ status: 201, body: { id: 3, links: { html: { href: 'https://bitbucket.org/acme/widgets/pull-requests/3' } } } });
+
+    const pullRequest = await createClient().createPullRequest('claude/issue-7', 'main', 'Fix crash on save', 'Closes #7');
+
+    expect(pullRequest.id).toBe(3);
+    expect(requests[0]).toMatchObject({
+      method: 'POST',
+      url: '/2.0/repositories/acme/widgets/pullrequests',
+      body: {
+        title: 'Fix crash on save',
+        description: 'Closes #7',
+        source: { branch: { name: 'claude/issue-7' } },
+        destination: { branch: { name: 'main' } }
+      }
+    });
+  });
+
+  it('should create and update comments on issues and pull requests', async () => {
+    respond = () => ({ status: 201, body: { id: 42 } });
+    const client = createClient();
+
+    expect(await client.createComment('issue', 7, 'Working on it')).toBe(42);
+    expect(await client.createComment('pullrequest', 3, 'Looking')).toBe(42);
+    await client.updateComment('pullrequest', 3, 42, 'Done');
+
+    expect(requests.map(({ method, url, body }) => ({ method, url, body }))).toEqual([
+      { method: 'POST', url: '/2.0/repositories/acme/widgets/issues/7/comments', body: { content: { raw: 'Working on it' } } },
+      { method: 'POST', url: '/2.0/repositories/acme/widgets/pullrequests/3/comments', body: { content: { raw: 'Looking' } } },
+      { method: 'PUT', url: '/2.0/repositories/acme/widgets/pullrequests/3/comments/42', body: { content: { raw: 'Done' } } }
+    ]);
+  });
+
+  it('should report the status and body of failed requests', async () => {
+    respond = () => ({ status: 403, body: { error: { message: 'Access denied' } } });
+
+    await expect(createClient().createPullRequest('a', 'main', 'Title', '')).rejects.toMatchObject({
+      message: 'Failed to create pull request from a',
+      statusCode: 403,
+      responseBody: { error: { message: 'Access denied' } }
+    });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should retry server errors', async () => {
+    respond = () => requests.length === 1
+      ? { status: 503, body: {} }
+      : { status: 201, body: { id: 9 } };
+
+    expect(await createClient(1).createComment('issue', 7, 'Hello')).toBe(9);
+    expect(requests).toHaveLength(2);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Tests for cancelling runs in progress
+ */
+
+import { ActiveRuns, RunCancelledError, getCancellation, throwIfCancelled } from '../src/cancellation';
+
+describe('ActiveRuns', () => {
+  it('should abort the registered run with the user who cancelled it', () => {
+    const runs = new ActiveRuns();
+    const controller = runs.start('1001');
+
+    expect(runs.cancel('1001', 'developer')).toBe(true);
+    expect(controller.signal.aborted).toBe(true);
+    expect(getCancellation(controller.signal)?.cancelledBy).toBe('developer');
+    expect(() => throwIfCancelled(controller.signal)).toThrow(RunCancelledError);
+  });
+
+  it('should report when there is nothing to cancel', () => {
+    const runs = new ActiveRuns();
+    const controller = runs.start('1001');
+    runs.finish('1001', controller);
+
+    expect(runs.cancel('1001', 'developer')).toBe(false);
+    expect(runs.cancel('2002', 'developer')).toBe(false);
+  });
+
+  it('should not let a finished run unregister its successor', () => {
+    const runs = new ActiveRuns();
+    const first = runs.start('1001');
+    const second = runs.start('1001');
+
+    runs.finish('1001', first);
+
+    expect(runs.isActive('1001')).toBe(true);
+    expect(runs.cancel('1001', 'developer')).toBe(true);
+    expect(second.signal.aborted).toBe(true);
+    expect(first.signal.aborted).toBe(false);
+  });
+
+  it('should ignore aborts that are not cancellations', () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(getCancellation(controller.signal)).toBeNull();
+    expect(() => throwIfCancelled(controller.signal)).not.toThrow();
+  });
+});
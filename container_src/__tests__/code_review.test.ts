@@ -0,0 +1,112 @@
+/**
+ * Tests for the code review helpers
+ */
+
+import {
+  READ_ONLY_TOOL_POLICY,
+  commentableLines,
+  splitUnifiedDiff,
+  formatDiffForPrompt,
+  parseCodeReview,
+  anchorComments,
+  formatReviewSummary,
+  MAX_PROMPT_DIFF_LENGTH
+} from '../src/code_review';
+import { ToolPolicy } from '../src/tool_policy';
+
+describe('Code review', () => {
+  const patch = [
+    '@@ -10,4 +10,5 @@ export function add(a, b) {',
+    ' const x = 1;',
+    '-const y = 2;',
+    '+const y = 3;',
+    '+const z = 4;',
+    ' return x + y;',
+    '\\ No newline at end of file'
+  ].join('\n');
+
+  it('should only allow reading tools in review runs', () => {
+    const options = new ToolPolicy(READ_ONLY_TOOL_POLICY).queryOptions();
+
+    expect(options.permissionMode).toBe('default');
+    expect(options.disallowedTools).toEqual(expect.arrayContaining(['Edit', 'MultiEdit', 'Write', 'NotebookEdit', 'WebFetch']));
+    expect(options.allowedTools).not.toContain('Bash');
+  });
+
+  it('should find the new-file lines a diff shows', () => {
+    expect([...commentableLines(patch)]).toEqual([10, 11, 12, 13]);
+  });
+
+  it('should split a multi-file diff', () => {
+    const diff = [
+      'diff --git a/src/a.ts b/src/a.ts',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      patch,
+      'diff --git a/src/new.ts b/src/new.ts',
+      'new file mode 100644',
+      '--- /dev/null',
+      '+++ b/src/new.ts',
+      '@@ -0,0 +1 @@',
+      '+export const answer = 42;'
+    ].join('\n');
+
+    expect(splitUnifiedDiff(diff)).toEqual([
+      { path: 'src/a.ts', status: 'modified', patch },
+      { path: 'src/new.ts', status: 'added', patch: '@@ -0,0 +1 @@\n+export const answer = 42;' }
+    ]);
+  });
+
+  it('should list files left out of a long diff', () => {
+    const files = [
+      { path: 'small.ts', patch },
+      { path: 'huge.ts', patch: '+x\n'.repeat(MAX_PROMPT_DIFF_LENGTH) }
+    ];
+    const text = formatDiffForPrompt(files);
+
+    expect(text).toContain('### small.ts');
+    expect(text).not.toContain('### huge.ts');
+    expect(text).toContain('Read these files from the checkout instead: huge.ts');
+  });
+
+  it('should read the last JSON block of the response', () => {
+    const response = [
+      'Example: ```json\n{"verdict": "approve", "summary": "ignored", "comments": []}\n```',
+      'My review:',
+      '```json',
+      '{"verdict": "request_changes", "summary": "y is off by one", "comments": [',
+      '  {"path": "./src/a.ts", "line": 12, "body": "Should be 2"},',
+      '  {"path": "src/a.ts", "line": "twelve", "body": "dropped"}',
+      ']}',
+      '```'
+    ].join('\n');
+
+    expect(parseCodeReview(response)).toEqual({
+      verdict: 'request_changes',
+      summary: 'y is off by one',
+      comments: [{ path: 'src/a.ts', line: 12, body: 'Should be 2' }]
+    });
+    expect(parseCodeReview('Looks fine to me')).toBeNull();
+  });
+
+  it('should move comments outside the diff into the summary', () => {
+    const review = {
+      verdict: 'comment' as const,
+      summary: 'Mostly fine',
+      comments: [
+        { path: 'src/a.ts', line: 12, body: 'Should be 2' },
+        { path: 'src/a.ts', line: 40, body: 'Unrelated line' },
+        { path: 'src/other.ts', line: 1, body: 'Not in the diff' }
+      ]
+    };
+    const { anchored, unanchored } = anchorComments(review.comments, [{ path: 'src/a.ts', patch }]);
+
+    expect(anchored).toEqual([review.comments[0]]);
+    expect(unanchored).toEqual(review.comments.slice(1));
+
+    const summary = formatReviewSummary(review, unanchored, 'https://worker.example.com/runs/1/transcript');
+    expect(summary).toContain('💬 Comments, nothing blocking');
+    expect(summary).toContain('- `src/a.ts:40`: Unrelated line');
+    expect(summary).toContain('[Full transcript](https://worker.example.com/runs/1/transcript)');
+  });
+});
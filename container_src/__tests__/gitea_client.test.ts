@@ -0,0 +1,116 @@
+/**
+ * Tests for the Gitea API client against a local mock of the Gitea /api/v1 API
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { GiteaClient } from '../src/gitea_client';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  authorization?: string;
+  body: any;
+}
+
+describe('GiteaClient', () => {
+  let server: http.Server;
+  let giteaUrl: string;
+  let requests: RecordedRequest[];
+  let respond: (request: RecordedRequest) => { status: number; body: any };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        const request = {
+          method: req.method || '',
+          url: req.url || '',
+          authorization: req.headers.authorization,
+          body: raw ? JSON.parse(raw) : undefined
+        };
+        requests.push(request);
+
+        const { status, body } = respond(request);
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    giteaUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    respond = () => ({ status: 200, body: {} });
+  });
+
+  const createClient = (maxRetries?: number) => new GiteaClient({
+    giteaUrl,
+    token: 'gitea-token',
+    repository: 'acme/widgets',
+    maxRetries
+  });
+
+  it('should authenticate with the access token', async () => {
+    respond = () => ({ status: 200, body: { full_name: 'acme/widgets', default_branch: 'main' } });
+
+    const repository = await createClient().getRepository();
+
+    expect(repository.default_branch).toBe('main');
+    expect(requests[0].url).toBe('/api/v1/repos/acme/widgets');
+    expect(requests[0].authorization).toBe('token gitea-token');
+  });
+
+  it('should open a pull request between branches', async () => {
+    respond = () => ({ status: 201, body: { number: 8, html_url: 'https://git.example.com/acme/widgets/pulls/8' } });
+
+    const pullRequest = await createClient().createPullRequest('claude/issue-7', 'main', 'Fix crash on save', 'Closes #7');
+
+    expect(pullRequest.number).toBe(8);
+    expect(requests[0]).toMatchObject({
+      method: 'POST',
+      url: '/api/v1/repos/acme/widgets/pulls',
+      body: { head: 'claude/issue-7', base: 'main', title: 'Fix crash on save', body: 'Closes #7' }
+    });
+  });
+
+  it('should create and update comments', async () => {
+    respond = () => ({ status: 201, body: { id: 42 } });
+    const client = createClient();
+
+    expect(await client.createComment(7, 'Working on it')).toBe(42);
+    await client.updateComment(42, 'Done');
+
+    expect(requests.map(({ method, url, body }) => ({ method, url, body }))).toEqual([
+      { method: 'POST', url: '/api/v1/repos/acme/widgets/issues/7/comments', body: { body: 'Working on it' } },
+      { method: 'PATCH', url: '/api/v1/repos/acme/widgets/issues/comments/42', body: { body: 'Done' } }
+    ]);
+  });
+
+  it('should report the status and body of failed requests', async () => {
+    respond = () => ({ status: 409, body: { message: 'pull request already exists' } });
+
+    await expect(createClient().createPullRequest('a', 'main', 'Title', '')).rejects.toMatchObject({
+      message: 'Failed to create pull request from a',
+      statusCode: 409,
+      responseBody: { message: 'pull request already exists' }
+    });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should retry server errors', async () => {
+    respond = () => requests.length === 1
+      ? { status: 502, body: {} }
+      : { status: 201, body: { id: 9 } };
+
+    expect(await createClient(1).createComment(7, 'Hello')).toBe(9);
+    expect(requests).toHaveLength(2);
+  });
+});
@@ -130,6 +130,57 @@ describe('GitLabClient', () => {
       expect(typeof client.createDiffDiscussion).toBe('function');
     });
 
+    it('should create merge requests that remove the source branch on merge', async () => {
+      const { GitLabClient } = await import('../src/gitlab_client');
+
+      const client = new GitLabClient({
+        gitlabUrl: 'https://gitlab.com',
+        projectId: '12345',
+        token: 'test-token'
+      });
+
+      const calls: any[][] = [];
+      (client as any).gitlab = {
+        MergeRequests: {
+          create: async (...args: any[]) => {
+            calls.push(args);
+            return { iid: 7, web_url: 'https://gitlab.com/group/project/-/merge_requests/7' };
+          }
+        }
+      };
+
+      const mr = await client.createMergeRequest('claude-code/issue-3', 'main', 'Fix login', 'Closes #3');
+
+      expect(mr.iid).toBe(7);
+      expect(calls[0]).toEqual(['12345', 'claude-code/issue-3', 'main', 'Fix login', {
+        description: 'Closes #3',
+        removeSourceBranch: true
+      }]);
+    });
+
+    it('should post notes on issues', async () => {
+      const { GitLabClient } = await import('../src/gitlab_client');
+
+      const client = new GitLabClient({
+        gitlabUrl: 'https://gitlab.com',
+        projectId: '12345',
+        token: 'test-token'
+      });
+
+      const calls: any[][] = [];
+      (client as any).gitlab = {
+        IssueNotes: {
+          create: async (...args: any[]) => {
+            calls.push(args);
+            return { id: 1 };
+          }
+        }
+      };
+
+      expect(await client.createIssueNote(3, 'Analysis')).toBe(true);
+      expect(calls[0]).toEqual(['12345', 3, 'Analysis']);
+    });
+
     it('should have close method for cleanup', async () => {
       const { GitLabClient } = await import('../src/gitlab_client');
       
@@ -10,6 +10,12 @@ import axios from 'axios';
 jest.mock('axios');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
 
+// Notes go through the gitbeaker client rather than axios
+const mockMergeRequestNotes = { create: jest.fn<(...args: any[]) => Promise<any>>() };
+jest.mock('@gitbeaker/rest', () => ({
+  Gitlab: jest.fn().mockImplementation(() => ({ MergeRequestNotes: mockMergeRequestNotes })),
+}));
+
 describe('GitLabClient Advanced Features', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -171,9 +177,12 @@ describe('GitLabClient Advanced Features', () => {
         projectId: '12345',
         token: 'test-token',
       });
+      mockMergeRequestNotes.create.mockResolvedValue({ id: 1 });
 
       await client.postComment(123, 'Test comment');
 
+      expect(mockMergeRequestNotes.create).toHaveBeenCalledWith('12345', 123, 'Test comment');
+
       expect(consoleSpy).toHaveBeenCalledWith(
         expect.stringContaining('[GITLAB_CLIENT] Posted comment to MR'),
         expect.stringContaining('"mrIid": 123')
@@ -191,15 +200,16 @@ describe('GitLabClient Advanced Features', () => {
         token: 'test-token',
       });
 
-      // Test methods that don't make API calls in current implementation
-      expect(await client.getMergeRequestDiff(123)).toBe('');
+      mockMergeRequestNotes.create.mockResolvedValue({ id: 1 });
       expect(await client.postComment(123, 'test')).toBe(true);
+      expect(mockMergeRequestNotes.create).toHaveBeenCalledWith('12345', 123, 'test');
+
+      // A rejected note surfaces as a GitLab API error
+      mockMergeRequestNotes.create.mockRejectedValue(new Error('403 Forbidden'));
+      await expect(client.postComment(123, 'test')).rejects.toThrow('Failed to post comment to MR 123');
+
+      // getDiscussionContext doesn't make API calls in the current implementation
       expect(await client.getDiscussionContext(123, 'disc-id')).toEqual({});
-      expect(await client.createDiffDiscussion(123, 'body', 'file.js', 42, {
-        base_commit_sha: 'abc',
-        head_commit_sha: 'def',
-        start_commit_sha: 'ghi',
-      })).toBe(true);
       
       // Test getMergeRequest method with error handling
       try {
@@ -210,5 +220,64 @@ describe('GitLabClient Advanced Features', () => {
         expect(error).toBeDefined();
       }
     });
+
+    it('should read the merge request changes as a unified diff', async () => {
+      const { GitLabClient } = await import('../src/gitlab_client');
+
+      const client = new GitLabClient({
+        gitlabUrl: 'https://gitlab.com',
+        projectId: 'group/project',
+        token: 'test-token',
+      });
+      const axiosInstance = mockedAxios.create.mock.results[0].value as any;
+      axiosInstance.get.mockResolvedValue({
+        data: {
+          changes: [
+            { old_path: 'src/a.ts', new_path: 'src/a.ts', diff: '@@ -1 +1 @@\n-old\n+new\n' },
+            { old_path: 'src/b.ts', new_path: 'src/b.ts', new_file: true, diff: '@@ -0,0 +1 @@\n+added\n' },
+          ],
+        },
+      });
+
+      const diff = await client.getMergeRequestDiff(123);
+
+      expect(axiosInstance.get).toHaveBeenCalledWith('https://gitlab.com/api/v4/projects/group%2Fproject/merge_requests/123/changes');
+      expect(diff).toContain('diff --git a/src/a.ts b/src/a.ts\n--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1 +1 @@');
+      expect(diff).toContain('diff --git a/src/b.ts b/src/b.ts\nnew file mode 100644\n');
+    });
+
+    it('should anchor diff discussions to a line of the new file', async () => {
+      const { GitLabClient } = await import('../src/gitlab_client');
+
+      const client = new GitLabClient({
+        gitlabUrl: 'https://gitlab.com',
+        projectId: '12345',
+        token: 'test-token',
+      });
+      const axiosInstance = mockedAxios.create.mock.results[0].value as any;
+      axiosInstance.post.mockResolvedValue({ data: { id: 'disc-1' } });
+
+      expect(await client.createDiffDiscussion(123, 'body', 'file.js', 42, {
+        base_commit_sha: 'abc',
+        head_commit_sha: 'def',
+        start_commit_sha: 'ghi',
+      })).toBe(true);
+
+      expect(axiosInstance.post).toHaveBeenCalledWith(
+        'https://gitlab.com/api/v4/projects/12345/merge_requests/123/discussions',
+        {
+          body: 'body',
+          position: {
+            position_type: 'text',
+            base_sha: 'abc',
+            start_sha: 'ghi',
+            head_sha: 'def',
+            old_path: 'file.js',
+            new_path: 'file.js',
+            new_line: 42,
+          },
+        }
+      );
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,140 @@
+/**
+ * Tests for the live progress comment
+ */
+
+import { ProgressReporter } from '../src/progress';
+
+function createTarget() {
+  const calls: Array<{ action: string; commentId?: number; body: string }> = [];
+  return {
+    calls,
+    target: {
+      create: async (body: string) => {
+        calls.push({ action: 'create', body });
+        return 101;
+      },
+      update: async (commentId: number, body: string) => {
+        calls.push({ action: 'update', commentId, body });
+      }
+    }
+  };
+}
+
+function assistantMessage(content: any[]): any {
+  return { type: 'assistant', message: { content } };
+}
+
+describe('ProgressReporter', () => {
+  it('should create the comment once and edit it afterwards', async () => {
+    const { calls, target } = createTarget();
+    const reporter = new ProgressReporter(target, { title: 'Claude Code Assistant', minIntervalMs: 0 });
+
+    await reporter.start('Cloning the repository');
+    await reporter.finish('✅ Done');
+
+    expect(calls.map(call => call.action)).toEqual(['create', 'update']);
+    expect(calls[1].commentId).toBe(101);
+    expect(calls[1].body).toContain('✅ Done');
+  });
+
+  it('should take over an existing comment', async () => {
+    const { calls, target } = createTarget();
+    const reporter = new ProgressReporter(target, { title: 'Claude Code Assistant', commentId: 55 });
+
+    await reporter.start();
+
+    expect(calls).toEqual([expect.objectContaining({ action: 'update', commentId: 55 })]);
+  });
+
+  it('should summarise the current step and tool uses', () => {
+    const { target } = createTarget();
+    let now = 0;
+    const reporter = new ProgressReporter(target, { title: 'Claude Code Assistant', now: () => now });
+
+    reporter.record(assistantMessage([
+      { type: 'text', text: 'Looking at the date parser first.\nMore detail' },
+      { type: 'tool_use', name: 'Read', input: { file_path: 'src/dates.ts' } },
+      { type: 'tool_use', name: 'Edit', input: { file_path: 'src/dates.ts' } },
+      { type: 'tool_use', name: 'Bash', input: { command: 'npm test' } }
+    ]));
+    now = 95_000;
+
+    const body = reporter.render();
+    expect(body).toContain('**Current step:** Looking at the date parser first.');
+    expect(body).toContain('📖 Read `src/dates.ts`');
+    expect(body).toContain('✏️ Edited `src/dates.ts`');
+    expect(body).toContain('💻 Ran `npm test`');
+    expect(body).toContain('Elapsed: 1m 35s');
+    expect(body).toContain('1 files read · 1 files edited · 1 commands run');
+  });
+
+  it('should throttle edits and always send the final state', async () => {
+    const { calls, target } = createTarget();
+    const reporter = new ProgressReporter(target, {
+      title: 'Claude Code Assistant',
+      commentId: 55,
+      minIntervalMs: 60_000,
+      now: () => 1_000
+    });
+
+    await reporter.start();
+    for (let i = 0; i < 5; i++) {
+      reporter.record(assistantMessage([{ type: 'tool_use', name: 'Read', input: { file_path: `f${i}.ts` } }]));
+    }
+    expect(calls).toHaveLength(1);
+
+    await reporter.finish('✅ Done');
+    expect(calls).toHaveLength(2);
+    expect(calls[1].body).toContain('`f4.ts`');
+  });
+
+  it('should show the usage in the final comment only', async () => {
+    const { calls, target } = createTarget();
+    const reporter = new ProgressReporter(target, { title: 'Claude Code Assistant', commentId: 55, minIntervalMs: 0 });
+    reporter.setUsage(() => '12 turns · $0.42');
+
+    await reporter.start();
+    expect(calls[0].body).not.toContain('Usage');
+
+    await reporter.finish('⏹️ Stopped: Reached the budget of $0.40. No changes were pushed.');
+    expect(calls[1].body).toContain('📊 Usage: 12 turns · $0.42');
+  });
+
+  it('should link the transcript from the final comment only', async () => {
+    const { calls, target } = createTarget();
+    const reporter = new ProgressReporter(target, {
+      title: 'Claude Code Assistant',
+      commentId: 55,
+      minIntervalMs: 60_000,
+      transcriptUrl: 'https://worker.example.com/runs/job-1/transcript'
+    });
+
+    await reporter.start();
+    await reporter.finish('✅ Done');
+
+    expect(calls[0].body).not.toContain('Full transcript');
+    expect(calls[1].body).toContain('📜 [Full transcript](https://worker.example.com/runs/job-1/transcript)');
+  });
+
+  it('should list denied tool calls in the final comment', async () => {
+    const { calls, target } = createTarget();
+    const reporter = new ProgressReporter(target, { title: 'Claude Code Assistant', commentId: 55, minIntervalMs: 60_000 });
+
+    await reporter.start();
+    reporter.recordDenial({ tool: 'Bash', input: 'curl https://example.com', reason: 'Permission to use Bash has been denied.' });
+    await reporter.finish('✅ Done');
+
+    expect(calls[1].body).toContain('🚫 Denied Bash `curl https://example.com`');
+    expect(calls[1].body).toContain('<summary>🚫 Denied tool calls (1)</summary>');
+  });
+
+  it('should not fail the run when the comment cannot be edited', async () => {
+    const reporter = new ProgressReporter({
+      create: async () => { throw new Error('rate limited'); },
+      update: async () => { throw new Error('rate limited'); }
+    }, { title: 'Claude Code Assistant' });
+
+    await expect(reporter.start()).resolves.toBeUndefined();
+    await expect(reporter.finish('✅ Done')).resolves.toBeUndefined();
+  });
+});
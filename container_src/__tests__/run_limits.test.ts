@@ -0,0 +1,122 @@
+/**
+ * Tests for per-run model, turn, time and budget limits
+ */
+
+import { RunBudget, RunLimitError, parseRunLimits, getRunLimitStop } from '../src/run_limits';
+
+function assistantMessage(id: string, usage: any, model: string = 'claude-sonnet-4-20250514'): any {
+  return { type: 'assistant', message: { id, model, usage, content: [] } };
+}
+
+function resultMessage(overrides: any = {}): any {
+  return {
+    type: 'result',
+    subtype: 'success',
+    num_turns: 3,
+    total_cost_usd: 0.5,
+    usage: { input_tokens: 1000, output_tokens: 500, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+    ...overrides
+  };
+}
+
+describe('parseRunLimits', () => {
+  it('should keep valid limits and drop anything else', () => {
+    expect(parseRunLimits(JSON.stringify({ model: 'claude-opus-4-20250514', maxTurns: 20, maxCostUsd: -1, extra: true })))
+      .toEqual({ model: 'claude-opus-4-20250514', maxTurns: 20 });
+    expect(parseRunLimits('not json')).toEqual({});
+    expect(parseRunLimits(undefined)).toEqual({});
+  });
+});
+
+describe('RunBudget', () => {
+  it('should pass the model and remaining turns to query()', () => {
+    const budget = new RunBudget({ model: 'claude-opus-4-20250514', maxTurns: 10 });
+    budget.record(resultMessage({ num_turns: 4 }));
+
+    const options = budget.queryOptions();
+    expect(options.model).toBe('claude-opus-4-20250514');
+    expect(options.maxTurns).toBe(6);
+    expect(options.abortController).toBe(budget.abortController);
+    budget.dispose();
+  });
+
+  it('should count each API response once when estimating cost', () => {
+    const budget = new RunBudget({});
+    const usage = { input_tokens: 1_000_000, output_tokens: 0 };
+
+    // One response split into two content blocks repeats the same usage
+    budget.record(assistantMessage('msg_1', usage));
+    budget.record(assistantMessage('msg_1', usage));
+
+    expect(budget.usage().turns).toBe(1);
+    expect(budget.usage().inputTokens).toBe(1_000_000);
+    expect(budget.usage().costUsd).toBeCloseTo(3);
+  });
+
+  it('should replace the estimate with the reported cost when a query finishes', () => {
+    const budget = new RunBudget({});
+    budget.record(assistantMessage('msg_1', { input_tokens: 1_000_000, output_tokens: 0 }));
+    budget.record(resultMessage());
+
+    expect(budget.usage()).toMatchObject({ turns: 3, inputTokens: 1000, outputTokens: 500, costUsd: 0.5 });
+  });
+
+  it('should stop the run when the estimated cost reaches the budget', () => {
+    const budget = new RunBudget({ maxCostUsd: 1 });
+    budget.record(assistantMessage('msg_1', { input_tokens: 100_000, output_tokens: 0 }));
+    expect(budget.abortController.signal.aborted).toBe(false);
+
+    budget.record(assistantMessage('msg_2', { input_tokens: 0, output_tokens: 100_000 }));
+    expect(budget.stopReason).toBe('cost');
+    expect(() => budget.throwIfStopped()).toThrow(RunLimitError);
+  });
+
+  it('should stop the run when the token budget is used up', () => {
+    const budget = new RunBudget({ maxTokens: 50_000 });
+    budget.record(assistantMessage('msg_1', { input_tokens: 10_000, output_tokens: 1_000, cache_read_input_tokens: 40_000 }));
+
+    expect(budget.stopReason).toBe('tokens');
+    expect(getRunLimitStop(budget.abortController.signal)?.message).toBe('Reached the budget of 50,000 tokens');
+  });
+
+  it('should keep a finished query but refuse to start another one over the turn limit', () => {
+    const budget = new RunBudget({ maxTurns: 3 });
+    budget.record(resultMessage({ num_turns: 3 }));
+    expect(budget.abortController.signal.aborted).toBe(false);
+
+    expect(() => budget.beforeQuery()).toThrow('Reached the limit of 3 turns');
+    expect(budget.stopReason).toBe('turns');
+  });
+
+  it('should treat a query cut off at the turn limit as a stop', () => {
+    const budget = new RunBudget({ maxTurns: 5 });
+    budget.record(resultMessage({ subtype: 'error_max_turns', num_turns: 5 }));
+
+    expect(budget.stopReason).toBe('turns');
+  });
+
+  it('should stop the run at the time limit', async () => {
+    // 30ms, so the test runs under both jest and vitest without fake timers
+    const budget = new RunBudget({ maxDurationMinutes: 0.0005 });
+    expect(budget.abortController.signal.aborted).toBe(false);
+
+    await new Promise(resolve => setTimeout(resolve, 60));
+    expect(budget.stopReason).toBe('duration');
+  });
+
+  it('should leave a cancellation in place rather than replacing it', () => {
+    const controller = new AbortController();
+    controller.abort(new Error('cancelled'));
+
+    const budget = new RunBudget({ maxTurns: 1 }, controller);
+    budget.stop('turns');
+    expect(budget.stopReason).toBeNull();
+  });
+
+  it('should describe the usage against the configured limits', () => {
+    const budget = new RunBudget({ maxTurns: 20, maxCostUsd: 2, model: 'claude-opus-4-20250514' });
+    budget.record(resultMessage({ num_turns: 12, total_cost_usd: 0.4237 }));
+
+    expect(budget.describeUsage()).toBe('12 turns of 20 · 1,500 tokens · $0.42 of $2.00 · model `claude-opus-4-20250514`');
+  });
+});
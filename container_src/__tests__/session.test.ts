@@ -0,0 +1,76 @@
+/**
+ * Tests for resuming Claude sessions across runs in the same thread
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseThreadSession, sessionFilePath, restoreSession, captureSession } from '../src/session';
+
+describe('Thread sessions', () => {
+  const sessionId = '0b7c6a4e-2f1d-4c5e-9a8b-1d2e3f4a5b6c';
+  const resumedId = '7d9e2c1b-3a4f-4b6c-8d7e-9f0a1b2c3d4e';
+  const workspaceDir = '/tmp/workspace/issue-42';
+  const earlier = '{"uuid":"first","type":"user"}\n{"uuid":"second","type":"assistant"}\n';
+  let configDir: string;
+
+  beforeEach(async () => {
+    configDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-config-'));
+    process.env.CLAUDE_CONFIG_DIR = configDir;
+  });
+
+  afterEach(async () => {
+    delete process.env.CLAUDE_CONFIG_DIR;
+    await fs.rm(configDir, { recursive: true, force: true });
+  });
+
+  it('should only accept sessions with a UUID session ID', () => {
+    expect(parseThreadSession({ sessionId, branch: 'claude-code/issue-42', data: earlier }))
+      .toEqual({ sessionId, branch: 'claude-code/issue-42', data: earlier });
+    expect(parseThreadSession({ sessionId: '../../etc/passwd', data: earlier })).toBeNull();
+    expect(parseThreadSession('[object Object]')).toBeNull();
+    expect(parseThreadSession(undefined)).toBeNull();
+  });
+
+  it('should write the session file where the CLI looks for it', async () => {
+    expect(await restoreSession({ sessionId }, workspaceDir)).toBeUndefined();
+    expect(await restoreSession({ sessionId, data: earlier }, workspaceDir)).toBe(sessionId);
+
+    const file = sessionFilePath(workspaceDir, sessionId);
+    expect(file).toBe(path.join(configDir, 'projects', '-tmp-workspace-issue-42', `${sessionId}.jsonl`));
+    expect(await fs.readFile(file, 'utf8')).toBe(earlier);
+  });
+
+  it('should hand back the latest session with the branch it pushed to', async () => {
+    const file = sessionFilePath(workspaceDir, sessionId);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, earlier);
+
+    const session = await captureSession(
+      [{ type: 'result', session_id: sessionId } as any],
+      workspaceDir,
+      null,
+      'claude-code/issue-42'
+    );
+
+    expect(session).toEqual({ sessionId, branch: 'claude-code/issue-42', data: earlier });
+    expect(await captureSession([], workspaceDir, null)).toBeUndefined();
+  });
+
+  it('should keep the earlier conversation when a resumed session gets a new ID', async () => {
+    const later = '{"uuid":"third","type":"user"}\n';
+    const file = sessionFilePath(workspaceDir, resumedId);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, later);
+
+    const previous = { sessionId, branch: 'claude-code/issue-42', data: earlier };
+    const session = await captureSession([{ type: 'result', session_id: resumedId } as any], workspaceDir, previous);
+
+    expect(session).toEqual({ sessionId: resumedId, branch: 'claude-code/issue-42', data: earlier + later });
+
+    // Nothing is added twice when the CLI copied the earlier messages itself
+    await fs.writeFile(file, earlier + later);
+    expect((await captureSession([{ type: 'result', session_id: resumedId } as any], workspaceDir, previous))?.data)
+      .toBe(earlier + later);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Tests for the per-repository tool policy
+ */
+
+import { ToolPolicy, NETWORK_TOOLS, DEFAULT_TOOL_POLICY } from '../src/tool_policy';
+
+function assistantMessage(content: any[]): any {
+  return { type: 'assistant', message: { content } };
+}
+
+function toolResultMessage(content: any[]): any {
+  return { type: 'user', message: { role: 'user', content } };
+}
+
+describe('ToolPolicy', () => {
+  const config = {
+    allowedTools: ['Read', 'Edit'],
+    disallowedTools: ['Task'],
+    bashCommands: ['npm test', 'npm run lint:*'],
+    network: false
+  };
+
+  it('should only allow file tools when no policy is configured', () => {
+    expect(new ToolPolicy(undefined).queryOptions()).toEqual({
+      permissionMode: 'default',
+      allowedTools: DEFAULT_TOOL_POLICY.allowedTools,
+      disallowedTools: NETWORK_TOOLS
+    });
+  });
+
+  it('should bypass permission checks only for an unrestricted policy', () => {
+    expect(new ToolPolicy({ ...config, unrestricted: true }).queryOptions()).toEqual({ permissionMode: 'bypassPermissions' });
+  });
+
+  it('should turn the policy into query options', () => {
+    expect(new ToolPolicy(config).queryOptions()).toEqual({
+      permissionMode: 'default',
+      allowedTools: ['Read', 'Edit', 'Bash(npm test)', 'Bash(npm run lint:*)'],
+      disallowedTools: ['Task', ...NETWORK_TOOLS]
+    });
+
+    expect(new ToolPolicy({ ...config, network: true }).queryOptions().disallowedTools).toEqual(['Task']);
+  });
+
+  it('should record tool calls that were denied', () => {
+    const policy = new ToolPolicy(config);
+
+    expect(policy.record(assistantMessage([
+      { type: 'tool_use', id: 'tool-1', name: 'Bash', input: { command: 'curl https://example.com\necho done' } },
+      { type: 'tool_use', id: 'tool-2', name: 'Read', input: { file_path: 'missing.ts' } }
+    ]))).toEqual([]);
+
+    const denied = policy.record(toolResultMessage([
+      {
+        type: 'tool_result',
+        tool_use_id: 'tool-1',
+        is_error: true,
+        content: 'Claude requested permissions to use Bash, but you haven\'t granted it yet.'
+      },
+      { type: 'tool_result', tool_use_id: 'tool-2', is_error: true, content: [{ type: 'text', text: 'File does not exist.' }] }
+    ]));
+
+    expect(denied).toEqual([{
+      tool: 'Bash',
+      input: 'curl https://example.com',
+      reason: 'Claude requested permissions to use Bash, but you haven\'t granted it yet.'
+    }]);
+    expect(policy.denied).toEqual(denied);
+  });
+});
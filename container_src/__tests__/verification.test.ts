@@ -0,0 +1,67 @@
+/**
+ * Tests for the build and test verification stage
+ */
+
+import {
+  runVerification,
+  prepareRepairPrompt,
+  formatVerificationReport,
+  truncateOutput
+} from '../src/verification';
+
+describe('Verification stage', () => {
+  const commands = { buildCommands: ['npm run build'], testCommands: ['npm test', 'npm run lint'] };
+
+  it('should run build then test commands and pass when all succeed', async () => {
+    const ran: string[] = [];
+    const result = await runVerification(commands, async command => {
+      ran.push(command);
+      return { exitCode: 0, output: 'ok' };
+    });
+
+    expect(ran).toEqual(['npm run build', 'npm test', 'npm run lint']);
+    expect(result.passed).toBe(true);
+    expect(result.steps.map(step => step.kind)).toEqual(['build', 'test', 'test']);
+  });
+
+  it('should stop at the first failure and ask Claude to fix it', async () => {
+    const result = await runVerification(commands, async command =>
+      command === 'npm test'
+        ? { exitCode: 1, output: 'FAIL src/dates.test.ts\nExpected UTC' }
+        : { exitCode: 0, output: '' }
+    , 1);
+
+    expect(result.passed).toBe(false);
+    expect(result.steps).toHaveLength(2);
+    expect(result.repairAttempts).toBe(1);
+
+    const prompt = prepareRepairPrompt(result);
+    expect(prompt).toContain('The test command `npm test` failed');
+    expect(prompt).toContain('Expected UTC');
+    expect(prompt).toContain('Do not weaken, skip or delete tests');
+  });
+
+  it('should summarise results and the failing output for the pull request', async () => {
+    let now = 0;
+    const result = await runVerification(
+      { buildCommands: [], testCommands: ['npm test'] },
+      async () => {
+        now += 65_000;
+        return { exitCode: 2, output: 'boom' };
+      },
+      2,
+      () => now
+    );
+
+    const report = formatVerificationReport(result);
+    expect(report).toContain('## ❌ Verification failed after 2 repair attempts');
+    expect(report).toContain('| test | `npm test` | failed (exit 2) | 1m 5s |');
+    expect(report).toContain('<summary>Output of `npm test`</summary>');
+    expect(report).toContain('boom');
+  });
+
+  it('should keep the end of long output', () => {
+    const output = truncateOutput(`${'a'.repeat(50)}THE ERROR`, 9);
+    expect(output).toBe('…(50 earlier characters omitted)\nTHE ERROR');
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Bitbucket Cloud API Client
+ * Branches, pull requests and comments over the 2.0 REST API, authenticated with an app password
+ */
+
+import axios, { AxiosInstance } from 'axios';
+
+export interface BitbucketClientConfig {
+  username: string;
+  appPassword: string;
+  repository: string;
+  apiUrl?: string;
+  timeout?: number;
+  maxRetries?: number;
+}
+
+export type BitbucketCommentTarget = 'issue' | 'pullrequest';
+
+export interface BitbucketAPIError extends Error {
+  statusCode?: number;
+  responseBody?: string;
+}
+
+export class BitbucketClient {
+  public readonly username: string;
+  public readonly repository: string;
+  public readonly apiUrl: string;
+  public readonly timeout: number;
+  public readonly maxRetries: number;
+
+  private axiosInstance: AxiosInstance;
+
+  constructor(config: BitbucketClientConfig) {
+    this.username = config.username;
+    this.repository = config.repository;
+    this.apiUrl = (config.apiUrl || 'https://api.bitbucket.org/2.0').replace(/\/$/, '');
+    this.timeout = config.timeout || 30;
+    this.maxRetries = config.maxRetries ?? 3;
+
+    this.axiosInstance = this.createAxiosInstance(config.appPassword);
+
+    this.logWithContext('Bitbucket client initialized', {
+      apiUrl: this.apiUrl,
+      repository: this.repository,
+      username: this.username,
+    });
+  }
+
+  async getRepository(): Promise<any> {
+    try {
+      const response = await this.axiosInstance.get(this.repositoryUrl());
+      return response.data;
+    } catch (error) {
+      this.logWithContext('Failed to get repository', {
+        error: (error as Error).message,
+      });
+      throw this.createBitbucketError(`Failed to get repository ${this.repository}`, error);
+    }
+  }
+
+  async createBranch(name: string, targetHash: string): Promise<any> {
+    try {
+      const response = await this.axiosInstance.post(`${this.repositoryUrl()}/refs/branches`, {
+        name,
+        target: { hash: targetHash }
+      });
+      this.logWithContext('Created branch', { name, targetHash });
+      return response.data;
+    } catch (error) {
+      this.logWithContext('Failed to create branch', {
+        name,
+        error: (error as Error).message,
+      });
+      throw this.createBitbucketError(`Failed to create branch ${name}`, error);
+    }
+  }
+
+  async createPullRequest(
+    sourceBranch: string,
+    destinationBranch: string,
+    title: string,
+    description: string,
+    draft: boolean = false
+  ): Promise<any> {
+    try {
+      const response = await this.axiosInstance.post(`${this.repositoryUrl()}/pullrequests`, {
+        title,
+        description,
+        source: { branch: { name: sourceBranch } },
+        destination: { branch: { name: destinationBranch } },
+        close_source_branch: true,
+        draft
+      });
+      this.logWithContext('Created pull request', {
+        id: response.data?.id,
+        sourceBranch,
+        destinationBranch,
+      });
+      return response.data;
+    } catch (error) {
+      this.logWithContext('Failed to create pull request', {
+        sourceBranch,
+        destinationBranch,
+        error: (error as Error).message,
+      });
+      throw this.createBitbucketError(`Failed to create pull request from ${sourceBranch}`, error);
+    }
+  }
+
+  // Post a comment on an issue or pull request, returning its ID (used for progress comments)
+  async createComment(target: BitbucketCommentTarget, id: number, body: string): Promise<number> {
+    try {
+      const response = await this.axiosInstance.post(this.commentsUrl(target, id), {
+        content: { raw: body }
+      });
+      return response.data.id;
+    } catch (error) {
+      this.logWithContext('Failed to create comment', {
+        target,
+        id,
+        error: (error as Error).message,
+      });
+      throw this.createBitbucketError(`Failed to create comment on ${target} ${id}`, error);
+    }
+  }
+
+  async updateComment(target: BitbucketCommentTarget, id: number, commentId: number, body: string): Promise<void> {
+    try {
+      await this.axiosInstance.put(`${this.commentsUrl(target, id)}/${commentId}`, {
+        content: { raw: body }
+      });
+    } catch (error) {
+      this.logWithContext('Failed to update comment', {
+        target,
+        id,
+        commentId,
+        error: (error as Error).message,
+      });
+      throw this.createBitbucketError(`Failed to update comment ${commentId} on ${target} ${id}`, error);
+    }
+  }
+
+  // Reply to a comment on a pull request; replies nest under their parent comment
+  async replyToComment(prId: number, parentId: number, body: string): Promise<number> {
+    try {
+      const response = await this.axiosInstance.post(this.commentsUrl('pullrequest', prId), {
+        content: { raw: body },
+        parent: { id: parentId }
+      });
+      return response.data.id;
+    } catch (error) {
+      this.logWithContext('Failed to reply to comment', {
+        prId,
+        parentId,
+        error: (error as Error).message,
+      });
+      throw this.createBitbucketError(`Failed to reply to comment ${parentId} on pull request ${prId}`, error);
+    }
+  }
+
+  // Comment on a line of the new version of a file in the pull request's diff
+  async createInlineComment(prId: number, filePath: string, line: number, body: string): Promise<number> {
+    try {
+      const response = await this.axiosInstance.post(this.commentsUrl('pullrequest', prId), {
+        content: { raw: body },
+        inline: { path: filePath, to: line }
+      });
+      return response.data.id;
+    } catch (error) {
+      this.logWithContext('Failed to create inline comment', {
+        prId,
+        filePath,
+        line,
+        error: (error as Error).message,
+      });
+      throw this.createBitbucketError(`Failed to comment on ${filePath}:${line} in pull request ${prId}`, error);
+    }
+  }
+
+  // The pull request's changes as one unified diff
+  async getPullRequestDiff(prId: number): Promise<string> {
+    try {
+      const response = await this.axiosInstance.get(`${this.repositoryUrl()}/pullrequests/${prId}/diff`, {
+        responseType: 'text',
+        transformResponse: data => data
+      });
+      return response.data;
+    } catch (error) {
+      this.logWithContext('Failed to get pull request diff', {
+        prId,
+        error: (error as Error).message,
+      });
+      throw this.createBitbucketError(`Failed to get diff of pull request ${prId}`, error);
+    }
+  }
+
+  // Contents of a file at a branch, tag or commit, or null when it doesn't exist there
+  async getFileContent(filePath: string, ref: string): Promise<string | null> {
+    try {
+      const encodedPath = filePath.split('/').map(encodeURIComponent).join('/');
+      const response = await this.axiosInstance.get(`${this.repositoryUrl()}/src/${encodeURIComponent(ref)}/${encodedPath}`, {
+        responseType: 'text',
+        transformResponse: data => data
+      });
+      return response.data;
+    } catch (error) {
+      if ((error as any).response?.status === 404) {
+        return null;
+      }
+      this.logWithContext('Failed to read file', {
+        filePath,
+        ref,
+        error: (error as Error).message,
+      });
+      throw this.createBitbucketError(`Failed to read ${filePath} at ${ref}`, error);
+    }
+  }
+
+  private repositoryUrl(): string {
+    const [workspace, slug] = this.repository.split('/');
+    return `${this.apiUrl}/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(slug)}`;
+  }
+
+  private commentsUrl(target: BitbucketCommentTarget, id: number): string {
+    return `${this.repositoryUrl()}/${target === 'issue' ? 'issues' : 'pullrequests'}/${id}/comments`;
+  }
+
+  private createAxiosInstance(appPassword: string): AxiosInstance {
+    const instance = axios.create({
+      timeout: this.timeout * 1000,
+      auth: {
+        username: this.username,
+        password: appPassword,
+      },
+    });
+
+    // Bitbucket rate limits per hour; retry rate limits and server errors with exponential backoff
+    instance.interceptors.response.use(
+      response => response,
+      async error => {
+        const config = error.config;
+
+        if (!config || (config._retryCount || 0) >= this.maxRetries) {
+          return Promise.reject(error);
+        }
+
+        const retriableStatuses = [429, 500, 502, 503, 504];
+        if (!retriableStatuses.includes(error.response?.status)) {
+          return Promise.reject(error);
+        }
+
+        config._retryCount = (config._retryCount || 0) + 1;
+        const delay = Math.pow(2, config._retryCount - 1) * 1000;
+
+        this.logWithContext('Retrying request', {
+          attempt: config._retryCount,
+          maxRetries: this.maxRetries,
+          delay,
+          status: error.response?.status,
+        });
+
+        await new Promise(resolve => setTimeout(resolve, delay));
+        return instance(config);
+      }
+    );
+
+    return instance;
+  }
+
+  private createBitbucketError(message: string, originalError: any): BitbucketAPIError {
+    const error = new Error(message) as BitbucketAPIError;
+    error.statusCode = originalError?.response?.status;
+    error.responseBody = originalError?.response?.data;
+    return error;
+  }
+
+  private logWithContext(message: string, data?: any): void {
+    const timestamp = new Date().toISOString();
+    const logMessage = `[${timestamp}] [BITBUCKET_CLIENT] ${message}`;
+
+    if (data) {
+      console.log(logMessage, JSON.stringify(data, null, 2));
+    } else {
+      console.log(logMessage);
+    }
+  }
+}
@@ -0,0 +1,57 @@
+// Tracks the run in progress for each issue so it can be cancelled from another request
+// (the issue was closed, the trigger label removed, or someone asked Claude to stop).
+
+export class RunCancelledError extends Error {
+  readonly cancelledBy: string;
+
+  constructor(cancelledBy: string) {
+    super(`Run cancelled by @${cancelledBy}`);
+    this.name = 'RunCancelledError';
+    this.cancelledBy = cancelledBy;
+  }
+}
+
+export class ActiveRuns {
+  private readonly runs = new Map<string, AbortController>();
+
+  // Register a new run for the key; a run that is somehow still registered is superseded
+  start(key: string, controller: AbortController = new AbortController()): AbortController {
+    this.runs.set(key, controller);
+    return controller;
+  }
+
+  // Only the run that registered the key may remove it
+  finish(key: string, controller: AbortController): void {
+    if (this.runs.get(key) === controller) {
+      this.runs.delete(key);
+    }
+  }
+
+  // Abort the run for the key, returning false when nothing is running
+  cancel(key: string, cancelledBy: string): boolean {
+    const controller = this.runs.get(key);
+    if (!controller || controller.signal.aborted) {
+      return false;
+    }
+
+    controller.abort(new RunCancelledError(cancelledBy));
+    return true;
+  }
+
+  isActive(key: string): boolean {
+    return this.runs.has(key);
+  }
+}
+
+// The cancellation behind an aborted signal, if it was aborted by ActiveRuns.cancel
+export function getCancellation(signal: AbortSignal): RunCancelledError | null {
+  return signal.aborted && signal.reason instanceof RunCancelledError ? signal.reason : null;
+}
+
+// Call between steps so nothing further (e.g. a push) happens after a cancellation
+export function throwIfCancelled(signal: AbortSignal): void {
+  const cancellation = getCancellation(signal);
+  if (cancellation) {
+    throw cancellation;
+  }
+}
@@ -0,0 +1,208 @@
+import type { ToolPolicyConfig } from './tool_policy.js';
+
+// Review mode: Claude reads a pull request or merge request and answers with a verdict,
+// a summary and comments on lines of the diff. The run must never change the code, so
+// it gets a read-only tool policy whatever the repository allows, and nothing is pushed.
+
+export type ReviewVerdict = 'approve' | 'comment' | 'request_changes';
+
+export interface ReviewFinding {
+  path: string;
+  // Line in the new version of the file
+  line: number;
+  body: string;
+}
+
+export interface CodeReview {
+  verdict: ReviewVerdict;
+  summary: string;
+  comments: ReviewFinding[];
+}
+
+// A changed file with its unified diff hunks
+export interface ChangedFile {
+  path: string;
+  status?: string;
+  patch: string;
+}
+
+export const READ_ONLY_TOOL_POLICY: ToolPolicyConfig = {
+  allowedTools: ['Read', 'Grep', 'Glob', 'LS', 'Bash(git diff:*)', 'Bash(git log:*)', 'Bash(git show:*)'],
+  disallowedTools: ['Edit', 'MultiEdit', 'Write', 'NotebookEdit'],
+  bashCommands: [],
+  network: false
+};
+
+// Diff text given to Claude; larger diffs are cut and Claude reads the rest from the checkout
+export const MAX_PROMPT_DIFF_LENGTH = 60_000;
+
+const VERDICTS: ReviewVerdict[] = ['approve', 'comment', 'request_changes'];
+
+const VERDICT_LABELS: Record<ReviewVerdict, string> = {
+  approve: '✅ Looks good to merge',
+  comment: '💬 Comments, nothing blocking',
+  request_changes: '❌ Changes requested'
+};
+
+// Lines of the new file that a diff shows (added or unchanged context), which are the
+// only lines a review comment can be anchored to
+export function commentableLines(patch: string): Set<number> {
+  const lines = new Set<number>();
+  let newLine = 0;
+
+  for (const line of patch.split('\n')) {
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunk) {
+      newLine = parseInt(hunk[1], 10);
+      continue;
+    }
+    if (newLine === 0 || line.startsWith('\\')) {
+      continue;
+    }
+    if (line.startsWith('+') || line.startsWith(' ')) {
+      lines.add(newLine++);
+    }
+  }
+
+  return lines;
+}
+
+// Split a multi-file unified diff (`diff --git` sections) into files
+export function splitUnifiedDiff(diff: string): ChangedFile[] {
+  const files: ChangedFile[] = [];
+
+  for (const section of diff.split(/^(?=diff --git )/m)) {
+    const header = section.match(/^diff --git a\/(.+?) b\/(.+)$/m);
+    if (!header) {
+      continue;
+    }
+    const hunkStart = section.search(/^@@ /m);
+    files.push({
+      path: header[2],
+      status: /^deleted file mode/m.test(section) ? 'removed' : /^new file mode/m.test(section) ? 'added' : 'modified',
+      patch: hunkStart === -1 ? '' : section.substring(hunkStart).trimEnd()
+    });
+  }
+
+  return files;
+}
+
+// Diff of the changed files for the prompt, cut at MAX_PROMPT_DIFF_LENGTH
+export function formatDiffForPrompt(files: ChangedFile[]): string {
+  let text = '';
+  const omitted: string[] = [];
+
+  for (const file of files) {
+    const section = `### ${file.path}${file.status ? ` (${file.status})` : ''}\n\`\`\`diff\n${file.patch || '(no textual diff)'}\n\`\`\`\n`;
+    if (text.length + section.length > MAX_PROMPT_DIFF_LENGTH) {
+      omitted.push(file.path);
+      continue;
+    }
+    text += section;
+  }
+
+  if (omitted.length > 0) {
+    text += `\nThe diff is too long to include in full. Read these files from the checkout instead: ${omitted.join(', ')}\n`;
+  }
+
+  return text;
+}
+
+// Read the review from Claude's final response: the last ```json block, or the whole response
+export function parseCodeReview(response: string): CodeReview | null {
+  const blocks = [...response.matchAll(/```json\s*\n([\s\S]*?)```/g)];
+  const candidate = blocks.length > 0 ? blocks[blocks.length - 1][1] : response;
+
+  let raw: any;
+  try {
+    raw = JSON.parse(candidate.trim());
+  } catch {
+    return null;
+  }
+
+  if (!raw || typeof raw !== 'object' || typeof raw.summary !== 'string') {
+    return null;
+  }
+
+  const comments: ReviewFinding[] = Array.isArray(raw.comments)
+    ? raw.comments
+        .filter((comment: any) => typeof comment?.path === 'string' && Number.isInteger(comment.line) && typeof comment.body === 'string' && comment.body.trim())
+        .map((comment: any) => ({ path: comment.path.replace(/^\.?\//, ''), line: comment.line, body: comment.body.trim() }))
+    : [];
+
+  return {
+    verdict: VERDICTS.includes(raw.verdict) ? raw.verdict : 'comment',
+    summary: raw.summary.trim(),
+    comments
+  };
+}
+
+// Split review comments into those on lines the diff shows and the rest, which can only
+// go into the summary
+export function anchorComments(
+  comments: ReviewFinding[],
+  files: ChangedFile[]
+): { anchored: ReviewFinding[]; unanchored: ReviewFinding[] } {
+  const lines = new Map(files.map(file => [file.path, commentableLines(file.patch)]));
+  const anchored: ReviewFinding[] = [];
+  const unanchored: ReviewFinding[] = [];
+
+  for (const comment of comments) {
+    (lines.get(comment.path)?.has(comment.line) ? anchored : unanchored).push(comment);
+  }
+
+  return { anchored, unanchored };
+}
+
+// Summary posted with the review: the verdict, Claude's summary and any comments that
+// couldn't be placed on the diff
+export function formatReviewSummary(review: CodeReview, unanchored: ReviewFinding[], transcriptUrl?: string): string {
+  let body = `🤖 **Claude Code Review**\n\n**Verdict:** ${VERDICT_LABELS[review.verdict]}\n\n${review.summary}`;
+
+  if (unanchored.length > 0) {
+    body += '\n\n**Other notes**\n';
+    for (const comment of unanchored) {
+      body += `\n- \`${comment.path}:${comment.line}\`: ${comment.body}`;
+    }
+  }
+
+  body += '\n\n---\n🤖 Generated with [Claude Code](https://claude.ai/code). This review did not change any code.';
+  if (transcriptUrl) {
+    body += ` [Full transcript](${transcriptUrl})`;
+  }
+
+  return body;
+}
+
+// Prompt asking Claude to review a change without modifying it
+export function prepareCodeReviewPrompt(change: {
+  kind: 'pull request' | 'merge request';
+  reference: string;
+  title: string;
+  description: string;
+  author: string;
+  sourceBranch: string;
+  targetBranch: string;
+  files: ChangedFile[];
+  promptInstructions?: string;
+}): string {
+  return `
+Please review ${change.kind} ${change.reference}: "${change.title}" by @${change.author}, which merges '${change.sourceBranch}' into '${change.targetBranch}'.
+
+Description:
+${change.description || '(none)'}
+
+The ${change.kind}'s code is checked out in your current working directory. You may read files and run git diff, git log and git show, but you must NOT modify any files: this is a review only.
+
+Changed files:
+${formatDiffForPrompt(change.files)}
+Review the change for bugs, security problems, missing tests and error handling, and for consistency with the surrounding code. Only comment where it matters; don't restate what the code does or nitpick style a linter would catch.
+${change.promptInstructions ? `\nRepository instructions:\n${change.promptInstructions}\n` : ''}
+Finish with your review as a single JSON object in a \`\`\`json code block:
+{
+  "verdict": "approve" | "comment" | "request_changes",
+  "summary": "A short overall assessment in Markdown",
+  "comments": [{ "path": "path/to/file", "line": 42, "body": "What is wrong and how to fix it" }]
+}
+Each comment's "line" must be a line number in the new version of the file that appears in the diff above (an added or context line).`;
+}
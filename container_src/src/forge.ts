@@ -0,0 +1,411 @@
+import type { ContainerGitHubClient } from './github_client.js';
+import type { GitLabClient } from './gitlab_client.js';
+import type { BitbucketClient } from './bitbucket_client.js';
+import type { GiteaClient } from './gitea_client.js';
+import { ChangedFile, ReviewFinding, splitUnifiedDiff } from './code_review.js';
+
+// The issue, comment and review pipelines in main.ts talk to every forge through this
+// interface. Anything that differs between forges (clone authentication, how drafts are
+// marked, how pull/merge requests are referenced) belongs in an implementation here.
+
+// An issue, or a pull request / merge request (a "change request"), that comments go on
+export interface ForgeThread {
+  kind: 'issue' | 'change_request';
+  number: number;
+}
+
+export interface NewChangeRequest {
+  sourceBranch: string;
+  targetBranch: string;
+  title: string;
+  body: string;
+  draft: boolean;
+}
+
+export interface CreatedChangeRequest {
+  number: number;
+  url: string;
+}
+
+export interface ForgeProvider {
+  // Shown in prompts and messages, e.g. 'GitHub'
+  readonly name: string;
+  // 'pull request' or 'merge request'
+  readonly changeRequestNoun: string;
+  // Path of the repository on the forge, e.g. 'acme/widgets'
+  readonly repository: string;
+  // Mention that always triggers runs on this forge, named in prompts; unset where the
+  // repository configuration chooses the mention
+  readonly mention?: string;
+
+  // How the forge refers to an issue or change request in text, e.g. '#12' or '!12'
+  reference(thread: ForgeThread): string;
+  // Line in a change request description that closes the issue when it is merged
+  closingReference(issueNumber: number): string;
+  // The clone URL with credentials git can push with
+  authenticatedCloneUrl(cloneUrl: string): string;
+
+  getDefaultBranch(): Promise<string>;
+  // Open a change request; forges without a draft flag mark drafts in the title
+  createChangeRequest(request: NewChangeRequest): Promise<CreatedChangeRequest>;
+
+  // Comments return their ID so progress comments can be edited in place
+  createComment(thread: ForgeThread, body: string): Promise<number>;
+  updateComment(thread: ForgeThread, commentId: number, body: string): Promise<void>;
+  // Reply within a review thread on a change request: a review comment ID or a discussion ID
+  replyToReviewThread(changeNumber: number, threadId: string, body: string): Promise<void>;
+
+  // Files changed by a change request, with their diff hunks
+  listChangedFiles(changeNumber: number): Promise<ChangedFile[]>;
+  // Ref the change request's head can be fetched from, which also covers source branches in forks
+  changeHeadRef(changeNumber: number, sourceBranch: string): string;
+  // Post review comments on lines of the diff at headSha, and a summary built from the
+  // comments the forge could not place on the diff
+  postReview(
+    changeNumber: number,
+    headSha: string,
+    comments: ReviewFinding[],
+    formatSummary: (unplaced: ReviewFinding[]) => string
+  ): Promise<void>;
+
+  // Contents of a file at a branch, tag or commit, or null when it doesn't exist there
+  readFile(filePath: string, ref: string): Promise<string | null>;
+}
+
+// Put credentials into the user part of an HTTP(S) clone URL
+function withCredentials(cloneUrl: string, credentials: string): string {
+  return cloneUrl.replace(/^(https?):\/\/(?:[^@\/]+@)?([^\/]+)\//, `$1://${credentials}@$2/`);
+}
+
+// Remove credentials from a clone URL, or from git output that quotes one
+export function redactCredentials(text: string): string {
+  return text.replace(/(https?:\/\/)[^@\/\s]+@/g, '$1***@');
+}
+
+export class GitHubForge implements ForgeProvider {
+  readonly name = 'GitHub';
+  readonly changeRequestNoun = 'pull request';
+
+  constructor(
+    private readonly client: ContainerGitHubClient,
+    private readonly token: string,
+    readonly repository: string
+  ) {}
+
+  reference(thread: ForgeThread): string {
+    return `#${thread.number}`;
+  }
+
+  closingReference(issueNumber: number): string {
+    return `Fixes #${issueNumber}`;
+  }
+
+  authenticatedCloneUrl(cloneUrl: string): string {
+    return withCredentials(cloneUrl, `x-access-token:${encodeURIComponent(this.token)}`);
+  }
+
+  async getDefaultBranch(): Promise<string> {
+    return (await this.client.getRepository()).default_branch;
+  }
+
+  async createChangeRequest(request: NewChangeRequest): Promise<CreatedChangeRequest> {
+    const pullRequest = await this.client.createPullRequest(
+      request.title,
+      request.body,
+      request.sourceBranch,
+      request.targetBranch,
+      request.draft
+    );
+    return { number: pullRequest.number, url: pullRequest.html_url };
+  }
+
+  // Issues and pull requests share numbers and the comments API
+  createComment(thread: ForgeThread, body: string): Promise<number> {
+    return this.client.createComment(thread.number, body);
+  }
+
+  updateComment(_thread: ForgeThread, commentId: number, body: string): Promise<void> {
+    return this.client.updateComment(commentId, body);
+  }
+
+  replyToReviewThread(changeNumber: number, threadId: string, body: string): Promise<void> {
+    return this.client.replyToReviewComment(changeNumber, parseInt(threadId), body);
+  }
+
+  async listChangedFiles(changeNumber: number): Promise<ChangedFile[]> {
+    return (await this.client.listPullRequestFiles(changeNumber))
+      .map(file => ({ path: file.filename, status: file.status, patch: file.patch || '' }));
+  }
+
+  changeHeadRef(changeNumber: number): string {
+    return `pull/${changeNumber}/head`;
+  }
+
+  // One review holds every comment; GitHub rejects the whole review if a comment can't be placed,
+  // which anchorComments() guards against
+  async postReview(
+    changeNumber: number,
+    headSha: string,
+    comments: ReviewFinding[],
+    formatSummary: (unplaced: ReviewFinding[]) => string
+  ): Promise<void> {
+    await this.client.createReview(changeNumber, headSha, formatSummary([]), comments);
+  }
+
+  readFile(filePath: string, ref: string): Promise<string | null> {
+    return this.client.getFileContent(filePath, ref);
+  }
+}
+
+export class GitLabForge implements ForgeProvider {
+  readonly name = 'GitLab';
+  readonly mention = '@duo-agent';
+  readonly changeRequestNoun = 'merge request';
+
+  constructor(
+    private readonly client: GitLabClient,
+    private readonly token: string,
+    readonly repository: string
+  ) {}
+
+  reference(thread: ForgeThread): string {
+    return thread.kind === 'issue' ? `#${thread.number}` : `!${thread.number}`;
+  }
+
+  closingReference(issueNumber: number): string {
+    return `Closes #${issueNumber}`;
+  }
+
+  authenticatedCloneUrl(cloneUrl: string): string {
+    return withCredentials(cloneUrl, `oauth2:${encodeURIComponent(this.token)}`);
+  }
+
+  async getDefaultBranch(): Promise<string> {
+    return (await this.client.getProject()).default_branch;
+  }
+
+  // GitLab marks merge requests as drafts through the title prefix
+  async createChangeRequest(request: NewChangeRequest): Promise<CreatedChangeRequest> {
+    const mergeRequest = await this.client.createMergeRequest(
+      request.sourceBranch,
+      request.targetBranch,
+      request.draft ? `Draft: ${request.title}` : request.title,
+      request.body
+    );
+    return { number: mergeRequest.iid, url: mergeRequest.web_url };
+  }
+
+  createComment(thread: ForgeThread, body: string): Promise<number> {
+    return this.client.createNote(thread.kind === 'issue' ? 'issue' : 'merge_request', thread.number, body);
+  }
+
+  updateComment(thread: ForgeThread, commentId: number, body: string): Promise<void> {
+    return this.client.updateNote(thread.kind === 'issue' ? 'issue' : 'merge_request', thread.number, commentId, body);
+  }
+
+  replyToReviewThread(changeNumber: number, threadId: string, body: string): Promise<void> {
+    return this.client.createDiscussionNote(changeNumber, threadId, body);
+  }
+
+  async listChangedFiles(changeNumber: number): Promise<ChangedFile[]> {
+    return splitUnifiedDiff(await this.client.getMergeRequestDiff(changeNumber));
+  }
+
+  changeHeadRef(changeNumber: number): string {
+    return `refs/merge-requests/${changeNumber}/head`;
+  }
+
+  // Each comment becomes a diff discussion. GitLab rejects positions it can't map to the diff,
+  // and those go into the summary note instead.
+  async postReview(
+    changeNumber: number,
+    _headSha: string,
+    comments: ReviewFinding[],
+    formatSummary: (unplaced: ReviewFinding[]) => string
+  ): Promise<void> {
+    const diffRefs: { base_sha: string; head_sha: string; start_sha: string } | undefined =
+      (await this.client.getMergeRequest(changeNumber)).diff_refs;
+
+    const unplaced: ReviewFinding[] = [];
+    for (const comment of comments) {
+      if (!diffRefs) {
+        unplaced.push(comment);
+        continue;
+      }
+
+      try {
+        await this.client.createDiffDiscussion(changeNumber, comment.body, comment.path, comment.line, {
+          base_commit_sha: diffRefs.base_sha,
+          head_commit_sha: diffRefs.head_sha,
+          start_commit_sha: diffRefs.start_sha
+        });
+      } catch {
+        unplaced.push(comment);
+      }
+    }
+
+    await this.client.postComment(changeNumber, formatSummary(unplaced));
+  }
+
+  readFile(filePath: string, ref: string): Promise<string | null> {
+    return this.client.getFileContent(filePath, ref);
+  }
+}
+
+export class BitbucketForge implements ForgeProvider {
+  readonly name = 'Bitbucket';
+  readonly changeRequestNoun = 'pull request';
+
+  constructor(
+    private readonly client: BitbucketClient,
+    private readonly username: string,
+    private readonly appPassword: string,
+    readonly repository: string
+  ) {}
+
+  reference(thread: ForgeThread): string {
+    return `#${thread.number}`;
+  }
+
+  closingReference(issueNumber: number): string {
+    return `Fixes #${issueNumber}`;
+  }
+
+  // App passwords may contain characters that are not valid in a URL
+  authenticatedCloneUrl(cloneUrl: string): string {
+    return withCredentials(cloneUrl, `${encodeURIComponent(this.username)}:${encodeURIComponent(this.appPassword)}`);
+  }
+
+  async getDefaultBranch(): Promise<string> {
+    return (await this.client.getRepository()).mainbranch.name;
+  }
+
+  async createChangeRequest(request: NewChangeRequest): Promise<CreatedChangeRequest> {
+    const pullRequest = await this.client.createPullRequest(
+      request.sourceBranch,
+      request.targetBranch,
+      request.title,
+      request.body,
+      request.draft
+    );
+    return { number: pullRequest.id, url: pullRequest.links?.html?.href };
+  }
+
+  createComment(thread: ForgeThread, body: string): Promise<number> {
+    return this.client.createComment(thread.kind === 'issue' ? 'issue' : 'pullrequest', thread.number, body);
+  }
+
+  updateComment(thread: ForgeThread, commentId: number, body: string): Promise<void> {
+    return this.client.updateComment(thread.kind === 'issue' ? 'issue' : 'pullrequest', thread.number, commentId, body);
+  }
+
+  async replyToReviewThread(changeNumber: number, threadId: string, body: string): Promise<void> {
+    await this.client.replyToComment(changeNumber, parseInt(threadId), body);
+  }
+
+  async listChangedFiles(changeNumber: number): Promise<ChangedFile[]> {
+    return splitUnifiedDiff(await this.client.getPullRequestDiff(changeNumber));
+  }
+
+  // Bitbucket has no refs for pull request heads, so the source branch is fetched
+  changeHeadRef(_changeNumber: number, sourceBranch: string): string {
+    return sourceBranch;
+  }
+
+  // Inline comments are posted one by one; those Bitbucket rejects go into the summary
+  async postReview(
+    changeNumber: number,
+    _headSha: string,
+    comments: ReviewFinding[],
+    formatSummary: (unplaced: ReviewFinding[]) => string
+  ): Promise<void> {
+    const unplaced: ReviewFinding[] = [];
+    for (const comment of comments) {
+      try {
+        await this.client.createInlineComment(changeNumber, comment.path, comment.line, comment.body);
+      } catch {
+        unplaced.push(comment);
+      }
+    }
+
+    await this.client.createComment('pullrequest', changeNumber, formatSummary(unplaced));
+  }
+
+  readFile(filePath: string, ref: string): Promise<string | null> {
+    return this.client.getFileContent(filePath, ref);
+  }
+}
+
+export class GiteaForge implements ForgeProvider {
+  readonly name = 'Gitea';
+  readonly changeRequestNoun = 'pull request';
+
+  constructor(
+    private readonly client: GiteaClient,
+    private readonly token: string,
+    readonly repository: string
+  ) {}
+
+  reference(thread: ForgeThread): string {
+    return `#${thread.number}`;
+  }
+
+  closingReference(issueNumber: number): string {
+    return `Fixes #${issueNumber}`;
+  }
+
+  // Gitea accepts a token as the password for any username; self-hosted instances may serve plain HTTP
+  authenticatedCloneUrl(cloneUrl: string): string {
+    return withCredentials(cloneUrl, `oauth2:${encodeURIComponent(this.token)}`);
+  }
+
+  async getDefaultBranch(): Promise<string> {
+    return (await this.client.getRepository()).default_branch;
+  }
+
+  // Gitea has no draft flag; a "WIP:" title prefix marks the pull request as work in progress
+  async createChangeRequest(request: NewChangeRequest): Promise<CreatedChangeRequest> {
+    const pullRequest = await this.client.createPullRequest(
+      request.sourceBranch,
+      request.targetBranch,
+      request.draft ? `WIP: ${request.title}` : request.title,
+      request.body
+    );
+    return { number: pullRequest.number, url: pullRequest.html_url };
+  }
+
+  // Issues and pull requests share numbers and the comments API
+  createComment(thread: ForgeThread, body: string): Promise<number> {
+    return this.client.createComment(thread.number, body);
+  }
+
+  updateComment(_thread: ForgeThread, commentId: number, body: string): Promise<void> {
+    return this.client.updateComment(commentId, body);
+  }
+
+  // Gitea's API can't reply within a review thread, so the reply goes on the pull request
+  async replyToReviewThread(changeNumber: number, _threadId: string, body: string): Promise<void> {
+    await this.client.createComment(changeNumber, body);
+  }
+
+  async listChangedFiles(changeNumber: number): Promise<ChangedFile[]> {
+    return splitUnifiedDiff(await this.client.getPullRequestDiff(changeNumber));
+  }
+
+  changeHeadRef(changeNumber: number): string {
+    return `refs/pull/${changeNumber}/head`;
+  }
+
+  async postReview(
+    changeNumber: number,
+    headSha: string,
+    comments: ReviewFinding[],
+    formatSummary: (unplaced: ReviewFinding[]) => string
+  ): Promise<void> {
+    await this.client.createReview(changeNumber, headSha, formatSummary([]), comments);
+  }
+
+  readFile(filePath: string, ref: string): Promise<string | null> {
+    return this.client.getFileContent(filePath, ref);
+  }
+}
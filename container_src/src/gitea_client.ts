@@ -0,0 +1,236 @@
+/**
+ * Gitea / Forgejo API Client
+ * Repositories, pull requests and comments over the /api/v1 REST API, authenticated with an access token
+ */
+
+import axios, { AxiosInstance } from 'axios';
+
+export interface GiteaClientConfig {
+  giteaUrl: string;
+  token: string;
+  repository: string;
+  timeout?: number;
+  maxRetries?: number;
+}
+
+export interface GiteaAPIError extends Error {
+  statusCode?: number;
+  responseBody?: string;
+}
+
+export class GiteaClient {
+  public readonly giteaUrl: string;
+  public readonly repository: string;
+  public readonly apiUrl: string;
+  public readonly timeout: number;
+  public readonly maxRetries: number;
+
+  private axiosInstance: AxiosInstance;
+
+  constructor(config: GiteaClientConfig) {
+    this.giteaUrl = config.giteaUrl.replace(/\/$/, '');
+    this.repository = config.repository;
+    this.apiUrl = `${this.giteaUrl}/api/v1`;
+    this.timeout = config.timeout || 30;
+    this.maxRetries = config.maxRetries ?? 3;
+
+    this.axiosInstance = this.createAxiosInstance(config.token);
+
+    this.logWithContext('Gitea client initialized', {
+      apiUrl: this.apiUrl,
+      repository: this.repository,
+    });
+  }
+
+  async getRepository(): Promise<any> {
+    try {
+      const response = await this.axiosInstance.get(this.repositoryUrl());
+      return response.data;
+    } catch (error) {
+      this.logWithContext('Failed to get repository', {
+        error: (error as Error).message,
+      });
+      throw this.createGiteaError(`Failed to get repository ${this.repository}`, error);
+    }
+  }
+
+  async createPullRequest(head: string, base: string, title: string, body: string): Promise<any> {
+    try {
+      const response = await this.axiosInstance.post(`${this.repositoryUrl()}/pulls`, {
+        head,
+        base,
+        title,
+        body
+      });
+      this.logWithContext('Created pull request', {
+        number: response.data?.number,
+        head,
+        base,
+      });
+      return response.data;
+    } catch (error) {
+      this.logWithContext('Failed to create pull request', {
+        head,
+        base,
+        error: (error as Error).message,
+      });
+      throw this.createGiteaError(`Failed to create pull request from ${head}`, error);
+    }
+  }
+
+  // Post a comment on an issue or pull request, returning its ID (used for progress comments).
+  // Issues and pull requests share numbers and the comments API.
+  async createComment(number: number, body: string): Promise<number> {
+    try {
+      const response = await this.axiosInstance.post(`${this.repositoryUrl()}/issues/${number}/comments`, { body });
+      return response.data.id;
+    } catch (error) {
+      this.logWithContext('Failed to create comment', {
+        number,
+        error: (error as Error).message,
+      });
+      throw this.createGiteaError(`Failed to create comment on #${number}`, error);
+    }
+  }
+
+  async updateComment(commentId: number, body: string): Promise<void> {
+    try {
+      await this.axiosInstance.patch(`${this.repositoryUrl()}/issues/comments/${commentId}`, { body });
+    } catch (error) {
+      this.logWithContext('Failed to update comment', {
+        commentId,
+        error: (error as Error).message,
+      });
+      throw this.createGiteaError(`Failed to update comment ${commentId}`, error);
+    }
+  }
+
+  // Submit a review with comments on lines of the new version of the files. Reviews are
+  // always submitted as comments, so they never count as an approval.
+  async createReview(
+    number: number,
+    commitId: string,
+    body: string,
+    comments: Array<{ path: string; line: number; body: string }>
+  ): Promise<number> {
+    try {
+      const response = await this.axiosInstance.post(`${this.repositoryUrl()}/pulls/${number}/reviews`, {
+        commit_id: commitId,
+        body,
+        event: 'COMMENT',
+        comments: comments.map(comment => ({ path: comment.path, new_position: comment.line, body: comment.body }))
+      });
+      return response.data.id;
+    } catch (error) {
+      this.logWithContext('Failed to create review', {
+        number,
+        error: (error as Error).message,
+      });
+      throw this.createGiteaError(`Failed to create review on #${number}`, error);
+    }
+  }
+
+  // The pull request's changes as one unified diff
+  async getPullRequestDiff(number: number): Promise<string> {
+    try {
+      const response = await this.axiosInstance.get(`${this.repositoryUrl()}/pulls/${number}.diff`, {
+        responseType: 'text',
+        transformResponse: data => data
+      });
+      return response.data;
+    } catch (error) {
+      this.logWithContext('Failed to get pull request diff', {
+        number,
+        error: (error as Error).message,
+      });
+      throw this.createGiteaError(`Failed to get diff of #${number}`, error);
+    }
+  }
+
+  // Contents of a file at a branch, tag or commit, or null when it doesn't exist there
+  async getFileContent(filePath: string, ref: string): Promise<string | null> {
+    try {
+      const encodedPath = filePath.split('/').map(encodeURIComponent).join('/');
+      const response = await this.axiosInstance.get(`${this.repositoryUrl()}/raw/${encodedPath}`, {
+        params: { ref },
+        responseType: 'text',
+        transformResponse: data => data
+      });
+      return response.data;
+    } catch (error) {
+      if ((error as any).response?.status === 404) {
+        return null;
+      }
+      this.logWithContext('Failed to read file', {
+        filePath,
+        ref,
+        error: (error as Error).message,
+      });
+      throw this.createGiteaError(`Failed to read ${filePath} at ${ref}`, error);
+    }
+  }
+
+  private repositoryUrl(): string {
+    const [owner, name] = this.repository.split('/');
+    return `${this.apiUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(name)}`;
+  }
+
+  private createAxiosInstance(token: string): AxiosInstance {
+    const instance = axios.create({
+      timeout: this.timeout * 1000,
+      headers: {
+        'Authorization': `token ${token}`,
+      },
+    });
+
+    // Self-hosted instances may sit behind a proxy; retry rate limits and server errors with exponential backoff
+    instance.interceptors.response.use(
+      response => response,
+      async error => {
+        const config = error.config;
+
+        if (!config || (config._retryCount || 0) >= this.maxRetries) {
+          return Promise.reject(error);
+        }
+
+        const retriableStatuses = [429, 500, 502, 503, 504];
+        if (!retriableStatuses.includes(error.response?.status)) {
+          return Promise.reject(error);
+        }
+
+        config._retryCount = (config._retryCount || 0) + 1;
+        const delay = Math.pow(2, config._retryCount - 1) * 1000;
+
+        this.logWithContext('Retrying request', {
+          attempt: config._retryCount,
+          maxRetries: this.maxRetries,
+          delay,
+          status: error.response?.status,
+        });
+
+        await new Promise(resolve => setTimeout(resolve, delay));
+        return instance(config);
+      }
+    );
+
+    return instance;
+  }
+
+  private createGiteaError(message: string, originalError: any): GiteaAPIError {
+    const error = new Error(message) as GiteaAPIError;
+    error.statusCode = originalError?.response?.status;
+    error.responseBody = originalError?.response?.data;
+    return error;
+  }
+
+  private logWithContext(message: string, data?: any): void {
+    const timestamp = new Date().toISOString();
+    const logMessage = `[${timestamp}] [GITEA_CLIENT] ${message}`;
+
+    if (data) {
+      console.log(logMessage, JSON.stringify(data, null, 2));
+    } else {
+      console.log(logMessage);
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { Octokit } from '@octokit/rest';
+import { logWithContext } from './log.js';
 
 export class ContainerGitHubClient {
   private octokit: Octokit;
@@ -20,22 +21,23 @@ export class ContainerGitHubClient {
     });
   }
 
-  // Create a comment on an issue or PR
-  async createComment(issueNumber: number, body: string): Promise<void> {
+  // Create a comment on an issue or PR, returning its ID
+  async createComment(issueNumber: number, body: string): Promise<number> {
     try {
       logWithContext('GITHUB_CLIENT', 'Creating comment', {
         issueNumber,
         bodyLength: body.length
       });
 
-      await this.octokit.rest.issues.createComment({
+      const response = await this.octokit.rest.issues.createComment({
         owner: this.owner,
         repo: this.repo,
         issue_number: issueNumber,
         body
       });
 
-      logWithContext('GITHUB_CLIENT', 'Comment created successfully', { issueNumber });
+      logWithContext('GITHUB_CLIENT', 'Comment created successfully', { issueNumber, commentId: response.data.id });
+      return response.data.id;
     } catch (error) {
       logWithContext('GITHUB_CLIENT', 'Failed to create comment', {
         error: (error as Error).message,
@@ -45,18 +47,124 @@ export class ContainerGitHubClient {
     }
   }
 
+  // Replace the body of an existing issue or PR comment
+  async updateComment(commentId: number, body: string): Promise<void> {
+    try {
+      await this.octokit.rest.issues.updateComment({
+        owner: this.owner,
+        repo: this.repo,
+        comment_id: commentId,
+        body
+      });
+    } catch (error) {
+      logWithContext('GITHUB_CLIENT', 'Failed to update comment', {
+        error: (error as Error).message,
+        commentId
+      });
+      throw error;
+    }
+  }
+
+  // Reply within an existing pull request review thread
+  async replyToReviewComment(pullNumber: number, commentId: number, body: string): Promise<void> {
+    try {
+      logWithContext('GITHUB_CLIENT', 'Replying to review comment', {
+        pullNumber,
+        commentId,
+        bodyLength: body.length
+      });
+
+      await this.octokit.rest.pulls.createReplyForReviewComment({
+        owner: this.owner,
+        repo: this.repo,
+        pull_number: pullNumber,
+        comment_id: commentId,
+        body
+      });
+
+      logWithContext('GITHUB_CLIENT', 'Review reply created successfully', { pullNumber, commentId });
+    } catch (error) {
+      logWithContext('GITHUB_CLIENT', 'Failed to reply to review comment', {
+        error: (error as Error).message,
+        pullNumber,
+        commentId
+      });
+      throw error;
+    }
+  }
+
+  // Files changed by a pull request, with their diff hunks (`patch` is missing for binary
+  // and very large files)
+  async listPullRequestFiles(pullNumber: number): Promise<Array<{ filename: string; status: string; patch?: string }>> {
+    try {
+      const files = await this.octokit.paginate(this.octokit.rest.pulls.listFiles, {
+        owner: this.owner,
+        repo: this.repo,
+        pull_number: pullNumber,
+        per_page: 100
+      });
+
+      logWithContext('GITHUB_CLIENT', 'Pull request files listed', { pullNumber, fileCount: files.length });
+      return files.map(file => ({ filename: file.filename, status: file.status, patch: file.patch }));
+    } catch (error) {
+      logWithContext('GITHUB_CLIENT', 'Failed to list pull request files', {
+        error: (error as Error).message,
+        pullNumber
+      });
+      throw error;
+    }
+  }
+
+  // Submit a review with comments on lines of the new version of the files. Reviews are
+  // always submitted as comments, so they never count as an approval.
+  async createReview(
+    pullNumber: number,
+    commitId: string,
+    body: string,
+    comments: Array<{ path: string; line: number; body: string }>
+  ): Promise<number> {
+    try {
+      logWithContext('GITHUB_CLIENT', 'Creating pull request review', {
+        pullNumber,
+        commitId,
+        commentCount: comments.length
+      });
+
+      const response = await this.octokit.rest.pulls.createReview({
+        owner: this.owner,
+        repo: this.repo,
+        pull_number: pullNumber,
+        commit_id: commitId,
+        body,
+        event: 'COMMENT',
+        comments: comments.map(comment => ({ path: comment.path, line: comment.line, side: 'RIGHT', body: comment.body }))
+      });
+
+      logWithContext('GITHUB_CLIENT', 'Pull request review created successfully', { pullNumber, reviewId: response.data.id });
+      return response.data.id;
+    } catch (error) {
+      logWithContext('GITHUB_CLIENT', 'Failed to create pull request review', {
+        error: (error as Error).message,
+        pullNumber
+      });
+      throw error;
+    }
+  }
+
   // Create a pull request
   async createPullRequest(
     title: string,
     body: string,
     head: string,
-    base: string = 'main'
+    base: string = 'main',
+    draft: boolean = false
   ): Promise<{ number: number; html_url: string }> {
     try {
       logWithContext('GITHUB_CLIENT', 'Creating pull request', {
         title,
         head,
         base,
+        draft,
         bodyLength: body.length
       });
 
@@ -66,7 +174,8 @@ export class ContainerGitHubClient {
         title,
         body,
         head,
-        base
+        base,
+        draft
       });
 
       logWithContext('GITHUB_CLIENT', 'Pull request created successfully', {
@@ -108,6 +217,34 @@ export class ContainerGitHubClient {
     }
   }
 
+  // Contents of a file at a branch, tag or commit, or null when it doesn't exist there
+  async getFileContent(filePath: string, ref: string): Promise<string | null> {
+    try {
+      const response = await this.octokit.rest.repos.getContent({
+        owner: this.owner,
+        repo: this.repo,
+        path: filePath,
+        ref
+      });
+
+      const data = response.data as { type?: string; content?: string; encoding?: string };
+      if (Array.isArray(response.data) || data.type !== 'file' || data.content === undefined) {
+        return null;
+      }
+      return Buffer.from(data.content, (data.encoding as BufferEncoding) || 'base64').toString('utf8');
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) {
+        return null;
+      }
+      logWithContext('GITHUB_CLIENT', 'Failed to read file', {
+        error: (error as Error).message,
+        filePath,
+        ref
+      });
+      throw error;
+    }
+  }
+
   // Push branch to remote
   async pushBranch(branchName: string): Promise<void> {
     // This will be handled by git operations in the main file
@@ -115,15 +252,3 @@ export class ContainerGitHubClient {
     logWithContext('GITHUB_CLIENT', 'Branch push requested', { branchName });
   }
 }
-
-// Helper function for logger compatibility
-function logWithContext(context: string, message: string, data?: any): void {
-  const timestamp = new Date().toISOString();
-  const logMessage = `[${timestamp}] [${context}] ${message}`;
-
-  if (data) {
-    console.log(logMessage, JSON.stringify(data, null, 2));
-  } else {
-    console.log(logMessage);
-  }
-}
\ No newline at end of file
@@ -0,0 +1,11 @@
+// Enhanced logging utility
+export function logWithContext(context: string, message: string, data?: any): void {
+  const timestamp = new Date().toISOString();
+  const logMessage = `[${timestamp}] [${context}] ${message}`;
+
+  if (data) {
+    console.log(logMessage, JSON.stringify(data, null, 2));
+  } else {
+    console.log(logMessage);
+  }
+}
@@ -0,0 +1,261 @@
+import type { SDKMessage } from '@anthropic-ai/claude-code';
+import type { DeniedToolCall } from './tool_policy.js';
+import { logWithContext } from './log.js';
+
+// Where the progress comment lives (a GitHub issue comment or a GitLab note)
+export interface ProgressTarget {
+  // Post the comment and return its ID
+  create(body: string): Promise<number>;
+  update(commentId: number, body: string): Promise<void>;
+}
+
+export interface ProgressReporterOptions {
+  title: string;
+  // Existing comment to take over (e.g. the acknowledgment posted by the worker)
+  commentId?: number;
+  // Minimum time between edits, to stay well within API rate limits
+  minIntervalMs?: number;
+  // Number of recent tool uses shown in the comment
+  maxActivities?: number;
+  // Page with the run's full transcript, linked from the final comment
+  transcriptUrl?: string;
+  now?: () => number;
+}
+
+const DEFAULT_MIN_INTERVAL_MS = 15_000;
+const DEFAULT_MAX_ACTIVITIES = 10;
+const MAX_DETAIL_LENGTH = 120;
+
+// Keeps one comment up to date with what Claude is doing while query() runs.
+// Edits are throttled: at most one every minIntervalMs, with a trailing edit so the
+// latest state is always shown, and failures are logged rather than failing the run.
+export class ProgressReporter {
+  private readonly target: ProgressTarget;
+  private readonly title: string;
+  private readonly minIntervalMs: number;
+  private readonly maxActivities: number;
+  private readonly transcriptUrl?: string;
+  private readonly now: () => number;
+  private readonly startedAt: number;
+
+  private commentId?: number;
+  private currentStep = 'Setting up the workspace';
+  private activities: string[] = [];
+  private counts = { filesRead: 0, filesEdited: 0, commandsRun: 0 };
+  private turnCount = 0;
+  private finished = false;
+  private describeUsage: (() => string) | null = null;
+  private deniedCalls: DeniedToolCall[] = [];
+
+  private lastUpdateAt = 0;
+  private pendingTimer: ReturnType<typeof setTimeout> | null = null;
+  private inFlight: Promise<void> | null = null;
+  private dirty = false;
+
+  constructor(target: ProgressTarget, options: ProgressReporterOptions) {
+    this.target = target;
+    this.title = options.title;
+    this.commentId = options.commentId;
+    this.minIntervalMs = options.minIntervalMs ?? DEFAULT_MIN_INTERVAL_MS;
+    this.maxActivities = options.maxActivities ?? DEFAULT_MAX_ACTIVITIES;
+    this.transcriptUrl = options.transcriptUrl;
+    this.now = options.now ?? Date.now;
+    this.startedAt = this.now();
+  }
+
+  // Post (or take over) the progress comment
+  async start(step?: string): Promise<void> {
+    if (step) {
+      this.currentStep = step;
+    }
+    await this.flush();
+  }
+
+  // Set the current step outside of Claude's turns (setup commands, pushing, ...)
+  setStep(step: string): void {
+    this.currentStep = step;
+    this.scheduleUpdate();
+  }
+
+  // Record a message from query()
+  record(message: SDKMessage): void {
+    this.turnCount++;
+
+    if (message.type !== 'assistant') {
+      return;
+    }
+
+    const content = (message.message as any)?.content;
+    if (!Array.isArray(content)) {
+      return;
+    }
+
+    for (const block of content) {
+      if (block.type === 'text' && typeof block.text === 'string' && block.text.trim()) {
+        this.currentStep = truncate(block.text.trim().split('\n')[0]);
+      } else if (block.type === 'tool_use') {
+        this.addActivity(this.describeToolUse(block.name, block.input || {}));
+      }
+    }
+
+    this.scheduleUpdate();
+  }
+
+  // Record a tool call the tool policy denied; all of them are listed in the final comment
+  recordDenial(call: DeniedToolCall): void {
+    this.deniedCalls.push(call);
+    this.addActivity(`🚫 Denied ${call.tool} \`${truncate(call.input)}\``);
+    this.scheduleUpdate();
+  }
+
+  // Show the run's usage (tokens, cost, limits) in the final comment
+  setUsage(describeUsage: () => string): void {
+    this.describeUsage = describeUsage;
+  }
+
+  // Final edit; always sent regardless of throttling
+  async finish(outcome: string): Promise<void> {
+    this.finished = true;
+    this.currentStep = outcome;
+    await this.flush();
+  }
+
+  render(): string {
+    const status = this.finished ? '🏁' : '⏳';
+    let body = `🤖 **${this.title}**\n\n${status} **${this.finished ? 'Result' : 'Current step'}:** ${this.currentStep}\n`;
+    body += `\n⏱️ Elapsed: ${formatDuration(this.now() - this.startedAt)} · ${this.turnCount} turns · ` +
+      `${this.counts.filesRead} files read · ${this.counts.filesEdited} files edited · ${this.counts.commandsRun} commands run\n`;
+
+    if (this.finished && this.describeUsage) {
+      body += `📊 Usage: ${this.describeUsage()}\n`;
+    }
+
+    if (this.finished && this.transcriptUrl) {
+      body += `📜 [Full transcript](${this.transcriptUrl})\n`;
+    }
+
+    if (this.activities.length > 0) {
+      body += `\n<details${this.finished ? '' : ' open'}>\n<summary>Recent activity</summary>\n\n`;
+      body += this.activities.map(activity => `- ${activity}`).join('\n');
+      body += '\n\n</details>\n';
+    }
+
+    if (this.finished && this.deniedCalls.length > 0) {
+      body += `\n<details>\n<summary>🚫 Denied tool calls (${this.deniedCalls.length})</summary>\n\n`;
+      body += this.deniedCalls.map(call => `- ${call.tool} \`${truncate(call.input)}\``).join('\n');
+      body += '\n\n</details>\n';
+    }
+
+    body += '\n---\n🚀 Powered by Claude Code';
+    return body;
+  }
+
+  private describeToolUse(name: string, input: any): string {
+    switch (name) {
+      case 'Read':
+        this.counts.filesRead++;
+        return `📖 Read \`${truncate(input.file_path ?? '')}\``;
+      case 'Edit':
+      case 'MultiEdit':
+      case 'Write':
+      case 'NotebookEdit':
+        this.counts.filesEdited++;
+        return `✏️ Edited \`${truncate(input.file_path ?? input.notebook_path ?? '')}\``;
+      case 'Bash':
+        this.counts.commandsRun++;
+        return `💻 Ran \`${truncate(String(input.command ?? '').split('\n')[0])}\``;
+      case 'Grep':
+      case 'Glob':
+        return `🔍 Searched for \`${truncate(input.pattern ?? '')}\``;
+      case 'LS':
+        return `📂 Listed \`${truncate(input.path ?? '')}\``;
+      default:
+        return `🔧 Used ${name}`;
+    }
+  }
+
+  private addActivity(activity: string): void {
+    this.activities.push(activity);
+    if (this.activities.length > this.maxActivities) {
+      this.activities.shift();
+    }
+  }
+
+  private scheduleUpdate(): void {
+    if (this.finished || this.pendingTimer) {
+      return;
+    }
+
+    if (this.inFlight) {
+      this.dirty = true;
+      return;
+    }
+
+    const wait = this.lastUpdateAt + this.minIntervalMs - this.now();
+    if (wait <= 0) {
+      void this.flush();
+      return;
+    }
+
+    this.pendingTimer = setTimeout(() => {
+      this.pendingTimer = null;
+      void this.flush();
+    }, wait);
+    // Don't keep the process alive just to update a comment
+    this.pendingTimer.unref?.();
+  }
+
+  private async flush(): Promise<void> {
+    if (this.pendingTimer) {
+      clearTimeout(this.pendingTimer);
+      this.pendingTimer = null;
+    }
+
+    // Serialise edits so comments are never created twice or updated out of order
+    while (this.inFlight) {
+      await this.inFlight;
+    }
+
+    this.dirty = false;
+    this.lastUpdateAt = this.now();
+    this.inFlight = this.send(this.render());
+
+    try {
+      await this.inFlight;
+    } finally {
+      this.inFlight = null;
+    }
+
+    if (this.dirty && !this.finished) {
+      this.dirty = false;
+      this.scheduleUpdate();
+    }
+  }
+
+  private async send(body: string): Promise<void> {
+    try {
+      if (this.commentId === undefined) {
+        this.commentId = await this.target.create(body);
+      } else {
+        await this.target.update(this.commentId, body);
+      }
+    } catch (error) {
+      logWithContext('PROGRESS', 'Failed to update progress comment', {
+        commentId: this.commentId,
+        error: (error as Error).message
+      });
+    }
+  }
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_DETAIL_LENGTH ? `${text.substring(0, MAX_DETAIL_LENGTH - 1)}…` : text;
+}
+
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
@@ -0,0 +1,262 @@
+import type { SDKMessage } from '@anthropic-ai/claude-code';
+
+// Per-run limits configured for the installation or repository (RUN_LIMITS, validated by
+// the worker). The model and turn limit are passed to query(); the wall-clock, cost and
+// token limits are enforced here by aborting the run's AbortController.
+
+export interface RunLimits {
+  model?: string;
+  maxTurns?: number;
+  maxDurationMinutes?: number;
+  maxCostUsd?: number;
+  maxTokens?: number;
+}
+
+export type RunLimitReason = 'turns' | 'duration' | 'cost' | 'tokens';
+
+export interface RunUsage {
+  turns: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd: number;
+  durationMs: number;
+}
+
+// USD per million tokens, used to estimate spend while a query runs. The result message's
+// total_cost_usd replaces the estimate once each query finishes.
+const MODEL_PRICES: Array<{ match: RegExp; input: number; output: number }> = [
+  { match: /opus/i, input: 15, output: 75 },
+  { match: /haiku/i, input: 0.8, output: 4 },
+  { match: /sonnet/i, input: 3, output: 15 }
+];
+const DEFAULT_PRICE = MODEL_PRICES[2];
+const CACHE_READ_PRICE_FACTOR = 0.1;
+const CACHE_WRITE_PRICE_FACTOR = 1.25;
+
+export class RunLimitError extends Error {
+  readonly reason: RunLimitReason;
+
+  constructor(reason: RunLimitReason, limits: RunLimits) {
+    super(describeLimit(reason, limits));
+    this.name = 'RunLimitError';
+    this.reason = reason;
+  }
+}
+
+function describeLimit(reason: RunLimitReason, limits: RunLimits): string {
+  switch (reason) {
+    case 'turns':
+      return `Reached the limit of ${limits.maxTurns} turns`;
+    case 'duration':
+      return `Reached the time limit of ${limits.maxDurationMinutes} minutes`;
+    case 'cost':
+      return `Reached the budget of ${formatUsd(limits.maxCostUsd ?? 0)}`;
+    case 'tokens':
+      return `Reached the budget of ${formatNumber(limits.maxTokens ?? 0)} tokens`;
+  }
+}
+
+// Parse the RUN_LIMITS JSON passed by the worker. Anything unexpected is dropped rather than
+// failing the run: the worker already validated the settings.
+export function parseRunLimits(json: string | undefined): RunLimits {
+  if (!json) {
+    return {};
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return {};
+  }
+
+  const limits: RunLimits = {};
+  if (typeof raw?.model === 'string' && raw.model) {
+    limits.model = raw.model;
+  }
+  for (const key of ['maxTurns', 'maxDurationMinutes', 'maxCostUsd', 'maxTokens'] as const) {
+    if (typeof raw?.[key] === 'number' && raw[key] > 0) {
+      limits[key] = raw[key];
+    }
+  }
+  return limits;
+}
+
+// The limit that stopped the run behind an aborted signal, if any
+export function getRunLimitStop(signal: AbortSignal): RunLimitError | null {
+  return signal.aborted && signal.reason instanceof RunLimitError ? signal.reason : null;
+}
+
+// Tracks one run's usage across its queries (the main query and any repair turns) and
+// aborts the run when a limit is reached.
+export class RunBudget {
+  readonly limits: RunLimits;
+  readonly abortController: AbortController;
+  private readonly now: () => number;
+  private readonly startedAt: number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  // Totals from finished queries, as reported by their result messages
+  private settled = { turns: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, costUsd: 0 };
+  // Estimate for the query in progress, keyed by API message ID: the SDK emits one
+  // assistant message per content block, each repeating the response's usage
+  private pending = new Map<string, { model: string; usage: any }>();
+
+  constructor(limits: RunLimits, abortController: AbortController = new AbortController(), now: () => number = Date.now) {
+    this.limits = limits;
+    this.abortController = abortController;
+    this.now = now;
+    this.startedAt = now();
+
+    if (limits.maxDurationMinutes) {
+      this.timer = setTimeout(() => this.stop('duration'), limits.maxDurationMinutes * 60_000);
+      // Don't keep the process alive just for the time limit
+      this.timer.unref?.();
+    }
+  }
+
+  get stopReason(): RunLimitReason | null {
+    return getRunLimitStop(this.abortController.signal)?.reason ?? null;
+  }
+
+  // Options for query(): the configured model, the turns left and the abort signal
+  queryOptions(): { model?: string; maxTurns?: number; abortController: AbortController } {
+    return {
+      ...(this.limits.model ? { model: this.limits.model } : {}),
+      ...(this.limits.maxTurns ? { maxTurns: Math.max(1, this.limits.maxTurns - this.usage().turns) } : {}),
+      abortController: this.abortController
+    };
+  }
+
+  // Record a message from query() and stop the run if it went over a limit
+  record(message: SDKMessage): void {
+    if (message.type === 'assistant') {
+      const apiMessage = message.message as any;
+      if (apiMessage?.id && apiMessage.usage) {
+        this.pending.set(apiMessage.id, { model: apiMessage.model ?? this.limits.model ?? '', usage: apiMessage.usage });
+      }
+    } else if (message.type === 'result') {
+      const usage = message.usage as any;
+      this.settled.turns += message.num_turns;
+      this.settled.inputTokens += usage?.input_tokens ?? 0;
+      this.settled.outputTokens += usage?.output_tokens ?? 0;
+      this.settled.cacheReadTokens += usage?.cache_read_input_tokens ?? 0;
+      this.settled.cacheWriteTokens += usage?.cache_creation_input_tokens ?? 0;
+      this.settled.costUsd += message.total_cost_usd;
+      this.pending.clear();
+
+      // The SDK ended the query at maxTurns, before Claude was done
+      if (message.subtype === 'error_max_turns') {
+        this.stop('turns');
+      }
+      // A query that finished is kept even if it ended just over budget
+      return;
+    }
+
+    this.checkSpend();
+  }
+
+  // Call before starting another query (e.g. a repair turn): stops the run and throws
+  // rather than starting a query without turns or budget left
+  beforeQuery(): void {
+    if (this.limits.maxTurns && this.usage().turns >= this.limits.maxTurns) {
+      this.stop('turns');
+    } else {
+      this.checkSpend();
+    }
+    this.throwIfStopped();
+  }
+
+  // Call between steps so nothing further (e.g. a push) happens after a limit stopped the run
+  throwIfStopped(): void {
+    const stop = getRunLimitStop(this.abortController.signal);
+    if (stop) {
+      throw stop;
+    }
+  }
+
+  private checkSpend(): void {
+    const usage = this.usage();
+
+    if (this.limits.maxCostUsd && usage.costUsd >= this.limits.maxCostUsd) {
+      this.stop('cost');
+    } else if (this.limits.maxTokens && totalTokens(usage) >= this.limits.maxTokens) {
+      this.stop('tokens');
+    }
+  }
+
+  stop(reason: RunLimitReason): void {
+    if (!this.abortController.signal.aborted) {
+      this.abortController.abort(new RunLimitError(reason, this.limits));
+    }
+  }
+
+  // Clear the time limit once the run is over
+  dispose(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  usage(): RunUsage {
+    const usage = { ...this.settled, durationMs: this.now() - this.startedAt };
+
+    for (const { model, usage: apiUsage } of this.pending.values()) {
+      const price = MODEL_PRICES.find(candidate => candidate.match.test(model)) ?? DEFAULT_PRICE;
+      const input = apiUsage.input_tokens ?? 0;
+      const output = apiUsage.output_tokens ?? 0;
+      const cacheRead = apiUsage.cache_read_input_tokens ?? 0;
+      const cacheWrite = apiUsage.cache_creation_input_tokens ?? 0;
+
+      usage.turns++;
+      usage.inputTokens += input;
+      usage.outputTokens += output;
+      usage.cacheReadTokens += cacheRead;
+      usage.cacheWriteTokens += cacheWrite;
+      usage.costUsd += (
+        input * price.input +
+        output * price.output +
+        cacheRead * price.input * CACHE_READ_PRICE_FACTOR +
+        cacheWrite * price.input * CACHE_WRITE_PRICE_FACTOR
+      ) / 1_000_000;
+    }
+
+    return usage;
+  }
+
+  // One line for the final progress comment, showing the limits next to the usage
+  describeUsage(): string {
+    const usage = this.usage();
+    const withLimit = (value: string, limit: string | undefined) => limit ? `${value} of ${limit}` : value;
+
+    const parts = [
+      withLimit(`${usage.turns} turns`, this.limits.maxTurns?.toString()),
+      withLimit(`${formatNumber(totalTokens(usage))} tokens`, this.limits.maxTokens ? formatNumber(this.limits.maxTokens) : undefined),
+      withLimit(formatUsd(usage.costUsd), this.limits.maxCostUsd ? formatUsd(this.limits.maxCostUsd) : undefined)
+    ];
+    if (this.limits.maxDurationMinutes) {
+      parts.push(`${this.limits.maxDurationMinutes} minute limit`);
+    }
+    if (this.limits.model) {
+      parts.push(`model \`${this.limits.model}\``);
+    }
+
+    return parts.join(' · ');
+  }
+}
+
+// All billed tokens, including cache reads and writes
+export function totalTokens(usage: RunUsage): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheWriteTokens;
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString('en-US');
+}
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
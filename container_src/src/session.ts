@@ -0,0 +1,99 @@
+import type { SDKMessage } from '@anthropic-ai/claude-code';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { logWithContext } from './log.js';
+
+// The Claude session of an issue or merge request thread, kept by the worker between runs
+// (SESSION). Restoring its session file lets query() resume the earlier conversation; the
+// branch lets the run continue from the changes it pushed last time.
+export interface ThreadSession {
+  sessionId: string;
+  branch?: string;
+  // Contents of the CLI's session file (JSON lines)
+  data?: string;
+}
+
+// The CLI only accepts UUIDs as session IDs, which also keeps them safe to use as file names
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function parseThreadSession(value: unknown): ThreadSession | null {
+  const session = value as ThreadSession | null;
+  if (!session || typeof session !== 'object' || typeof session.sessionId !== 'string' || !SESSION_ID_PATTERN.test(session.sessionId)) {
+    return null;
+  }
+
+  return {
+    sessionId: session.sessionId,
+    branch: typeof session.branch === 'string' && session.branch ? session.branch : undefined,
+    data: typeof session.data === 'string' && session.data ? session.data : undefined
+  };
+}
+
+// Where the CLI keeps the session files for query() runs started in workspaceDir
+export function sessionFilePath(workspaceDir: string, sessionId: string): string {
+  const configDir = process.env.CLAUDE_CONFIG_DIR || path.join(os.homedir(), '.claude');
+  return path.join(configDir, 'projects', workspaceDir.replace(/[^a-zA-Z0-9]/g, '-'), `${sessionId}.jsonl`);
+}
+
+// Write the session file where query() will look for it, returning the session ID to
+// resume, or undefined when there is nothing to resume
+export async function restoreSession(session: ThreadSession | null, workspaceDir: string): Promise<string | undefined> {
+  if (!session?.data) {
+    return undefined;
+  }
+
+  const file = sessionFilePath(workspaceDir, session.sessionId);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, session.data);
+
+  logWithContext('SESSION', 'Session restored', {
+    sessionId: session.sessionId,
+    sizeBytes: session.data.length
+  });
+
+  return session.sessionId;
+}
+
+function firstUuid(data: string): string | undefined {
+  try {
+    return JSON.parse(data.split('\n')[0]).uuid;
+  } catch {
+    return undefined;
+  }
+}
+
+// The session a run ended with, to hand back to the worker. A resumed session may be
+// continued under a new ID; its file is then kept with the earlier messages in front
+// unless the CLI already copied them over.
+export async function captureSession(
+  messages: SDKMessage[],
+  workspaceDir: string,
+  previous: ThreadSession | null,
+  branch?: string
+): Promise<ThreadSession | undefined> {
+  const sessionId = [...messages].reverse().find(message => message.session_id)?.session_id;
+  if (!sessionId || !SESSION_ID_PATTERN.test(sessionId)) {
+    return undefined;
+  }
+
+  let data: string | undefined;
+  try {
+    data = await fs.readFile(sessionFilePath(workspaceDir, sessionId), 'utf8');
+  } catch (error) {
+    logWithContext('SESSION', 'Session file not found, the next run will start fresh', {
+      sessionId,
+      error: (error as Error).message
+    });
+  }
+
+  if (data && previous?.data && previous.sessionId !== sessionId) {
+    const uuid = firstUuid(previous.data);
+    if (!uuid || !data.includes(`"uuid":"${uuid}"`)) {
+      data = `${previous.data.replace(/\n*$/, '\n')}${data}`;
+    }
+  }
+
+  return { sessionId, branch: branch ?? previous?.branch, data };
+}
+
@@ -0,0 +1,157 @@
+import type { SDKMessage } from '@anthropic-ai/claude-code';
+import { logWithContext } from './log.js';
+
+// Which tools Claude may use, from the `tools` section of the repository configuration
+// (validated by the worker). Without a policy, Claude may read, search and edit files but
+// not run commands or reach the network. Permission checks are only bypassed when the
+// repository asks for it with `unrestricted: true`.
+export interface ToolPolicyConfig {
+  allowedTools: string[];
+  disallowedTools: string[];
+  // Bash command patterns Claude may run, e.g. "npm test" or "npm run lint:*"
+  bashCommands: string[];
+  // Whether tools that reach the network (web fetch and search, curl, wget) are permitted
+  network: boolean;
+  // Every tool is allowed and permission checks are skipped
+  unrestricted?: boolean;
+}
+
+export interface DeniedToolCall {
+  tool: string;
+  input: string;
+  reason: string;
+}
+
+// Denied when network access is off. Deny rules take precedence over allow rules,
+// so these can't be re-enabled through allowedTools or bashCommands.
+export const NETWORK_TOOLS = ['WebFetch', 'WebSearch', 'Bash(curl:*)', 'Bash(wget:*)'];
+
+// Used when the repository configuration has no `tools` section; matches the worker's
+// DEFAULT_ALLOWED_TOOLS
+export const DEFAULT_TOOL_POLICY: ToolPolicyConfig = {
+  allowedTools: [
+    'Read',
+    'Grep',
+    'Glob',
+    'LS',
+    'Edit',
+    'MultiEdit',
+    'Write',
+    'NotebookRead',
+    'NotebookEdit',
+    'TodoRead',
+    'TodoWrite'
+  ],
+  disallowedTools: [],
+  bashCommands: [],
+  network: false
+};
+
+// Tool results the CLI returns instead of running a tool it isn't allowed to use
+const DENIAL_PATTERN = /requested permissions to use|has been denied/i;
+
+const MAX_INPUT_LENGTH = 200;
+
+type QueryPermissionOptions = {
+  permissionMode: 'default' | 'bypassPermissions';
+  allowedTools?: string[];
+  disallowedTools?: string[];
+};
+
+// Applies one run's tool policy to query() and keeps track of the tool calls it denied
+export class ToolPolicy {
+  readonly config: ToolPolicyConfig;
+  private readonly toolUses = new Map<string, { name: string; input: any }>();
+  private readonly deniedCalls: DeniedToolCall[] = [];
+
+  constructor(config: ToolPolicyConfig | null | undefined) {
+    this.config = config ?? DEFAULT_TOOL_POLICY;
+  }
+
+  queryOptions(): QueryPermissionOptions {
+    if (this.config.unrestricted) {
+      return { permissionMode: 'bypassPermissions' };
+    }
+
+    return {
+      permissionMode: 'default',
+      allowedTools: [
+        ...this.config.allowedTools,
+        ...this.config.bashCommands.map(command => `Bash(${command})`)
+      ],
+      disallowedTools: [
+        ...this.config.disallowedTools,
+        ...(this.config.network ? [] : NETWORK_TOOLS)
+      ]
+    };
+  }
+
+  // Record a message from query(), returning the tool calls it shows were denied
+  record(message: SDKMessage): DeniedToolCall[] {
+    if (message.type !== 'assistant' && message.type !== 'user') {
+      return [];
+    }
+
+    const content = (message.message as any)?.content;
+    if (!Array.isArray(content)) {
+      return [];
+    }
+
+    if (message.type === 'assistant') {
+      for (const block of content) {
+        if (block.type === 'tool_use') {
+          this.toolUses.set(block.id, { name: block.name, input: block.input || {} });
+        }
+      }
+      return [];
+    }
+
+    const denied: DeniedToolCall[] = [];
+    for (const block of content) {
+      if (block.type !== 'tool_result' || !block.is_error) {
+        continue;
+      }
+
+      const reason = toolResultText(block.content);
+      if (!DENIAL_PATTERN.test(reason)) {
+        continue;
+      }
+
+      const toolUse = this.toolUses.get(block.tool_use_id);
+      const call = {
+        tool: toolUse?.name ?? 'unknown',
+        input: describeInput(toolUse?.input ?? {}),
+        reason
+      };
+      denied.push(call);
+      this.deniedCalls.push(call);
+
+      logWithContext('TOOL_POLICY', 'Tool call denied', call);
+    }
+
+    return denied;
+  }
+
+  get denied(): DeniedToolCall[] {
+    return [...this.deniedCalls];
+  }
+}
+
+function toolResultText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content.map(part => (typeof part?.text === 'string' ? part.text : '')).join('\n');
+  }
+  return '';
+}
+
+// The part of a tool's input worth showing: the command, path or URL it was called with
+function describeInput(input: any): string {
+  const detail = input.command ?? input.file_path ?? input.notebook_path ?? input.url ?? input.query ??
+    input.pattern ?? input.path ?? JSON.stringify(input);
+  const text = String(detail).split('\n')[0];
+  return text.length > MAX_INPUT_LENGTH ? `${text.substring(0, MAX_INPUT_LENGTH - 1)}…` : text;
+}
+
@@ -0,0 +1,121 @@
+// Verification stage: after Claude finishes, run the repository's build and test commands
+// in the workspace. The results are fed back to Claude for repair and summarised in the
+// pull request body.
+
+export type CommandRunner = (command: string) => Promise<{ exitCode: number | null; output: string }>;
+
+export interface VerificationStep {
+  kind: 'build' | 'test';
+  command: string;
+  passed: boolean;
+  exitCode: number | null;
+  durationMs: number;
+  // Tail of the combined output, at most maxOutputLength characters
+  output: string;
+}
+
+export interface VerificationResult {
+  passed: boolean;
+  steps: VerificationStep[];
+  // Repair runs Claude made before this result
+  repairAttempts: number;
+}
+
+export interface VerificationCommands {
+  buildCommands: string[];
+  testCommands: string[];
+}
+
+export const MAX_STEP_OUTPUT_LENGTH = 4000;
+
+// Keep the end of the output, where compilers and test runners put the failures
+export function truncateOutput(output: string, maxLength: number = MAX_STEP_OUTPUT_LENGTH): string {
+  const trimmed = output.trim();
+  if (trimmed.length <= maxLength) {
+    return trimmed;
+  }
+  return `…(${trimmed.length - maxLength} earlier characters omitted)\n${trimmed.slice(-maxLength)}`;
+}
+
+export function hasVerificationCommands(commands: VerificationCommands): boolean {
+  return commands.buildCommands.length > 0 || commands.testCommands.length > 0;
+}
+
+// Run build commands, then test commands. Stops at the first failure: tests are not
+// meaningful when the build is broken, and Claude gets one failure to focus on.
+export async function runVerification(
+  commands: VerificationCommands,
+  runCommand: CommandRunner,
+  repairAttempts: number = 0,
+  now: () => number = Date.now
+): Promise<VerificationResult> {
+  const steps: VerificationStep[] = [];
+  const queue = [
+    ...commands.buildCommands.map(command => ({ kind: 'build' as const, command })),
+    ...commands.testCommands.map(command => ({ kind: 'test' as const, command }))
+  ];
+
+  for (const { kind, command } of queue) {
+    const startTime = now();
+    const result = await runCommand(command);
+    const passed = result.exitCode === 0;
+
+    steps.push({
+      kind,
+      command,
+      passed,
+      exitCode: result.exitCode,
+      durationMs: now() - startTime,
+      output: truncateOutput(result.output)
+    });
+
+    if (!passed) {
+      break;
+    }
+  }
+
+  return { passed: steps.every(step => step.passed), steps, repairAttempts };
+}
+
+// Prompt for a repair turn, continuing Claude's previous conversation
+export function prepareRepairPrompt(result: VerificationResult): string {
+  const failed = result.steps.find(step => !step.passed);
+  if (!failed) {
+    return '';
+  }
+
+  return `The ${failed.kind} command \`${failed.command}\` failed after your changes (exit code ${failed.exitCode}).
+
+Output:
+\`\`\`
+${failed.output}
+\`\`\`
+
+Fix the cause of this failure in the code. Do not weaken, skip or delete tests to make them pass. Keep the rest of your changes as they are.`;
+}
+
+function formatStepDuration(ms: number): string {
+  return ms >= 60_000 ? `${Math.floor(ms / 60_000)}m ${Math.floor((ms % 60_000) / 1000)}s` : `${Math.round(ms / 1000)}s`;
+}
+
+// Markdown section for the pull request body
+export function formatVerificationReport(result: VerificationResult): string {
+  const heading = result.passed ? '✅ Verification passed' : '❌ Verification failed';
+  const attempts = result.repairAttempts > 0
+    ? ` after ${result.repairAttempts} repair attempt${result.repairAttempts === 1 ? '' : 's'}`
+    : '';
+
+  let section = `## ${heading}${attempts}\n\n`;
+  section += '| Step | Command | Result | Time |\n|---|---|---|---|\n';
+  section += result.steps
+    .map(step => `| ${step.kind} | \`${step.command.replace(/\|/g, '\\|')}\` | ${step.passed ? 'passed' : `failed (exit ${step.exitCode})`} | ${formatStepDuration(step.durationMs)} |`)
+    .join('\n');
+  section += '\n';
+
+  const failed = result.steps.find(step => !step.passed);
+  if (failed) {
+    section += `\n<details>\n<summary>Output of \`${failed.command}\`</summary>\n\n\`\`\`\n${failed.output}\n\`\`\`\n\n</details>\n`;
+  }
+
+  return section;
+}
@@ -0,0 +1,210 @@
+import jwt from '@tsndr/cloudflare-worker-jwt';
+import { logWithContext } from './log';
+
+// Admin authentication for the setup and status pages.
+//
+// A request is treated as coming from an admin when any of the following hold:
+// - it carries a valid session cookie issued by /admin/login (signed with ADMIN_TOKEN)
+// - it sends `Authorization: Bearer <ADMIN_TOKEN>` (for scripts)
+// - Cloudflare Access is configured (CF_ACCESS_TEAM_DOMAIN + CF_ACCESS_AUD) and the
+//   request carries a valid Cf-Access-Jwt-Assertion for that application
+
+export interface AdminAuthEnv {
+  ADMIN_TOKEN?: string;
+  CF_ACCESS_TEAM_DOMAIN?: string;
+  CF_ACCESS_AUD?: string;
+}
+
+export const SESSION_COOKIE_NAME = 'cc_admin_session';
+export const SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+// Setup, status, trigger policy, job history, run transcript and webhook delivery pages
+const ADMIN_ROUTE_PREFIXES = [
+  '/bitbucket-setup',
+  '/gitea-setup',
+  '/claude-setup',
+  '/gh-setup',
+  '/gh-status',
+  '/gh-trigger-policy',
+  '/gh-usage',
+  '/gitlab-setup',
+  '/jobs',
+  '/queue',
+  '/run-limits',
+  '/runs',
+  '/webhooks/deliveries'
+];
+
+interface AccessCertificates {
+  keys: Array<JsonWebKey & { kid: string }>;
+}
+
+export function isAdminRoute(pathname: string): boolean {
+  return ADMIN_ROUTE_PREFIXES.some(prefix => pathname === prefix || pathname.startsWith(`${prefix}/`));
+}
+
+function isAccessConfigured(env: AdminAuthEnv): boolean {
+  return !!env.CF_ACCESS_TEAM_DOMAIN && !!env.CF_ACCESS_AUD;
+}
+
+export function isAdminAuthConfigured(env: AdminAuthEnv): boolean {
+  return !!env.ADMIN_TOKEN || isAccessConfigured(env);
+}
+
+function getSessionSecret(env: AdminAuthEnv): string {
+  // Rotating ADMIN_TOKEN invalidates every outstanding session
+  return `admin-session:${env.ADMIN_TOKEN}`;
+}
+
+// Compare two strings without leaking where they differ through timing
+export function timingSafeEqual(a: string, b: string): boolean {
+  const left = new TextEncoder().encode(a);
+  const right = new TextEncoder().encode(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    diff |= (left[i] ?? 0) ^ (right[i] ?? 0);
+  }
+  return diff === 0;
+}
+
+export function verifyAdminToken(token: string | null | undefined, env: AdminAuthEnv): boolean {
+  if (!env.ADMIN_TOKEN || !token) {
+    return false;
+  }
+  return timingSafeEqual(token, env.ADMIN_TOKEN);
+}
+
+export async function createSessionCookie(env: AdminAuthEnv): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const session = await jwt.sign(
+    { sub: 'admin', iat: now, exp: now + SESSION_TTL_SECONDS },
+    getSessionSecret(env),
+    { algorithm: 'HS256' }
+  );
+  return `${SESSION_COOKIE_NAME}=${session}; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=${SESSION_TTL_SECONDS}`;
+}
+
+export function clearSessionCookie(): string {
+  return `${SESSION_COOKIE_NAME}=; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=0`;
+}
+
+function getCookie(request: Request, name: string): string | null {
+  const header = request.headers.get('Cookie');
+  if (!header) {
+    return null;
+  }
+
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) {
+      return rest.join('=');
+    }
+  }
+  return null;
+}
+
+async function verifySessionCookie(request: Request, env: AdminAuthEnv): Promise<boolean> {
+  const session = getCookie(request, SESSION_COOKIE_NAME);
+  if (!session || !env.ADMIN_TOKEN) {
+    return false;
+  }
+
+  try {
+    const verified = await jwt.verify(session, getSessionSecret(env), { algorithm: 'HS256' });
+    return verified?.payload.sub === 'admin';
+  } catch {
+    return false;
+  }
+}
+
+async function verifyAccessJwt(request: Request, env: AdminAuthEnv): Promise<boolean> {
+  const assertion = request.headers.get('Cf-Access-Jwt-Assertion');
+  if (!assertion || !isAccessConfigured(env)) {
+    return false;
+  }
+
+  const teamDomain = env.CF_ACCESS_TEAM_DOMAIN!.replace(/^https?:\/\//, '').replace(/\/$/, '');
+
+  try {
+    const { header, payload } = jwt.decode<{}, { kid?: string }>(assertion);
+
+    const certsResponse = await fetch(`https://${teamDomain}/cdn-cgi/access/certs`);
+    if (!certsResponse.ok) {
+      logWithContext('ADMIN_AUTH', 'Failed to fetch Cloudflare Access certificates', {
+        status: certsResponse.status
+      });
+      return false;
+    }
+
+    const certs = await certsResponse.json() as AccessCertificates;
+    const key = certs.keys.find(candidate => candidate.kid === header.kid);
+    if (!key) {
+      return false;
+    }
+
+    const verified = await jwt.verify(assertion, key, { algorithm: 'RS256' });
+    if (!verified) {
+      return false;
+    }
+
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    return audiences.includes(env.CF_ACCESS_AUD) && payload.iss === `https://${teamDomain}`;
+  } catch (error) {
+    logWithContext('ADMIN_AUTH', 'Cloudflare Access JWT validation failed', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return false;
+  }
+}
+
+export async function isAdminRequest(request: Request, env: AdminAuthEnv): Promise<boolean> {
+  const authorization = request.headers.get('Authorization');
+  if (authorization?.startsWith('Bearer ') && verifyAdminToken(authorization.substring(7), env)) {
+    return true;
+  }
+
+  if (await verifySessionCookie(request, env)) {
+    return true;
+  }
+
+  return verifyAccessJwt(request, env);
+}
+
+// Returns a rejection response for non-admin requests, or null when the request may proceed
+export async function requireAdmin(request: Request, env: AdminAuthEnv): Promise<Response | null> {
+  const url = new URL(request.url);
+
+  if (!isAdminAuthConfigured(env)) {
+    logWithContext('ADMIN_AUTH', 'Admin authentication is not configured, rejecting request', {
+      pathname: url.pathname
+    });
+    return new Response(JSON.stringify({
+      error: 'Admin authentication is not configured',
+      message: 'Set the ADMIN_TOKEN secret (or configure Cloudflare Access) to enable the setup pages.'
+    }), {
+      status: 503,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  if (await isAdminRequest(request, env)) {
+    return null;
+  }
+
+  logWithContext('ADMIN_AUTH', 'Unauthenticated request to admin route rejected', {
+    pathname: url.pathname,
+    method: request.method
+  });
+
+  // Send browsers to the login page and everything else a plain 401
+  const acceptsHtml = request.headers.get('Accept')?.includes('text/html');
+  if (request.method === 'GET' && acceptsHtml && env.ADMIN_TOKEN) {
+    const next = encodeURIComponent(url.pathname + url.search);
+    return Response.redirect(`${url.origin}/admin/login?next=${next}`, 302);
+  }
+
+  return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+    status: 401,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
@@ -0,0 +1,171 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  authorizeGitHubUser,
+  authorizeGitLabUser,
+  authorizeBitbucketUser,
+  authorizeGiteaUser,
+  formatAuthorizationRefusal,
+  meetsPermission,
+  recordRefusedTrigger,
+  DEFAULT_AUTHORIZATION
+} from './authorization';
+
+describe('Trigger authorization', () => {
+  const githubAPI = (permission: string | Error, teams: string[] = []) => ({
+    getCollaboratorPermission: vi.fn().mockImplementation(async () => {
+      if (permission instanceof Error) {
+        throw permission;
+      }
+      return permission;
+    }),
+    isTeamMember: vi.fn().mockImplementation(async (org: string, slug: string) => teams.includes(`${org}/${slug}`))
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should compare permissions against the minimum', () => {
+    expect(meetsPermission('admin', 'write')).toBe(true);
+    expect(meetsPermission('write', 'write')).toBe(true);
+    expect(meetsPermission('triage', 'write')).toBe(false);
+    expect(meetsPermission('none', 'read')).toBe(false);
+  });
+
+  it('should authorize GitHub collaborators with write access', async () => {
+    const api = githubAPI('write');
+
+    const decision = await authorizeGitHubUser(api as any, 'acme', 'my-repo', 'developer', DEFAULT_AUTHORIZATION);
+
+    expect(decision).toEqual({ authorized: true, reason: 'has write permission' });
+    expect(api.getCollaboratorPermission).toHaveBeenCalledWith('acme', 'my-repo', 'developer');
+  });
+
+  it('should refuse GitHub users with read access only', async () => {
+    const decision = await authorizeGitHubUser(githubAPI('read') as any, 'acme', 'my-repo', 'drive-by', DEFAULT_AUTHORIZATION);
+
+    expect(decision).toEqual({ authorized: false, reason: 'has read permission, write required' });
+  });
+
+  it('should allow listed users and team members without the permission', async () => {
+    const config = { ...DEFAULT_AUTHORIZATION, allowedUsers: ['@Contractor'], allowedTeams: ['triagers', 'other-org/helpers'] };
+
+    const listed = await authorizeGitHubUser(githubAPI('read') as any, 'acme', 'my-repo', 'contractor', config);
+    expect(listed.authorized).toBe(true);
+
+    const api = githubAPI('read', ['acme/triagers']);
+    const member = await authorizeGitHubUser(api as any, 'acme', 'my-repo', 'helper', config);
+    expect(member).toEqual({ authorized: true, reason: 'member of team acme/triagers' });
+    expect(api.isTeamMember).toHaveBeenCalledWith('acme', 'triagers', 'helper');
+  });
+
+  it('should fail closed when the permission lookup fails', async () => {
+    const decision = await authorizeGitHubUser(
+      githubAPI(new Error('Resource not accessible by integration')) as any,
+      'acme',
+      'my-repo',
+      'developer',
+      DEFAULT_AUTHORIZATION
+    );
+
+    expect(decision).toEqual({ authorized: false, reason: 'has none permission, write required' });
+  });
+
+  it('should check GitLab project access levels and group allowlists', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input: any) => {
+      const url = String(input);
+      if (url.includes('/projects/7/members/all/11')) {
+        return new Response(JSON.stringify({ access_level: 30, state: 'active' }), { status: 200 });
+      }
+      if (url.includes('/groups/acme%2Fplatform/members/all/12')) {
+        return new Response(JSON.stringify({ access_level: 10, state: 'active' }), { status: 200 });
+      }
+      return new Response('Not Found', { status: 404 });
+    });
+    const credentials = { url: 'https://gitlab.example.com', token: 'token' };
+    const config = { ...DEFAULT_AUTHORIZATION, allowedTeams: ['acme/platform'] };
+
+    expect(await authorizeGitLabUser(credentials, 7, { id: 11, username: 'dev' }, config))
+      .toEqual({ authorized: true, reason: 'has Developer access' });
+    expect(await authorizeGitLabUser(credentials, 7, { id: 12, username: 'platform' }, config))
+      .toEqual({ authorized: true, reason: 'member of group acme/platform' });
+    expect(await authorizeGitLabUser(credentials, 7, { id: 13, username: 'stranger' }, config))
+      .toEqual({ authorized: false, reason: 'has no access, Developer required' });
+
+    expect(fetchSpy.mock.calls[0][0]).toBe('https://gitlab.example.com/api/v4/projects/7/members/all/11');
+  });
+
+  it('should check Bitbucket repository permissions', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input: any) => {
+      const url = decodeURIComponent(String(input));
+      const permission = url.includes('{dev}') ? 'write' : url.includes('{reader}') ? 'read' : null;
+      return new Response(JSON.stringify({ values: permission ? [{ permission }] : [] }), { status: 200 });
+    });
+    const credentials = { username: 'claude-bot', appPassword: 'app-password' };
+    const config = { ...DEFAULT_AUTHORIZATION, allowedUsers: ['contractor'] };
+
+    expect(await authorizeBitbucketUser(credentials, 'acme/widgets', { uuid: '{dev}', username: 'dev' }, config))
+      .toEqual({ authorized: true, reason: 'has write permission' });
+    expect(await authorizeBitbucketUser(credentials, 'acme/widgets', { uuid: '{reader}', username: 'reader' }, config))
+      .toEqual({ authorized: false, reason: 'has read permission, write required' });
+    expect(await authorizeBitbucketUser(credentials, 'acme/widgets', { uuid: '{other}', username: 'contractor' }, config))
+      .toEqual({ authorized: true, reason: 'listed in allowed_users' });
+
+    expect(String(fetchSpy.mock.calls[0][0])).toContain('https://api.bitbucket.org/2.0/workspaces/acme/permissions/repositories/widgets');
+  });
+
+  it('should check Gitea repository permissions', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input: any) => {
+      const url = String(input);
+      const permission = url.includes('/collaborators/owner/') ? 'owner' : url.includes('/collaborators/reader/') ? 'read' : 'none';
+      return new Response(JSON.stringify({ permission }), { status: 200 });
+    });
+    const credentials = { giteaUrl: 'https://git.example.com', token: 'gitea-token' };
+
+    expect(await authorizeGiteaUser(credentials, 'acme/widgets', 'owner', DEFAULT_AUTHORIZATION))
+      .toEqual({ authorized: true, reason: 'has admin permission' });
+    expect(await authorizeGiteaUser(credentials, 'acme/widgets', 'reader', DEFAULT_AUTHORIZATION))
+      .toEqual({ authorized: false, reason: 'has read permission, write required' });
+    expect(await authorizeGiteaUser(credentials, 'acme/widgets', 'stranger', DEFAULT_AUTHORIZATION))
+      .toEqual({ authorized: false, reason: 'has none permission, write required' });
+
+    expect(fetchSpy.mock.calls[0][0]).toBe('https://git.example.com/api/v1/repos/acme/widgets/collaborators/owner/permission');
+  });
+
+  it('should word the refusal in the provider\'s terms', () => {
+    expect(formatAuthorizationRefusal('drive-by', 'github', DEFAULT_AUTHORIZATION)).toContain('@drive-by');
+    expect(formatAuthorizationRefusal('drive-by', 'github', DEFAULT_AUTHORIZATION)).toContain('write access');
+    expect(formatAuthorizationRefusal('drive-by', 'gitlab', { ...DEFAULT_AUTHORIZATION, minimumPermission: 'maintain' }))
+      .toContain('Maintainer access');
+  });
+
+  it('should record refused triggers as refused jobs', async () => {
+    const jobTracker = {
+      fetch: vi.fn().mockImplementation(async (request: Request) =>
+        new Response(JSON.stringify(request.url.endsWith('/start') ? { id: 'job-1' } : {}), { status: 200 })
+      )
+    };
+    const env = {
+      JOB_TRACKER: {
+        idFromName: vi.fn().mockReturnValue('job-tracker-id'),
+        get: vi.fn().mockReturnValue(jobTracker)
+      }
+    };
+
+    await recordRefusedTrigger(env, {
+      triggerEvent: 'issues.opened',
+      provider: 'github',
+      repository: 'acme/my-repo',
+      reference: '#42',
+      containerName: 'claude-issue-1001'
+    }, 'drive-by', { authorized: false, reason: 'has read permission, write required' });
+
+    const finish = jobTracker.fetch.mock.calls[1][0] as Request;
+    expect(finish.url).toBe('http://internal/finish');
+    expect(JSON.parse(await finish.text())).toEqual({
+      id: 'job-1',
+      status: 'refused',
+      outcome: 'Refused trigger from drive-by: has read permission, write required'
+    });
+  });
+});
@@ -0,0 +1,285 @@
+import { GitHubAPI } from './github_client';
+import { GitLabApiCredentials, getGitLabProjectMemberAccessLevel, getGitLabGroupMemberAccessLevel } from './gitlab_api';
+import { BitbucketApiCredentials, getBitbucketRepositoryPermission } from './bitbucket_api';
+import { GiteaApiCredentials, getGiteaRepositoryPermission } from './gitea_api';
+import { startJob, finishJob, JobStart } from './jobs';
+import { logWithContext } from './log';
+
+// Who may start a run. Checked before anything is routed to a container, because a run
+// spends the Anthropic key and works on the repository with full tool permissions.
+// A user is authorized when any of these holds:
+// - they are listed in allowed_users
+// - their repository permission is at least minimum_permission (GitHub collaborator
+//   permission, the matching GitLab access level, or Bitbucket/Gitea read/write/admin)
+// - they belong to one of allowed_teams (GitHub `org/team` slugs, GitLab group paths;
+//   not checked on Bitbucket or Gitea)
+export type PermissionLevel = 'read' | 'triage' | 'write' | 'maintain' | 'admin';
+
+// Lowest to highest
+export const PERMISSION_LEVELS: PermissionLevel[] = ['read', 'triage', 'write', 'maintain', 'admin'];
+
+// GitLab access levels for each permission (Reporter, Reporter, Developer, Maintainer, Owner)
+export const GITLAB_ACCESS_LEVELS: Record<PermissionLevel, number> = {
+  read: 20,
+  triage: 20,
+  write: 30,
+  maintain: 40,
+  admin: 50
+};
+
+// Bitbucket and Gitea permission needed for each level
+const BITBUCKET_PERMISSIONS: Record<PermissionLevel, PermissionLevel> = {
+  read: 'read',
+  triage: 'write',
+  write: 'write',
+  maintain: 'admin',
+  admin: 'admin'
+};
+
+const GITLAB_ROLE_NAMES: Record<number, string> = {
+  10: 'Guest',
+  20: 'Reporter',
+  30: 'Developer',
+  40: 'Maintainer',
+  50: 'Owner'
+};
+
+export interface AuthorizationConfig {
+  minimumPermission: PermissionLevel;
+  allowedUsers: string[];
+  allowedTeams: string[];
+}
+
+export interface AuthorizationDecision {
+  authorized: boolean;
+  reason: string;
+}
+
+export const DEFAULT_AUTHORIZATION: AuthorizationConfig = {
+  minimumPermission: 'write',
+  allowedUsers: [],
+  allowedTeams: []
+};
+
+function isAllowedUser(config: AuthorizationConfig, username: string): boolean {
+  return config.allowedUsers.some(allowed => allowed.replace(/^@/, '').toLowerCase() === username.toLowerCase());
+}
+
+// Does a GitHub permission (role_name) meet the minimum? Unknown roles never do.
+export function meetsPermission(permission: string, minimum: PermissionLevel): boolean {
+  const level = PERMISSION_LEVELS.indexOf(permission as PermissionLevel);
+  return level >= 0 && level >= PERMISSION_LEVELS.indexOf(minimum);
+}
+
+// Check whether a GitHub user may trigger a run on a repository. Lookups that fail count
+// as "no permission": the check fails closed.
+export async function authorizeGitHubUser(
+  githubAPI: GitHubAPI,
+  owner: string,
+  repo: string,
+  username: string,
+  config: AuthorizationConfig
+): Promise<AuthorizationDecision> {
+  if (isAllowedUser(config, username)) {
+    return { authorized: true, reason: 'listed in allowed_users' };
+  }
+
+  let permission = 'none';
+  try {
+    permission = await githubAPI.getCollaboratorPermission(owner, repo, username);
+  } catch (error) {
+    logWithContext('AUTHORIZATION', 'Failed to look up collaborator permission', {
+      repository: `${owner}/${repo}`,
+      username,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  if (meetsPermission(permission, config.minimumPermission)) {
+    return { authorized: true, reason: `has ${permission} permission` };
+  }
+
+  for (const team of config.allowedTeams) {
+    // `org/team-slug`, or just `team-slug` for a team of the repository owner
+    const [org, slug] = team.includes('/') ? team.split('/', 2) : [owner, team];
+    try {
+      if (await githubAPI.isTeamMember(org, slug, username)) {
+        return { authorized: true, reason: `member of team ${org}/${slug}` };
+      }
+    } catch (error) {
+      logWithContext('AUTHORIZATION', 'Failed to look up team membership', {
+        team: `${org}/${slug}`,
+        username,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  return {
+    authorized: false,
+    reason: `has ${permission} permission, ${config.minimumPermission} required`
+  };
+}
+
+// Check whether a GitLab user may trigger a run on a project. Like the GitHub check,
+// failed lookups count as "not a member".
+export async function authorizeGitLabUser(
+  credentials: GitLabApiCredentials,
+  projectId: string | number,
+  user: { id: number; username: string },
+  config: AuthorizationConfig
+): Promise<AuthorizationDecision> {
+  if (isAllowedUser(config, user.username)) {
+    return { authorized: true, reason: 'listed in allowed_users' };
+  }
+
+  const required = GITLAB_ACCESS_LEVELS[config.minimumPermission];
+  let accessLevel: number | null = null;
+  try {
+    accessLevel = await getGitLabProjectMemberAccessLevel(credentials, projectId, user.id);
+  } catch (error) {
+    logWithContext('AUTHORIZATION', 'Failed to look up project access level', {
+      projectId,
+      username: user.username,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  if (accessLevel !== null && accessLevel >= required) {
+    return { authorized: true, reason: `has ${gitLabRoleName(accessLevel)} access` };
+  }
+
+  for (const group of config.allowedTeams) {
+    try {
+      if (await getGitLabGroupMemberAccessLevel(credentials, group, user.id) !== null) {
+        return { authorized: true, reason: `member of group ${group}` };
+      }
+    } catch (error) {
+      logWithContext('AUTHORIZATION', 'Failed to look up group membership', {
+        group,
+        username: user.username,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  return {
+    authorized: false,
+    reason: `has ${accessLevel !== null ? gitLabRoleName(accessLevel) : 'no'} access, ${gitLabRoleName(required)} required`
+  };
+}
+
+// Check whether a Bitbucket user may trigger a run on a repository. Bitbucket permissions
+// are read, write and admin, so `triage` needs write and `maintain` needs admin.
+export async function authorizeBitbucketUser(
+  credentials: BitbucketApiCredentials,
+  repository: string,
+  user: { uuid: string; username: string },
+  config: AuthorizationConfig
+): Promise<AuthorizationDecision> {
+  if (isAllowedUser(config, user.username)) {
+    return { authorized: true, reason: 'listed in allowed_users' };
+  }
+
+  let permission = 'none';
+  try {
+    permission = await getBitbucketRepositoryPermission(credentials, repository, user.uuid) ?? 'none';
+  } catch (error) {
+    logWithContext('AUTHORIZATION', 'Failed to look up repository permission', {
+      repository,
+      username: user.username,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  const required = BITBUCKET_PERMISSIONS[config.minimumPermission];
+  if (meetsPermission(permission, required)) {
+    return { authorized: true, reason: `has ${permission} permission` };
+  }
+
+  return {
+    authorized: false,
+    reason: `has ${permission} permission, ${required} required`
+  };
+}
+
+// Check whether a Gitea or Forgejo user may trigger a run on a repository. Their permissions
+// are read, write and admin like Bitbucket's.
+export async function authorizeGiteaUser(
+  credentials: GiteaApiCredentials,
+  repository: string,
+  username: string,
+  config: AuthorizationConfig
+): Promise<AuthorizationDecision> {
+  if (isAllowedUser(config, username)) {
+    return { authorized: true, reason: 'listed in allowed_users' };
+  }
+
+  let permission = 'none';
+  try {
+    permission = await getGiteaRepositoryPermission(credentials, repository, username) ?? 'none';
+  } catch (error) {
+    logWithContext('AUTHORIZATION', 'Failed to look up repository permission', {
+      repository,
+      username,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  const required = BITBUCKET_PERMISSIONS[config.minimumPermission];
+  if (meetsPermission(permission, required)) {
+    return { authorized: true, reason: `has ${permission} permission` };
+  }
+
+  return {
+    authorized: false,
+    reason: `has ${permission} permission, ${required} required`
+  };
+}
+
+export function gitLabRoleName(accessLevel: number): string {
+  return GITLAB_ROLE_NAMES[accessLevel] ?? `level ${accessLevel}`;
+}
+
+// The access a user needs, in the provider's terms (e.g. "write access", "Developer access")
+export function describeRequiredAccess(provider: 'github' | 'gitlab' | 'bitbucket' | 'gitea', config: AuthorizationConfig): string {
+  if (provider === 'gitlab') {
+    return `${gitLabRoleName(GITLAB_ACCESS_LEVELS[config.minimumPermission])} access`;
+  }
+  if (provider === 'bitbucket' || provider === 'gitea') {
+    return `${BITBUCKET_PERMISSIONS[config.minimumPermission]} access`;
+  }
+  return `${config.minimumPermission} access`;
+}
+
+// Reply to a trigger from a user who isn't authorized
+export function formatAuthorizationRefusal(
+  username: string,
+  provider: 'github' | 'gitlab' | 'bitbucket' | 'gitea',
+  config: AuthorizationConfig
+): string {
+  return `🤖 **Claude Code Assistant**\n\nThanks for the request, @${username}! I can only start work for people with ${describeRequiredAccess(provider, config)} to this repository, so I won't pick this one up. A maintainer can ask me to take it on instead.\n\n---\n🚀 Powered by Claude Code`;
+}
+
+// Record a refused trigger in the job history, so refusals show up next to real runs
+export async function recordRefusedTrigger(
+  env: any,
+  job: JobStart,
+  username: string,
+  decision: AuthorizationDecision
+): Promise<void> {
+  logWithContext('AUTHORIZATION', 'Trigger refused', {
+    provider: job.provider,
+    repository: job.repository,
+    reference: job.reference,
+    triggerEvent: job.triggerEvent,
+    username,
+    reason: decision.reason
+  });
+
+  const jobId = await startJob(env, job);
+  await finishJob(env, jobId, {
+    status: 'refused',
+    outcome: `Refused trigger from ${username}: ${decision.reason}`
+  });
+}
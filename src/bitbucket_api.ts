@@ -0,0 +1,139 @@
+import { logWithContext } from './log';
+
+// Minimal Bitbucket Cloud REST helpers for the worker (the container uses BitbucketClient)
+
+export const BITBUCKET_API_URL = 'https://api.bitbucket.org/2.0';
+
+export interface BitbucketApiCredentials {
+  username: string;
+  appPassword: string;
+}
+
+function authHeaders(credentials: BitbucketApiCredentials): Record<string, string> {
+  return { 'Authorization': `Basic ${btoa(`${credentials.username}:${credentials.appPassword}`)}` };
+}
+
+// Build the API URL for a repository (`workspace/repo-slug`)
+export function getRepositoryApiUrl(repository: string): string {
+  const [workspace, slug] = repository.split('/', 2);
+  return `${BITBUCKET_API_URL}/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(slug)}`;
+}
+
+// The authenticated account (used to validate an app password and to skip its own comments)
+export async function getBitbucketUser(credentials: BitbucketApiCredentials): Promise<any> {
+  const response = await fetch(`${BITBUCKET_API_URL}/user`, { headers: authHeaders(credentials) });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+// Get a repository (its main branch isn't part of webhook payloads)
+export async function getBitbucketRepository(credentials: BitbucketApiCredentials, repository: string): Promise<any> {
+  const response = await fetch(getRepositoryApiUrl(repository), { headers: authHeaders(credentials) });
+
+  if (!response.ok) {
+    const error = await response.text();
+    logWithContext('BITBUCKET_API', 'Failed to get repository', { status: response.status, repository, error });
+    throw new Error(`Failed to get repository: ${response.status} ${error}`);
+  }
+
+  return response.json();
+}
+
+// Get raw file content at a ref, or null if the file does not exist
+export async function getBitbucketFileContent(
+  credentials: BitbucketApiCredentials,
+  repository: string,
+  path: string,
+  ref: string
+): Promise<string | null> {
+  const response = await fetch(
+    `${getRepositoryApiUrl(repository)}/src/${encodeURIComponent(ref)}/${path.split('/').map(encodeURIComponent).join('/')}`,
+    { headers: authHeaders(credentials) }
+  );
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    const error = await response.text();
+    logWithContext('BITBUCKET_API', 'Failed to get file content', { status: response.status, path, error });
+    throw new Error(`Failed to get file content: ${response.status} ${error}`);
+  }
+
+  return response.text();
+}
+
+// Post a comment on an issue
+export async function createBitbucketIssueComment(
+  credentials: BitbucketApiCredentials,
+  repository: string,
+  issueId: number,
+  body: string
+): Promise<void> {
+  const response = await fetch(`${getRepositoryApiUrl(repository)}/issues/${issueId}/comments`, {
+    method: 'POST',
+    headers: {
+      ...authHeaders(credentials),
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ content: { raw: body } })
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    logWithContext('BITBUCKET_API', 'Failed to create issue comment', { status: response.status, issueId, error });
+    throw new Error(`Failed to create issue comment: ${response.status} ${error}`);
+  }
+}
+
+// Post a comment on a pull request
+export async function createBitbucketPullRequestComment(
+  credentials: BitbucketApiCredentials,
+  repository: string,
+  pullRequestId: number,
+  body: string
+): Promise<void> {
+  const response = await fetch(`${getRepositoryApiUrl(repository)}/pullrequests/${pullRequestId}/comments`, {
+    method: 'POST',
+    headers: {
+      ...authHeaders(credentials),
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ content: { raw: body } })
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    logWithContext('BITBUCKET_API', 'Failed to create pull request comment', { status: response.status, pullRequestId, error });
+    throw new Error(`Failed to create pull request comment: ${response.status} ${error}`);
+  }
+}
+
+// A user's permission on a repository ('read', 'write' or 'admin'), or null if they have none.
+// Only workspace admins may list permissions, so the app password's account needs that role.
+export async function getBitbucketRepositoryPermission(
+  credentials: BitbucketApiCredentials,
+  repository: string,
+  userUuid: string
+): Promise<string | null> {
+  const [workspace, slug] = repository.split('/', 2);
+  const query = encodeURIComponent(`user.uuid="${userUuid}"`);
+  const response = await fetch(
+    `${BITBUCKET_API_URL}/workspaces/${encodeURIComponent(workspace)}/permissions/repositories/${encodeURIComponent(slug)}?q=${query}`,
+    { headers: authHeaders(credentials) }
+  );
+
+  if (!response.ok) {
+    const error = await response.text();
+    logWithContext('BITBUCKET_API', 'Failed to get repository permission', { status: response.status, repository, error });
+    throw new Error(`Failed to get repository permission: ${response.status} ${error}`);
+  }
+
+  const data = await response.json() as { values?: Array<{ permission?: string }> };
+  return data.values?.[0]?.permission ?? null;
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest';
+import { trimCiLog, ciFailuresContext, countCiFixAttempts, isCiFailure, MAX_CI_LOGS_LENGTH } from './ci_fix';
+
+describe('CI fix helpers', () => {
+  const actionsLog = [
+    '2026-10-18T10:00:00.0000000Z ##[group]Run actions/checkout@v4',
+    '2026-10-18T10:00:01.0000000Z Syncing repository: acme/my-repo',
+    '2026-10-18T10:00:02.0000000Z ##[endgroup]',
+    '2026-10-18T10:00:03.0000000Z ##[group]Run npm test',
+    '2026-10-18T10:00:04.0000000Z \x1b[36;1mnpm test\x1b[0m',
+    '2026-10-18T10:00:05.0000000Z ##[endgroup]',
+    '2026-10-18T10:00:06.0000000Z  FAIL  src/dates.test.ts',
+    '2026-10-18T10:00:07.0000000Z   expected 2026-10-18 to equal 2026-10-19',
+    '2026-10-18T10:00:08.0000000Z ##[error]Process completed with exit code 1.',
+    '2026-10-18T10:00:09.0000000Z Post job cleanup.',
+    '2026-10-18T10:00:10.0000000Z Cleaning up orphan processes'
+  ].join('\n');
+
+  it('should only treat failures and timeouts as CI failures', () => {
+    expect(isCiFailure('failure')).toBe(true);
+    expect(isCiFailure('timed_out')).toBe(true);
+    expect(isCiFailure('cancelled')).toBe(false);
+    expect(isCiFailure(null)).toBe(false);
+  });
+
+  it('should keep the failing step of an Actions log', () => {
+    expect(trimCiLog(actionsLog)).toBe([
+      '##[group]Run npm test',
+      'npm test',
+      '##[endgroup]',
+      ' FAIL  src/dates.test.ts',
+      '  expected 2026-10-18 to equal 2026-10-19',
+      '##[error]Process completed with exit code 1.'
+    ].join('\n'));
+  });
+
+  it('should keep the end of a log without recognisable errors', () => {
+    const log = Array.from({ length: 100 }, (_, i) => `line ${i}`).join('\n');
+    const trimmed = trimCiLog(log, 50);
+
+    expect(trimmed).toMatch(/^… \[\d+ earlier characters omitted\]\n/);
+    expect(trimmed.endsWith('line 99')).toBe(true);
+  });
+
+  it('should share the log budget between failing jobs', () => {
+    const failures = [1, 2, 3, 4].map(n => ({ name: `job ${n}`, conclusion: 'failure', log: 'x'.repeat(20_000) }));
+    const context = JSON.parse(ciFailuresContext(failures).CI_FAILURES);
+
+    expect(context).toHaveLength(4);
+    expect(context.reduce((total: number, failure: any) => total + failure.log.length, 0))
+      .toBeLessThan(MAX_CI_LOGS_LENGTH + 4 * 50);
+  });
+
+  it('should count CI fix runs from the job history', async () => {
+    const tracker = {
+      fetch: vi.fn().mockResolvedValue(new Response(JSON.stringify([
+        { triggerEvent: 'workflow_run.completed', status: 'succeeded' },
+        { triggerEvent: 'check_run.completed', status: 'failed' },
+        { triggerEvent: 'pull_request_review.submitted', status: 'succeeded' }
+      ])))
+    };
+    const env = { JOB_TRACKER: { idFromName: vi.fn(), get: vi.fn().mockReturnValue(tracker) } };
+
+    expect(await countCiFixAttempts(env, 'acme/my-repo', '#12')).toEqual({ attempts: 2, exhausted: false });
+
+    const request = tracker.fetch.mock.calls[0][0];
+    expect(new URL(request.url).searchParams.get('reference')).toBe('#12');
+  });
+
+  it('should make no attempts when the job history is unavailable', async () => {
+    const result = await countCiFixAttempts({}, 'acme/my-repo', '#12');
+    expect(result.exhausted).toBe(true);
+  });
+});
@@ -0,0 +1,170 @@
+import { getJobTracker } from './jobs';
+import { logWithContext } from './log';
+
+// Fixing failing CI on pull requests Claude opened. When a check run or workflow run on
+// the pull request's head commit fails, the worker collects the failing jobs' logs, trims
+// each to the failing step and starts a run on the head branch with them. Each pull
+// request gets at most `max_ci_fix_attempts` runs (from .claude-containers.yml), counted
+// from the job history. Each head commit is claimed for one fix, so several workflows
+// failing on the same commit start a single run between them.
+
+export interface CiFailure {
+  // Workflow job or check name, e.g. "test (ubuntu-latest, 20)"
+  name: string;
+  url?: string;
+  conclusion: string;
+  log: string;
+}
+
+// Job history trigger events of CI fix runs
+export const CI_FIX_TRIGGER_EVENTS = ['check_run.completed', 'workflow_run.completed'];
+
+// Characters of log kept per failing job, and for all jobs together
+export const MAX_CI_LOG_LENGTH = 12_000;
+export const MAX_CI_LOGS_LENGTH = 30_000;
+
+// Lines kept before the first error in the failing step
+const CONTEXT_LINES = 40;
+
+// Conclusions that mean the code is at fault; cancelled and skipped runs are left alone
+export function isCiFailure(conclusion: string | null | undefined): boolean {
+  return conclusion === 'failure' || conclusion === 'timed_out';
+}
+
+const ANSI_PATTERN = /\x1b\[[0-9;]*[A-Za-z]/g;
+// Actions log lines start with a timestamp, e.g. 2026-10-18T10:00:00.1234567Z
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z ?/;
+const ERROR_PATTERN = /##\[error\]|\berror\b|\bfail(ed|ure)?\b|Traceback|panicked/i;
+
+// Cut a CI log down to the part that explains the failure: from the start of the step
+// that reported the first error (or a few lines before the error) to the end of that
+// step, keeping the end when it is still too long
+export function trimCiLog(log: string, maxLength: number = MAX_CI_LOG_LENGTH): string {
+  const lines = log
+    .replace(ANSI_PATTERN, '')
+    .split(/\r?\n/)
+    .map(line => line.replace(TIMESTAMP_PATTERN, ''));
+
+  let firstError = lines.findIndex(line => line.startsWith('##[error]'));
+  if (firstError === -1) {
+    firstError = lines.findIndex(line => ERROR_PATTERN.test(line));
+  }
+
+  let section = lines;
+  if (firstError !== -1) {
+    let start = Math.max(0, firstError - CONTEXT_LINES);
+    for (let i = firstError; i >= 0; i--) {
+      if (lines[i].startsWith('##[group]Run ')) {
+        start = i;
+        break;
+      }
+    }
+
+    let end = lines.length;
+    for (let i = firstError + 1; i < lines.length; i++) {
+      if (lines[i].startsWith('##[group]Run ') || lines[i].startsWith('Post job cleanup')) {
+        end = i;
+        break;
+      }
+    }
+
+    section = lines.slice(start, end);
+  }
+
+  const trimmed = section.join('\n').trim();
+  if (trimmed.length <= maxLength) {
+    return trimmed;
+  }
+
+  return `… [${trimmed.length - maxLength} earlier characters omitted]\n${trimmed.substring(trimmed.length - maxLength)}`;
+}
+
+// CI_FAILURES for the container, sharing MAX_CI_LOGS_LENGTH between the failing jobs
+export function ciFailuresContext(failures: CiFailure[]): Record<string, string> {
+  const perJob = Math.min(MAX_CI_LOG_LENGTH, Math.floor(MAX_CI_LOGS_LENGTH / Math.max(1, failures.length)));
+  return {
+    CI_FAILURES: JSON.stringify(failures.map(failure => ({ ...failure, log: trimCiLog(failure.log, perJob) })))
+  };
+}
+
+// CI fix runs already made on a pull request, and whether the pull request was already
+// told that they are used up
+export async function countCiFixAttempts(
+  env: any,
+  repository: string,
+  reference: string
+): Promise<{ attempts: number; exhausted: boolean }> {
+  try {
+    const params = new URLSearchParams({ repository, reference, limit: '500' });
+    const response = await getJobTracker(env).fetch(new Request(`http://internal/list?${params}`));
+    const jobs = await response.json() as Array<{ triggerEvent: string; status: string }>;
+    const ciJobs = jobs.filter(job => CI_FIX_TRIGGER_EVENTS.includes(job.triggerEvent));
+
+    return {
+      attempts: ciJobs.filter(job => job.status !== 'refused').length,
+      exhausted: ciJobs.some(job => job.status === 'refused')
+    };
+  } catch (error) {
+    // Without the history there's no telling how many attempts were made, so make none
+    logWithContext('CI_FIX', 'Failed to count CI fix attempts', {
+      error: error instanceof Error ? error.message : String(error),
+      repository,
+      reference
+    });
+    return { attempts: Number.MAX_SAFE_INTEGER, exhausted: true };
+  }
+}
+
+// Claim a pull request's head commit for a CI fix. Returns false when another failure on
+// the same commit already claimed it, or when the claim can't be made: a second fix for
+// the commit would use up an attempt without anything new to fix.
+export async function claimCiFix(
+  env: any,
+  repository: string,
+  reference: string,
+  headSha: string
+): Promise<boolean> {
+  try {
+    const response = await getJobTracker(env).fetch(new Request('http://internal/claim-ci-fix', {
+      method: 'POST',
+      body: JSON.stringify({ repository, reference, headSha })
+    }));
+
+    if (!response.ok) {
+      throw new Error(`Job tracker returned status ${response.status}`);
+    }
+
+    const { claimed } = await response.json() as { claimed: boolean };
+    return claimed;
+  } catch (error) {
+    logWithContext('CI_FIX', 'Failed to claim CI fix', {
+      error: error instanceof Error ? error.message : String(error),
+      repository,
+      reference,
+      headSha
+    });
+    return false;
+  }
+}
+
+// Give up a claim when no fix was started, so a later failure on the commit can start one
+export async function releaseCiFix(
+  env: any,
+  repository: string,
+  reference: string,
+  headSha: string
+): Promise<void> {
+  try {
+    await getJobTracker(env).fetch(new Request('http://internal/release-ci-fix', {
+      method: 'POST',
+      body: JSON.stringify({ repository, reference, headSha })
+    }));
+  } catch (error) {
+    logWithContext('CI_FIX', 'Failed to release CI fix claim', {
+      error: error instanceof Error ? error.message : String(error),
+      repository,
+      reference,
+      headSha
+    });
+  }
+}
@@ -2,22 +2,135 @@ import jwt from '@tsndr/cloudflare-worker-jwt';
 import { logWithContext } from './log';
 
 // Encryption utilities
-export async function encrypt(text: string, key?: CryptoKey): Promise<string> {
-  logWithContext('ENCRYPTION', 'Starting encryption process');
+//
+// Values are encrypted with AES-256-GCM using a key derived (HKDF-SHA-256) from the
+// ENCRYPTION_KEY Worker secret. Ciphertexts are stored as `enc:v1:<keyId>:<base64>` so the
+// key that produced them is known when decrypting. Setting ENCRYPTION_KEY_PREVIOUS to the old
+// secret while rotating lets values encrypted under it be read and re-encrypted.
+//
+// Bare base64 values (no prefix) were written by earlier releases with a key built from a
+// static string; they can still be decrypted so existing deployments can migrate.
+
+export interface EncryptionEnv {
+  ENCRYPTION_KEY?: string;
+  ENCRYPTION_KEY_PREVIOUS?: string;
+}
+
+interface EncryptionKey {
+  id: string;
+  key: CryptoKey;
+}
+
+const CIPHERTEXT_PREFIX = 'enc:v1:';
+const LEGACY_KEY_ID = 'legacy';
+const LEGACY_KEY_MATERIAL = 'github-app-encryption-key-32char';
+const KEY_DERIVATION_INFO = 'claude-code-containers/config-encryption';
+const KEY_ID_DERIVATION_INFO = 'claude-code-containers/key-id';
+
+// Derived keys are cached per secret so each request does not repeat HKDF
+const derivedKeys = new Map<string, Promise<EncryptionKey>>();
 
-  if (!key) {
-    logWithContext('ENCRYPTION', 'Generating encryption key from static material');
-    // Generate a simple key from static data for now
-    // In production, this should use proper key management
-    const keyMaterial = await crypto.subtle.importKey(
-      'raw',
-      new TextEncoder().encode('github-app-encryption-key-32char'),
-      { name: 'AES-GCM' },
-      false,
-      ['encrypt']
-    );
-    key = keyMaterial;
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
   }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return new Uint8Array(
+    atob(value)
+      .split('')
+      .map(char => char.charCodeAt(0))
+  );
+}
+
+async function deriveKey(secret: string): Promise<EncryptionKey> {
+  const secretBytes = new TextEncoder().encode(secret);
+  const baseKey = await crypto.subtle.importKey('raw', secretBytes, 'HKDF', false, ['deriveKey', 'deriveBits']);
+
+  // The key ID is a separate HKDF output, so it is no plain hash of the secret and says
+  // nothing about the encryption key
+  const keyIdBits = await crypto.subtle.deriveBits(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(32),
+      info: new TextEncoder().encode(KEY_ID_DERIVATION_INFO)
+    },
+    baseKey,
+    64
+  );
+
+  const key = await crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(32),
+      info: new TextEncoder().encode(KEY_DERIVATION_INFO)
+    },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+
+  return { id: toHex(keyIdBits), key };
+}
+
+function getDerivedKey(secret: string): Promise<EncryptionKey> {
+  let derived = derivedKeys.get(secret);
+  if (!derived) {
+    derived = deriveKey(secret);
+    derivedKeys.set(secret, derived);
+  }
+  return derived;
+}
+
+async function getLegacyKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(LEGACY_KEY_MATERIAL),
+    { name: 'AES-GCM' },
+    false,
+    ['decrypt']
+  );
+}
+
+async function getCurrentKey(env: EncryptionEnv): Promise<EncryptionKey> {
+  if (!env.ENCRYPTION_KEY) {
+    throw new Error('ENCRYPTION_KEY secret is not configured. Run `wrangler secret put ENCRYPTION_KEY` to set it.');
+  }
+  return getDerivedKey(env.ENCRYPTION_KEY);
+}
+
+// Return the key ID a ciphertext was encrypted with ('legacy' for pre-key-ID values)
+export function getCiphertextKeyId(encryptedText: string): string {
+  if (!encryptedText.startsWith(CIPHERTEXT_PREFIX)) {
+    return LEGACY_KEY_ID;
+  }
+  return encryptedText.substring(CIPHERTEXT_PREFIX.length).split(':')[0];
+}
+
+// Return the ID of the key new values are encrypted with, or null if no key is configured
+export async function getCurrentKeyId(env: EncryptionEnv): Promise<string | null> {
+  if (!env.ENCRYPTION_KEY) {
+    return null;
+  }
+  return (await getDerivedKey(env.ENCRYPTION_KEY)).id;
+}
+
+export async function encrypt(text: string, env: EncryptionEnv): Promise<string> {
+  logWithContext('ENCRYPTION', 'Starting encryption process');
+
+  const { id, key } = await getCurrentKey(env);
 
   const iv = crypto.getRandomValues(new Uint8Array(12));
   const encodedText = new TextEncoder().encode(text);
@@ -33,32 +146,35 @@ export async function encrypt(text: string, key?: CryptoKey): Promise<string> {
   combined.set(iv);
   combined.set(new Uint8Array(encrypted), iv.length);
 
-  logWithContext('ENCRYPTION', 'Encryption completed successfully');
-  return btoa(String.fromCharCode(...combined));
+  logWithContext('ENCRYPTION', 'Encryption completed successfully', { keyId: id });
+  return `${CIPHERTEXT_PREFIX}${id}:${toBase64(combined)}`;
 }
 
-export async function decrypt(encryptedText: string, key?: CryptoKey): Promise<string> {
+export async function decrypt(encryptedText: string, env: EncryptionEnv): Promise<string> {
   logWithContext('DECRYPTION', 'Starting decryption process');
 
-  if (!key) {
-    logWithContext('DECRYPTION', 'Generating decryption key from static material');
-    // Generate the same key
-    const keyMaterial = await crypto.subtle.importKey(
-      'raw',
-      new TextEncoder().encode('github-app-encryption-key-32char'),
-      { name: 'AES-GCM' },
-      false,
-      ['decrypt']
-    );
-    key = keyMaterial;
-  }
+  const keyId = getCiphertextKeyId(encryptedText);
+  let key: CryptoKey;
+  let payload: string;
 
-  const combined = new Uint8Array(
-    atob(encryptedText)
-      .split('')
-      .map(char => char.charCodeAt(0))
-  );
+  if (keyId === LEGACY_KEY_ID) {
+    logWithContext('DECRYPTION', 'Decrypting value stored with the legacy static key');
+    key = await getLegacyKey();
+    payload = encryptedText;
+  } else {
+    const candidates = [env.ENCRYPTION_KEY, env.ENCRYPTION_KEY_PREVIOUS].filter((secret): secret is string => !!secret);
+    const derived = await Promise.all(candidates.map(getDerivedKey));
+    const match = derived.find(candidate => candidate.id === keyId);
+
+    if (!match) {
+      throw new Error(`No configured encryption key matches key ID ${keyId}`);
+    }
 
+    key = match.key;
+    payload = encryptedText.substring(CIPHERTEXT_PREFIX.length + keyId.length + 1);
+  }
+
+  const combined = fromBase64(payload);
   const iv = combined.slice(0, 12);
   const encrypted = combined.slice(12);
 
@@ -69,10 +185,19 @@ export async function decrypt(encryptedText: string, key?: CryptoKey): Promise<s
   );
 
   const result = new TextDecoder().decode(decrypted);
-  logWithContext('DECRYPTION', 'Decryption completed successfully');
+  logWithContext('DECRYPTION', 'Decryption completed successfully', { keyId });
   return result;
 }
 
+// Re-encrypt a value under the current key. Returns null when it is already current.
+export async function reEncrypt(encryptedText: string, env: EncryptionEnv): Promise<string | null> {
+  const currentKeyId = await getCurrentKeyId(env);
+  if (getCiphertextKeyId(encryptedText) === currentKeyId) {
+    return null;
+  }
+  return encrypt(await decrypt(encryptedText, env), env);
+}
+
 // JWT token generation for GitHub App authentication
 async function generateAppJWT(appId: string, privateKey: string): Promise<string> {
   logWithContext('JWT', 'Generating App JWT token', { appId });
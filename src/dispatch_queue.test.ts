@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  planDispatch,
+  dispatchRun,
+  runDispatchJob,
+  cancelQueuedRun,
+  dispatchLimitsFromEnv,
+  formatQueuedMessage,
+  DEFAULT_DISPATCH_LIMITS,
+  DispatchJob,
+  DispatchRequest,
+  QueueEntry,
+  QueueTicket
+} from './dispatch_queue';
+
+function entry(id: string, repository: string, enqueuedAt: string, containerName: string = `claude-${id}`): QueueEntry {
+  return { id, installation: repository.split('/')[0], repository, containerName, enqueuedAt };
+}
+
+describe('Dispatch planning', () => {
+  const limits = { global: 3, perInstallation: 2, perRepository: 2 };
+
+  it('should take the installation with the fewest runs first', () => {
+    const queued = [
+      entry('a1', 'acme/app', '2026-10-18T10:00:00Z'),
+      entry('a2', 'acme/app', '2026-10-18T10:00:01Z'),
+      entry('a3', 'acme/api', '2026-10-18T10:00:02Z'),
+      entry('b1', 'beta/site', '2026-10-18T10:00:03Z')
+    ];
+    const running = [entry('r1', 'acme/app', '2026-10-18T09:00:00Z')];
+
+    const plan = planDispatch(queued, running, limits);
+
+    expect(plan.order).toEqual(['b1', 'a1', 'a2', 'a3']);
+    // acme already has a run, so only one more of its runs fits under perInstallation
+    expect(plan.startable).toEqual(['b1', 'a1']);
+  });
+
+  it('should respect the global and per-repository limits', () => {
+    const queued = [
+      entry('a1', 'acme/app', '2026-10-18T10:00:00Z'),
+      entry('b1', 'beta/site', '2026-10-18T10:00:01Z'),
+      entry('c1', 'core/lib', '2026-10-18T10:00:02Z')
+    ];
+
+    expect(planDispatch(queued, [], { ...limits, global: 2 }).startable).toEqual(['a1', 'b1']);
+    expect(planDispatch(queued, [
+      entry('r1', 'acme/app', '2026-10-18T09:00:00Z'),
+      entry('r2', 'acme/app', '2026-10-18T09:00:01Z')
+    ], { ...limits, global: 5, perInstallation: 5 }).startable).toEqual(['b1', 'c1']);
+  });
+
+  it('should never start two runs in the same container', () => {
+    const queued = [
+      entry('a1', 'acme/app', '2026-10-18T10:00:00Z', 'claude-issue-1'),
+      entry('a2', 'acme/app', '2026-10-18T10:00:01Z', 'claude-issue-1'),
+      entry('a3', 'acme/app', '2026-10-18T10:00:02Z', 'claude-issue-2')
+    ];
+
+    expect(planDispatch(queued, [], { global: 10, perInstallation: 10, perRepository: 10 }).startable).toEqual(['a1', 'a3']);
+  });
+
+  it('should read limits from the environment', () => {
+    expect(dispatchLimitsFromEnv({})).toEqual(DEFAULT_DISPATCH_LIMITS);
+    expect(dispatchLimitsFromEnv({ MAX_CONCURRENT_RUNS: '4', MAX_RUNS_PER_INSTALLATION: '0', MAX_RUNS_PER_REPOSITORY: 'two' }))
+      .toEqual({ ...DEFAULT_DISPATCH_LIMITS, global: 4 });
+  });
+
+  it('should format the queued message', () => {
+    expect(formatQueuedMessage(2, 5)).toContain('position 2 of 5');
+  });
+});
+
+describe('Dispatch runs', () => {
+  const request: DispatchRequest = {
+    provider: 'github',
+    repository: 'acme/app',
+    reference: '#42',
+    containerName: 'claude-issue-1',
+    triggerEvent: 'issues.opened'
+  };
+  const job: DispatchJob = {
+    route: '/process-issue',
+    context: { ANTHROPIC_API_KEY: 'sk-ant-test', GITHUB_TOKEN: 'ghs_old' },
+    githubConfigId: 'config-id'
+  };
+
+  let responses: Record<string, QueueTicket[]>;
+  let calls: { path: string; body: any }[];
+  let containerRequests: { url: string; body: any }[];
+  let containerResponse: Response;
+  let container: any;
+  let githubAppConfig: any;
+  let mockEnv: any;
+
+  beforeEach(() => {
+    responses = {};
+    calls = [];
+    containerRequests = [];
+    containerResponse = new Response(JSON.stringify({ success: true, message: 'Done' }));
+    const queue = {
+      fetch: vi.fn().mockImplementation(async (req: Request) => {
+        const path = new URL(req.url).pathname;
+        const body = await req.json();
+        calls.push({ path, body });
+        const next = responses[path]?.shift();
+        return new Response(JSON.stringify(next ?? { id: 'run-1', status: 'running' }));
+      })
+    };
+    container = {
+      fetch: vi.fn().mockImplementation(async (req: Request) => {
+        containerRequests.push({ url: req.url, body: await req.json() });
+        return containerResponse;
+      })
+    };
+    githubAppConfig = {
+      idFromString: vi.fn().mockReturnValue('config-stub-id'),
+      get: vi.fn().mockReturnValue({
+        fetch: vi.fn().mockImplementation(async () => new Response(JSON.stringify({ token: 'ghs_fresh' })))
+      })
+    };
+    mockEnv = {
+      DISPATCH_QUEUE: {
+        idFromName: vi.fn().mockReturnValue('mock-queue-id'),
+        get: vi.fn().mockReturnValue(queue)
+      },
+      MY_CONTAINER: {
+        idFromName: vi.fn().mockReturnValue('mock-container-id'),
+        get: vi.fn().mockReturnValue(container)
+      },
+      GITHUB_APP_CONFIG: githubAppConfig
+    };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should hand the job to the queue instead of running it', async () => {
+    const onQueued = vi.fn();
+
+    await dispatchRun(mockEnv, request, job, { onQueued });
+
+    expect(calls).toEqual([{ path: '/enqueue', body: { ...request, job } }]);
+    expect(container.fetch).not.toHaveBeenCalled();
+    expect(onQueued).not.toHaveBeenCalled();
+  });
+
+  it('should report the queue position once when the run has to wait', async () => {
+    responses['/enqueue'] = [{ id: 'run-1', status: 'queued', position: 2, queueLength: 3 }];
+    const onQueued = vi.fn().mockResolvedValue(undefined);
+
+    await dispatchRun(mockEnv, request, job, { onQueued });
+
+    expect(onQueued).toHaveBeenCalledTimes(1);
+    expect(onQueued).toHaveBeenCalledWith(2, 3);
+    expect(container.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should run at once when the queue is not available', async () => {
+    const { DISPATCH_QUEUE, ...envWithoutQueue } = mockEnv;
+
+    await dispatchRun(envWithoutQueue, request, job);
+
+    expect(containerRequests).toHaveLength(1);
+    expect(containerRequests[0].url).toBe('http://internal/process-issue');
+    expect(containerRequests[0].body).toMatchObject(job.context);
+  });
+
+  it('should throw when the container fails so the queue can retry', async () => {
+    containerResponse = new Response('Boom', { status: 500 });
+
+    await expect(runDispatchJob(mockEnv, request, job, false)).rejects.toThrow('Container returned status 500: Boom');
+  });
+
+  it('should report the hand-off only once the container gets the request', async () => {
+    const onHandedOff = vi.fn();
+    githubAppConfig.get.mockReturnValue({ fetch: vi.fn().mockRejectedValue(new Error('Config unavailable')) });
+
+    await expect(runDispatchJob(mockEnv, request, job, true, onHandedOff)).rejects.toThrow('Config unavailable');
+    expect(onHandedOff).not.toHaveBeenCalled();
+
+    containerResponse = new Response('Boom', { status: 500 });
+    await expect(runDispatchJob(mockEnv, request, job, false, onHandedOff)).rejects.toThrow('Container returned status 500');
+    expect(onHandedOff).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refresh the installation token of a run that waited', async () => {
+    await runDispatchJob(mockEnv, request, job, true);
+
+    expect(githubAppConfig.idFromString).toHaveBeenCalledWith('config-id');
+    expect(containerRequests[0].body.GITHUB_TOKEN).toBe('ghs_fresh');
+  });
+
+  it('should skip a waiting run whose head moved on', async () => {
+    const githubFetch = vi.spyOn(globalThis, 'fetch')
+      .mockImplementation(async () => new Response(JSON.stringify({ head: { sha: 'def456' } })));
+
+    await runDispatchJob(mockEnv, request, {
+      ...job,
+      change: { number: 42, headSha: 'abc123' },
+      supersededNotice: 'Superseded by a newer push'
+    }, true);
+
+    expect(container.fetch).not.toHaveBeenCalled();
+    expect(githubFetch).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(githubFetch.mock.calls[1][1]!.body as string)).toEqual({ body: 'Superseded by a newer push' });
+  });
+
+  it('should report whether a queued run was cancelled', async () => {
+    responses['/cancel'] = [{ cancelled: true } as any];
+
+    expect(await cancelQueuedRun(mockEnv, 'claude-issue-1', 'octocat')).toBe(true);
+    expect(calls[0].body).toEqual({ containerName: 'claude-issue-1', cancelledBy: 'octocat' });
+    expect(await cancelQueuedRun({}, 'claude-issue-1', 'octocat')).toBe(false);
+  });
+});
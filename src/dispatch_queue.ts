@@ -0,0 +1,391 @@
+import { logWithContext } from './log';
+import { containerFetch } from './fetch';
+import { startJob, finishJob, RunUsage } from './jobs';
+import { storeTranscript, transcriptContext } from './transcripts';
+import { getThreadSession, storeThreadSession, sessionContext, ThreadRef, ThreadSession } from './sessions';
+import { GitHubAPI } from './github_client';
+import { getGitLabMergeRequest } from './gitlab_api';
+
+// Queue between the webhook handlers and MyContainer, kept in DispatchQueueDO.
+// Every container run is handed to the queue with everything needed to start it (a
+// DispatchJob), and the queue starts it itself: at once while there is room under the
+// global, per-installation and per-repository limits, otherwise when a slot frees up, in
+// which case the issue or merge request is told its position. The webhook invocation that
+// queued a run doesn't have to stay around for it. Waiting runs are taken in fair order
+// (the installation with the fewest runs goes next, oldest run first) and never share a
+// container with a run in progress. A run that fails before its container gets the request
+// is queued again, and dead-lettered after MAX_DISPATCH_ATTEMPTS. Once the container has it,
+// the run may already have pushed a branch, commented or opened a pull request, so a failure
+// from then on is final.
+
+export type QueueStatus = 'queued' | 'running' | 'dead_letter';
+
+export interface DispatchLimits {
+  // Runs in progress at once; matches max_instances of the container in wrangler.jsonc
+  global: number;
+  perInstallation: number;
+  perRepository: number;
+}
+
+export interface DispatchRequest {
+  provider: 'github' | 'gitlab' | 'bitbucket' | 'gitea';
+  repository: string;
+  // `#<number>` for issues and pull requests, `!<iid>` for merge requests,
+  // `PR #<id>` for Bitbucket pull requests
+  reference: string;
+  containerName: string;
+  triggerEvent: string;
+}
+
+// What the queue needs to start a run. It is stored with the queue entry, encrypted since
+// the variables include credentials.
+export interface DispatchJob {
+  // Container route (e.g. /process-issue) and the variables sent to it
+  route: string;
+  context: Record<string, string>;
+  // Worker origin, for the transcript link
+  origin?: string;
+  // Thread whose Claude session the run resumes and saves
+  thread?: ThreadRef;
+  // GitHub runs: the GitHubAppConfigDO (its DurableObjectId as a string). Installation tokens
+  // last an hour, so a run that waited gets a fresh GITHUB_TOKEN from it.
+  githubConfigId?: string;
+  // Reviews and CI fixes: the pull or merge request and the head commit the run was asked
+  // for. A run that waited is skipped once the head has moved on, as the push that moved
+  // it starts a run of its own.
+  change?: { number: number; headSha: string; gitlabProjectId?: number };
+  // GitHub only: comment posted on the pull request when the run is skipped for that reason
+  supersededNotice?: string;
+}
+
+export interface QueueEntry {
+  id: string;
+  installation: string;
+  repository: string;
+  containerName: string;
+  enqueuedAt: string;
+}
+
+export interface QueueTicket {
+  id: string;
+  status: QueueStatus;
+  // 1-based place among the waiting runs, while queued
+  position?: number;
+  queueLength?: number;
+}
+
+export interface DispatchCallbacks {
+  // Called once, when the run has to wait
+  onQueued?: (position: number, queueLength: number) => Promise<void>;
+}
+
+export const DEFAULT_DISPATCH_LIMITS: DispatchLimits = {
+  global: 10,
+  perInstallation: 5,
+  perRepository: 3
+};
+
+export const MAX_DISPATCH_ATTEMPTS = 3;
+
+// A failed run waits this long, times the attempts so far, before it is retried
+export const RETRY_DELAY_MS = 10_000;
+
+// Runs that never report back count as failed after this
+export const RUN_LEASE_MS = 30 * 60 * 1000;
+
+// While runs are in progress the queue wakes up this often, so that if it was restarted and
+// lost track of them, their slots are freed without waiting for the lease
+export const RUN_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Dead-lettered runs are kept this long for inspection
+export const DEAD_LETTER_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+function parseLimit(value: string | undefined, fallback: number): number {
+  const limit = parseInt(value ?? '', 10);
+  return Number.isInteger(limit) && limit > 0 ? limit : fallback;
+}
+
+// Limits from the MAX_CONCURRENT_RUNS, MAX_RUNS_PER_INSTALLATION and MAX_RUNS_PER_REPOSITORY vars
+export function dispatchLimitsFromEnv(env: Record<string, any>): DispatchLimits {
+  return {
+    global: parseLimit(env.MAX_CONCURRENT_RUNS, DEFAULT_DISPATCH_LIMITS.global),
+    perInstallation: parseLimit(env.MAX_RUNS_PER_INSTALLATION, DEFAULT_DISPATCH_LIMITS.perInstallation),
+    perRepository: parseLimit(env.MAX_RUNS_PER_REPOSITORY, DEFAULT_DISPATCH_LIMITS.perRepository)
+  };
+}
+
+// Order the waiting runs fairly and pick those that can start now. `queued` is in the
+// order the runs arrived. Each step takes the oldest run of the installation with the
+// fewest runs in progress or already picked, so a burst from one installation can't
+// hold up everyone else.
+export function planDispatch(
+  queued: QueueEntry[],
+  running: QueueEntry[],
+  limits: DispatchLimits
+): { order: string[]; startable: string[] } {
+  const countBy = (entries: QueueEntry[], key: (entry: QueueEntry) => string) => {
+    const counts = new Map<string, number>();
+    for (const entry of entries) {
+      counts.set(key(entry), (counts.get(key(entry)) ?? 0) + 1);
+    }
+    return counts;
+  };
+
+  const waiting = new Map<string, QueueEntry[]>();
+  for (const entry of queued) {
+    waiting.set(entry.installation, [...(waiting.get(entry.installation) ?? []), entry]);
+  }
+
+  const load = countBy(running, entry => entry.installation);
+  const order: QueueEntry[] = [];
+  while (waiting.size > 0) {
+    let next: string | null = null;
+    for (const [installation, entries] of waiting) {
+      if (next === null) {
+        next = installation;
+        continue;
+      }
+      const nextLoad = load.get(next) ?? 0;
+      const candidateLoad = load.get(installation) ?? 0;
+      if (candidateLoad < nextLoad || (candidateLoad === nextLoad && entries[0].enqueuedAt < waiting.get(next)![0].enqueuedAt)) {
+        next = installation;
+      }
+    }
+
+    const entries = waiting.get(next!)!;
+    order.push(entries.shift()!);
+    load.set(next!, (load.get(next!) ?? 0) + 1);
+    if (entries.length === 0) {
+      waiting.delete(next!);
+    }
+  }
+
+  const installations = countBy(running, entry => entry.installation);
+  const repositories = countBy(running, entry => entry.repository);
+  const containers = new Set(running.map(entry => entry.containerName));
+  let inProgress = running.length;
+  const startable: string[] = [];
+
+  for (const entry of order) {
+    if (inProgress >= limits.global) {
+      break;
+    }
+    if ((installations.get(entry.installation) ?? 0) >= limits.perInstallation ||
+        (repositories.get(entry.repository) ?? 0) >= limits.perRepository ||
+        containers.has(entry.containerName)) {
+      continue;
+    }
+
+    startable.push(entry.id);
+    installations.set(entry.installation, (installations.get(entry.installation) ?? 0) + 1);
+    repositories.set(entry.repository, (repositories.get(entry.repository) ?? 0) + 1);
+    containers.add(entry.containerName);
+    inProgress++;
+  }
+
+  return { order: order.map(entry => entry.id), startable };
+}
+
+export function getDispatchQueue(env: any): any {
+  return env.DISPATCH_QUEUE.get(env.DISPATCH_QUEUE.idFromName('dispatch-queue'));
+}
+
+async function callQueue(env: any, path: string, body: Record<string, any>): Promise<any> {
+  const response = await getDispatchQueue(env).fetch(new Request(`http://internal${path}`, {
+    method: 'POST',
+    body: JSON.stringify(body)
+  }));
+  if (!response.ok) {
+    throw new Error(`Dispatch queue returned status ${response.status}`);
+  }
+  return response.json();
+}
+
+// Hand a run to the queue, which starts it once there is a slot for it. If the run has to
+// wait, `callbacks.onQueued` is told its position. If the queue can't be reached the run
+// starts here at once, as it did before there was a queue.
+export async function dispatchRun(
+  env: any,
+  request: DispatchRequest,
+  job: DispatchJob,
+  callbacks: DispatchCallbacks = {}
+): Promise<void> {
+  let ticket: QueueTicket;
+  try {
+    ticket = await callQueue(env, '/enqueue', { ...request, job });
+  } catch (error) {
+    logWithContext('DISPATCH_QUEUE', 'Queue unavailable, starting the run without a slot', {
+      error: error instanceof Error ? error.message : String(error),
+      containerName: request.containerName
+    });
+    await runDispatchJob(env, request, job, false);
+    return;
+  }
+
+  if (ticket.status !== 'queued' || !ticket.position) {
+    logWithContext('DISPATCH_QUEUE', 'Run started', { id: ticket.id, containerName: request.containerName });
+    return;
+  }
+
+  logWithContext('DISPATCH_QUEUE', 'Run queued', {
+    id: ticket.id,
+    containerName: request.containerName,
+    position: ticket.position,
+    queueLength: ticket.queueLength
+  });
+  await callbacks.onQueued?.(ticket.position, ticket.queueLength ?? ticket.position).catch(error => {
+    logWithContext('DISPATCH_QUEUE', 'Failed to report queue position', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  });
+}
+
+// Container response of a run
+interface ContainerResponse {
+  success: boolean;
+  message: string;
+  error?: string;
+  turnCount?: number;
+  prUrl?: string;
+  cancelled?: boolean;
+  usage?: RunUsage;
+  transcript?: any[];
+  session?: ThreadSession;
+}
+
+function githubConfig(env: any, configId: string): any {
+  return env.GITHUB_APP_CONFIG.get(env.GITHUB_APP_CONFIG.idFromString(configId));
+}
+
+// Head commit the pull or merge request of a run is at now
+async function currentHeadSha(env: any, request: DispatchRequest, job: DispatchJob): Promise<string | undefined> {
+  if (request.provider === 'gitlab') {
+    const credentials = { gitlabUrl: job.context.GITLAB_URL, token: job.context.GITLAB_TOKEN };
+    const mergeRequest = await getGitLabMergeRequest(credentials, job.change!.gitlabProjectId!, job.change!.number);
+    return mergeRequest.sha;
+  }
+
+  const [owner, repo] = request.repository.split('/');
+  const pullRequest = await new GitHubAPI(githubConfig(env, job.githubConfigId!)).getPullRequest(owner, repo, job.change!.number);
+  return pullRequest.head?.sha;
+}
+
+// Run a job in its container and record the outcome: the job history, the transcript and
+// the thread's Claude session. Throws when the run fails. `waited` is set when the run
+// didn't start as soon as it was queued. `onHandedOff` is called with the job ID just
+// before the request goes to the container; a failure before that is safe to retry.
+export async function runDispatchJob(
+  env: any,
+  request: DispatchRequest,
+  job: DispatchJob,
+  waited: boolean,
+  onHandedOff?: (jobId: string | null) => void
+): Promise<void> {
+  const context = { ...job.context };
+
+  if (waited && job.change) {
+    const headSha = await currentHeadSha(env, request, job);
+    if (headSha !== job.change.headSha) {
+      logWithContext('DISPATCH_QUEUE', 'Head moved on while the run waited, skipping', {
+        containerName: request.containerName,
+        headSha: job.change.headSha,
+        currentHeadSha: headSha
+      });
+      if (job.supersededNotice && job.githubConfigId) {
+        const [owner, repo] = request.repository.split('/');
+        await new GitHubAPI(githubConfig(env, job.githubConfigId)).createComment(owner, repo, job.change.number, job.supersededNotice);
+      }
+      return;
+    }
+  }
+
+  if (waited && job.githubConfigId) {
+    const tokenResponse = await githubConfig(env, job.githubConfigId).fetch(new Request('http://internal/get-installation-token'));
+    context.GITHUB_TOKEN = (await tokenResponse.json() as { token: string }).token;
+  }
+
+  // Resume the Claude session from earlier runs on this thread, if there is one
+  const session = job.thread ? await getThreadSession(env, job.thread) : null;
+
+  const jobId = await startJob(env, {
+    triggerEvent: request.triggerEvent,
+    provider: request.provider,
+    repository: request.repository,
+    reference: request.reference,
+    containerName: request.containerName
+  });
+
+  try {
+    const container = env.MY_CONTAINER.get(env.MY_CONTAINER.idFromName(request.containerName));
+    onHandedOff?.(jobId);
+    const response = await containerFetch(container, new Request(`http://internal${job.route}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ ...context, ...transcriptContext(job.origin, jobId), ...sessionContext(session) })
+    }), {
+      containerName: request.containerName,
+      route: job.route
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unable to read error response');
+      logWithContext('DISPATCH_QUEUE', 'Container returned error', {
+        status: response.status,
+        errorText
+      });
+      throw new Error(`Container returned status ${response.status}: ${errorText}`);
+    }
+
+    const containerResponse: ContainerResponse = await response.json();
+
+    await storeTranscript(env, jobId, containerResponse.transcript);
+    if (job.thread) {
+      await storeThreadSession(env, job.thread, containerResponse.session);
+    }
+    await finishJob(env, jobId, {
+      status: containerResponse.cancelled ? 'cancelled' : containerResponse.success ? 'succeeded' : 'failed',
+      outcome: containerResponse.message,
+      turnCount: containerResponse.turnCount,
+      prUrl: containerResponse.prUrl,
+      error: containerResponse.error,
+      usage: containerResponse.usage
+    });
+
+    logWithContext('DISPATCH_QUEUE', 'Container response parsed', {
+      containerName: request.containerName,
+      success: containerResponse.success,
+      message: containerResponse.message,
+      hasError: !!containerResponse.error
+    });
+  } catch (error) {
+    logWithContext('DISPATCH_QUEUE', 'Failed to process Claude Code response', {
+      containerName: request.containerName,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    await finishJob(env, jobId, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+// Take a waiting run off the queue, returning whether there was one
+export async function cancelQueuedRun(env: any, containerName: string, cancelledBy: string): Promise<boolean> {
+  try {
+    const result = await callQueue(env, '/cancel', { containerName, cancelledBy });
+    return !!result.cancelled;
+  } catch (error) {
+    logWithContext('DISPATCH_QUEUE', 'Failed to cancel queued run', {
+      error: error instanceof Error ? error.message : String(error),
+      containerName
+    });
+    return false;
+  }
+}
+
+export function formatQueuedMessage(position: number, queueLength: number): string {
+  return `⏳ All containers are busy, so this run is queued (position ${position} of ${queueLength}). It will start automatically when a slot frees up.`;
+}
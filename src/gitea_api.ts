@@ -0,0 +1,134 @@
+import { logWithContext } from './log';
+
+// Minimal Gitea/Forgejo REST helpers for the worker (the container uses GiteaClient).
+// Forgejo is a Gitea fork and keeps the same /api/v1 routes.
+
+export interface GiteaApiCredentials {
+  giteaUrl: string;
+  token: string;
+}
+
+function authHeaders(credentials: GiteaApiCredentials): Record<string, string> {
+  return { 'Authorization': `token ${credentials.token}` };
+}
+
+export function getGiteaApiUrl(giteaUrl: string): string {
+  return `${giteaUrl.replace(/\/$/, '')}/api/v1`;
+}
+
+// Build the API URL for a repository (`owner/name`)
+export function getRepositoryApiUrl(credentials: GiteaApiCredentials, repository: string): string {
+  const [owner, name] = repository.split('/', 2);
+  return `${getGiteaApiUrl(credentials.giteaUrl)}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(name)}`;
+}
+
+// The instance URL a repository lives on, from its web URL (instances may be served under a path)
+export function giteaUrlFromRepository(repository: { html_url?: string; full_name?: string }): string | null {
+  if (!repository.html_url || !repository.full_name || !repository.html_url.endsWith(`/${repository.full_name}`)) {
+    return null;
+  }
+  return repository.html_url.slice(0, -(repository.full_name.length + 1));
+}
+
+// The token's own account (used to validate a token and to skip its own comments)
+export async function getGiteaUser(credentials: GiteaApiCredentials): Promise<any> {
+  const response = await fetch(`${getGiteaApiUrl(credentials.giteaUrl)}/user`, { headers: authHeaders(credentials) });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+// Get raw file content at a ref, or null if the file does not exist
+export async function getGiteaFileContent(
+  credentials: GiteaApiCredentials,
+  repository: string,
+  path: string,
+  ref: string
+): Promise<string | null> {
+  const response = await fetch(
+    `${getRepositoryApiUrl(credentials, repository)}/raw/${path.split('/').map(encodeURIComponent).join('/')}?ref=${encodeURIComponent(ref)}`,
+    { headers: authHeaders(credentials) }
+  );
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    const error = await response.text();
+    logWithContext('GITEA_API', 'Failed to get file content', { status: response.status, path, error });
+    throw new Error(`Failed to get file content: ${response.status} ${error}`);
+  }
+
+  return response.text();
+}
+
+// Get a pull request (comment payloads don't include its branches)
+export async function getGiteaPullRequest(
+  credentials: GiteaApiCredentials,
+  repository: string,
+  number: number
+): Promise<any> {
+  const response = await fetch(`${getRepositoryApiUrl(credentials, repository)}/pulls/${number}`, {
+    headers: authHeaders(credentials)
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    logWithContext('GITEA_API', 'Failed to get pull request', { status: response.status, number, error });
+    throw new Error(`Failed to get pull request: ${response.status} ${error}`);
+  }
+
+  return response.json();
+}
+
+// Post a comment on an issue or pull request (they share numbers and the comments API)
+export async function createGiteaComment(
+  credentials: GiteaApiCredentials,
+  repository: string,
+  number: number,
+  body: string
+): Promise<void> {
+  const response = await fetch(`${getRepositoryApiUrl(credentials, repository)}/issues/${number}/comments`, {
+    method: 'POST',
+    headers: {
+      ...authHeaders(credentials),
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ body })
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    logWithContext('GITEA_API', 'Failed to create comment', { status: response.status, number, error });
+    throw new Error(`Failed to create comment: ${response.status} ${error}`);
+  }
+}
+
+// A user's permission on a repository ('read', 'write' or 'admin'; owners count as admin),
+// or null if they have none. Only repository admins may look up other users' permissions.
+export async function getGiteaRepositoryPermission(
+  credentials: GiteaApiCredentials,
+  repository: string,
+  username: string
+): Promise<string | null> {
+  const response = await fetch(
+    `${getRepositoryApiUrl(credentials, repository)}/collaborators/${encodeURIComponent(username)}/permission`,
+    { headers: authHeaders(credentials) }
+  );
+
+  if (!response.ok) {
+    const error = await response.text();
+    logWithContext('GITEA_API', 'Failed to get repository permission', { status: response.status, repository, error });
+    throw new Error(`Failed to get repository permission: ${response.status} ${error}`);
+  }
+
+  const data = await response.json() as { permission?: string };
+  if (!data.permission || data.permission === 'none') {
+    return null;
+  }
+  return data.permission === 'owner' ? 'admin' : data.permission;
+}
@@ -58,6 +58,128 @@ export class GitHubAPI {
     return response.json();
   }
 
+  // List comments on an issue or pull request
+  async listIssueComments(owner: string, repo: string, issueNumber: number): Promise<any[]> {
+    const response = await this.makeAuthenticatedRequest(`/repos/${owner}/${repo}/issues/${issueNumber}/comments?per_page=100`);
+
+    if (!response.ok) {
+      const error = await response.text();
+      logWithContext('GITHUB_API', 'Failed to list issue comments', { status: response.status, error });
+      throw new Error(`Failed to list issue comments: ${response.status} ${error}`);
+    }
+
+    return response.json();
+  }
+
+  // List the inline comments that belong to a pull request review
+  async listReviewComments(owner: string, repo: string, pullNumber: number, reviewId: number): Promise<any[]> {
+    const response = await this.makeAuthenticatedRequest(`/repos/${owner}/${repo}/pulls/${pullNumber}/reviews/${reviewId}/comments?per_page=100`);
+
+    if (!response.ok) {
+      const error = await response.text();
+      logWithContext('GITHUB_API', 'Failed to list review comments', { status: response.status, error });
+      throw new Error(`Failed to list review comments: ${response.status} ${error}`);
+    }
+
+    return response.json();
+  }
+
+  // Get a pull request
+  async getPullRequest(owner: string, repo: string, pullNumber: number): Promise<any> {
+    const response = await this.makeAuthenticatedRequest(`/repos/${owner}/${repo}/pulls/${pullNumber}`);
+
+    if (!response.ok) {
+      const error = await response.text();
+      logWithContext('GITHUB_API', 'Failed to get pull request', { status: response.status, error });
+      throw new Error(`Failed to get pull request: ${response.status} ${error}`);
+    }
+
+    return response.json();
+  }
+
+  // List the jobs of the latest attempt of a workflow run
+  async listWorkflowRunJobs(owner: string, repo: string, runId: number): Promise<any[]> {
+    const response = await this.makeAuthenticatedRequest(`/repos/${owner}/${repo}/actions/runs/${runId}/jobs?filter=latest&per_page=100`);
+
+    if (!response.ok) {
+      const error = await response.text();
+      logWithContext('GITHUB_API', 'Failed to list workflow run jobs', { status: response.status, error });
+      throw new Error(`Failed to list workflow run jobs: ${response.status} ${error}`);
+    }
+
+    const data = await response.json() as { jobs?: any[] };
+    return data.jobs || [];
+  }
+
+  // Plain-text log of a workflow job, or null once GitHub no longer keeps it.
+  // GitHub answers with a redirect to a short-lived download URL, which must be
+  // fetched without the installation token.
+  async getWorkflowJobLog(owner: string, repo: string, jobId: number): Promise<string | null> {
+    const response = await this.makeAuthenticatedRequest(`/repos/${owner}/${repo}/actions/jobs/${jobId}/logs`, {
+      redirect: 'manual'
+    });
+
+    if (response.status === 404 || response.status === 410) {
+      return null;
+    }
+
+    const location = response.headers.get('Location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      const download = await fetch(location);
+      if (!download.ok) {
+        logWithContext('GITHUB_API', 'Failed to download job log', { status: download.status, jobId });
+        throw new Error(`Failed to download job log: ${download.status}`);
+      }
+      return download.text();
+    }
+
+    if (!response.ok) {
+      const error = await response.text();
+      logWithContext('GITHUB_API', 'Failed to get job log', { status: response.status, error });
+      throw new Error(`Failed to get job log: ${response.status} ${error}`);
+    }
+
+    return response.text();
+  }
+
+  // A user's role on a repository: admin, maintain, write, triage, read or none
+  async getCollaboratorPermission(owner: string, repo: string, username: string): Promise<string> {
+    const response = await this.makeAuthenticatedRequest(`/repos/${owner}/${repo}/collaborators/${encodeURIComponent(username)}/permission`);
+
+    if (response.status === 404) {
+      return 'none';
+    }
+
+    if (!response.ok) {
+      const error = await response.text();
+      logWithContext('GITHUB_API', 'Failed to get collaborator permission', { status: response.status, error });
+      throw new Error(`Failed to get collaborator permission: ${response.status} ${error}`);
+    }
+
+    const data = await response.json() as { permission?: string; role_name?: string };
+    return data.role_name || data.permission || 'none';
+  }
+
+  // Is the user an active member of an organization team?
+  async isTeamMember(org: string, teamSlug: string, username: string): Promise<boolean> {
+    const response = await this.makeAuthenticatedRequest(
+      `/orgs/${encodeURIComponent(org)}/teams/${encodeURIComponent(teamSlug)}/memberships/${encodeURIComponent(username)}`
+    );
+
+    if (response.status === 404) {
+      return false;
+    }
+
+    if (!response.ok) {
+      const error = await response.text();
+      logWithContext('GITHUB_API', 'Failed to get team membership', { status: response.status, error });
+      throw new Error(`Failed to get team membership: ${response.status} ${error}`);
+    }
+
+    const data = await response.json() as { state?: string };
+    return data.state === 'active';
+  }
+
   // Get installation repositories
   async getInstallationRepositories() {
     const response = await this.makeAuthenticatedRequest('/installation/repositories');
@@ -0,0 +1,142 @@
+import { logWithContext } from './log';
+
+// Minimal GitLab REST helpers for the worker (the container uses GitLabClient)
+
+export interface GitLabApiCredentials {
+  gitlabUrl?: string;
+  url?: string;
+  token: string;
+}
+
+// Build the GitLab API base URL for a project
+export function getProjectApiUrl(credentials: GitLabApiCredentials, projectId: string | number): string {
+  const gitlabUrl = (credentials.gitlabUrl || credentials.url || 'https://gitlab.com').replace(/\/$/, '');
+  return `${gitlabUrl}/api/v4/projects/${encodeURIComponent(String(projectId))}`;
+}
+
+// Get raw file content at a ref, or null if the file does not exist
+export async function getGitLabFileContent(
+  credentials: GitLabApiCredentials,
+  projectId: string | number,
+  path: string,
+  ref: string
+): Promise<string | null> {
+  const response = await fetch(
+    `${getProjectApiUrl(credentials, projectId)}/repository/files/${encodeURIComponent(path)}/raw?ref=${encodeURIComponent(ref)}`,
+    { headers: { 'Private-Token': credentials.token } }
+  );
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    const error = await response.text();
+    logWithContext('GITLAB_API', 'Failed to get file content', { status: response.status, path, error });
+    throw new Error(`Failed to get file content: ${response.status} ${error}`);
+  }
+
+  return response.text();
+}
+
+// Post a note on an issue
+export async function createGitLabIssueNote(
+  credentials: GitLabApiCredentials,
+  projectId: string | number,
+  issueIid: number,
+  body: string
+): Promise<void> {
+  const response = await fetch(`${getProjectApiUrl(credentials, projectId)}/issues/${issueIid}/notes`, {
+    method: 'POST',
+    headers: {
+      'Private-Token': credentials.token,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ body })
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    logWithContext('GITLAB_API', 'Failed to create issue note', { status: response.status, issueIid, error });
+    throw new Error(`Failed to create issue note: ${response.status} ${error}`);
+  }
+}
+
+// Post a note on a merge request
+export async function createGitLabMergeRequestNote(
+  credentials: GitLabApiCredentials,
+  projectId: string | number,
+  mergeRequestIid: number,
+  body: string
+): Promise<void> {
+  const response = await fetch(`${getProjectApiUrl(credentials, projectId)}/merge_requests/${mergeRequestIid}/notes`, {
+    method: 'POST',
+    headers: {
+      'Private-Token': credentials.token,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ body })
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    logWithContext('GITLAB_API', 'Failed to create merge request note', { status: response.status, mergeRequestIid, error });
+    throw new Error(`Failed to create merge request note: ${response.status} ${error}`);
+  }
+}
+
+// Get a merge request (state, head commit and so on)
+export async function getGitLabMergeRequest(
+  credentials: GitLabApiCredentials,
+  projectId: string | number,
+  mergeRequestIid: number
+): Promise<any> {
+  const response = await fetch(`${getProjectApiUrl(credentials, projectId)}/merge_requests/${mergeRequestIid}`, {
+    headers: { 'Private-Token': credentials.token }
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    logWithContext('GITLAB_API', 'Failed to get merge request', { status: response.status, mergeRequestIid, error });
+    throw new Error(`Failed to get merge request: ${response.status} ${error}`);
+  }
+
+  return response.json();
+}
+
+// Access level of a member (direct, inherited or invited), or null if the user isn't one
+async function getMemberAccessLevel(credentials: GitLabApiCredentials, membersUrl: string, userId: number): Promise<number | null> {
+  const response = await fetch(`${membersUrl}/members/all/${userId}`, {
+    headers: { 'Private-Token': credentials.token }
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    const error = await response.text();
+    logWithContext('GITLAB_API', 'Failed to get member', { status: response.status, userId, error });
+    throw new Error(`Failed to get member: ${response.status} ${error}`);
+  }
+
+  const member = await response.json() as { access_level?: number; state?: string };
+  return typeof member.access_level === 'number' && member.state !== 'awaiting' ? member.access_level : null;
+}
+
+export async function getGitLabProjectMemberAccessLevel(
+  credentials: GitLabApiCredentials,
+  projectId: string | number,
+  userId: number
+): Promise<number | null> {
+  return getMemberAccessLevel(credentials, getProjectApiUrl(credentials, projectId), userId);
+}
+
+export async function getGitLabGroupMemberAccessLevel(
+  credentials: GitLabApiCredentials,
+  group: string | number,
+  userId: number
+): Promise<number | null> {
+  const gitlabUrl = (credentials.gitlabUrl || credentials.url || 'https://gitlab.com').replace(/\/$/, '');
+  return getMemberAccessLevel(credentials, `${gitlabUrl}/api/v4/groups/${encodeURIComponent(String(group))}`, userId);
+}
@@ -0,0 +1,122 @@
+import { createSessionCookie, clearSessionCookie, verifyAdminToken } from "../auth";
+import { logWithContext } from "../log";
+
+// Only allow redirects back to paths on this worker. Browsers read '/\evil.example' as
+// '//evil.example', so backslashes and control characters are rejected outright and the
+// rest is resolved against the worker's origin.
+function getSafeNextPath(next: string | null, origin: string): string {
+  if (!next || !next.startsWith('/') || /[\\\u0000-\u001f\u007f]/.test(next)) {
+    return '/';
+  }
+
+  const target = new URL(next, origin);
+  if (target.origin !== origin) {
+    return '/';
+  }
+  return target.pathname + target.search;
+}
+
+function renderLoginPage(next: string, error?: string): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+    <title>Admin Login - Claude Code on Cloudflare</title>
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            max-width: 480px;
+            margin: 80px auto;
+            padding: 20px;
+            line-height: 1.6;
+            color: #333;
+        }
+        .error {
+            background: #ffeef0;
+            border: 1px solid #f97583;
+            padding: 10px 15px;
+            border-radius: 6px;
+            margin-bottom: 20px;
+        }
+        input[type="password"] {
+            width: 100%;
+            padding: 10px;
+            border: 1px solid #ddd;
+            border-radius: 6px;
+            font-family: monospace;
+            box-sizing: border-box;
+        }
+        button {
+            margin-top: 15px;
+            background: #0969da;
+            color: white;
+            padding: 10px 20px;
+            border: none;
+            border-radius: 6px;
+            font-weight: 600;
+            cursor: pointer;
+        }
+    </style>
+</head>
+<body>
+    <h1>Admin Login</h1>
+    <p>Enter the admin token (the <code>ADMIN_TOKEN</code> secret) to access the setup pages.</p>
+    ${error ? `<div class="error">${error}</div>` : ''}
+    <form method="POST" action="/admin/login">
+        <input type="hidden" name="next" value="${next.replace(/"/g, '&quot;')}">
+        <input type="password" name="token" placeholder="Admin token" required autofocus>
+        <button type="submit">Sign in</button>
+    </form>
+</body>
+</html>`;
+}
+
+export async function handleAdminLogin(request: Request, env: any): Promise<Response> {
+  const url = new URL(request.url);
+
+  if (url.pathname === '/admin/logout') {
+    logWithContext('ADMIN_AUTH', 'Admin session cleared');
+    return new Response(null, {
+      status: 302,
+      headers: {
+        'Location': '/admin/login',
+        'Set-Cookie': clearSessionCookie()
+      }
+    });
+  }
+
+  if (request.method === 'POST') {
+    const formData = await request.formData();
+    const token = formData.get('token') as string | null;
+    const next = getSafeNextPath(formData.get('next') as string | null, url.origin);
+
+    if (!verifyAdminToken(token, env)) {
+      logWithContext('ADMIN_AUTH', 'Admin login failed');
+      return new Response(renderLoginPage(next, 'Invalid admin token.'), {
+        status: 401,
+        headers: { 'Content-Type': 'text/html' }
+      });
+    }
+
+    logWithContext('ADMIN_AUTH', 'Admin login succeeded');
+    return new Response(null, {
+      status: 302,
+      headers: {
+        'Location': next,
+        'Set-Cookie': await createSessionCookie(env)
+      }
+    });
+  }
+
+  if (!env.ADMIN_TOKEN) {
+    return new Response('Token login is disabled because the ADMIN_TOKEN secret is not set.', {
+      status: 503,
+      headers: { 'Content-Type': 'text/plain' }
+    });
+  }
+
+  return new Response(renderLoginPage(getSafeNextPath(url.searchParams.get('next'), url.origin)), {
+    headers: { 'Content-Type': 'text/html' }
+  });
+}
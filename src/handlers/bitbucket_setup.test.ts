@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { handleBitbucketSetup } from './bitbucket_setup';
+
+describe('Bitbucket Setup Handler', () => {
+  let mockEnv: any;
+  let mockConfigDO: any;
+  let fetchSpy: any;
+
+  const configure = (body: any) => handleBitbucketSetup(new Request('http://test.com/bitbucket-setup/configure', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  }), 'http://test.com', mockEnv);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockConfigDO = {
+      fetch: vi.fn().mockImplementation(async (request: Request) => {
+        if (new URL(request.url).pathname === '/list') {
+          return new Response(JSON.stringify([{ workspace: 'acme', repoSlug: null, username: 'claude-bot' }]));
+        }
+        return new Response('OK');
+      })
+    };
+
+    mockEnv = {
+      ENCRYPTION_KEY: 'test-encryption-key',
+      BITBUCKET_APP_CONFIG: {
+        idFromName: vi.fn().mockReturnValue('bitbucket-config-id'),
+        get: vi.fn().mockReturnValue(mockConfigDO)
+      }
+    };
+
+    fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (_input: any, init?: any) => {
+      const authorization = new Headers(init?.headers).get('Authorization');
+      return authorization === `Basic ${btoa('claude-bot:app-password')}`
+        ? new Response(JSON.stringify({ uuid: '{claude-bot}', nickname: 'claude-bot' }), { status: 200 })
+        : new Response('Unauthorized', { status: 401, statusText: 'Unauthorized' });
+    });
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  it('should serve the setup form with the webhook URL', async () => {
+    const response = await handleBitbucketSetup(new Request('http://test.com/bitbucket-setup'), 'http://test.com', mockEnv);
+
+    expect(response.headers.get('content-type')).toContain('text/html');
+    const html = await response.text();
+    expect(html).toContain('Bitbucket Integration Setup');
+    expect(html).toContain('http://test.com/webhooks/bitbucket');
+  });
+
+  it('should store encrypted credentials with the account UUID', async () => {
+    const response = await configure({
+      workspace: 'acme',
+      repoSlug: 'widgets',
+      username: 'claude-bot',
+      appPassword: 'app-password',
+      webhookSecret: 'webhook-secret'
+    });
+
+    expect(response.status).toBe(200);
+    expect((await response.json() as any).webhookUrl).toBe('http://test.com/webhooks/bitbucket');
+
+    const stored = JSON.parse(await mockConfigDO.fetch.mock.calls[0][0].text());
+    expect(stored).toMatchObject({ workspace: 'acme', repoSlug: 'widgets', username: 'claude-bot', accountUuid: '{claude-bot}' });
+    expect(stored.appPassword).toMatch(/^enc:v1:/);
+    expect(stored.webhookSecret).toMatch(/^enc:v1:/);
+  });
+
+  it('should reject app passwords Bitbucket does not accept', async () => {
+    const response = await configure({
+      workspace: 'acme',
+      username: 'claude-bot',
+      appPassword: 'wrong',
+      webhookSecret: 'webhook-secret'
+    });
+
+    expect(response.status).toBe(400);
+    expect((await response.json() as any).error).toContain('401');
+    expect(mockConfigDO.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should require a webhook secret', async () => {
+    const response = await configure({ workspace: 'acme', username: 'claude-bot', appPassword: 'app-password' });
+    expect(response.status).toBe(400);
+  });
+
+  it('should list configured repositories without secrets', async () => {
+    const response = await handleBitbucketSetup(new Request('http://test.com/bitbucket-setup/status'), 'http://test.com', mockEnv);
+
+    expect(await response.json()).toEqual({
+      configured: true,
+      repositories: [{ workspace: 'acme', repoSlug: null, username: 'claude-bot' }]
+    });
+  });
+});
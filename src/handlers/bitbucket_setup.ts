@@ -0,0 +1,187 @@
+import { logWithContext } from "../log";
+import { encrypt } from "../crypto";
+import { getBitbucketUser } from "../bitbucket_api";
+
+function getConfigDO(env: any): any {
+  return env.BITBUCKET_APP_CONFIG.get(env.BITBUCKET_APP_CONFIG.idFromName('bitbucket-config'));
+}
+
+function jsonResponse(body: any, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+export async function handleBitbucketSetup(request: Request, origin: string, env: any): Promise<Response> {
+  const url = new URL(request.url);
+
+  logWithContext('BITBUCKET_SETUP', 'Handling Bitbucket setup request', {
+    pathname: url.pathname,
+    method: request.method
+  });
+
+  switch (url.pathname) {
+    case '/bitbucket-setup':
+      return showSetupForm(origin);
+    case '/bitbucket-setup/configure':
+      if (request.method !== 'POST') {
+        return jsonResponse({ error: 'Method not allowed' }, 405);
+      }
+      return await configureBitbucket(request, origin, env);
+    case '/bitbucket-setup/status':
+      return await getSetupStatus(env);
+    default:
+      return new Response('Not Found', { status: 404 });
+  }
+}
+
+function showSetupForm(origin: string): Response {
+  const webhookUrl = `${origin}/webhooks/bitbucket`;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <title>Bitbucket Integration Setup</title>
+      <style>
+        body { font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; }
+        .form-group { margin-bottom: 15px; }
+        label { display: block; margin-bottom: 5px; font-weight: bold; }
+        input { width: 100%; padding: 8px; border: 1px solid #ddd; border-radius: 4px; }
+        button { background: #0052cc; color: white; padding: 10px 20px; border: none; border-radius: 4px; cursor: pointer; }
+        button:hover { background: #0747a6; }
+        .info { background: #e7f3ff; padding: 10px; border-radius: 4px; margin-bottom: 20px; }
+        .error { color: #dc3545; margin-top: 5px; }
+        .success { color: #28a745; margin-top: 5px; }
+      </style>
+    </head>
+    <body>
+      <h1>Bitbucket Integration Setup</h1>
+
+      <div class="info">
+        <h3>Setup Instructions:</h3>
+        <ol>
+          <li><strong>Create an App Password</strong> for the account Claude should post as
+            (Personal settings → App passwords) with these permissions:
+            <ul>
+              <li>Account: <code>Read</code></li>
+              <li>Repositories: <code>Read</code>, <code>Write</code></li>
+              <li>Pull requests: <code>Read</code>, <code>Write</code></li>
+              <li>Issues: <code>Read</code>, <code>Write</code></li>
+            </ul>
+          </li>
+          <li>Generate a random webhook secret</li>
+          <li>Add a webhook (Repository settings → Webhooks) with URL <code>${webhookUrl}</code>, the secret, and the triggers
+            <em>Issue: Created</em>, <em>Issue: Comment created</em>, <em>Pull request: Created</em> and <em>Pull request: Comment created</em></li>
+        </ol>
+        <p>Leave the repository slug empty to use the app password for every repository in the workspace.
+          Checking who may start runs needs the account to be a workspace admin; otherwise only <code>allowed_users</code> can.</p>
+      </div>
+
+      <form id="setupForm">
+        <div class="form-group">
+          <label for="workspace">Workspace</label>
+          <input type="text" id="workspace" name="workspace" placeholder="my-workspace" required>
+        </div>
+        <div class="form-group">
+          <label for="repoSlug">Repository slug (optional)</label>
+          <input type="text" id="repoSlug" name="repoSlug" placeholder="my-repository">
+        </div>
+        <div class="form-group">
+          <label for="username">Bitbucket username</label>
+          <input type="text" id="username" name="username" required>
+        </div>
+        <div class="form-group">
+          <label for="appPassword">App Password</label>
+          <input type="password" id="appPassword" name="appPassword" required>
+        </div>
+        <div class="form-group">
+          <label for="webhookSecret">Webhook secret</label>
+          <input type="password" id="webhookSecret" name="webhookSecret" required>
+        </div>
+        <button type="submit">Save Configuration</button>
+      </form>
+
+      <div id="result"></div>
+
+      <script>
+        document.getElementById('setupForm').addEventListener('submit', async (e) => {
+          e.preventDefault();
+          document.getElementById('result').innerHTML = '<div>Configuring...</div>';
+
+          try {
+            const response = await fetch('/bitbucket-setup/configure', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify(Object.fromEntries(new FormData(e.target)))
+            });
+            const result = await response.json();
+
+            document.getElementById('result').innerHTML = response.ok
+              ? '<div class="success">✅ Bitbucket configured successfully!<br>Webhook URL: ' + result.webhookUrl + '</div>'
+              : '<div class="error">❌ Error: ' + result.error + '</div>';
+          } catch (error) {
+            document.getElementById('result').innerHTML = '<div class="error">❌ Network error: ' + error.message + '</div>';
+          }
+        });
+      </script>
+    </body>
+    </html>
+  `;
+
+  return new Response(html, {
+    headers: { 'Content-Type': 'text/html' }
+  });
+}
+
+async function configureBitbucket(request: Request, origin: string, env: any): Promise<Response> {
+  try {
+    const { workspace, repoSlug, username, appPassword, webhookSecret } = await request.json() as Record<string, string | undefined>;
+
+    if (!workspace || !username || !appPassword || !webhookSecret) {
+      return jsonResponse({ error: 'workspace, username, appPassword and webhookSecret are required' }, 400);
+    }
+
+    logWithContext('BITBUCKET_SETUP', 'Configuring Bitbucket integration', { workspace, repoSlug, username });
+
+    // Validate the app password, and remember its account so Claude's own comments are ignored
+    let account: any;
+    try {
+      account = await getBitbucketUser({ username, appPassword });
+    } catch (error) {
+      return jsonResponse({ error: (error as Error).message }, 400);
+    }
+
+    await getConfigDO(env).fetch(new Request('http://config/store', {
+      method: 'POST',
+      body: JSON.stringify({
+        workspace,
+        repoSlug: repoSlug || '',
+        username,
+        appPassword: await encrypt(appPassword, env),
+        webhookSecret: await encrypt(webhookSecret, env),
+        accountUuid: account.uuid
+      })
+    }));
+
+    return jsonResponse({
+      success: true,
+      message: 'Bitbucket integration configured successfully',
+      webhookUrl: `${origin}/webhooks/bitbucket`
+    });
+  } catch (error) {
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+}
+
+// Configured workspaces and repositories, without their secrets
+async function getSetupStatus(env: any): Promise<Response> {
+  const response = await getConfigDO(env).fetch(new Request('http://config/list'));
+  const repositories = await response.json() as any[];
+
+  return jsonResponse({
+    configured: repositories.length > 0,
+    repositories
+  });
+}
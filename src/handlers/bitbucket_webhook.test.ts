@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { handleBitbucketWebhook, verifyBitbucketSignature } from './bitbucket_webhook';
+
+async function sign(payload: string, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+  return 'sha256=' + Array.from(new Uint8Array(signature)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+describe('Bitbucket Webhook Handler', () => {
+  let mockEnv: any;
+  let mockContainer: any;
+  let credentials: any;
+  let deliveries: string[];
+  let pending: Promise<unknown>[];
+  let ctx: any;
+  let fetchSpy: any;
+
+  const issueCreated = {
+    actor: { uuid: '{user-1}', nickname: 'jane', display_name: 'Jane Doe' },
+    repository: { full_name: 'acme/widgets', name: 'widgets' },
+    issue: { id: 7, title: 'Crash on save', content: { raw: 'Saving an empty file crashes' }, kind: 'bug' }
+  };
+
+  async function deliver(payload: any, headers: Record<string, string> = {}): Promise<Response> {
+    const body = JSON.stringify(payload);
+    const response = await handleBitbucketWebhook(new Request('https://worker.example.com/webhooks/bitbucket', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Event-Key': 'issue:created',
+        'X-Request-UUID': 'request-1',
+        'X-Hub-Signature': await sign(body, 'webhook-secret'),
+        ...headers
+      },
+      body
+    }), mockEnv, ctx);
+    await Promise.all(pending);
+    return response;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    deliveries = [];
+    pending = [];
+    ctx = { waitUntil: vi.fn((promise: Promise<unknown>) => pending.push(promise)) };
+    credentials = {
+      workspace: 'acme',
+      repoSlug: 'widgets',
+      username: 'claude-bot',
+      appPassword: 'app-password',
+      webhookSecret: 'webhook-secret',
+      accountUuid: '{claude-bot}'
+    };
+
+    mockContainer = {
+      fetch: vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ success: true, message: 'Opened pull request #3' }), { status: 200 })
+      )
+    };
+
+    mockEnv = {
+      MY_CONTAINER: {
+        idFromName: vi.fn().mockReturnValue('mock-container-id'),
+        get: vi.fn().mockReturnValue(mockContainer)
+      },
+      BITBUCKET_APP_CONFIG: {
+        idFromName: vi.fn().mockReturnValue('bitbucket-config-id'),
+        get: vi.fn().mockReturnValue({
+          fetch: vi.fn().mockImplementation(async (request: Request) => {
+            const url = new URL(request.url);
+            if (url.pathname === '/get-credentials') {
+              return new Response(JSON.stringify(url.searchParams.get('repository') === 'acme/widgets' ? credentials : null));
+            }
+            return new Response(JSON.stringify({ limits: null }));
+          })
+        })
+      },
+      GITLAB_APP_CONFIG: {
+        idFromName: vi.fn().mockReturnValue('claude-config-id'),
+        get: vi.fn().mockReturnValue({
+          fetch: vi.fn().mockResolvedValue(new Response(JSON.stringify({ anthropicApiKey: 'test-claude-key' })))
+        })
+      },
+      WEBHOOK_DELIVERIES: {
+        idFromName: vi.fn().mockReturnValue('deliveries-id'),
+        get: vi.fn().mockReturnValue({
+          fetch: vi.fn().mockImplementation(async (request: Request) => {
+            if (new URL(request.url).pathname !== '/record') {
+              return new Response('OK');
+            }
+            const delivery = await request.json() as any;
+            const duplicate = deliveries.includes(delivery.deliveryId);
+            deliveries.push(delivery.deliveryId);
+            return new Response(JSON.stringify({ duplicate }));
+          })
+        })
+      }
+    };
+
+    fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input: any) => {
+      const url = typeof input === 'string' ? input : input.url;
+      if (url.endsWith('/repositories/acme/widgets')) {
+        return new Response(JSON.stringify({ mainbranch: { name: 'develop' } }), { status: 200 });
+      }
+      if (url.includes('/src/')) {
+        return new Response('Not Found', { status: 404 });
+      }
+      if (url.includes('/permissions/repositories/')) {
+        return new Response(JSON.stringify({ values: [{ permission: 'write' }] }), { status: 200 });
+      }
+      return new Response(JSON.stringify({ id: 1 }), { status: 201 });
+    });
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  it('should verify sha256 HMAC signatures', async () => {
+    const signature = await sign('{"a":1}', 'secret');
+
+    expect(await verifyBitbucketSignature('{"a":1}', signature, 'secret')).toBe(true);
+    expect(await verifyBitbucketSignature('{"a":2}', signature, 'secret')).toBe(false);
+    expect(await verifyBitbucketSignature('{"a":1}', signature, 'other-secret')).toBe(false);
+    expect(await verifyBitbucketSignature('{"a":1}', signature.replace('sha256=', ''), 'secret')).toBe(false);
+  });
+
+  it('should start a run for a new issue', async () => {
+    const response = await deliver(issueCreated);
+    expect(response.status).toBe(200);
+
+    expect(mockEnv.MY_CONTAINER.idFromName).toHaveBeenCalledWith('claude-bitbucket-acme/widgets-issue-7');
+    const request = mockContainer.fetch.mock.calls[0][0];
+    expect(request.url).toBe('http://internal/process-bitbucket');
+    expect(JSON.parse(await request.text())).toMatchObject({
+      PROCESSING_MODE: 'issue',
+      BITBUCKET_USERNAME: 'claude-bot',
+      BITBUCKET_APP_PASSWORD: 'app-password',
+      BITBUCKET_REPOSITORY: 'acme/widgets',
+      GIT_CLONE_URL: 'https://bitbucket.org/acme/widgets.git',
+      ISSUE_ID: '7',
+      ISSUE_TITLE: 'Crash on save',
+      ISSUE_AUTHOR: 'jane',
+      BASE_BRANCH: 'develop'
+    });
+  });
+
+  it('should reject deliveries with a bad or missing signature', async () => {
+    expect((await deliver(issueCreated, { 'X-Hub-Signature': await sign('tampered', 'webhook-secret') })).status).toBe(401);
+
+    const unsigned = await handleBitbucketWebhook(new Request('https://worker.example.com/webhooks/bitbucket', {
+      method: 'POST',
+      headers: { 'X-Event-Key': 'issue:created' },
+      body: JSON.stringify(issueCreated)
+    }), mockEnv, ctx);
+    expect(unsigned.status).toBe(401);
+
+    expect(mockContainer.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for repositories that are not configured', async () => {
+    const response = await deliver({ ...issueCreated, repository: { full_name: 'acme/other' } });
+    expect(response.status).toBe(404);
+  });
+
+  it('should skip redelivered events', async () => {
+    await deliver(issueCreated);
+    const response = await deliver(issueCreated);
+
+    expect(await response.text()).toContain('Duplicate delivery skipped');
+    expect(mockContainer.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore issues opened by its own account', async () => {
+    await deliver({ ...issueCreated, actor: { uuid: '{claude-bot}', nickname: 'claude-bot' } });
+    expect(mockContainer.fetch).not.toHaveBeenCalled();
+  });
+});
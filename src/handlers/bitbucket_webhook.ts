@@ -0,0 +1,175 @@
+import { logWithContext } from "../log";
+import { timingSafeEqual } from "../auth";
+import { handleBitbucketIssueEvent, BitbucketCredentials } from "./bitbucket_webhooks/issue";
+import { handleBitbucketCommentEvent } from "./bitbucket_webhooks/comment";
+import { handleBitbucketPullRequestEvent } from "./bitbucket_webhooks/pull_request";
+import {
+  recordWebhookDelivery,
+  finishWebhookDelivery,
+  duplicateDeliveryResponse,
+  pickHeaders,
+  BITBUCKET_REPLAY_HEADERS,
+  WebhookOptions
+} from "../webhook_deliveries";
+
+// Route Bitbucket webhook events (X-Event-Key) to specific handlers
+async function routeBitbucketEvent(
+  event: string,
+  data: any,
+  configDO: any,
+  credentials: BitbucketCredentials,
+  env: any,
+  ctx: ExecutionContext,
+  origin: string
+): Promise<Response> {
+  logWithContext('BITBUCKET_EVENT_ROUTER', 'Routing Bitbucket event', {
+    event,
+    repository: data.repository?.full_name
+  });
+
+  switch (event) {
+    case 'issue:created':
+      return await handleBitbucketIssueEvent(data, env, configDO, credentials, ctx, origin);
+
+    case 'issue:comment_created':
+    case 'pullrequest:comment_created':
+      return await handleBitbucketCommentEvent(data, env, configDO, credentials, ctx, origin);
+
+    case 'pullrequest:created':
+      return await handleBitbucketPullRequestEvent(data, env, configDO, credentials, ctx, origin);
+
+    default:
+      logWithContext('BITBUCKET_EVENT_ROUTER', 'Unhandled Bitbucket event', {
+        event,
+        availableEvents: ['issue:created', 'issue:comment_created', 'pullrequest:comment_created', 'pullrequest:created']
+      });
+      return new Response('Event type not supported', { status: 200 });
+  }
+}
+
+// Bitbucket signs the payload with the webhook secret: X-Hub-Signature: sha256=<hex HMAC>
+export async function verifyBitbucketSignature(payload: string, signature: string, secret: string): Promise<boolean> {
+  if (!secret || !signature.startsWith('sha256=')) {
+    return false;
+  }
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const hashBuffer = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+  const computedHex = Array.from(new Uint8Array(hashBuffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+  return timingSafeEqual(signature.slice('sha256='.length).toLowerCase(), computedHex);
+}
+
+export async function handleBitbucketWebhook(
+  request: Request,
+  env: any,
+  ctx: ExecutionContext,
+  options: WebhookOptions = {}
+): Promise<Response> {
+  const startTime = Date.now();
+
+  // Set once the delivery is recorded, so it can be marked processed or failed
+  let recordedDelivery: string | null = null;
+
+  try {
+    const signature = request.headers.get('X-Hub-Signature');
+    const event = request.headers.get('X-Event-Key');
+    const requestUuid = request.headers.get('X-Request-UUID');
+
+    logWithContext('BITBUCKET_WEBHOOK', 'Received Bitbucket webhook', {
+      event,
+      requestUuid,
+      hasSignature: !!signature,
+      replay: !!options.replay
+    });
+
+    if (!event) {
+      return new Response('Missing required headers', { status: 400 });
+    }
+
+    // Without a secret Bitbucket doesn't sign its requests; those are never accepted
+    if (!signature) {
+      logWithContext('BITBUCKET_WEBHOOK', 'Unsigned webhook rejected; set a secret on the Bitbucket webhook');
+      return new Response('Missing signature', { status: 401 });
+    }
+
+    const payload = await request.text();
+    let webhookData: any;
+    try {
+      webhookData = JSON.parse(payload);
+    } catch (error) {
+      logWithContext('BITBUCKET_WEBHOOK', 'Invalid JSON payload', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return new Response('Invalid JSON payload', { status: 400 });
+    }
+
+    const repository = webhookData.repository?.full_name;
+    if (!repository) {
+      logWithContext('BITBUCKET_WEBHOOK', 'No repository in webhook payload');
+      return new Response('No repository information', { status: 400 });
+    }
+
+    const configDO = env.BITBUCKET_APP_CONFIG.get(env.BITBUCKET_APP_CONFIG.idFromName('bitbucket-config'));
+    const credentialsResponse = await configDO.fetch(
+      new Request(`http://config/get-credentials?repository=${encodeURIComponent(repository)}`)
+    );
+    const credentials = credentialsResponse.ok ? await credentialsResponse.json() as BitbucketCredentials | null : null;
+
+    if (!credentials) {
+      logWithContext('BITBUCKET_WEBHOOK', 'No Bitbucket configuration found', { repository });
+      return new Response('Bitbucket not configured for this repository', { status: 404 });
+    }
+
+    const isValid = await verifyBitbucketSignature(payload, signature, credentials.webhookSecret);
+    logWithContext('BITBUCKET_WEBHOOK', 'Signature verification result', { isValid });
+
+    if (!isValid) {
+      return new Response('Invalid signature', { status: 401 });
+    }
+
+    // Skip redeliveries of an event that was already processed
+    if (requestUuid) {
+      const { duplicate } = await recordWebhookDelivery(env, {
+        provider: 'bitbucket',
+        deliveryId: requestUuid,
+        event,
+        headers: pickHeaders(request, BITBUCKET_REPLAY_HEADERS),
+        payload
+      }, options);
+
+      if (duplicate) {
+        return duplicateDeliveryResponse(requestUuid);
+      }
+      recordedDelivery = requestUuid;
+    }
+
+    const eventResponse = await routeBitbucketEvent(event, webhookData, configDO, credentials, env, ctx, new URL(request.url).origin);
+    await finishWebhookDelivery(env, 'bitbucket', recordedDelivery, eventResponse.status < 500);
+
+    logWithContext('BITBUCKET_WEBHOOK', 'Webhook processing completed', {
+      event,
+      repository,
+      processingTimeMs: Date.now() - startTime,
+      responseStatus: eventResponse.status
+    });
+
+    return eventResponse;
+  } catch (error) {
+    await finishWebhookDelivery(env, 'bitbucket', recordedDelivery, false);
+    logWithContext('BITBUCKET_WEBHOOK', 'Webhook processing error', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      processingTimeMs: Date.now() - startTime
+    });
+    return new Response('Internal server error', { status: 500 });
+  }
+}
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { handleBitbucketCommentEvent } from './comment';
+
+describe('Bitbucket Comment Handler', () => {
+  let mockEnv: any;
+  let mockConfigDO: any;
+  let mockContainer: any;
+  let permission: string | null;
+  let repoConfig: string | null;
+  let comments: Array<{ url: string; body: string }>;
+  let pending: Promise<unknown>[];
+  let ctx: any;
+  let fetchSpy: any;
+
+  const credentials = {
+    username: 'claude-bot',
+    appPassword: 'app-password',
+    webhookSecret: 'webhook-secret',
+    accountUuid: '{claude-bot}'
+  };
+
+  const repository = { full_name: 'acme/widgets', name: 'widgets' };
+
+  const pullRequestComment = (raw: string, inline?: any) => ({
+    actor: { uuid: '{user-1}', nickname: 'jane' },
+    repository,
+    pullrequest: {
+      id: 12,
+      title: 'Add date helpers',
+      description: 'Adds addDays',
+      source: { branch: { name: 'feature/dates' }, repository },
+      destination: { branch: { name: 'main' }, repository }
+    },
+    comment: { id: 501, content: { raw }, ...(inline ? { inline } : {}) }
+  });
+
+  const issueComment = (raw: string) => ({
+    actor: { uuid: '{user-1}', nickname: 'jane' },
+    repository,
+    issue: { id: 7, title: 'Crash on save', content: { raw: 'Saving crashes' } },
+    comment: { id: 502, content: { raw } }
+  });
+
+  async function handle(data: any): Promise<Response> {
+    const response = await handleBitbucketCommentEvent(data, mockEnv, mockConfigDO, credentials, ctx);
+    await Promise.all(pending);
+    return response;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    permission = 'write';
+    repoConfig = null;
+    comments = [];
+    pending = [];
+    ctx = { waitUntil: vi.fn((promise: Promise<unknown>) => pending.push(promise)) };
+
+    mockContainer = {
+      fetch: vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ success: true, message: 'Replied to comment' }), { status: 200 })
+      )
+    };
+
+    mockEnv = {
+      MY_CONTAINER: {
+        idFromName: vi.fn().mockReturnValue('mock-container-id'),
+        get: vi.fn().mockReturnValue(mockContainer)
+      },
+      GITLAB_APP_CONFIG: {
+        idFromName: vi.fn().mockReturnValue('claude-config-id'),
+        get: vi.fn().mockReturnValue({
+          fetch: vi.fn().mockResolvedValue(new Response(JSON.stringify({ anthropicApiKey: 'test-claude-key' })))
+        })
+      }
+    };
+
+    mockConfigDO = {
+      fetch: vi.fn().mockResolvedValue(new Response(JSON.stringify({ limits: null })))
+    };
+
+    fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input: any, init?: any) => {
+      const url = typeof input === 'string' ? input : input.url;
+      if (url.endsWith('/repositories/acme/widgets')) {
+        return new Response(JSON.stringify({ mainbranch: { name: 'main' } }), { status: 200 });
+      }
+      if (url.includes('/src/main/.claude-containers.yml') && repoConfig) {
+        return new Response(repoConfig, { status: 200 });
+      }
+      if (url.includes('/src/')) {
+        return new Response('Not Found', { status: 404 });
+      }
+      if (url.includes('/permissions/repositories/')) {
+        return new Response(JSON.stringify({ values: permission ? [{ permission }] : [] }), { status: 200 });
+      }
+      if (url.endsWith('/comments')) {
+        comments.push({ url, body: JSON.parse(init.body).content.raw });
+      }
+      return new Response(JSON.stringify({ id: 1 }), { status: 201 });
+    });
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  it('should work on the source branch for a pull request comment', async () => {
+    await handle(pullRequestComment('@claude rename this helper', { path: 'src/dates.ts', to: 14 }));
+
+    expect(mockEnv.MY_CONTAINER.idFromName).toHaveBeenCalledWith('claude-bitbucket-acme/widgets-pr-12');
+    const request = mockContainer.fetch.mock.calls[0][0];
+    expect(JSON.parse(await request.text())).toMatchObject({
+      PROCESSING_MODE: 'pr_comment',
+      USER_PROMPT: 'rename this helper',
+      COMMENT_ID: '501',
+      COMMENT_AUTHOR: 'jane',
+      PR_ID: '12',
+      SOURCE_BRANCH: 'feature/dates',
+      TARGET_BRANCH: 'main',
+      FILE_PATH: 'src/dates.ts',
+      LINE_NUMBER: '14'
+    });
+  });
+
+  it('should reply on issues through the issue thread', async () => {
+    await handle(issueComment('@claude what causes this?'));
+
+    expect(mockEnv.MY_CONTAINER.idFromName).toHaveBeenCalledWith('claude-bitbucket-acme/widgets-issue-7');
+    const request = mockContainer.fetch.mock.calls[0][0];
+    expect(JSON.parse(await request.text())).toMatchObject({
+      PROCESSING_MODE: 'issue_comment',
+      USER_PROMPT: 'what causes this?',
+      ISSUE_ID: '7'
+    });
+  });
+
+  it('should use the mentions from the repository configuration', async () => {
+    repoConfig = 'triggers:\n  mentions: ["@helper"]\n';
+
+    await handle(issueComment('@claude please look'));
+    expect(mockContainer.fetch).not.toHaveBeenCalled();
+
+    await handle(issueComment('@helper please look'));
+    expect(mockContainer.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse users without write permission', async () => {
+    permission = 'read';
+
+    await handle(pullRequestComment('@claude fix the tests'));
+
+    expect(mockContainer.fetch).not.toHaveBeenCalled();
+    expect(comments).toEqual([expect.objectContaining({
+      url: expect.stringContaining('/pullrequests/12/comments'),
+      body: expect.stringContaining('write access')
+    })]);
+  });
+
+  it('should ignore its own comments and pull requests from forks', async () => {
+    await handle({ ...pullRequestComment('@claude again'), actor: { uuid: '{claude-bot}', nickname: 'claude-bot' } });
+
+    const fromFork = pullRequestComment('@claude fix it');
+    fromFork.pullrequest.source.repository = { full_name: 'someone/widgets', name: 'widgets' };
+    await handle(fromFork);
+
+    expect(mockContainer.fetch).not.toHaveBeenCalled();
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
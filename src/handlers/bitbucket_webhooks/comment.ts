@@ -0,0 +1,157 @@
+import { logWithContext } from "../../log";
+import { clearThreadSession, isResetCommand } from "../../sessions";
+import { createBitbucketIssueComment, createBitbucketPullRequestComment } from "../../bitbucket_api";
+import { formatRepoConfigErrors } from "../../repo_config";
+import { authorizeBitbucketUser, formatAuthorizationRefusal, recordRefusedTrigger } from "../../authorization";
+import { DEFAULT_MENTION, detectClaudeMention, extractUserPrompt } from "../github_webhooks/issue_comment";
+import {
+  BitbucketCredentials,
+  bitbucketContainerName,
+  bitbucketUsername,
+  isOwnAccount,
+  loadConfigFromMainBranch,
+  routeToBitbucketContainer
+} from "./issue";
+
+// Check the configuration, mention and author of a comment, then start a run on its thread
+async function processComment(
+  data: any,
+  env: any,
+  configDO: any,
+  credentials: BitbucketCredentials,
+  origin?: string
+): Promise<void> {
+  const comment = data.comment;
+  const repository = data.repository.full_name;
+  const username = bitbucketUsername(data.actor);
+  const isIssueComment = !!data.issue;
+  const target = isIssueComment ? data.issue : data.pullrequest;
+  const reference = isIssueComment ? `#${target.id}` : `PR #${target.id}`;
+  const containerName = bitbucketContainerName(repository, isIssueComment ? 'issue' : 'pr', target.id);
+  const triggerEvent = isIssueComment ? 'bitbucket.issue.comment_created' : 'bitbucket.pullrequest.comment_created';
+  const postComment = (body: string) => isIssueComment
+    ? createBitbucketIssueComment(credentials, repository, target.id, body)
+    : createBitbucketPullRequestComment(credentials, repository, target.id, body);
+
+  const { repoConfig } = await loadConfigFromMainBranch(credentials, repository);
+  const mentions = repoConfig.config.triggers.mentions.length > 0
+    ? repoConfig.config.triggers.mentions
+    : [DEFAULT_MENTION];
+
+  const body: string = comment.content?.raw || '';
+  if (!detectClaudeMention(body, mentions)) {
+    logWithContext('BITBUCKET_COMMENT_EVENT', 'No mention found', { commentId: comment.id, mentions });
+    return;
+  }
+
+  if (repoConfig.errors.length > 0) {
+    logWithContext('BITBUCKET_COMMENT_EVENT', 'Repository configuration is invalid, not starting', {
+      path: repoConfig.path,
+      errors: repoConfig.errors
+    });
+    await postComment(formatRepoConfigErrors(repoConfig));
+    return;
+  }
+
+  const authorization = await authorizeBitbucketUser(
+    credentials,
+    repository,
+    { uuid: data.actor.uuid, username },
+    repoConfig.config.authorization
+  );
+  if (!authorization.authorized) {
+    await postComment(formatAuthorizationRefusal(username, 'bitbucket', repoConfig.config.authorization));
+    await recordRefusedTrigger(env, { triggerEvent, provider: 'bitbucket', repository, reference, containerName }, username, authorization);
+    return;
+  }
+
+  const userPrompt = extractUserPrompt(body, mentions);
+  if (isResetCommand(userPrompt)) {
+    const hadSession = await clearThreadSession(env, { provider: 'bitbucket', repository, reference });
+    await postComment(hadSession
+      ? `🤖 **Claude Code Assistant**\n\n@${username}, I've forgotten our earlier conversation here. The next instruction starts a fresh session.`
+      : `🤖 **Claude Code Assistant**\n\n@${username}, there's no session here to reset.`);
+    return;
+  }
+
+  const baseContext = {
+    USER_PROMPT: userPrompt,
+    COMMENT_ID: comment.id.toString(),
+    COMMENT_AUTHOR: username,
+    REPO_CONFIG: JSON.stringify(repoConfig.config),
+    MESSAGE: `Processing Bitbucket comment ${comment.id} on ${reference}`
+  };
+
+  const context: Record<string, string> = isIssueComment
+    ? {
+      ...baseContext,
+      PROCESSING_MODE: 'issue_comment',
+      ISSUE_ID: target.id.toString(),
+      ISSUE_TITLE: target.title,
+      ISSUE_DESCRIPTION: target.content?.raw || ''
+    }
+    : {
+      ...baseContext,
+      PROCESSING_MODE: 'pr_comment',
+      PR_ID: target.id.toString(),
+      PR_TITLE: target.title,
+      PR_DESCRIPTION: target.description || '',
+      SOURCE_BRANCH: target.source.branch.name,
+      TARGET_BRANCH: target.destination.branch.name,
+      // Set for comments on a line of the diff
+      ...(comment.inline?.path ? { FILE_PATH: comment.inline.path } : {}),
+      ...(comment.inline?.to ? { LINE_NUMBER: comment.inline.to.toString() } : {})
+    };
+
+  await routeToBitbucketContainer({
+    repository,
+    reference,
+    containerName,
+    triggerEvent,
+    postComment,
+    context
+  }, credentials, env, configDO, origin);
+}
+
+// Handle issue:comment_created and pullrequest:comment_created events
+export async function handleBitbucketCommentEvent(
+  data: any,
+  env: any,
+  configDO: any,
+  credentials: BitbucketCredentials,
+  ctx: ExecutionContext,
+  origin?: string
+): Promise<Response> {
+  logWithContext('BITBUCKET_COMMENT_EVENT', 'Processing Bitbucket comment event', {
+    commentId: data.comment?.id,
+    issueId: data.issue?.id,
+    pullRequestId: data.pullrequest?.id,
+    repository: data.repository?.full_name,
+    author: bitbucketUsername(data.actor)
+  });
+
+  // Claude's own replies quote the request, so they must never trigger another run
+  if (isOwnAccount(data.actor, credentials)) {
+    return new Response('Comment by Claude ignored', { status: 200 });
+  }
+
+  // Pull requests from forks can't be pushed to with the repository's app password
+  if (data.pullrequest && data.pullrequest.source?.repository?.full_name !== data.repository?.full_name) {
+    logWithContext('BITBUCKET_COMMENT_EVENT', 'Ignoring comment on a pull request from a fork', {
+      pullRequestId: data.pullrequest.id,
+      sourceRepository: data.pullrequest.source?.repository?.full_name
+    });
+    return new Response('Pull request from a fork ignored', { status: 200 });
+  }
+
+  ctx.waitUntil(
+    processComment(data, env, configDO, credentials, origin).catch(error => {
+      logWithContext('BITBUCKET_COMMENT_EVENT', 'Failed to process Bitbucket comment', {
+        error: error instanceof Error ? error.message : String(error),
+        commentId: data.comment?.id
+      });
+    })
+  );
+
+  return new Response('Bitbucket comment accepted for processing', { status: 200 });
+}
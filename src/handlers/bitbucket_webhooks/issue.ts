@@ -0,0 +1,211 @@
+import { logWithContext } from "../../log";
+import { BitbucketApiCredentials, createBitbucketIssueComment, getBitbucketRepository } from "../../bitbucket_api";
+import { RepoConfigResult, loadBitbucketRepoConfig, matchesTriggerLabels, formatRepoConfigErrors } from "../../repo_config";
+import { getRunLimits, runLimitsContext } from "../../run_limits";
+import { authorizeBitbucketUser, formatAuthorizationRefusal, recordRefusedTrigger } from "../../authorization";
+import { dispatchRun, formatQueuedMessage } from "../../dispatch_queue";
+
+// Credentials from BitbucketAppConfigDO, decrypted
+export interface BitbucketCredentials extends BitbucketApiCredentials {
+  webhookSecret: string;
+  // The app password's own account, whose comments never trigger a run
+  accountUuid?: string;
+}
+
+// A run on an issue or pull request thread
+export interface BitbucketRun {
+  repository: string;
+  reference: string;
+  containerName: string;
+  triggerEvent: string;
+  // Mode-specific variables for the container (PROCESSING_MODE, USER_PROMPT and so on)
+  context: Record<string, string>;
+  // Post a comment on the thread (used for the queue notice)
+  postComment: (body: string) => Promise<void>;
+}
+
+// Bitbucket no longer exposes usernames; the nickname is what people @-mention
+export function bitbucketUsername(actor: any): string {
+  return actor?.nickname || actor?.display_name || 'unknown';
+}
+
+// Is this event from the account Claude posts as?
+export function isOwnAccount(actor: any, credentials: BitbucketCredentials): boolean {
+  return !!credentials.accountUuid && actor?.uuid === credentials.accountUuid;
+}
+
+// Container names are per thread, so follow-ups on an issue or pull request wait for each other
+export function bitbucketContainerName(repository: string, kind: 'issue' | 'pr', id: number): string {
+  return `claude-bitbucket-${repository}-${kind}-${id}`;
+}
+
+// Repository configuration from the main branch, which webhook payloads don't include
+export async function loadConfigFromMainBranch(
+  credentials: BitbucketCredentials,
+  repository: string
+): Promise<{ repoConfig: RepoConfigResult; mainBranch: string }> {
+  const details = await getBitbucketRepository(credentials, repository);
+  const mainBranch = details.mainbranch?.name || 'main';
+  return { repoConfig: await loadBitbucketRepoConfig(credentials, repository, mainBranch), mainBranch };
+}
+
+// Start a container run for a Bitbucket thread: queues it for a dispatch slot with the
+// credentials and limits for /process-bitbucket
+export async function routeToBitbucketContainer(
+  run: BitbucketRun,
+  credentials: BitbucketCredentials,
+  env: any,
+  configDO: any,
+  origin?: string
+): Promise<void> {
+  logWithContext('BITBUCKET_CLAUDE_ROUTING', 'Routing Bitbucket event to Claude Code container', {
+    repository: run.repository,
+    reference: run.reference,
+    containerName: run.containerName,
+    processingMode: run.context.PROCESSING_MODE
+  });
+
+  // The Claude API key is shared by all providers and kept with the GitLab config
+  const claudeConfigDO = env.GITLAB_APP_CONFIG.get(env.GITLAB_APP_CONFIG.idFromName('claude-config'));
+  const claudeKeyResponse = await claudeConfigDO.fetch(new Request('http://internal/get-claude-key'));
+  const claudeKeyData = await claudeKeyResponse.json() as { anthropicApiKey: string | null };
+
+  if (!claudeKeyData.anthropicApiKey) {
+    logWithContext('BITBUCKET_CLAUDE_ROUTING', 'Claude API key not configured');
+    throw new Error('Claude API key not configured. Please visit /claude-setup first.');
+  }
+
+  const runLimits = await getRunLimits(configDO, run.repository);
+
+  const processContext = {
+    ANTHROPIC_API_KEY: claudeKeyData.anthropicApiKey,
+    BITBUCKET_USERNAME: credentials.username,
+    BITBUCKET_APP_PASSWORD: credentials.appPassword,
+    BITBUCKET_REPOSITORY: run.repository,
+    GIT_CLONE_URL: `https://bitbucket.org/${run.repository}.git`,
+    ...run.context,
+    ...runLimitsContext(runLimits)
+  };
+
+  await dispatchRun(env, {
+    provider: 'bitbucket',
+    repository: run.repository,
+    reference: run.reference,
+    containerName: run.containerName,
+    triggerEvent: run.triggerEvent
+  }, {
+    route: '/process-bitbucket',
+    context: processContext,
+    origin,
+    thread: { provider: 'bitbucket', repository: run.repository, reference: run.reference }
+  }, {
+    onQueued: async (position, queueLength) => {
+      await run.postComment(`🤖 **Claude Code Assistant**\n\n${formatQueuedMessage(position, queueLength)}`);
+    }
+  });
+}
+
+// Check the configuration, trigger labels and author of a new issue, then start a run on it
+async function processNewIssue(
+  data: any,
+  env: any,
+  configDO: any,
+  credentials: BitbucketCredentials,
+  origin?: string
+): Promise<void> {
+  const issue = data.issue;
+  const repository = data.repository.full_name;
+  const username = bitbucketUsername(data.actor);
+  const containerName = bitbucketContainerName(repository, 'issue', issue.id);
+  const postComment = (body: string) => createBitbucketIssueComment(credentials, repository, issue.id, body);
+
+  const { repoConfig, mainBranch } = await loadConfigFromMainBranch(credentials, repository);
+
+  if (repoConfig.errors.length > 0) {
+    logWithContext('BITBUCKET_ISSUES_EVENT', 'Repository configuration is invalid, not starting', {
+      path: repoConfig.path,
+      errors: repoConfig.errors
+    });
+    await postComment(formatRepoConfigErrors(repoConfig));
+    return;
+  }
+
+  // Bitbucket issues have no labels; their kind and component stand in for them
+  const issueLabels = [issue.kind, issue.component?.name].filter((label): label is string => !!label);
+  if (!matchesTriggerLabels(repoConfig.config, issueLabels)) {
+    logWithContext('BITBUCKET_ISSUES_EVENT', 'Issue has none of the configured trigger labels', {
+      triggerLabels: repoConfig.config.triggers.labels,
+      issueLabels
+    });
+    return;
+  }
+
+  const authorization = await authorizeBitbucketUser(
+    credentials,
+    repository,
+    { uuid: data.actor.uuid, username },
+    repoConfig.config.authorization
+  );
+  if (!authorization.authorized) {
+    await postComment(formatAuthorizationRefusal(username, 'bitbucket', repoConfig.config.authorization));
+    await recordRefusedTrigger(env, {
+      triggerEvent: 'bitbucket.issue.created',
+      provider: 'bitbucket',
+      repository,
+      reference: `#${issue.id}`,
+      containerName
+    }, username, authorization);
+    return;
+  }
+
+  await routeToBitbucketContainer({
+    repository,
+    reference: `#${issue.id}`,
+    containerName,
+    triggerEvent: 'bitbucket.issue.created',
+    postComment,
+    context: {
+      PROCESSING_MODE: 'issue',
+      ISSUE_ID: issue.id.toString(),
+      ISSUE_TITLE: issue.title,
+      ISSUE_DESCRIPTION: issue.content?.raw || '',
+      ISSUE_AUTHOR: username,
+      BASE_BRANCH: repoConfig.config.baseBranch || mainBranch,
+      REPO_CONFIG: JSON.stringify(repoConfig.config),
+      MESSAGE: `Processing Bitbucket issue #${issue.id}: ${issue.title}`
+    }
+  }, credentials, env, configDO, origin);
+}
+
+// Handle issue:created events
+export async function handleBitbucketIssueEvent(
+  data: any,
+  env: any,
+  configDO: any,
+  credentials: BitbucketCredentials,
+  ctx: ExecutionContext,
+  origin?: string
+): Promise<Response> {
+  logWithContext('BITBUCKET_ISSUES_EVENT', 'Processing Bitbucket issue event', {
+    issueId: data.issue?.id,
+    issueTitle: data.issue?.title,
+    repository: data.repository?.full_name,
+    author: bitbucketUsername(data.actor)
+  });
+
+  if (isOwnAccount(data.actor, credentials)) {
+    return new Response('Issue opened by Claude ignored', { status: 200 });
+  }
+
+  // Bitbucket gives up on a webhook after 10 seconds, so the run continues after we respond
+  ctx.waitUntil(
+    processNewIssue(data, env, configDO, credentials, origin).catch(error => {
+      logWithContext('BITBUCKET_ISSUES_EVENT', 'Failed to process new Bitbucket issue', {
+        error: error instanceof Error ? error.message : String(error),
+        issueId: data.issue?.id
+      });
+    })
+  );
+
+  return new Response('Bitbucket issue accepted for processing', { status: 200 });
+}
@@ -0,0 +1,120 @@
+import { logWithContext } from "../../log";
+import { createBitbucketPullRequestComment } from "../../bitbucket_api";
+import { formatRepoConfigErrors } from "../../repo_config";
+import { authorizeBitbucketUser, formatAuthorizationRefusal, recordRefusedTrigger } from "../../authorization";
+import { DEFAULT_MENTION, detectClaudeMention, extractUserPrompt } from "../github_webhooks/issue_comment";
+import {
+  BitbucketCredentials,
+  bitbucketContainerName,
+  bitbucketUsername,
+  isOwnAccount,
+  loadConfigFromMainBranch,
+  routeToBitbucketContainer
+} from "./issue";
+
+// A new pull request whose description mentions Claude: work on its source branch
+async function processNewPullRequest(
+  data: any,
+  env: any,
+  configDO: any,
+  credentials: BitbucketCredentials,
+  origin?: string
+): Promise<void> {
+  const pullRequest = data.pullrequest;
+  const repository = data.repository.full_name;
+  const username = bitbucketUsername(data.actor);
+  const reference = `PR #${pullRequest.id}`;
+  const containerName = bitbucketContainerName(repository, 'pr', pullRequest.id);
+  const postComment = (body: string) => createBitbucketPullRequestComment(credentials, repository, pullRequest.id, body);
+
+  const { repoConfig } = await loadConfigFromMainBranch(credentials, repository);
+  const mentions = repoConfig.config.triggers.mentions.length > 0
+    ? repoConfig.config.triggers.mentions
+    : [DEFAULT_MENTION];
+
+  const description: string = pullRequest.description || '';
+  if (!detectClaudeMention(description, mentions)) {
+    logWithContext('BITBUCKET_PULL_REQUEST_EVENT', 'No mention in pull request description', { pullRequestId: pullRequest.id });
+    return;
+  }
+
+  if (repoConfig.errors.length > 0) {
+    await postComment(formatRepoConfigErrors(repoConfig));
+    return;
+  }
+
+  const authorization = await authorizeBitbucketUser(
+    credentials,
+    repository,
+    { uuid: data.actor.uuid, username },
+    repoConfig.config.authorization
+  );
+  if (!authorization.authorized) {
+    await postComment(formatAuthorizationRefusal(username, 'bitbucket', repoConfig.config.authorization));
+    await recordRefusedTrigger(env, {
+      triggerEvent: 'bitbucket.pullrequest.created',
+      provider: 'bitbucket',
+      repository,
+      reference,
+      containerName
+    }, username, authorization);
+    return;
+  }
+
+  await routeToBitbucketContainer({
+    repository,
+    reference,
+    containerName,
+    triggerEvent: 'bitbucket.pullrequest.created',
+    postComment,
+    context: {
+      PROCESSING_MODE: 'pr_comment',
+      USER_PROMPT: extractUserPrompt(description, mentions),
+      COMMENT_AUTHOR: username,
+      PR_ID: pullRequest.id.toString(),
+      PR_TITLE: pullRequest.title,
+      PR_DESCRIPTION: description,
+      SOURCE_BRANCH: pullRequest.source.branch.name,
+      TARGET_BRANCH: pullRequest.destination.branch.name,
+      REPO_CONFIG: JSON.stringify(repoConfig.config),
+      MESSAGE: `Processing Bitbucket pull request #${pullRequest.id}: ${pullRequest.title}`
+    }
+  }, credentials, env, configDO, origin);
+}
+
+// Handle pullrequest:created events
+export async function handleBitbucketPullRequestEvent(
+  data: any,
+  env: any,
+  configDO: any,
+  credentials: BitbucketCredentials,
+  ctx: ExecutionContext,
+  origin?: string
+): Promise<Response> {
+  const pullRequest = data.pullrequest;
+
+  logWithContext('BITBUCKET_PULL_REQUEST_EVENT', 'Processing Bitbucket pull request event', {
+    pullRequestId: pullRequest?.id,
+    repository: data.repository?.full_name,
+    author: bitbucketUsername(data.actor)
+  });
+
+  if (isOwnAccount(data.actor, credentials)) {
+    return new Response('Pull request opened by Claude ignored', { status: 200 });
+  }
+
+  if (pullRequest?.source?.repository?.full_name !== data.repository?.full_name) {
+    return new Response('Pull request from a fork ignored', { status: 200 });
+  }
+
+  ctx.waitUntil(
+    processNewPullRequest(data, env, configDO, credentials, origin).catch(error => {
+      logWithContext('BITBUCKET_PULL_REQUEST_EVENT', 'Failed to process new Bitbucket pull request', {
+        error: error instanceof Error ? error.message : String(error),
+        pullRequestId: pullRequest?.id
+      });
+    })
+  );
+
+  return new Response('Bitbucket pull request accepted for processing', { status: 200 });
+}
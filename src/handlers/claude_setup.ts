@@ -33,7 +33,7 @@ export async function handleClaudeSetup(request: Request, origin: string, env: a
       const configDO = env.GITLAB_APP_CONFIG.get(id);
 
       // Encrypt the API key
-      const encryptedApiKey = await encrypt(apiKey);
+      const encryptedApiKey = await encrypt(apiKey, env);
       logWithContext('CLAUDE_SETUP', 'API key encrypted successfully');
 
       // Store in Durable Object
@@ -0,0 +1,26 @@
+import { getDispatchQueue } from "../dispatch_queue";
+import { logWithContext } from "../log";
+
+// Handle /queue: the runs holding a container slot, those waiting for one (in the order
+// they will start) and the dead-lettered runs of the last week
+export async function handleDispatchQueueRequest(request: Request, env: any): Promise<Response> {
+  if (request.method !== 'GET') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const response = await getDispatchQueue(env).fetch(new Request('http://internal/list'));
+  const queue = await response.json() as { running: any[]; queued: any[]; deadLetter: any[] };
+
+  logWithContext('DISPATCH_QUEUE', 'Queue requested', {
+    running: queue.running.length,
+    queued: queue.queued.length,
+    deadLetter: queue.deadLetter.length
+  });
+
+  return new Response(JSON.stringify(queue, null, 2), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { handleGiteaSetup } from './gitea_setup';
+
+describe('Gitea Setup Handler', () => {
+  let mockEnv: any;
+  let mockConfigDO: any;
+  let fetchSpy: any;
+
+  const configure = (body: any) => handleGiteaSetup(new Request('http://test.com/gitea-setup/configure', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  }), 'http://test.com', mockEnv);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockConfigDO = {
+      fetch: vi.fn().mockImplementation(async (request: Request) => {
+        if (new URL(request.url).pathname === '/list') {
+          return new Response(JSON.stringify([{ giteaUrl: 'https://git.example.com', owner: 'acme', repo: null }]));
+        }
+        return new Response('OK');
+      })
+    };
+
+    mockEnv = {
+      ENCRYPTION_KEY: 'test-encryption-key',
+      GITEA_APP_CONFIG: {
+        idFromName: vi.fn().mockReturnValue('gitea-config-id'),
+        get: vi.fn().mockReturnValue(mockConfigDO)
+      }
+    };
+
+    fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input: any, init?: any) => {
+      const url = typeof input === 'string' ? input : input.url;
+      const authorization = new Headers(init?.headers).get('Authorization');
+      return url === 'https://git.example.com/api/v1/user' && authorization === 'token gitea-token'
+        ? new Response(JSON.stringify({ id: 42, login: 'claude-bot' }), { status: 200 })
+        : new Response('Unauthorized', { status: 401, statusText: 'Unauthorized' });
+    });
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  it('should serve the setup form with the webhook URL', async () => {
+    const response = await handleGiteaSetup(new Request('http://test.com/gitea-setup'), 'http://test.com', mockEnv);
+
+    expect(response.headers.get('content-type')).toContain('text/html');
+    const html = await response.text();
+    expect(html).toContain('Gitea / Forgejo Integration Setup');
+    expect(html).toContain('http://test.com/webhooks/gitea');
+  });
+
+  it('should store encrypted credentials with the account id', async () => {
+    const response = await configure({
+      giteaUrl: 'https://git.example.com/',
+      owner: 'acme',
+      repo: 'widgets',
+      token: 'gitea-token',
+      webhookSecret: 'webhook-secret'
+    });
+
+    expect(response.status).toBe(200);
+    expect((await response.json() as any).webhookUrl).toBe('http://test.com/webhooks/gitea');
+
+    const stored = JSON.parse(await mockConfigDO.fetch.mock.calls[0][0].text());
+    expect(stored).toMatchObject({ giteaUrl: 'https://git.example.com', owner: 'acme', repo: 'widgets', accountId: 42 });
+    expect(stored.token).toMatch(/^enc:v1:/);
+    expect(stored.webhookSecret).toMatch(/^enc:v1:/);
+  });
+
+  it('should reject tokens the instance does not accept', async () => {
+    const response = await configure({
+      giteaUrl: 'https://git.example.com',
+      owner: 'acme',
+      token: 'wrong',
+      webhookSecret: 'webhook-secret'
+    });
+
+    expect(response.status).toBe(400);
+    expect((await response.json() as any).error).toContain('401');
+    expect(mockConfigDO.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should require a webhook secret', async () => {
+    const response = await configure({ giteaUrl: 'https://git.example.com', owner: 'acme', token: 'gitea-token' });
+    expect(response.status).toBe(400);
+  });
+
+  it('should list configured repositories without secrets', async () => {
+    const response = await handleGiteaSetup(new Request('http://test.com/gitea-setup/status'), 'http://test.com', mockEnv);
+
+    expect(await response.json()).toEqual({
+      configured: true,
+      repositories: [{ giteaUrl: 'https://git.example.com', owner: 'acme', repo: null }]
+    });
+  });
+});
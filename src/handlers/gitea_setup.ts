@@ -0,0 +1,190 @@
+import { logWithContext } from "../log";
+import { encrypt } from "../crypto";
+import { getGiteaUser } from "../gitea_api";
+
+function getConfigDO(env: any): any {
+  return env.GITEA_APP_CONFIG.get(env.GITEA_APP_CONFIG.idFromName('gitea-config'));
+}
+
+function jsonResponse(body: any, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+export async function handleGiteaSetup(request: Request, origin: string, env: any): Promise<Response> {
+  const url = new URL(request.url);
+
+  logWithContext('GITEA_SETUP', 'Handling Gitea setup request', {
+    pathname: url.pathname,
+    method: request.method
+  });
+
+  switch (url.pathname) {
+    case '/gitea-setup':
+      return showSetupForm(origin);
+    case '/gitea-setup/configure':
+      if (request.method !== 'POST') {
+        return jsonResponse({ error: 'Method not allowed' }, 405);
+      }
+      return await configureGitea(request, origin, env);
+    case '/gitea-setup/status':
+      return await getSetupStatus(env);
+    default:
+      return new Response('Not Found', { status: 404 });
+  }
+}
+
+function showSetupForm(origin: string): Response {
+  const webhookUrl = `${origin}/webhooks/gitea`;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <title>Gitea / Forgejo Integration Setup</title>
+      <style>
+        body { font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; }
+        .form-group { margin-bottom: 15px; }
+        label { display: block; margin-bottom: 5px; font-weight: bold; }
+        input { width: 100%; padding: 8px; border: 1px solid #ddd; border-radius: 4px; }
+        button { background: #609926; color: white; padding: 10px 20px; border: none; border-radius: 4px; cursor: pointer; }
+        button:hover { background: #4d7a1e; }
+        .info { background: #e7f3ff; padding: 10px; border-radius: 4px; margin-bottom: 20px; }
+        .error { color: #dc3545; margin-top: 5px; }
+        .success { color: #28a745; margin-top: 5px; }
+      </style>
+    </head>
+    <body>
+      <h1>Gitea / Forgejo Integration Setup</h1>
+
+      <div class="info">
+        <h3>Setup Instructions:</h3>
+        <ol>
+          <li><strong>Create an Access Token</strong> for the account Claude should post as
+            (Settings → Applications) with these scopes:
+            <ul>
+              <li><code>read:user</code></li>
+              <li><code>write:repository</code></li>
+              <li><code>write:issue</code></li>
+            </ul>
+          </li>
+          <li>Generate a random webhook secret</li>
+          <li>Add a Gitea webhook (Repository settings → Webhooks) with target URL <code>${webhookUrl}</code>, content type
+            <code>application/json</code>, the secret, and the events <em>Issues</em>, <em>Issue Comment</em>,
+            <em>Pull Request</em> and <em>Pull Request Comment</em></li>
+        </ol>
+        <p>Leave the repository empty to use the token for every repository of the owner.
+          Checking who may start runs needs the account to be a repository admin; otherwise only <code>allowed_users</code> can.</p>
+      </div>
+
+      <form id="setupForm">
+        <div class="form-group">
+          <label for="giteaUrl">Instance URL</label>
+          <input type="url" id="giteaUrl" name="giteaUrl" placeholder="https://codeberg.org" required>
+        </div>
+        <div class="form-group">
+          <label for="owner">Owner (user or organization)</label>
+          <input type="text" id="owner" name="owner" placeholder="my-org" required>
+        </div>
+        <div class="form-group">
+          <label for="repo">Repository (optional)</label>
+          <input type="text" id="repo" name="repo" placeholder="my-repository">
+        </div>
+        <div class="form-group">
+          <label for="token">Access Token</label>
+          <input type="password" id="token" name="token" required>
+        </div>
+        <div class="form-group">
+          <label for="webhookSecret">Webhook secret</label>
+          <input type="password" id="webhookSecret" name="webhookSecret" required>
+        </div>
+        <button type="submit">Save Configuration</button>
+      </form>
+
+      <div id="result"></div>
+
+      <script>
+        document.getElementById('setupForm').addEventListener('submit', async (e) => {
+          e.preventDefault();
+          document.getElementById('result').innerHTML = '<div>Configuring...</div>';
+
+          try {
+            const response = await fetch('/gitea-setup/configure', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify(Object.fromEntries(new FormData(e.target)))
+            });
+            const result = await response.json();
+
+            document.getElementById('result').innerHTML = response.ok
+              ? '<div class="success">✅ Gitea configured successfully!<br>Webhook URL: ' + result.webhookUrl + '</div>'
+              : '<div class="error">❌ Error: ' + result.error + '</div>';
+          } catch (error) {
+            document.getElementById('result').innerHTML = '<div class="error">❌ Network error: ' + error.message + '</div>';
+          }
+        });
+      </script>
+    </body>
+    </html>
+  `;
+
+  return new Response(html, {
+    headers: { 'Content-Type': 'text/html' }
+  });
+}
+
+async function configureGitea(request: Request, origin: string, env: any): Promise<Response> {
+  try {
+    const { giteaUrl, owner, repo, token, webhookSecret } = await request.json() as Record<string, string | undefined>;
+
+    if (!giteaUrl || !owner || !token || !webhookSecret) {
+      return jsonResponse({ error: 'giteaUrl, owner, token and webhookSecret are required' }, 400);
+    }
+
+    // Webhook payloads give the instance by its web URL, so store it the same way
+    const instanceUrl = giteaUrl.replace(/\/+$/, '');
+
+    logWithContext('GITEA_SETUP', 'Configuring Gitea integration', { giteaUrl: instanceUrl, owner, repo });
+
+    // Validate the token, and remember its account so Claude's own comments are ignored
+    let account: any;
+    try {
+      account = await getGiteaUser({ giteaUrl: instanceUrl, token });
+    } catch (error) {
+      return jsonResponse({ error: (error as Error).message }, 400);
+    }
+
+    await getConfigDO(env).fetch(new Request('http://config/store', {
+      method: 'POST',
+      body: JSON.stringify({
+        giteaUrl: instanceUrl,
+        owner,
+        repo: repo || '',
+        token: await encrypt(token, env),
+        webhookSecret: await encrypt(webhookSecret, env),
+        accountId: account.id
+      })
+    }));
+
+    return jsonResponse({
+      success: true,
+      message: 'Gitea integration configured successfully',
+      webhookUrl: `${origin}/webhooks/gitea`
+    });
+  } catch (error) {
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+}
+
+// Configured owners and repositories, without their secrets
+async function getSetupStatus(env: any): Promise<Response> {
+  const response = await getConfigDO(env).fetch(new Request('http://config/list'));
+  const repositories = await response.json() as any[];
+
+  return jsonResponse({
+    configured: repositories.length > 0,
+    repositories
+  });
+}
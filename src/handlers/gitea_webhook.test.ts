@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { handleGiteaWebhook, verifyGiteaSignature } from './gitea_webhook';
+
+async function sign(payload: string, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(signature)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+describe('Gitea Webhook Handler', () => {
+  let mockEnv: any;
+  let mockContainer: any;
+  let credentials: any;
+  let credentialLookups: URLSearchParams[];
+  let deliveries: string[];
+  let pending: Promise<unknown>[];
+  let ctx: any;
+  let fetchSpy: any;
+
+  const repository = {
+    full_name: 'acme/widgets',
+    html_url: 'https://git.example.com/acme/widgets',
+    clone_url: 'https://git.example.com/acme/widgets.git',
+    default_branch: 'main'
+  };
+
+  const issueOpened = {
+    action: 'opened',
+    sender: { id: 5, login: 'jane' },
+    repository,
+    issue: { number: 7, title: 'Crash on save', body: 'Saving an empty file crashes', labels: [] }
+  };
+
+  const commentCreated = (body: string, overrides: any = {}) => ({
+    action: 'created',
+    sender: { id: 5, login: 'jane' },
+    repository,
+    issue: { number: 9, title: 'Add dark mode', body: 'Please', labels: [] },
+    comment: { id: 301, body },
+    is_pull: false,
+    ...overrides
+  });
+
+  async function deliver(payload: any, headers: Record<string, string> = {}): Promise<Response> {
+    const body = JSON.stringify(payload);
+    const response = await handleGiteaWebhook(new Request('https://worker.example.com/webhooks/gitea', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Gitea-Event': 'issues',
+        'X-Gitea-Delivery': crypto.randomUUID(),
+        'X-Gitea-Signature': await sign(body, 'webhook-secret'),
+        ...headers
+      },
+      body
+    }), mockEnv, ctx);
+    await Promise.all(pending);
+    return response;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    deliveries = [];
+    credentialLookups = [];
+    pending = [];
+    ctx = { waitUntil: vi.fn((promise: Promise<unknown>) => pending.push(promise)) };
+    credentials = {
+      giteaUrl: 'https://git.example.com',
+      owner: 'acme',
+      repo: 'widgets',
+      token: 'gitea-token',
+      webhookSecret: 'webhook-secret',
+      accountId: 42
+    };
+
+    mockContainer = {
+      fetch: vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ success: true, message: 'Opened pull request #8' }), { status: 200 })
+      )
+    };
+
+    mockEnv = {
+      MY_CONTAINER: {
+        idFromName: vi.fn().mockReturnValue('mock-container-id'),
+        get: vi.fn().mockReturnValue(mockContainer)
+      },
+      GITEA_APP_CONFIG: {
+        idFromName: vi.fn().mockReturnValue('gitea-config-id'),
+        get: vi.fn().mockReturnValue({
+          fetch: vi.fn().mockImplementation(async (request: Request) => {
+            const url = new URL(request.url);
+            if (url.pathname === '/get-credentials') {
+              credentialLookups.push(url.searchParams);
+              return new Response(JSON.stringify(url.searchParams.get('repository') === 'acme/widgets' ? credentials : null));
+            }
+            return new Response(JSON.stringify({ limits: null }));
+          })
+        })
+      },
+      GITLAB_APP_CONFIG: {
+        idFromName: vi.fn().mockReturnValue('claude-config-id'),
+        get: vi.fn().mockReturnValue({
+          fetch: vi.fn().mockResolvedValue(new Response(JSON.stringify({ anthropicApiKey: 'test-claude-key' })))
+        })
+      },
+      WEBHOOK_DELIVERIES: {
+        idFromName: vi.fn().mockReturnValue('deliveries-id'),
+        get: vi.fn().mockReturnValue({
+          fetch: vi.fn().mockImplementation(async (request: Request) => {
+            if (new URL(request.url).pathname !== '/record') {
+              return new Response('OK');
+            }
+            const delivery = await request.json() as any;
+            const duplicate = deliveries.includes(delivery.deliveryId);
+            deliveries.push(delivery.deliveryId);
+            return new Response(JSON.stringify({ duplicate }));
+          })
+        })
+      }
+    };
+
+    fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input: any) => {
+      const url = typeof input === 'string' ? input : input.url;
+      if (url.includes('/raw/')) {
+        return new Response('Not Found', { status: 404 });
+      }
+      if (url.includes('/collaborators/')) {
+        return new Response(JSON.stringify({ permission: 'write' }), { status: 200 });
+      }
+      if (url.endsWith('/pulls/9')) {
+        return new Response(JSON.stringify({
+          number: 9,
+          title: 'Add dark mode',
+          body: 'Adds a theme toggle',
+          head: { ref: 'dark-mode', repo: { full_name: 'acme/widgets' } },
+          base: { ref: 'main' }
+        }), { status: 200 });
+      }
+      return new Response(JSON.stringify({ id: 1 }), { status: 201 });
+    });
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  it('should verify hex HMAC signatures', async () => {
+    const signature = await sign('{"a":1}', 'secret');
+
+    expect(await verifyGiteaSignature('{"a":1}', signature, 'secret')).toBe(true);
+    expect(await verifyGiteaSignature('{"a":2}', signature, 'secret')).toBe(false);
+    expect(await verifyGiteaSignature('{"a":1}', signature, 'other-secret')).toBe(false);
+    expect(await verifyGiteaSignature('{"a":1}', `sha256=${signature}`, 'secret')).toBe(false);
+  });
+
+  it('should start a run for a new issue', async () => {
+    const response = await deliver(issueOpened);
+    expect(response.status).toBe(200);
+
+    expect(credentialLookups[0].get('gitea_url')).toBe('https://git.example.com');
+    expect(mockEnv.MY_CONTAINER.idFromName).toHaveBeenCalledWith('claude-gitea-acme/widgets-7');
+    const request = mockContainer.fetch.mock.calls[0][0];
+    expect(request.url).toBe('http://internal/process-gitea');
+    expect(JSON.parse(await request.text())).toMatchObject({
+      PROCESSING_MODE: 'issue',
+      GITEA_URL: 'https://git.example.com',
+      GITEA_TOKEN: 'gitea-token',
+      GITEA_REPOSITORY: 'acme/widgets',
+      GIT_CLONE_URL: 'https://git.example.com/acme/widgets.git',
+      ISSUE_NUMBER: '7',
+      ISSUE_TITLE: 'Crash on save',
+      ISSUE_AUTHOR: 'jane',
+      BASE_BRANCH: 'main'
+    });
+  });
+
+  it('should work on the branch of a pull request mentioned in a comment', async () => {
+    await deliver(commentCreated('@claude please add tests', { is_pull: true, issue: { number: 9, title: 'Add dark mode', pull_request: {} } }), {
+      'X-Gitea-Event': 'pull_request_comment'
+    });
+
+    const request = mockContainer.fetch.mock.calls[0][0];
+    expect(JSON.parse(await request.text())).toMatchObject({
+      PROCESSING_MODE: 'pr_comment',
+      USER_PROMPT: 'please add tests',
+      COMMENT_ID: '301',
+      PR_NUMBER: '9',
+      SOURCE_BRANCH: 'dark-mode',
+      TARGET_BRANCH: 'main'
+    });
+  });
+
+  it('should answer issue comments that mention Claude', async () => {
+    await deliver(commentCreated('@claude how would you fix this?'), { 'X-Gitea-Event': 'issue_comment' });
+
+    const request = mockContainer.fetch.mock.calls[0][0];
+    expect(JSON.parse(await request.text())).toMatchObject({
+      PROCESSING_MODE: 'issue_comment',
+      USER_PROMPT: 'how would you fix this?',
+      ISSUE_NUMBER: '9'
+    });
+  });
+
+  it('should ignore comments without a mention or from its own account', async () => {
+    await deliver(commentCreated('Looks good to me'), { 'X-Gitea-Event': 'issue_comment' });
+    await deliver(commentCreated('@claude again', { sender: { id: 42, login: 'claude-bot' } }), { 'X-Gitea-Event': 'issue_comment' });
+
+    expect(mockContainer.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should reject deliveries with a bad or missing signature', async () => {
+    expect((await deliver(issueOpened, { 'X-Gitea-Signature': await sign('tampered', 'webhook-secret') })).status).toBe(401);
+
+    const unsigned = await handleGiteaWebhook(new Request('https://worker.example.com/webhooks/gitea', {
+      method: 'POST',
+      headers: { 'X-Gitea-Event': 'issues' },
+      body: JSON.stringify(issueOpened)
+    }), mockEnv, ctx);
+    expect(unsigned.status).toBe(401);
+
+    expect(mockContainer.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for repositories that are not configured', async () => {
+    const response = await deliver({
+      ...issueOpened,
+      repository: { ...repository, full_name: 'acme/other', html_url: 'https://git.example.com/acme/other' }
+    });
+    expect(response.status).toBe(404);
+  });
+
+  it('should skip redelivered events', async () => {
+    await deliver(issueOpened, { 'X-Gitea-Delivery': 'delivery-1' });
+    const response = await deliver(issueOpened, { 'X-Gitea-Delivery': 'delivery-1' });
+
+    expect(await response.text()).toContain('Duplicate delivery skipped');
+    expect(mockContainer.fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,179 @@
+import { logWithContext } from "../log";
+import { timingSafeEqual } from "../auth";
+import { giteaUrlFromRepository } from "../gitea_api";
+import { handleGiteaIssuesEvent, GiteaCredentials } from "./gitea_webhooks/issue";
+import { handleGiteaCommentEvent } from "./gitea_webhooks/comment";
+import { handleGiteaPullRequestEvent } from "./gitea_webhooks/pull_request";
+import {
+  recordWebhookDelivery,
+  finishWebhookDelivery,
+  duplicateDeliveryResponse,
+  pickHeaders,
+  GITEA_REPLAY_HEADERS,
+  WebhookOptions
+} from "../webhook_deliveries";
+
+// Route Gitea webhook events (X-Gitea-Event) to specific handlers
+async function routeGiteaEvent(
+  event: string,
+  data: any,
+  configDO: any,
+  credentials: GiteaCredentials,
+  env: any,
+  ctx: ExecutionContext,
+  origin: string
+): Promise<Response> {
+  logWithContext('GITEA_EVENT_ROUTER', 'Routing Gitea event', {
+    event,
+    action: data.action,
+    repository: data.repository?.full_name
+  });
+
+  switch (event) {
+    case 'issues':
+      return await handleGiteaIssuesEvent(data, env, configDO, credentials, ctx, origin);
+
+    case 'issue_comment':
+    case 'pull_request_comment':
+      return await handleGiteaCommentEvent(data, env, configDO, credentials, ctx, origin);
+
+    case 'pull_request':
+      return await handleGiteaPullRequestEvent(data, env, configDO, credentials, ctx, origin);
+
+    default:
+      logWithContext('GITEA_EVENT_ROUTER', 'Unhandled Gitea event', {
+        event,
+        availableEvents: ['issues', 'issue_comment', 'pull_request_comment', 'pull_request']
+      });
+      return new Response('Event type not supported', { status: 200 });
+  }
+}
+
+// Gitea signs the payload with the webhook secret: X-Gitea-Signature: <hex HMAC-SHA256>
+export async function verifyGiteaSignature(payload: string, signature: string, secret: string): Promise<boolean> {
+  if (!secret || !signature) {
+    return false;
+  }
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const hashBuffer = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+  const computedHex = Array.from(new Uint8Array(hashBuffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+  return timingSafeEqual(signature.toLowerCase(), computedHex);
+}
+
+// Forgejo sends the same X-Gitea-* headers alongside its own X-Forgejo-* ones
+export async function handleGiteaWebhook(
+  request: Request,
+  env: any,
+  ctx: ExecutionContext,
+  options: WebhookOptions = {}
+): Promise<Response> {
+  const startTime = Date.now();
+
+  // Set once the delivery is recorded, so it can be marked processed or failed
+  let recordedDelivery: string | null = null;
+
+  try {
+    const signature = request.headers.get('X-Gitea-Signature');
+    const event = request.headers.get('X-Gitea-Event');
+    const deliveryId = request.headers.get('X-Gitea-Delivery');
+
+    logWithContext('GITEA_WEBHOOK', 'Received Gitea webhook', {
+      event,
+      deliveryId,
+      hasSignature: !!signature,
+      replay: !!options.replay
+    });
+
+    if (!event) {
+      return new Response('Missing required headers', { status: 400 });
+    }
+
+    // Without a secret Gitea sends an empty signature; those deliveries are never accepted
+    if (!signature) {
+      logWithContext('GITEA_WEBHOOK', 'Unsigned webhook rejected; set a secret on the Gitea webhook');
+      return new Response('Missing signature', { status: 401 });
+    }
+
+    const payload = await request.text();
+    let webhookData: any;
+    try {
+      webhookData = JSON.parse(payload);
+    } catch (error) {
+      logWithContext('GITEA_WEBHOOK', 'Invalid JSON payload', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return new Response('Invalid JSON payload', { status: 400 });
+    }
+
+    const repository = webhookData.repository?.full_name;
+    const giteaUrl = webhookData.repository ? giteaUrlFromRepository(webhookData.repository) : null;
+    if (!repository || !giteaUrl) {
+      logWithContext('GITEA_WEBHOOK', 'No repository in webhook payload');
+      return new Response('No repository information', { status: 400 });
+    }
+
+    const configDO = env.GITEA_APP_CONFIG.get(env.GITEA_APP_CONFIG.idFromName('gitea-config'));
+    const credentialsResponse = await configDO.fetch(new Request(
+      `http://config/get-credentials?gitea_url=${encodeURIComponent(giteaUrl)}&repository=${encodeURIComponent(repository)}`
+    ));
+    const credentials = credentialsResponse.ok ? await credentialsResponse.json() as GiteaCredentials | null : null;
+
+    if (!credentials) {
+      logWithContext('GITEA_WEBHOOK', 'No Gitea configuration found', { giteaUrl, repository });
+      return new Response('Gitea not configured for this repository', { status: 404 });
+    }
+
+    const isValid = await verifyGiteaSignature(payload, signature, credentials.webhookSecret);
+    logWithContext('GITEA_WEBHOOK', 'Signature verification result', { isValid });
+
+    if (!isValid) {
+      return new Response('Invalid signature', { status: 401 });
+    }
+
+    // Skip redeliveries of an event that was already processed
+    if (deliveryId) {
+      const { duplicate } = await recordWebhookDelivery(env, {
+        provider: 'gitea',
+        deliveryId,
+        event,
+        headers: pickHeaders(request, GITEA_REPLAY_HEADERS),
+        payload
+      }, options);
+
+      if (duplicate) {
+        return duplicateDeliveryResponse(deliveryId);
+      }
+      recordedDelivery = deliveryId;
+    }
+
+    const eventResponse = await routeGiteaEvent(event, webhookData, configDO, credentials, env, ctx, new URL(request.url).origin);
+    await finishWebhookDelivery(env, 'gitea', recordedDelivery, eventResponse.status < 500);
+
+    logWithContext('GITEA_WEBHOOK', 'Webhook processing completed', {
+      event,
+      repository,
+      processingTimeMs: Date.now() - startTime,
+      responseStatus: eventResponse.status
+    });
+
+    return eventResponse;
+  } catch (error) {
+    await finishWebhookDelivery(env, 'gitea', recordedDelivery, false);
+    logWithContext('GITEA_WEBHOOK', 'Webhook processing error', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      processingTimeMs: Date.now() - startTime
+    });
+    return new Response('Internal server error', { status: 500 });
+  }
+}
@@ -0,0 +1,155 @@
+import { logWithContext } from "../../log";
+import { clearThreadSession, isResetCommand } from "../../sessions";
+import { createGiteaComment, getGiteaPullRequest } from "../../gitea_api";
+import { loadGiteaRepoConfig, formatRepoConfigErrors } from "../../repo_config";
+import { authorizeGiteaUser, formatAuthorizationRefusal, recordRefusedTrigger } from "../../authorization";
+import { DEFAULT_MENTION, detectClaudeMention, extractUserPrompt } from "../github_webhooks/issue_comment";
+import { GiteaCredentials, giteaContainerName, isOwnAccount, routeToGiteaContainer } from "./issue";
+
+// Check the configuration, mention and author of a comment, then start a run on its thread
+async function processComment(
+  data: any,
+  env: any,
+  configDO: any,
+  credentials: GiteaCredentials,
+  origin?: string
+): Promise<void> {
+  const comment = data.comment;
+  const issue = data.issue;
+  const repository = data.repository.full_name;
+  const username = data.sender.login;
+  const isPullRequest = !!(data.is_pull || issue.pull_request);
+  const reference = `#${issue.number}`;
+  const triggerEvent = isPullRequest ? 'gitea.pull_request_comment.created' : 'gitea.issue_comment.created';
+  const postComment = (body: string) => createGiteaComment(credentials, repository, issue.number, body);
+
+  const repoConfig = await loadGiteaRepoConfig(credentials, repository, data.repository.default_branch);
+  const mentions = repoConfig.config.triggers.mentions.length > 0
+    ? repoConfig.config.triggers.mentions
+    : [DEFAULT_MENTION];
+
+  const body: string = comment.body || '';
+  if (!detectClaudeMention(body, mentions)) {
+    logWithContext('GITEA_COMMENT_EVENT', 'No mention found', { commentId: comment.id, mentions });
+    return;
+  }
+
+  if (repoConfig.errors.length > 0) {
+    logWithContext('GITEA_COMMENT_EVENT', 'Repository configuration is invalid, not starting', {
+      path: repoConfig.path,
+      errors: repoConfig.errors
+    });
+    await postComment(formatRepoConfigErrors(repoConfig));
+    return;
+  }
+
+  const authorization = await authorizeGiteaUser(credentials, repository, username, repoConfig.config.authorization);
+  if (!authorization.authorized) {
+    await postComment(formatAuthorizationRefusal(username, 'gitea', repoConfig.config.authorization));
+    await recordRefusedTrigger(env, {
+      triggerEvent,
+      provider: 'gitea',
+      repository,
+      reference,
+      containerName: giteaContainerName(repository, issue.number)
+    }, username, authorization);
+    return;
+  }
+
+  const userPrompt = extractUserPrompt(body, mentions);
+  if (isResetCommand(userPrompt)) {
+    const hadSession = await clearThreadSession(env, { provider: 'gitea', repository, reference });
+    await postComment(hadSession
+      ? `🤖 **Claude Code Assistant**\n\n@${username}, I've forgotten our earlier conversation here. The next instruction starts a fresh session.`
+      : `🤖 **Claude Code Assistant**\n\n@${username}, there's no session here to reset.`);
+    return;
+  }
+
+  const baseContext = {
+    USER_PROMPT: userPrompt,
+    COMMENT_ID: comment.id.toString(),
+    COMMENT_AUTHOR: username,
+    REPO_CONFIG: JSON.stringify(repoConfig.config),
+    MESSAGE: `Processing Gitea comment ${comment.id} on ${reference}`
+  };
+
+  let context: Record<string, string>;
+  if (isPullRequest) {
+    // Comment payloads don't carry the pull request's branches
+    const pullRequest = await getGiteaPullRequest(credentials, repository, issue.number);
+
+    // Pull requests from forks can't be pushed to with the repository's token
+    if (pullRequest.head?.repo?.full_name !== repository) {
+      logWithContext('GITEA_COMMENT_EVENT', 'Ignoring comment on a pull request from a fork', {
+        number: issue.number,
+        headRepository: pullRequest.head?.repo?.full_name
+      });
+      return;
+    }
+
+    context = {
+      ...baseContext,
+      PROCESSING_MODE: 'pr_comment',
+      PR_NUMBER: issue.number.toString(),
+      PR_TITLE: pullRequest.title,
+      PR_DESCRIPTION: pullRequest.body || '',
+      SOURCE_BRANCH: pullRequest.head.ref,
+      TARGET_BRANCH: pullRequest.base.ref
+    };
+  } else {
+    context = {
+      ...baseContext,
+      PROCESSING_MODE: 'issue_comment',
+      ISSUE_NUMBER: issue.number.toString(),
+      ISSUE_TITLE: issue.title,
+      ISSUE_DESCRIPTION: issue.body || ''
+    };
+  }
+
+  await routeToGiteaContainer({
+    repository,
+    number: issue.number,
+    cloneUrl: data.repository.clone_url,
+    triggerEvent,
+    context
+  }, credentials, env, configDO, origin);
+}
+
+// Handle `issue_comment` and `pull_request_comment` events; only new comments start a run
+export async function handleGiteaCommentEvent(
+  data: any,
+  env: any,
+  configDO: any,
+  credentials: GiteaCredentials,
+  ctx: ExecutionContext,
+  origin?: string
+): Promise<Response> {
+  logWithContext('GITEA_COMMENT_EVENT', 'Processing Gitea comment event', {
+    action: data.action,
+    commentId: data.comment?.id,
+    number: data.issue?.number,
+    isPull: !!data.is_pull,
+    repository: data.repository?.full_name,
+    author: data.sender?.login
+  });
+
+  if (data.action !== 'created') {
+    return new Response('Comment action not handled', { status: 200 });
+  }
+
+  // Claude's own replies quote the request, so they must never trigger another run
+  if (isOwnAccount(data.sender, credentials)) {
+    return new Response('Comment by Claude ignored', { status: 200 });
+  }
+
+  ctx.waitUntil(
+    processComment(data, env, configDO, credentials, origin).catch(error => {
+      logWithContext('GITEA_COMMENT_EVENT', 'Failed to process Gitea comment', {
+        error: error instanceof Error ? error.message : String(error),
+        commentId: data.comment?.id
+      });
+    })
+  );
+
+  return new Response('Gitea comment accepted for processing', { status: 200 });
+}
@@ -0,0 +1,195 @@
+import { logWithContext } from "../../log";
+import { GiteaApiCredentials, createGiteaComment } from "../../gitea_api";
+import { loadGiteaRepoConfig, matchesTriggerLabels, formatRepoConfigErrors } from "../../repo_config";
+import { getRunLimits, runLimitsContext } from "../../run_limits";
+import { authorizeGiteaUser, formatAuthorizationRefusal, recordRefusedTrigger } from "../../authorization";
+import { dispatchRun, formatQueuedMessage } from "../../dispatch_queue";
+
+// Credentials from GiteaAppConfigDO, decrypted
+export interface GiteaCredentials extends GiteaApiCredentials {
+  webhookSecret: string;
+  // The token's own account, whose comments never trigger a run
+  accountId?: number;
+}
+
+// A run on an issue or pull request thread
+export interface GiteaRun {
+  repository: string;
+  number: number;
+  cloneUrl: string;
+  triggerEvent: string;
+  // Mode-specific variables for the container (PROCESSING_MODE, USER_PROMPT and so on)
+  context: Record<string, string>;
+}
+
+// Is this event from the account Claude posts as?
+export function isOwnAccount(sender: any, credentials: GiteaCredentials): boolean {
+  return !!credentials.accountId && sender?.id === credentials.accountId;
+}
+
+// Issues and pull requests share numbers on Gitea, so one container per number covers both
+// and follow-ups on the same thread wait for each other
+export function giteaContainerName(repository: string, number: number): string {
+  return `claude-gitea-${repository}-${number}`;
+}
+
+// Start a container run for a Gitea thread: queues it for a dispatch slot with the
+// credentials and limits for /process-gitea
+export async function routeToGiteaContainer(
+  run: GiteaRun,
+  credentials: GiteaCredentials,
+  env: any,
+  configDO: any,
+  origin?: string
+): Promise<void> {
+  const reference = `#${run.number}`;
+  const containerName = giteaContainerName(run.repository, run.number);
+
+  logWithContext('GITEA_CLAUDE_ROUTING', 'Routing Gitea event to Claude Code container', {
+    repository: run.repository,
+    reference,
+    containerName,
+    processingMode: run.context.PROCESSING_MODE
+  });
+
+  // The Claude API key is shared by all providers and kept with the GitLab config
+  const claudeConfigDO = env.GITLAB_APP_CONFIG.get(env.GITLAB_APP_CONFIG.idFromName('claude-config'));
+  const claudeKeyResponse = await claudeConfigDO.fetch(new Request('http://internal/get-claude-key'));
+  const claudeKeyData = await claudeKeyResponse.json() as { anthropicApiKey: string | null };
+
+  if (!claudeKeyData.anthropicApiKey) {
+    logWithContext('GITEA_CLAUDE_ROUTING', 'Claude API key not configured');
+    throw new Error('Claude API key not configured. Please visit /claude-setup first.');
+  }
+
+  const runLimits = await getRunLimits(configDO, run.repository);
+
+  const processContext = {
+    ANTHROPIC_API_KEY: claudeKeyData.anthropicApiKey,
+    GITEA_URL: credentials.giteaUrl,
+    GITEA_TOKEN: credentials.token,
+    GITEA_REPOSITORY: run.repository,
+    GIT_CLONE_URL: run.cloneUrl,
+    ...run.context,
+    ...runLimitsContext(runLimits)
+  };
+
+  await dispatchRun(env, {
+    provider: 'gitea',
+    repository: run.repository,
+    reference,
+    containerName,
+    triggerEvent: run.triggerEvent
+  }, {
+    route: '/process-gitea',
+    context: processContext,
+    origin,
+    thread: { provider: 'gitea', repository: run.repository, reference }
+  }, {
+    onQueued: async (position, queueLength) => {
+      await createGiteaComment(credentials, run.repository, run.number,
+        `🤖 **Claude Code Assistant**\n\n${formatQueuedMessage(position, queueLength)}`);
+    }
+  });
+}
+
+// Check the configuration, trigger labels and author of a new issue, then start a run on it
+async function processNewIssue(
+  data: any,
+  env: any,
+  configDO: any,
+  credentials: GiteaCredentials,
+  origin?: string
+): Promise<void> {
+  const issue = data.issue;
+  const repository = data.repository.full_name;
+  const username = data.sender.login;
+  const postComment = (body: string) => createGiteaComment(credentials, repository, issue.number, body);
+
+  const repoConfig = await loadGiteaRepoConfig(credentials, repository, data.repository.default_branch);
+
+  if (repoConfig.errors.length > 0) {
+    logWithContext('GITEA_ISSUES_EVENT', 'Repository configuration is invalid, not starting', {
+      path: repoConfig.path,
+      errors: repoConfig.errors
+    });
+    await postComment(formatRepoConfigErrors(repoConfig));
+    return;
+  }
+
+  const issueLabels: string[] = (issue.labels || []).map((label: any) => label.name);
+  if (!matchesTriggerLabels(repoConfig.config, issueLabels)) {
+    logWithContext('GITEA_ISSUES_EVENT', 'Issue has none of the configured trigger labels', {
+      triggerLabels: repoConfig.config.triggers.labels,
+      issueLabels
+    });
+    return;
+  }
+
+  const authorization = await authorizeGiteaUser(credentials, repository, username, repoConfig.config.authorization);
+  if (!authorization.authorized) {
+    await postComment(formatAuthorizationRefusal(username, 'gitea', repoConfig.config.authorization));
+    await recordRefusedTrigger(env, {
+      triggerEvent: 'gitea.issues.opened',
+      provider: 'gitea',
+      repository,
+      reference: `#${issue.number}`,
+      containerName: giteaContainerName(repository, issue.number)
+    }, username, authorization);
+    return;
+  }
+
+  await routeToGiteaContainer({
+    repository,
+    number: issue.number,
+    cloneUrl: data.repository.clone_url,
+    triggerEvent: 'gitea.issues.opened',
+    context: {
+      PROCESSING_MODE: 'issue',
+      ISSUE_NUMBER: issue.number.toString(),
+      ISSUE_TITLE: issue.title,
+      ISSUE_DESCRIPTION: issue.body || '',
+      ISSUE_AUTHOR: username,
+      BASE_BRANCH: repoConfig.config.baseBranch || data.repository.default_branch,
+      REPO_CONFIG: JSON.stringify(repoConfig.config),
+      MESSAGE: `Processing Gitea issue #${issue.number}: ${issue.title}`
+    }
+  }, credentials, env, configDO, origin);
+}
+
+// Handle `issues` events; only newly opened issues start a run
+export async function handleGiteaIssuesEvent(
+  data: any,
+  env: any,
+  configDO: any,
+  credentials: GiteaCredentials,
+  ctx: ExecutionContext,
+  origin?: string
+): Promise<Response> {
+  logWithContext('GITEA_ISSUES_EVENT', 'Processing Gitea issues event', {
+    action: data.action,
+    issueNumber: data.issue?.number,
+    repository: data.repository?.full_name,
+    author: data.sender?.login
+  });
+
+  if (data.action !== 'opened') {
+    return new Response('Issue action not handled', { status: 200 });
+  }
+
+  if (isOwnAccount(data.sender, credentials)) {
+    return new Response('Issue opened by Claude ignored', { status: 200 });
+  }
+
+  // Gitea gives up on a webhook after a few seconds, so the run continues after we respond
+  ctx.waitUntil(
+    processNewIssue(data, env, configDO, credentials, origin).catch(error => {
+      logWithContext('GITEA_ISSUES_EVENT', 'Failed to process new Gitea issue', {
+        error: error instanceof Error ? error.message : String(error),
+        issueNumber: data.issue?.number
+      });
+    })
+  );
+
+  return new Response('Gitea issue accepted for processing', { status: 200 });
+}
@@ -0,0 +1,110 @@
+import { logWithContext } from "../../log";
+import { createGiteaComment } from "../../gitea_api";
+import { loadGiteaRepoConfig, formatRepoConfigErrors } from "../../repo_config";
+import { authorizeGiteaUser, formatAuthorizationRefusal, recordRefusedTrigger } from "../../authorization";
+import { DEFAULT_MENTION, detectClaudeMention, extractUserPrompt } from "../github_webhooks/issue_comment";
+import { GiteaCredentials, giteaContainerName, isOwnAccount, routeToGiteaContainer } from "./issue";
+
+// A new pull request whose description mentions Claude: work on its source branch
+async function processNewPullRequest(
+  data: any,
+  env: any,
+  configDO: any,
+  credentials: GiteaCredentials,
+  origin?: string
+): Promise<void> {
+  const pullRequest = data.pull_request;
+  const repository = data.repository.full_name;
+  const username = data.sender.login;
+  const postComment = (body: string) => createGiteaComment(credentials, repository, pullRequest.number, body);
+
+  const repoConfig = await loadGiteaRepoConfig(credentials, repository, data.repository.default_branch);
+  const mentions = repoConfig.config.triggers.mentions.length > 0
+    ? repoConfig.config.triggers.mentions
+    : [DEFAULT_MENTION];
+
+  const description: string = pullRequest.body || '';
+  if (!detectClaudeMention(description, mentions)) {
+    logWithContext('GITEA_PULL_REQUEST_EVENT', 'No mention in pull request description', { number: pullRequest.number });
+    return;
+  }
+
+  if (repoConfig.errors.length > 0) {
+    await postComment(formatRepoConfigErrors(repoConfig));
+    return;
+  }
+
+  const authorization = await authorizeGiteaUser(credentials, repository, username, repoConfig.config.authorization);
+  if (!authorization.authorized) {
+    await postComment(formatAuthorizationRefusal(username, 'gitea', repoConfig.config.authorization));
+    await recordRefusedTrigger(env, {
+      triggerEvent: 'gitea.pull_request.opened',
+      provider: 'gitea',
+      repository,
+      reference: `#${pullRequest.number}`,
+      containerName: giteaContainerName(repository, pullRequest.number)
+    }, username, authorization);
+    return;
+  }
+
+  await routeToGiteaContainer({
+    repository,
+    number: pullRequest.number,
+    cloneUrl: data.repository.clone_url,
+    triggerEvent: 'gitea.pull_request.opened',
+    context: {
+      PROCESSING_MODE: 'pr_comment',
+      USER_PROMPT: extractUserPrompt(description, mentions),
+      COMMENT_AUTHOR: username,
+      PR_NUMBER: pullRequest.number.toString(),
+      PR_TITLE: pullRequest.title,
+      PR_DESCRIPTION: description,
+      SOURCE_BRANCH: pullRequest.head.ref,
+      TARGET_BRANCH: pullRequest.base.ref,
+      REPO_CONFIG: JSON.stringify(repoConfig.config),
+      MESSAGE: `Processing Gitea pull request #${pullRequest.number}: ${pullRequest.title}`
+    }
+  }, credentials, env, configDO, origin);
+}
+
+// Handle `pull_request` events; only newly opened pull requests start a run
+export async function handleGiteaPullRequestEvent(
+  data: any,
+  env: any,
+  configDO: any,
+  credentials: GiteaCredentials,
+  ctx: ExecutionContext,
+  origin?: string
+): Promise<Response> {
+  const pullRequest = data.pull_request;
+
+  logWithContext('GITEA_PULL_REQUEST_EVENT', 'Processing Gitea pull request event', {
+    action: data.action,
+    number: pullRequest?.number,
+    repository: data.repository?.full_name,
+    author: data.sender?.login
+  });
+
+  if (data.action !== 'opened') {
+    return new Response('Pull request action not handled', { status: 200 });
+  }
+
+  if (isOwnAccount(data.sender, credentials)) {
+    return new Response('Pull request opened by Claude ignored', { status: 200 });
+  }
+
+  if (pullRequest?.head?.repo?.full_name !== data.repository?.full_name) {
+    return new Response('Pull request from a fork ignored', { status: 200 });
+  }
+
+  ctx.waitUntil(
+    processNewPullRequest(data, env, configDO, credentials, origin).catch(error => {
+      logWithContext('GITEA_PULL_REQUEST_EVENT', 'Failed to process new Gitea pull request', {
+        error: error instanceof Error ? error.message : String(error),
+        number: pullRequest?.number
+      });
+    })
+  );
+
+  return new Response('Gitea pull request accepted for processing', { status: 200 });
+}
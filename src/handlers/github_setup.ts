@@ -15,10 +15,21 @@ function generateAppManifest(workerDomain: string): GitHubAppManifest {
       contents: 'write',
       metadata: 'read',
       pull_requests: 'write',
-      issues: 'write'
+      issues: 'write',
+      // Team allowlists (authorization.allowed_teams) need to read organization teams
+      members: 'read',
+      // Failing CI on Claude's pull requests: check results and workflow job logs
+      checks: 'read',
+      actions: 'read'
     },
     default_events: [
-      'issues'
+      'issues',
+      'issue_comment',
+      'pull_request',
+      'pull_request_review',
+      'pull_request_review_comment',
+      'check_run',
+      'workflow_run'
     ]
   };
 }
@@ -1,8 +1,27 @@
 import { logWithContext } from "../log";
-import { handleInstallationEvent, handleInstallationRepositoriesEvent, handleIssuesEvent } from "./github_webhooks";
+import {
+  recordWebhookDelivery,
+  finishWebhookDelivery,
+  duplicateDeliveryResponse,
+  pickHeaders,
+  GITHUB_REPLAY_HEADERS,
+  WebhookOptions
+} from "../webhook_deliveries";
+import {
+  handleInstallationEvent,
+  handleInstallationRepositoriesEvent,
+  handleIssuesEvent,
+  handleIssueCommentEvent,
+  handlePullRequestEvent,
+  handlePullRequestReviewEvent,
+  handlePullRequestReviewCommentEvent,
+  handleWorkflowRunEvent,
+  handleCheckRunEvent
+} from "./github_webhooks";
 
 // Route webhook events to specific handlers
-async function routeWebhookEvent(event: string, data: any, configDO: any, env: any): Promise<Response> {
+// origin is the worker's own URL, for links back to it (e.g. run transcripts)
+async function routeWebhookEvent(event: string, data: any, configDO: any, env: any, origin: string): Promise<Response> {
   logWithContext('EVENT_ROUTER', 'Routing webhook event', {
     event,
     action: data.action,
@@ -17,12 +36,30 @@ async function routeWebhookEvent(event: string, data: any, configDO: any, env: a
       return handleInstallationRepositoriesEvent(data, configDO);
 
     case 'issues':
-      return handleIssuesEvent(data, env, configDO);
+      return handleIssuesEvent(data, env, configDO, origin);
+
+    case 'issue_comment':
+      return handleIssueCommentEvent(data, env, configDO, origin);
+
+    case 'pull_request':
+      return handlePullRequestEvent(data, env, configDO, origin);
+
+    case 'pull_request_review':
+      return handlePullRequestReviewEvent(data, env, configDO, origin);
+
+    case 'pull_request_review_comment':
+      return handlePullRequestReviewCommentEvent(data, env, configDO);
+
+    case 'workflow_run':
+      return handleWorkflowRunEvent(data, env, configDO, origin);
+
+    case 'check_run':
+      return handleCheckRunEvent(data, env, configDO, origin);
 
     default:
       logWithContext('EVENT_ROUTER', 'Unhandled webhook event', {
         event,
-        availableEvents: ['installation', 'installation_repositories', 'issues']
+        availableEvents: ['installation', 'installation_repositories', 'issues', 'issue_comment', 'pull_request', 'pull_request_review', 'pull_request_review_comment', 'workflow_run', 'check_run']
       });
       return new Response('Event acknowledged', { status: 200 });
   }
@@ -57,9 +94,12 @@ async function verifyGitHubSignature(payload: string, signature: string, secret:
 }
 
 // Main webhook processing handler
-export async function handleGitHubWebhook(request: Request, env: any): Promise<Response> {
+export async function handleGitHubWebhook(request: Request, env: any, options: WebhookOptions = {}): Promise<Response> {
   const startTime = Date.now();
 
+  // Set once the delivery is recorded, so it can be marked processed or failed
+  let recordedDelivery: string | null = null;
+
   try {
     // Get webhook payload and headers
     const payload = await request.text();
@@ -70,6 +110,7 @@ export async function handleGitHubWebhook(request: Request, env: any): Promise<R
     logWithContext('WEBHOOK', 'Received GitHub webhook', {
       event,
       delivery,
+      replay: !!options.replay,
       hasSignature: !!signature,
       payloadSize: payload.length,
       headers: {
@@ -205,6 +246,20 @@ export async function handleGitHubWebhook(request: Request, env: any): Promise<R
       return new Response('Invalid signature', { status: 401 });
     }
 
+    // Skip redeliveries of a delivery that was already processed
+    const { duplicate } = await recordWebhookDelivery(env, {
+      provider: 'github',
+      deliveryId: delivery,
+      event,
+      headers: pickHeaders(request, GITHUB_REPLAY_HEADERS),
+      payload
+    }, options);
+
+    if (duplicate) {
+      return duplicateDeliveryResponse(delivery);
+    }
+    recordedDelivery = delivery;
+
     // Log successful webhook delivery
     await configDO.fetch(new Request('http://internal/log-webhook', {
       method: 'POST',
@@ -214,7 +269,8 @@ export async function handleGitHubWebhook(request: Request, env: any): Promise<R
     // Route to appropriate event handler
     logWithContext('WEBHOOK', 'Routing to event handler', { event });
 
-    const eventResponse = await routeWebhookEvent(event, webhookData, configDO, env);
+    const eventResponse = await routeWebhookEvent(event, webhookData, configDO, env, new URL(request.url).origin);
+    await finishWebhookDelivery(env, 'github', recordedDelivery, eventResponse.status < 500);
 
     const processingTime = Date.now() - startTime;
     logWithContext('WEBHOOK', 'Webhook processing completed', {
@@ -227,6 +283,7 @@ export async function handleGitHubWebhook(request: Request, env: any): Promise<R
     return eventResponse;
 
   } catch (error) {
+    await finishWebhookDelivery(env, 'github', recordedDelivery, false);
     const processingTime = Date.now() - startTime;
     logWithContext('WEBHOOK', 'Webhook processing error', {
       error: error instanceof Error ? error.message : String(error),
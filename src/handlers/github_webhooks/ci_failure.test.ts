@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { handleWorkflowRunEvent, handleCheckRunEvent } from './ci_failure';
+
+describe('GitHub CI Failure Handler', () => {
+  let mockEnv: any;
+  let mockConfigDO: any;
+  let mockContainer: any;
+  let jobs: any[];
+  let claims: Set<string>;
+  let comments: string[];
+  let fetchSpy: any;
+
+  const repository = {
+    id: 77,
+    name: 'my-repo',
+    full_name: 'acme/my-repo',
+    clone_url: 'https://github.com/acme/my-repo.git',
+    default_branch: 'main',
+    owner: { login: 'acme' }
+  };
+
+  const pullRequest = {
+    id: 9001,
+    number: 12,
+    state: 'open',
+    title: 'Fix issue #42',
+    body: 'Fixes #42',
+    head: { ref: 'claude-code/issue-42-2025-01-01', sha: 'abc1234def', repo: { id: 77 } },
+    base: { ref: 'main' }
+  };
+
+  const workflowRunEvent = () => ({
+    action: 'completed',
+    workflow_run: {
+      id: 555,
+      name: 'CI',
+      conclusion: 'failure',
+      head_sha: 'abc1234def',
+      head_branch: 'claude-code/issue-42-2025-01-01',
+      pull_requests: [{ id: 9001, number: 12, head: { ref: 'claude-code/issue-42-2025-01-01', sha: 'abc1234def', repo: { id: 77 } } }]
+    },
+    repository
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    jobs = [];
+    claims = new Set();
+    comments = [];
+
+    mockContainer = {
+      fetch: vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ success: true, message: 'CI fixed' }), { status: 200 })
+      )
+    };
+
+    mockEnv = {
+      MY_CONTAINER: {
+        idFromName: vi.fn().mockReturnValue('mock-container-id'),
+        get: vi.fn().mockReturnValue(mockContainer)
+      },
+      GITHUB_APP_CONFIG: {
+        idFromName: vi.fn().mockReturnValue('mock-config-id'),
+        get: vi.fn().mockReturnValue({
+          fetch: vi.fn().mockImplementation(async () =>
+            new Response(JSON.stringify({ anthropicApiKey: 'test-claude-key' }), { status: 200 })
+          )
+        })
+      },
+      JOB_TRACKER: {
+        idFromName: vi.fn().mockReturnValue('mock-tracker-id'),
+        get: vi.fn().mockReturnValue({
+          fetch: vi.fn().mockImplementation(async (request: Request) => {
+            const url = new URL(request.url);
+            if (url.pathname === '/list') {
+              return new Response(JSON.stringify(jobs));
+            }
+            if (url.pathname === '/start') {
+              const job = await request.json() as any;
+              jobs.push({ ...job, id: `job-${jobs.length}`, status: 'running' });
+              return new Response(JSON.stringify({ id: `job-${jobs.length - 1}` }));
+            }
+            if (url.pathname === '/finish') {
+              const result = await request.json() as any;
+              Object.assign(jobs.find(job => job.id === result.id), { status: result.status });
+            }
+            if (url.pathname === '/claim-ci-fix') {
+              const claim = await request.json() as any;
+              const key = `${claim.repository}${claim.reference}@${claim.headSha}`;
+              const claimed = !claims.has(key);
+              claims.add(key);
+              return new Response(JSON.stringify({ claimed }));
+            }
+            if (url.pathname === '/release-ci-fix') {
+              const claim = await request.json() as any;
+              claims.delete(`${claim.repository}${claim.reference}@${claim.headSha}`);
+            }
+            return new Response('OK');
+          })
+        })
+      }
+    };
+
+    mockConfigDO = {
+      fetch: vi.fn().mockImplementation(async () =>
+        new Response(JSON.stringify({ token: 'test-installation-token' }), { status: 200 })
+      )
+    };
+
+    fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input: any, init?: any) => {
+      const url = typeof input === 'string' ? input : input.url;
+      if (url.includes('/contents/')) {
+        return new Response('Not Found', { status: 404 });
+      }
+      if (url.endsWith('/pulls/12')) {
+        return new Response(JSON.stringify(pullRequest), { status: 200 });
+      }
+      if (url.includes('/actions/runs/555/jobs')) {
+        return new Response(JSON.stringify({
+          jobs: [
+            { id: 1, name: 'lint', conclusion: 'success', steps: [] },
+            { id: 2, name: 'test', conclusion: 'failure', html_url: 'https://github.com/acme/my-repo/actions/runs/555/job/2', steps: [] }
+          ]
+        }), { status: 200 });
+      }
+      if (url.includes('/actions/jobs/2/logs')) {
+        return new Response(null, { status: 302, headers: { Location: 'https://logs.example.com/job-2' } });
+      }
+      if (url === 'https://logs.example.com/job-2') {
+        return new Response('##[group]Run npm test\n FAIL src/dates.test.ts\n##[error]Process completed with exit code 1.');
+      }
+      if (url.includes('/issues/12/comments')) {
+        comments.push(JSON.parse(init.body).body);
+      }
+      return new Response(JSON.stringify({ id: 999 }), { status: 201 });
+    });
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  it('should start a CI fix run with the failing job logs on the pull request branch', async () => {
+    const response = await handleWorkflowRunEvent(workflowRunEvent(), mockEnv, mockConfigDO);
+    expect(response.status).toBe(200);
+
+    expect(mockEnv.MY_CONTAINER.idFromName).toHaveBeenCalledWith('claude-pr-9001');
+
+    const request = mockContainer.fetch.mock.calls[0][0];
+    expect(request.url).toBe('http://internal/process-ci-fix');
+
+    const body = JSON.parse(await request.text());
+    expect(body).toMatchObject({
+      PR_NUMBER: '12',
+      HEAD_BRANCH: 'claude-code/issue-42-2025-01-01',
+      CI_FIX_ATTEMPT: '1',
+      CI_FIX_MAX_ATTEMPTS: '3',
+      PROGRESS_COMMENT_ID: '999'
+    });
+    expect(JSON.parse(body.CI_FAILURES)).toEqual([
+      expect.objectContaining({ name: 'CI / test', log: expect.stringContaining('FAIL src/dates.test.ts') })
+    ]);
+    expect(jobs).toEqual([expect.objectContaining({ triggerEvent: 'workflow_run.completed', reference: '#12', status: 'succeeded' })]);
+    expect(comments[0]).toContain('attempt 1 of 3');
+  });
+
+  it('should start one CI fix for several workflows failing on the same commit', async () => {
+    jobs = [1, 2].map(n => ({ id: `old-${n}`, triggerEvent: 'workflow_run.completed', reference: '#12', status: 'failed' }));
+
+    const lint = workflowRunEvent();
+    lint.workflow_run.name = 'Lint';
+
+    const responses = await Promise.all([
+      handleWorkflowRunEvent(workflowRunEvent(), mockEnv, mockConfigDO),
+      handleWorkflowRunEvent(lint, mockEnv, mockConfigDO)
+    ]);
+
+    expect(mockContainer.fetch).toHaveBeenCalledTimes(1);
+    expect(await responses[1].text()).toBe('CI fix already started for this commit');
+    expect(jobs.filter(job => job.status !== 'refused')).toHaveLength(3);
+  });
+
+  it('should ignore failures on commits that are no longer the head', async () => {
+    const event = workflowRunEvent();
+    event.workflow_run.head_sha = '0ld5ha0';
+
+    await handleWorkflowRunEvent(event, mockEnv, mockConfigDO);
+    expect(mockContainer.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should stop after the configured number of attempts and say so once', async () => {
+    jobs = [1, 2, 3].map(n => ({ id: `old-${n}`, triggerEvent: 'workflow_run.completed', reference: '#12', status: 'failed' }));
+
+    await handleWorkflowRunEvent(workflowRunEvent(), mockEnv, mockConfigDO);
+    await handleWorkflowRunEvent(workflowRunEvent(), mockEnv, mockConfigDO);
+
+    expect(mockContainer.fetch).not.toHaveBeenCalled();
+    expect(comments).toHaveLength(1);
+    expect(comments[0]).toContain('still failing after 3 attempts');
+  });
+
+  it('should leave check runs from GitHub Actions to the workflow run', async () => {
+    const response = await handleCheckRunEvent({
+      action: 'completed',
+      check_run: { id: 1, name: 'test', conclusion: 'failure', app: { slug: 'github-actions' }, pull_requests: [] },
+      repository
+    }, mockEnv, mockConfigDO);
+
+    expect(await response.text()).toBe('Handled with the workflow run');
+    expect(mockContainer.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should pass the output of a failed check from another CI service', async () => {
+    await handleCheckRunEvent({
+      action: 'completed',
+      check_run: {
+        id: 1,
+        name: 'ci/circleci: build',
+        conclusion: 'failure',
+        head_sha: 'abc1234def',
+        details_url: 'https://circleci.com/gh/acme/my-repo/1',
+        output: { title: 'Build failed', summary: 'tsc: error TS2322 in src/dates.ts' },
+        app: { slug: 'circleci-checks' },
+        pull_requests: workflowRunEvent().workflow_run.pull_requests
+      },
+      repository
+    }, mockEnv, mockConfigDO);
+
+    const body = JSON.parse(await mockContainer.fetch.mock.calls[0][0].text());
+    expect(JSON.parse(body.CI_FAILURES)).toEqual([
+      expect.objectContaining({ name: 'ci/circleci: build', log: expect.stringContaining('error TS2322') })
+    ]);
+  });
+});
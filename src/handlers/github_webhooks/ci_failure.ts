@@ -0,0 +1,361 @@
+import { GitHubAPI } from "../../github_client";
+import { logWithContext } from "../../log";
+import { startJob, finishJob } from "../../jobs";
+import { isClaudePullRequest } from "./pull_request_review";
+import { progressCommentContext } from "./issue";
+import { RepoConfig, tryLoadGitHubRepoConfig, formatRepoConfigErrors } from "../../repo_config";
+import { getRunLimits, runLimitsContext } from "../../run_limits";
+import { dispatchRun, formatQueuedMessage } from "../../dispatch_queue";
+import { CiFailure, ciFailuresContext, claimCiFix, countCiFixAttempts, isCiFailure, releaseCiFix } from "../../ci_fix";
+
+// A failed check run or workflow run, as far as the CI fix cares
+interface FailedRun {
+  triggerEvent: string;
+  name: string;
+  headSha: string;
+  pullRequests: any[];
+}
+
+// Start a run that fixes the CI failures of a pull request
+async function routeCiFixToClaudeCodeContainer(
+  pullRequest: any,
+  repository: any,
+  failures: CiFailure[],
+  attempt: number,
+  repoConfig: RepoConfig,
+  acknowledgment: any,
+  triggerEvent: string,
+  env: any,
+  configDO: any,
+  origin?: string
+): Promise<void> {
+  // The pull request's container, so a CI fix never runs alongside a review follow-up
+  const containerName = `claude-pr-${pullRequest.id}`;
+
+  logWithContext('CLAUDE_ROUTING', 'Routing CI failures to Claude Code container', {
+    pullNumber: pullRequest.number,
+    containerName,
+    failureCount: failures.length,
+    attempt,
+    repository: repository.full_name
+  });
+
+  const claudeConfigId = env.GITHUB_APP_CONFIG.idFromName('claude-config');
+  const claudeConfigDO = env.GITHUB_APP_CONFIG.get(claudeConfigId);
+  const claudeKeyResponse = await claudeConfigDO.fetch(new Request('http://internal/get-claude-key'));
+  const claudeKeyData = await claudeKeyResponse.json() as { anthropicApiKey: string | null };
+
+  if (!claudeKeyData.anthropicApiKey) {
+    logWithContext('CLAUDE_ROUTING', 'Claude API key not configured');
+    throw new Error('Claude API key not configured. Please visit /claude-setup first.');
+  }
+
+  const runLimits = await getRunLimits(configDO, repository.full_name);
+
+  const tokenResponse = await configDO.fetch(new Request('http://internal/get-installation-token'));
+  const tokenData = await tokenResponse.json() as { token: string };
+
+  const ciFixContext = {
+    ANTHROPIC_API_KEY: claudeKeyData.anthropicApiKey,
+    GITHUB_TOKEN: tokenData.token,
+    REPOSITORY_URL: repository.clone_url,
+    REPOSITORY_NAME: repository.full_name,
+    PR_NUMBER: pullRequest.number.toString(),
+    PR_TITLE: pullRequest.title,
+    PR_BODY: pullRequest.body || '',
+    HEAD_BRANCH: pullRequest.head.ref,
+    BASE_BRANCH: pullRequest.base.ref,
+    CI_FIX_ATTEMPT: attempt.toString(),
+    CI_FIX_MAX_ATTEMPTS: repoConfig.maxCiFixAttempts.toString(),
+    REPO_CONFIG: JSON.stringify(repoConfig),
+    ...ciFailuresContext(failures),
+    ...runLimitsContext(runLimits),
+    ...progressCommentContext(acknowledgment),
+    MESSAGE: `Fixing CI on PR #${pullRequest.number}`
+  };
+
+  await dispatchRun(env, {
+    provider: 'github',
+    repository: repository.full_name,
+    reference: `#${pullRequest.number}`,
+    containerName,
+    triggerEvent
+  }, {
+    route: '/process-ci-fix',
+    context: ciFixContext,
+    origin,
+    githubConfigId: configDO.id?.toString(),
+    // Another fix for the same pull request may have been pushed while this one waited
+    change: { number: pullRequest.number, headSha: pullRequest.head.sha },
+    supersededNotice: `🤖 **Claude Code Assistant**\n\nNew commits were pushed to \`${pullRequest.head.ref}\` while this fix was waiting, so I've skipped it. CI will run again on the new commits.\n\n---\n🚀 Powered by Claude Code`
+  }, {
+    onQueued: async (position, queueLength) => {
+      await new GitHubAPI(configDO).createComment(
+        repository.owner.login,
+        repository.name,
+        pullRequest.number,
+        `🤖 **Claude Code Assistant**\n\n${formatQueuedMessage(position, queueLength)}\n\n---\n🚀 Powered by Claude Code`
+      );
+    }
+  });
+}
+
+// Logs of the failed jobs of a workflow run
+async function collectWorkflowRunFailures(githubAPI: GitHubAPI, repository: any, workflowRun: any): Promise<CiFailure[]> {
+  const jobs = await githubAPI.listWorkflowRunJobs(repository.owner.login, repository.name, workflowRun.id);
+  const failures: CiFailure[] = [];
+
+  for (const job of jobs.filter(job => isCiFailure(job.conclusion))) {
+    let log: string | null = null;
+    try {
+      log = await githubAPI.getWorkflowJobLog(repository.owner.login, repository.name, job.id);
+    } catch (error) {
+      logWithContext('CI_FAILURE_EVENT', 'Failed to fetch job log, using the failed steps instead', {
+        jobId: job.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    const failedSteps = (job.steps || [])
+      .filter((step: any) => isCiFailure(step.conclusion))
+      .map((step: any) => `Step "${step.name}" ${step.conclusion}`);
+
+    failures.push({
+      name: `${workflowRun.name} / ${job.name}`,
+      url: job.html_url,
+      conclusion: job.conclusion,
+      log: log || failedSteps.join('\n') || 'The log is no longer available.'
+    });
+  }
+
+  return failures;
+}
+
+// The output a check run reported; runs from other CI services have no logs to download
+function collectCheckRunFailure(checkRun: any): CiFailure {
+  const output = checkRun.output || {};
+  return {
+    name: checkRun.name,
+    url: checkRun.details_url || checkRun.html_url,
+    conclusion: checkRun.conclusion,
+    log: [output.title, output.summary, output.text].filter(Boolean).join('\n\n') || 'The check reported no output.'
+  };
+}
+
+async function handleFailedRun(
+  run: FailedRun,
+  repository: any,
+  collectFailures: (githubAPI: GitHubAPI) => Promise<CiFailure[]>,
+  env: any,
+  configDO: any,
+  origin?: string
+): Promise<Response> {
+  // Only pull requests from the repository itself are listed with the run
+  const listed = run.pullRequests.find(pr => pr.head?.repo?.id === repository.id);
+  if (!listed) {
+    logWithContext('CI_FAILURE_EVENT', 'Failed run is not on a pull request', { name: run.name, headSha: run.headSha });
+    return new Response('Not a pull request', { status: 200 });
+  }
+
+  const githubAPI = new GitHubAPI(configDO);
+  const pullRequest = await githubAPI.getPullRequest(repository.owner.login, repository.name, listed.number);
+
+  // A failure on an older commit was made moot by a later push, possibly the last fix
+  if (pullRequest.state !== 'open' || pullRequest.head?.sha !== run.headSha) {
+    logWithContext('CI_FAILURE_EVENT', 'Ignoring failure on a closed pull request or an older commit', {
+      pullNumber: pullRequest.number,
+      state: pullRequest.state,
+      headSha: run.headSha,
+      currentHeadSha: pullRequest.head?.sha
+    });
+    return new Response('Failure is out of date', { status: 200 });
+  }
+
+  const repoConfig = await tryLoadGitHubRepoConfig(
+    githubAPI,
+    repository.owner.login,
+    repository.name,
+    repository.default_branch
+  );
+  if (!repoConfig) {
+    logWithContext('CI_FAILURE_EVENT', 'Repository configuration unavailable, not starting', { repository: repository.full_name });
+    return new Response('Repository configuration unavailable', { status: 200 });
+  }
+
+  if (!isClaudePullRequest(pullRequest, repository, repoConfig.config.branchPrefix)) {
+    logWithContext('CI_FAILURE_EVENT', 'Ignoring failure on pull request not opened by Claude', {
+      pullNumber: pullRequest.number,
+      headRef: pullRequest.head?.ref
+    });
+    return new Response('Not a Claude pull request', { status: 200 });
+  }
+
+  if (repoConfig.errors.length > 0) {
+    await githubAPI.createComment(
+      repository.owner.login,
+      repository.name,
+      pullRequest.number,
+      formatRepoConfigErrors(repoConfig)
+    );
+    return new Response('Invalid repository configuration', { status: 200 });
+  }
+
+  const maxAttempts = repoConfig.config.maxCiFixAttempts;
+  if (maxAttempts === 0) {
+    logWithContext('CI_FAILURE_EVENT', 'CI fixes are turned off for this repository', { repository: repository.full_name });
+    return new Response('CI fixes disabled', { status: 200 });
+  }
+
+  const reference = `#${pullRequest.number}`;
+
+  // Several workflows can fail on the same commit; the first failure takes the commit and the
+  // attempts are counted after that, so together they can't start more runs than allowed
+  if (!await claimCiFix(env, repository.full_name, reference, run.headSha)) {
+    logWithContext('CI_FAILURE_EVENT', 'A CI fix was already started for this commit', {
+      pullNumber: pullRequest.number,
+      name: run.name,
+      headSha: run.headSha
+    });
+    return new Response('CI fix already started for this commit', { status: 200 });
+  }
+
+  const used = await countCiFixAttempts(env, repository.full_name, reference);
+
+  if (used.attempts >= maxAttempts) {
+    logWithContext('CI_FAILURE_EVENT', 'CI fix attempts used up', {
+      pullNumber: pullRequest.number,
+      attempts: used.attempts,
+      maxAttempts
+    });
+
+    // Say so once, and record it so later failures stay quiet
+    if (!used.exhausted) {
+      await githubAPI.createComment(
+        repository.owner.login,
+        repository.name,
+        pullRequest.number,
+        `🤖 **Claude Code Assistant**\n\n❌ **${run.name}** is still failing after ${maxAttempts} attempt${maxAttempts === 1 ? '' : 's'} to fix it, so I'm leaving this one to a human.\n\n---\n🚀 Powered by Claude Code`
+      );
+      const jobId = await startJob(env, {
+        triggerEvent: run.triggerEvent,
+        provider: 'github',
+        repository: repository.full_name,
+        reference,
+        containerName: `claude-pr-${pullRequest.id}`
+      });
+      await finishJob(env, jobId, {
+        status: 'refused',
+        outcome: `CI fix attempts used up (${maxAttempts} of ${maxAttempts})`
+      });
+    }
+    return new Response('CI fix attempts used up', { status: 200 });
+  }
+
+  try {
+    const failures = await collectFailures(githubAPI);
+    if (failures.length === 0) {
+      logWithContext('CI_FAILURE_EVENT', 'No failed jobs found', { name: run.name });
+      await releaseCiFix(env, repository.full_name, reference, run.headSha);
+      return new Response('No failed jobs', { status: 200 });
+    }
+
+    const attempt = used.attempts + 1;
+    const acknowledgment = await githubAPI.createComment(
+      repository.owner.login,
+      repository.name,
+      pullRequest.number,
+      `🤖 **Claude Code Assistant**\n\n**${run.name}** failed on ${run.headSha.substring(0, 7)}. I'm looking into ${failures.map(failure => `\`${failure.name}\``).join(', ')} and will push a fix to \`${pullRequest.head.ref}\` (attempt ${attempt} of ${maxAttempts}).\n\n---\n🚀 Powered by Claude Code`
+    );
+
+    await routeCiFixToClaudeCodeContainer(
+      pullRequest,
+      repository,
+      failures,
+      attempt,
+      repoConfig.config,
+      acknowledgment,
+      run.triggerEvent,
+      env,
+      configDO,
+      origin
+    );
+
+    logWithContext('CI_FAILURE_EVENT', 'CI failure routed to Claude Code container successfully');
+  } catch (error) {
+    logWithContext('CI_FAILURE_EVENT', 'Failed to process CI failure', {
+      error: error instanceof Error ? error.message : String(error),
+      pullNumber: pullRequest.number
+    });
+
+    try {
+      await githubAPI.createComment(
+        repository.owner.login,
+        repository.name,
+        pullRequest.number,
+        `❌ I encountered an error while fixing CI: ${(error as Error).message}\n\nI'll need human assistance to resolve this.`
+      );
+    } catch (commentError) {
+      logWithContext('CI_FAILURE_EVENT', 'Failed to post error comment', {
+        commentError: commentError instanceof Error ? commentError.message : String(commentError)
+      });
+    }
+  }
+
+  return new Response('CI failure processed', { status: 200 });
+}
+
+// Handle workflow_run events (a GitHub Actions workflow finished)
+export async function handleWorkflowRunEvent(data: any, env: any, configDO: any, origin?: string): Promise<Response> {
+  const workflowRun = data.workflow_run;
+  const repository = data.repository;
+
+  logWithContext('CI_FAILURE_EVENT', 'Processing workflow run event', {
+    action: data.action,
+    workflowRunId: workflowRun?.id,
+    name: workflowRun?.name,
+    conclusion: workflowRun?.conclusion,
+    headBranch: workflowRun?.head_branch
+  });
+
+  if (data.action !== 'completed' || !isCiFailure(workflowRun?.conclusion)) {
+    return new Response('Workflow run ignored', { status: 200 });
+  }
+
+  return handleFailedRun({
+    triggerEvent: 'workflow_run.completed',
+    name: workflowRun.name,
+    headSha: workflowRun.head_sha,
+    pullRequests: workflowRun.pull_requests || []
+  }, repository, githubAPI => collectWorkflowRunFailures(githubAPI, repository, workflowRun), env, configDO, origin);
+}
+
+// Handle check_run events (a check from another CI service finished).
+// GitHub Actions also reports each job as a check run; those are handled once per
+// workflow run instead.
+export async function handleCheckRunEvent(data: any, env: any, configDO: any, origin?: string): Promise<Response> {
+  const checkRun = data.check_run;
+  const repository = data.repository;
+
+  logWithContext('CI_FAILURE_EVENT', 'Processing check run event', {
+    action: data.action,
+    checkRunId: checkRun?.id,
+    name: checkRun?.name,
+    conclusion: checkRun?.conclusion,
+    app: checkRun?.app?.slug
+  });
+
+  if (data.action !== 'completed' || !isCiFailure(checkRun?.conclusion)) {
+    return new Response('Check run ignored', { status: 200 });
+  }
+
+  if (checkRun.app?.slug === 'github-actions') {
+    return new Response('Handled with the workflow run', { status: 200 });
+  }
+
+  return handleFailedRun({
+    triggerEvent: 'check_run.completed',
+    name: checkRun.name,
+    headSha: checkRun.head_sha,
+    pullRequests: checkRun.pull_requests || []
+  }, repository, async () => [collectCheckRunFailure(checkRun)], env, configDO, origin);
+}
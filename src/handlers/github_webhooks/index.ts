@@ -1,3 +1,7 @@
 export { handleInstallationEvent } from "./installation";
 export { handleInstallationRepositoriesEvent } from "./installation_change";
 export { handleIssuesEvent } from "./issue";
+export { handleIssueCommentEvent } from "./issue_comment";
+export { handlePullRequestEvent } from "./pull_request";
+export { handlePullRequestReviewEvent, handlePullRequestReviewCommentEvent } from "./pull_request_review";
+export { handleWorkflowRunEvent, handleCheckRunEvent } from "./ci_failure";
@@ -1,16 +1,28 @@
 import { GitHubAPI } from "../../github_client";
 import { logWithContext } from "../../log";
-import { containerFetch, getRouteFromRequest } from "../../fetch";
-
-// Simplified container response interface
-interface ContainerResponse {
-  success: boolean;
-  message: string;
-  error?: string;
+import { containerFetch } from "../../fetch";
+import { loadGitHubRepoConfig, matchesTriggerLabels, formatRepoConfigErrors } from "../../repo_config";
+import { getTriggerPolicy, evaluateTriggerPolicy, withdrawsTrigger } from "../../trigger_policy";
+import { getRunLimits, runLimitsContext } from "../../run_limits";
+import { authorizeGitHubUser, formatAuthorizationRefusal, recordRefusedTrigger } from "../../authorization";
+import { dispatchRun, cancelQueuedRun, formatQueuedMessage } from "../../dispatch_queue";
+
+// The container edits the acknowledgment comment in place to show live progress
+export function progressCommentContext(acknowledgment: any): Record<string, string> {
+  return acknowledgment?.id ? { PROGRESS_COMMENT_ID: acknowledgment.id.toString() } : {};
 }
 
 // Route GitHub issue to Claude Code container
-async function routeToClaudeCodeContainer(issue: any, repository: any, env: any, configDO: any): Promise<void> {
+// extraContext lets other triggers (e.g. @claude comments) add their own variables
+export async function routeToClaudeCodeContainer(
+  issue: any,
+  repository: any,
+  env: any,
+  configDO: any,
+  extraContext: Record<string, string> = {},
+  triggerEvent: string = 'issues.opened',
+  origin?: string
+): Promise<void> {
   const containerName = `claude-issue-${issue.id}`;
 
   logWithContext('CLAUDE_ROUTING', 'Routing issue to Claude Code container', {
@@ -20,10 +32,6 @@ async function routeToClaudeCodeContainer(issue: any, repository: any, env: any,
     repository: repository.full_name
   });
 
-  // Create unique container for this issue
-  const id = env.MY_CONTAINER.idFromName(containerName);
-  const container = env.MY_CONTAINER.get(id);
-
   // Get installation token for GitHub API access
   logWithContext('CLAUDE_ROUTING', 'Retrieving installation token');
 
@@ -51,6 +59,8 @@ async function routeToClaudeCodeContainer(issue: any, repository: any, env: any,
     throw new Error('Claude API key not configured. Please visit /claude-setup first.');
   }
 
+  const runLimits = await getRunLimits(configDO, repository.full_name);
+
   // Prepare environment variables for the container
   const issueContext = {
     ANTHROPIC_API_KEY: claudeKeyData.anthropicApiKey,
@@ -63,7 +73,9 @@ async function routeToClaudeCodeContainer(issue: any, repository: any, env: any,
     REPOSITORY_URL: repository.clone_url,
     REPOSITORY_NAME: repository.full_name,
     ISSUE_AUTHOR: issue.user.login,
-    MESSAGE: `Processing issue #${issue.number}: ${issue.title}`
+    MESSAGE: `Processing issue #${issue.number}: ${issue.title}`,
+    ...runLimitsContext(runLimits),
+    ...extraContext
   };
 
   // Start Claude Code processing by calling the container
@@ -72,62 +84,101 @@ async function routeToClaudeCodeContainer(issue: any, repository: any, env: any,
     issueId: issueContext.ISSUE_ID
   });
 
+  // Queue the run; follow-ups on the same issue wait for the run before them
+  await dispatchRun(env, {
+    provider: 'github',
+    repository: repository.full_name,
+    reference: `#${issue.number}`,
+    containerName,
+    triggerEvent
+  }, {
+    route: '/process-issue',
+    context: issueContext,
+    origin,
+    thread: { provider: 'github', repository: repository.full_name, reference: `#${issue.number}` },
+    githubConfigId: configDO.id?.toString()
+  }, {
+    onQueued: async (position, queueLength) => {
+      await new GitHubAPI(configDO).createComment(
+        repository.owner.login,
+        repository.name,
+        issue.number,
+        `🤖 **Claude Code Assistant**\n\n${formatQueuedMessage(position, queueLength)}\n\n---\n🚀 Powered by Claude Code`
+      );
+    }
+  });
+}
+
+// Ask the issue's container to stop its run. The container skips the push and marks
+// the progress comment as cancelled. Runs still waiting for a slot are taken off the
+// queue, which is noted on the issue. Returns false when nothing was running or queued.
+export async function cancelClaudeCodeRun(
+  issue: any,
+  repository: any,
+  env: any,
+  configDO: any,
+  cancelledBy: string
+): Promise<boolean> {
+  const containerName = `claude-issue-${issue.id}`;
+
+  logWithContext('CLAUDE_ROUTING', 'Cancelling Claude Code run', {
+    issueNumber: issue.number,
+    containerName,
+    cancelledBy
+  });
+
+  const dequeued = await cancelQueuedRun(env, containerName, cancelledBy);
+  if (dequeued) {
+    await new GitHubAPI(configDO).createComment(
+      repository.owner.login,
+      repository.name,
+      issue.number,
+      `🤖 **Claude Code Assistant**\n\n🛑 Removed from the queue by @${cancelledBy}.\n\n---\n🚀 Powered by Claude Code`
+    ).catch(error => {
+      logWithContext('CLAUDE_ROUTING', 'Failed to post queue removal comment', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+  }
+
   try {
-    const response = await containerFetch(container, new Request('http://internal/process-issue', {
+    const id = env.MY_CONTAINER.idFromName(containerName);
+    const container = env.MY_CONTAINER.get(id);
+
+    const response = await containerFetch(container, new Request('http://internal/cancel', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
       },
-      body: JSON.stringify(issueContext)
+      body: JSON.stringify({ ISSUE_ID: issue.id.toString(), CANCELLED_BY: cancelledBy })
     }), {
       containerName,
-      route: '/process-issue'
-    });
-
-    logWithContext('CLAUDE_ROUTING', 'Claude Code container response', {
-      status: response.status,
-      statusText: response.statusText
+      route: '/cancel',
+      timeout: 30000
     });
 
     if (!response.ok) {
-      const errorText = await response.text().catch(() => 'Unable to read error response');
-      logWithContext('CLAUDE_ROUTING', 'Container returned error', {
-        status: response.status,
-        errorText
-      });
-      throw new Error(`Container returned status ${response.status}: ${errorText}`);
+      throw new Error(`Container returned status ${response.status}`);
     }
 
-    // Parse container response
-    const containerResponse: ContainerResponse = await response.json();
-    
-    logWithContext('CLAUDE_ROUTING', 'Container response parsed', {
-      success: containerResponse.success,
-      message: containerResponse.message,
-      hasError: !!containerResponse.error
-    });
+    const result = await response.json() as { cancelled: boolean };
 
-    if (containerResponse.success) {
-      logWithContext('CLAUDE_ROUTING', 'Container processing completed successfully', {
-        message: containerResponse.message
-      });
-    } else {
-      logWithContext('CLAUDE_ROUTING', 'Container processing failed', {
-        error: containerResponse.error
-      });
-    }
+    logWithContext('CLAUDE_ROUTING', result.cancelled ? 'Run cancelled' : 'No run in progress to cancel', {
+      issueNumber: issue.number
+    });
 
+    return result.cancelled || dequeued;
   } catch (error) {
-    logWithContext('CLAUDE_ROUTING', 'Failed to process Claude Code response', {
+    logWithContext('CLAUDE_ROUTING', 'Failed to cancel Claude Code run', {
       error: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined
+      issueNumber: issue.number
     });
-    throw error;
+    return dequeued;
   }
 }
 
 // Handle issues events
-export async function handleIssuesEvent(data: any, env: any, configDO: any): Promise<Response> {
+export async function handleIssuesEvent(data: any, env: any, configDO: any, origin?: string): Promise<Response> {
   const action = data.action;
   const issue = data.issue;
   const repository = data.repository;
@@ -144,31 +195,110 @@ export async function handleIssuesEvent(data: any, env: any, configDO: any): Pro
   // Create GitHub API client for authenticated requests
   const githubAPI = new GitHubAPI(configDO);
 
-  // Handle new issue creation with Claude Code
-  if (action === 'opened') {
-    logWithContext('ISSUES_EVENT', 'Handling new issue creation');
+  const issueLabels: string[] = issue.labels?.map((label: any) => label.name) || [];
+  const triggerPolicy = ['opened', 'labeled', 'unlabeled'].includes(action)
+    ? (await getTriggerPolicy(configDO, repository.full_name, data.installation?.id)).policy
+    : null;
 
-    try {
-      // Post initial acknowledgment comment
-      logWithContext('ISSUES_EVENT', 'Posting initial acknowledgment comment');
+  // Closing the issue, removing the trigger label or adding the deny label stops a run in progress
+  if (action === 'closed' || (triggerPolicy && withdrawsTrigger(triggerPolicy, action, data.label?.name))) {
+    await cancelClaudeCodeRun(issue, repository, env, configDO, data.sender?.login || 'unknown');
+  }
+
+  // New issues, and issues given the trigger label, are checked against the trigger policy
+  const triggerDecision = triggerPolicy && (action === 'opened' || action === 'labeled')
+    ? evaluateTriggerPolicy(triggerPolicy, action, issueLabels, data.label?.name)
+    : null;
+
+  if (triggerDecision && !triggerDecision.trigger) {
+    logWithContext('ISSUES_EVENT', 'Issue not picked up by the trigger policy', {
+      action,
+      reason: triggerDecision.reason
+    });
+  }
+
+  // Handle new or newly labelled issues with Claude Code
+  if (triggerDecision?.trigger) {
+    logWithContext('ISSUES_EVENT', 'Handling issue picked up by the trigger policy', {
+      action,
+      reason: triggerDecision.reason
+    });
 
-      await githubAPI.createComment(
+    try {
+      const repoConfig = await loadGitHubRepoConfig(
+        githubAPI,
         repository.owner.login,
         repository.name,
-        issue.number,
-        `🤖 **Claude Code Assistant**\n\nI've received this issue and I'm analyzing it now. I'll start working on a solution shortly!\n\n---\n🚀 Powered by Claude Code`
+        repository.default_branch
       );
 
-      logWithContext('ISSUES_EVENT', 'Initial comment posted successfully');
-
-      // Route to Claude Code container for processing
-      logWithContext('ISSUES_EVENT', 'Routing to Claude Code container');
-      await routeToClaudeCodeContainer(issue, repository, env, configDO);
+      if (repoConfig.errors.length > 0) {
+        logWithContext('ISSUES_EVENT', 'Repository configuration is invalid, not starting', {
+          path: repoConfig.path,
+          errors: repoConfig.errors
+        });
+        await githubAPI.createComment(
+          repository.owner.login,
+          repository.name,
+          issue.number,
+          formatRepoConfigErrors(repoConfig)
+        );
+      } else if (!matchesTriggerLabels(repoConfig.config, issueLabels)) {
+        logWithContext('ISSUES_EVENT', 'Issue has none of the configured trigger labels', {
+          triggerLabels: repoConfig.config.triggers.labels,
+          issueLabels
+        });
+      } else {
+        // The user who opened the issue, or who added the trigger label
+        const sender = data.sender?.login || issue.user.login;
+        const authorization = await authorizeGitHubUser(
+          githubAPI,
+          repository.owner.login,
+          repository.name,
+          sender,
+          repoConfig.config.authorization
+        );
 
-      logWithContext('ISSUES_EVENT', 'Issue routed to Claude Code container successfully');
+        if (!authorization.authorized) {
+          await githubAPI.createComment(
+            repository.owner.login,
+            repository.name,
+            issue.number,
+            formatAuthorizationRefusal(sender, 'github', repoConfig.config.authorization)
+          );
+          await recordRefusedTrigger(env, {
+            triggerEvent: `issues.${action}`,
+            provider: 'github',
+            repository: repository.full_name,
+            reference: `#${issue.number}`,
+            containerName: `claude-issue-${issue.id}`
+          }, sender, authorization);
+        } else {
+          // Post initial acknowledgment comment
+          logWithContext('ISSUES_EVENT', 'Posting initial acknowledgment comment');
+
+          const acknowledgment = await githubAPI.createComment(
+            repository.owner.login,
+            repository.name,
+            issue.number,
+            `🤖 **Claude Code Assistant**\n\nI've received this issue and I'm analyzing it now. I'll start working on a solution shortly!\n\n---\n🚀 Powered by Claude Code`
+          );
+
+          logWithContext('ISSUES_EVENT', 'Initial comment posted successfully');
+
+          // Route to Claude Code container for processing
+          logWithContext('ISSUES_EVENT', 'Routing to Claude Code container');
+          await routeToClaudeCodeContainer(issue, repository, env, configDO, {
+            REPO_CONFIG: JSON.stringify(repoConfig.config),
+            ...progressCommentContext(acknowledgment)
+          }, `issues.${action}`, origin);
+
+          logWithContext('ISSUES_EVENT', 'Issue routed to Claude Code container successfully');
+        }
+      }
 
     } catch (error) {
-      logWithContext('ISSUES_EVENT', 'Failed to process new issue', {
+      logWithContext('ISSUES_EVENT', 'Failed to process issue', {
         error: error instanceof Error ? error.message : String(error),
         issueNumber: issue.number
       });
@@ -0,0 +1,295 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { handleIssueCommentEvent, detectClaudeMention, extractUserPrompt, isBot, isStopCommand } from './issue_comment';
+
+describe('GitHub Issue Comment Handler', () => {
+  let mockEnv: any;
+  let mockConfigDO: any;
+  let mockContainer: any;
+  let fetchSpy: any;
+
+  const baseEvent = () => ({
+    action: 'created',
+    comment: {
+      id: 555,
+      body: '@claude try again but use the existing helper in utils/',
+      user: { login: 'developer', type: 'User' }
+    },
+    issue: {
+      id: 1001,
+      number: 42,
+      title: 'Fix date parsing',
+      body: 'Dates are parsed in the wrong timezone',
+      labels: [{ name: 'bug' }],
+      user: { login: 'reporter' }
+    },
+    repository: {
+      id: 77,
+      name: 'my-repo',
+      full_name: 'acme/my-repo',
+      clone_url: 'https://github.com/acme/my-repo.git',
+      owner: { login: 'acme' }
+    }
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockContainer = {
+      fetch: vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ success: true, message: 'Container processed successfully' }), { status: 200 })
+      )
+    };
+
+    mockEnv = {
+      MY_CONTAINER: {
+        idFromName: vi.fn().mockReturnValue('mock-container-id'),
+        get: vi.fn().mockReturnValue(mockContainer)
+      },
+      GITHUB_APP_CONFIG: {
+        idFromName: vi.fn().mockReturnValue('mock-config-id'),
+        get: vi.fn().mockReturnValue({
+          fetch: vi.fn().mockImplementation(async () =>
+            new Response(JSON.stringify({ anthropicApiKey: 'test-claude-key' }), { status: 200 })
+          )
+        })
+      }
+    };
+
+    mockConfigDO = {
+      fetch: vi.fn().mockImplementation(async (request: Request) =>
+        request.url.includes('/get-trigger-policy')
+          ? new Response(JSON.stringify({ policy: { mode: 'all', triggerLabel: 'claude', denyLabel: 'no-bot' }, source: 'installation' }))
+          : new Response(JSON.stringify({ token: 'test-installation-token' }), { status: 200 })
+      )
+    };
+
+    // GitHub API: repository config lookup, comment listing and comment creation
+    fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input: any, init?: any) => {
+      const url = typeof input === 'string' ? input : input.url;
+      if (url.includes('/contents/')) {
+        return new Response('Not Found', { status: 404 });
+      }
+      if (url.includes('/permission')) {
+        return new Response(JSON.stringify({ permission: 'write', role_name: 'write' }), { status: 200 });
+      }
+      if (url.includes('/comments') && (!init || !init.method || init.method === 'GET')) {
+        return new Response(JSON.stringify([
+          { id: 1, user: { login: 'reporter' }, body: 'Still broken for UTC+2', created_at: '2025-01-01T00:00:00Z' },
+          { id: 555, user: { login: 'developer' }, body: '@claude try again', created_at: '2025-01-02T00:00:00Z' }
+        ]), { status: 200 });
+      }
+      return new Response(JSON.stringify({ id: 999 }), { status: 201 });
+    });
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  describe('detectClaudeMention', () => {
+    it('should detect @claude mentions', () => {
+      expect(detectClaudeMention('@claude please fix this')).toBe(true);
+      expect(detectClaudeMention('Hey @Claude, can you look?')).toBe(true);
+    });
+
+    it('should ignore mentions inside code blocks and similar handles', () => {
+      expect(detectClaudeMention('```\n@claude run\n```')).toBe(false);
+      expect(detectClaudeMention('see `@claude` docs')).toBe(false);
+      expect(detectClaudeMention('ping @claude-bot')).toBe(false);
+      expect(detectClaudeMention('mail me at me@claude.ai')).toBe(false);
+    });
+  });
+
+  describe('extractUserPrompt', () => {
+    it('should extract the instruction following the mention', () => {
+      expect(extractUserPrompt('@claude use the helper in utils/')).toBe('use the helper in utils/');
+      expect(extractUserPrompt('@claude')).toBe('');
+    });
+
+    it('should allow a comma or colon after the mention', () => {
+      expect(extractUserPrompt('@claude, can you fix this?')).toBe('can you fix this?');
+      expect(extractUserPrompt('@claude: fix it')).toBe('fix it');
+    });
+
+    it('should support configured mentions', () => {
+      expect(detectClaudeMention('@acme-bot fix it', ['@acme-bot'])).toBe(true);
+      expect(detectClaudeMention('@claude fix it', ['@acme-bot'])).toBe(false);
+      expect(extractUserPrompt('@acme-bot fix it', ['@acme-bot'])).toBe('fix it');
+    });
+  });
+
+  describe('isStopCommand', () => {
+    it('should only match a bare stop or cancel instruction', () => {
+      expect(isStopCommand('stop')).toBe(true);
+      expect(isStopCommand('Cancel!')).toBe(true);
+      expect(isStopCommand('stop using moment.js')).toBe(false);
+    });
+  });
+
+  describe('isBot', () => {
+    it('should recognise bot accounts', () => {
+      expect(isBot({ login: 'claude-code[bot]', type: 'Bot' })).toBe(true);
+      expect(isBot({ login: 'dependabot[bot]', type: 'User' })).toBe(true);
+      expect(isBot({ login: 'developer', type: 'User' })).toBe(false);
+    });
+  });
+
+  describe('handleIssueCommentEvent', () => {
+    it('should ignore comments without an @claude mention', async () => {
+      const event = baseEvent();
+      event.comment.body = 'Thanks, looks good';
+
+      const response = await handleIssueCommentEvent(event, mockEnv, mockConfigDO);
+      expect(response.status).toBe(200);
+      expect(mockEnv.MY_CONTAINER.get).not.toHaveBeenCalled();
+      // Nothing to trigger on, so the repository configuration isn't read
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('should not start when the repository configuration cannot be read', async () => {
+      fetchSpy.mockImplementation(async (input: any) => {
+        const url = typeof input === 'string' ? input : input.url;
+        if (url.includes('/contents/')) {
+          return new Response('API rate limit exceeded', { status: 403 });
+        }
+        return new Response(JSON.stringify({ id: 999 }), { status: 201 });
+      });
+
+      const response = await handleIssueCommentEvent(baseEvent(), mockEnv, mockConfigDO);
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe('Repository configuration unavailable');
+      expect(mockContainer.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should reply when the mention has no instruction', async () => {
+      const event = baseEvent();
+      event.comment.body = 'Thanks @claude';
+
+      const response = await handleIssueCommentEvent(event, mockEnv, mockConfigDO);
+      expect(await response.text()).toBe('No instruction found');
+      expect(mockContainer.fetch).not.toHaveBeenCalled();
+
+      const reply = fetchSpy.mock.calls.find(([input, init]: any[]) =>
+        String(input).endsWith('/issues/42/comments') && init?.method === 'POST'
+      );
+      expect(JSON.parse(reply[1].body).body).toContain("I didn't find an instruction");
+    });
+
+    it('should ignore comments from bots', async () => {
+      const event = baseEvent();
+      event.comment.user = { login: 'claude-code[bot]', type: 'Bot' };
+
+      await handleIssueCommentEvent(event, mockEnv, mockConfigDO);
+      expect(mockEnv.MY_CONTAINER.get).not.toHaveBeenCalled();
+    });
+
+    it('should ignore edited comments', async () => {
+      const event = baseEvent();
+      event.action = 'edited';
+
+      await handleIssueCommentEvent(event, mockEnv, mockConfigDO);
+      expect(mockEnv.MY_CONTAINER.get).not.toHaveBeenCalled();
+    });
+
+    it('should route the instruction and thread to the issue container', async () => {
+      const response = await handleIssueCommentEvent(baseEvent(), mockEnv, mockConfigDO);
+      expect(response.status).toBe(200);
+
+      expect(mockEnv.MY_CONTAINER.idFromName).toHaveBeenCalledWith('claude-issue-1001');
+      expect(mockContainer.fetch).toHaveBeenCalledTimes(1);
+
+      const request = mockContainer.fetch.mock.calls[0][0];
+      expect(request.url).toBe('http://internal/process-issue');
+
+      const body = JSON.parse(await request.text());
+      expect(body).toMatchObject({
+        ISSUE_NUMBER: '42',
+        USER_PROMPT: 'try again but use the existing helper in utils/',
+        COMMENT_ID: '555',
+        COMMENT_AUTHOR: 'developer',
+        PROGRESS_COMMENT_ID: '999'
+      });
+
+      const thread = JSON.parse(body.THREAD_CONTEXT);
+      expect(thread.totalComments).toBe(1);
+      expect(thread.threadComments[0]).toMatchObject({ author: 'reporter', body: 'Still broken for UTC+2' });
+    });
+
+    it('should cancel the run in progress on @claude stop', async () => {
+      const event = baseEvent();
+      event.comment.body = '@claude stop';
+      mockContainer.fetch.mockResolvedValue(new Response(JSON.stringify({ cancelled: true }), { status: 200 }));
+
+      const response = await handleIssueCommentEvent(event, mockEnv, mockConfigDO);
+      expect(await response.text()).toBe('Run cancelled');
+
+      const request = mockContainer.fetch.mock.calls[0][0];
+      expect(request.url).toBe('http://internal/cancel');
+      expect(JSON.parse(await request.text())).toEqual({ ISSUE_ID: '1001', CANCELLED_BY: 'developer' });
+    });
+
+    it('should forget the issue session on @claude reset without starting a run', async () => {
+      const event = baseEvent();
+      event.comment.body = '@claude reset';
+      const tracker = {
+        fetch: vi.fn().mockResolvedValue(new Response(JSON.stringify({ sessionId: 'abc', storage: 'durable_object' })))
+      };
+      mockEnv.JOB_TRACKER = { idFromName: vi.fn(), get: vi.fn().mockReturnValue(tracker) };
+
+      const response = await handleIssueCommentEvent(event, mockEnv, mockConfigDO);
+      expect(await response.text()).toBe('Session reset');
+      expect(mockContainer.fetch).not.toHaveBeenCalled();
+
+      const request = tracker.fetch.mock.calls[0][0];
+      expect(request.method).toBe('DELETE');
+      expect(new URL(request.url).searchParams.get('thread')).toBe('github:acme/my-repo#42');
+
+      const reply = fetchSpy.mock.calls.find(([input, init]: any[]) =>
+        String(input).endsWith('/issues/42/comments') && init?.method === 'POST'
+      );
+      expect(JSON.parse(reply[1].body).body).toContain('The next instruction starts a fresh session');
+    });
+
+    it('should not start a run on an issue carrying the deny label', async () => {
+      const event: any = baseEvent();
+      event.installation = { id: 31 };
+      event.issue.labels = [{ name: 'bug' }, { name: 'No-Bot' }];
+
+      const response = await handleIssueCommentEvent(event, mockEnv, mockConfigDO);
+      expect(await response.text()).toBe('Refused by trigger policy');
+      expect(mockContainer.fetch).not.toHaveBeenCalled();
+
+      const policyRequest = mockConfigDO.fetch.mock.calls
+        .map(([request]: any[]) => request)
+        .find((request: Request) => request.url.includes('/get-trigger-policy'));
+      expect(new URL(policyRequest.url).searchParams.get('installation_id')).toBe('31');
+
+      const reply = fetchSpy.mock.calls.find(([input, init]: any[]) =>
+        String(input).endsWith('/issues/42/comments') && init?.method === 'POST'
+      );
+      expect(JSON.parse(reply[1].body).body).toContain('this issue is labelled `no-bot`');
+    });
+
+    it('should refuse instructions from users without write access', async () => {
+      fetchSpy.mockImplementation(async (input: any, init?: any) => {
+        const url = typeof input === 'string' ? input : input.url;
+        if (url.includes('/contents/')) {
+          return new Response('Not Found', { status: 404 });
+        }
+        if (url.includes('/permission')) {
+          return new Response(JSON.stringify({ permission: 'read', role_name: 'read' }), { status: 200 });
+        }
+        return new Response(JSON.stringify({ id: 999 }), { status: 201 });
+      });
+
+      const response = await handleIssueCommentEvent(baseEvent(), mockEnv, mockConfigDO);
+      expect(await response.text()).toBe('User not authorized');
+      expect(mockContainer.fetch).not.toHaveBeenCalled();
+
+      const refusal = fetchSpy.mock.calls.find(([input, init]: any[]) =>
+        String(input).endsWith('/issues/42/comments') && init?.method === 'POST'
+      );
+      expect(JSON.parse(refusal[1].body).body).toContain("I can only start work for people with write access");
+    });
+  });
+});
@@ -0,0 +1,346 @@
+import { GitHubAPI } from "../../github_client";
+import { logWithContext } from "../../log";
+import { routeToClaudeCodeContainer, progressCommentContext, cancelClaudeCodeRun } from "./issue";
+import { clearThreadSession, isResetCommand } from "../../sessions";
+import { tryLoadGitHubRepoConfig, formatRepoConfigErrors } from "../../repo_config";
+import { authorizeGitHubUser, formatAuthorizationRefusal, recordRefusedTrigger } from "../../authorization";
+import { getTriggerPolicy, carriesDenyLabel } from "../../trigger_policy";
+
+// Limits for the comment thread passed to the container
+const MAX_THREAD_COMMENTS = 20;
+const MAX_COMMENT_LENGTH = 2000;
+
+// Mention used when the repository configuration doesn't set its own
+export const DEFAULT_MENTION = '@claude';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function mentionPattern(mention: string): string {
+  const handle = mention.startsWith('@') ? mention : `@${mention}`;
+  return `${escapeRegExp(handle)}(?![\\w-])`;
+}
+
+function withoutCode(text: string): string {
+  return text
+    .replace(/```[\s\S]*?```/gm, '') // Remove code blocks
+    .replace(/`[^`]+`/g, ''); // Remove inline code
+}
+
+// @claude detection with code block filtering
+export function detectClaudeMention(text: string, mentions: string[] = [DEFAULT_MENTION]): boolean {
+  if (!text) return false;
+
+  return mentions.some(mention => new RegExp(`(^|[^\\w@])${mentionPattern(mention)}`, 'i').test(withoutCode(text)));
+}
+
+// Does the comment mention anyone at all? Every trigger mention is an @handle, so a comment
+// without one is ignored before the repository configuration is read.
+export function mentionsAnyone(text: string): boolean {
+  return !!text && /(^|[^\w@])@[\w-]/.test(withoutCode(text));
+}
+
+// Extract user instruction from @claude mention ("@claude fix it", "@claude, fix it", "@claude: fix it")
+export function extractUserPrompt(text: string, mentions: string[] = [DEFAULT_MENTION]): string {
+  for (const mention of mentions) {
+    const match = text.match(new RegExp(`${mentionPattern(mention)}[,:]?\\s+(.+)`, 'is'));
+    if (match) {
+      return match[1].trim();
+    }
+  }
+  return '';
+}
+
+// "@claude stop" (or "cancel") stops the run in progress instead of starting one
+export function isStopCommand(userPrompt: string): boolean {
+  return /^(stop|cancel)[.!]?$/i.test(userPrompt.trim());
+}
+
+// Check if user is a bot (GitHub Apps and bot accounts)
+export function isBot(user: any): boolean {
+  return user?.type === 'Bot' ||
+         user?.login?.endsWith('[bot]') ||
+         user?.login === 'ghost';
+}
+
+// Build the comment thread context for the container, excluding the triggering comment
+async function buildThreadContext(
+  githubAPI: GitHubAPI,
+  repository: any,
+  issueNumber: number,
+  triggerCommentId: number
+): Promise<Array<{ author: string; body: string; created_at: string }>> {
+  try {
+    const comments = await githubAPI.listIssueComments(repository.owner.login, repository.name, issueNumber);
+
+    return comments
+      .filter((comment: any) => comment.id !== triggerCommentId)
+      .slice(-MAX_THREAD_COMMENTS)
+      .map((comment: any) => ({
+        author: comment.user?.login || 'unknown',
+        body: (comment.body || '').substring(0, MAX_COMMENT_LENGTH),
+        created_at: comment.created_at
+      }));
+  } catch (error) {
+    logWithContext('ISSUE_COMMENT_EVENT', 'Failed to load comment thread, continuing without it', {
+      error: error instanceof Error ? error.message : String(error),
+      issueNumber
+    });
+    return [];
+  }
+}
+
+// Handle issue_comment events
+export async function handleIssueCommentEvent(data: any, env: any, configDO: any, origin?: string): Promise<Response> {
+  const action = data.action;
+  const comment = data.comment;
+  const issue = data.issue;
+  const repository = data.repository;
+
+  logWithContext('ISSUE_COMMENT_EVENT', 'Processing issue comment event', {
+    action,
+    commentId: comment?.id,
+    issueNumber: issue?.number,
+    repository: repository?.full_name,
+    author: comment?.user?.login,
+    isPullRequest: !!issue?.pull_request
+  });
+
+  // Only react to newly created comments
+  if (action !== 'created') {
+    logWithContext('ISSUE_COMMENT_EVENT', 'Ignoring non-created comment action', { action });
+    return new Response('Comment action ignored', { status: 200 });
+  }
+
+  // Filter out bot comments (including our own replies)
+  if (isBot(comment.user)) {
+    logWithContext('ISSUE_COMMENT_EVENT', 'Ignoring bot comment', {
+      commentId: comment.id,
+      login: comment.user?.login
+    });
+    return new Response('Bot comment ignored', { status: 200 });
+  }
+
+  // Pull request conversations are not handled by the issue flow
+  if (issue.pull_request) {
+    logWithContext('ISSUE_COMMENT_EVENT', 'Ignoring pull request comment', { commentId: comment.id });
+    return new Response('Pull request comment ignored', { status: 200 });
+  }
+
+  if (!mentionsAnyone(comment.body)) {
+    logWithContext('ISSUE_COMMENT_EVENT', 'No mention found', { commentId: comment.id });
+    return new Response('No @claude mention found', { status: 200 });
+  }
+
+  const githubAPI = new GitHubAPI(configDO);
+
+  // The repository configuration decides which mentions trigger a run
+  const repoConfig = await tryLoadGitHubRepoConfig(
+    githubAPI,
+    repository.owner.login,
+    repository.name,
+    repository.default_branch
+  );
+  if (!repoConfig) {
+    logWithContext('ISSUE_COMMENT_EVENT', 'Repository configuration unavailable, not starting', { commentId: comment.id });
+    if (detectClaudeMention(comment.body)) {
+      await githubAPI.createComment(
+        repository.owner.login,
+        repository.name,
+        issue.number,
+        `🤖 **Claude Code Assistant**\n\n@${comment.user.login}, I couldn't read this repository's configuration, so I haven't started. Please try again in a few minutes.\n\n---\n🚀 Powered by Claude Code`
+      ).catch(error => {
+        logWithContext('ISSUE_COMMENT_EVENT', 'Failed to post configuration error comment', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+    }
+    return new Response('Repository configuration unavailable', { status: 200 });
+  }
+
+  const mentions = repoConfig.config.triggers.mentions.length > 0
+    ? repoConfig.config.triggers.mentions
+    : [DEFAULT_MENTION];
+
+  // Check for @claude mention
+  if (!detectClaudeMention(comment.body, mentions)) {
+    logWithContext('ISSUE_COMMENT_EVENT', 'No @claude mention found', { commentId: comment.id, mentions });
+    return new Response('No @claude mention found', { status: 200 });
+  }
+
+  if (repoConfig.errors.length > 0) {
+    logWithContext('ISSUE_COMMENT_EVENT', 'Repository configuration is invalid, not starting', {
+      path: repoConfig.path,
+      errors: repoConfig.errors
+    });
+    await githubAPI.createComment(
+      repository.owner.login,
+      repository.name,
+      issue.number,
+      formatRepoConfigErrors(repoConfig)
+    );
+    return new Response('Invalid repository configuration', { status: 200 });
+  }
+
+  const userPrompt = extractUserPrompt(comment.body, mentions);
+
+  // Starting, stopping and resetting runs all need permission on the repository
+  const authorization = await authorizeGitHubUser(
+    githubAPI,
+    repository.owner.login,
+    repository.name,
+    comment.user.login,
+    repoConfig.config.authorization
+  );
+
+  if (!authorization.authorized) {
+    await githubAPI.createComment(
+      repository.owner.login,
+      repository.name,
+      issue.number,
+      formatAuthorizationRefusal(comment.user.login, 'github', repoConfig.config.authorization)
+    );
+    await recordRefusedTrigger(env, {
+      triggerEvent: 'issue_comment.created',
+      provider: 'github',
+      repository: repository.full_name,
+      reference: `#${issue.number}`,
+      containerName: `claude-issue-${issue.id}`
+    }, comment.user.login, authorization);
+    return new Response('User not authorized', { status: 200 });
+  }
+
+  if (!userPrompt) {
+    logWithContext('ISSUE_COMMENT_EVENT', 'No instruction after @claude mention', { commentId: comment.id });
+    await githubAPI.createComment(
+      repository.owner.login,
+      repository.name,
+      issue.number,
+      `🤖 **Claude Code Assistant**\n\n@${comment.user.login}, I didn't find an instruction in your comment. Write it after the mention, for example \`${mentions[0]} fix the failing date test\`.\n\n---\n🚀 Powered by Claude Code`
+    );
+    return new Response('No instruction found', { status: 200 });
+  }
+
+  if (isStopCommand(userPrompt)) {
+    logWithContext('ISSUE_COMMENT_EVENT', 'Stop requested', {
+      commentId: comment.id,
+      issueNumber: issue.number,
+      author: comment.user.login
+    });
+
+    // When a run is cancelled the container marks its progress comment; otherwise say so here
+    const cancelled = await cancelClaudeCodeRun(issue, repository, env, configDO, comment.user.login);
+    if (!cancelled) {
+      await githubAPI.createComment(
+        repository.owner.login,
+        repository.name,
+        issue.number,
+        `🤖 **Claude Code Assistant**\n\n@${comment.user.login}, there's no run in progress on this issue to stop.\n\n---\n🚀 Powered by Claude Code`
+      );
+    }
+
+    return new Response(cancelled ? 'Run cancelled' : 'No run to cancel', { status: 200 });
+  }
+
+  if (isResetCommand(userPrompt)) {
+    logWithContext('ISSUE_COMMENT_EVENT', 'Session reset requested', {
+      commentId: comment.id,
+      issueNumber: issue.number,
+      author: comment.user.login
+    });
+
+    const hadSession = await clearThreadSession(env, {
+      provider: 'github',
+      repository: repository.full_name,
+      reference: `#${issue.number}`
+    });
+    await githubAPI.createComment(
+      repository.owner.login,
+      repository.name,
+      issue.number,
+      hadSession
+        ? `🤖 **Claude Code Assistant**\n\n@${comment.user.login}, I've forgotten our earlier conversation on this issue. The next instruction starts a fresh session.\n\n---\n🚀 Powered by Claude Code`
+        : `🤖 **Claude Code Assistant**\n\n@${comment.user.login}, there's no session on this issue to reset.\n\n---\n🚀 Powered by Claude Code`
+    );
+
+    return new Response(hadSession ? 'Session reset' : 'No session to reset', { status: 200 });
+  }
+
+  // The trigger policy's deny label keeps an issue away from the bot, comments included
+  const triggerPolicy = await getTriggerPolicy(configDO, repository.full_name, data.installation?.id);
+  const issueLabels: string[] = issue.labels?.map((label: any) => label.name) || [];
+
+  if (triggerPolicy.source === 'unavailable' || carriesDenyLabel(triggerPolicy.policy, issueLabels)) {
+    logWithContext('ISSUE_COMMENT_EVENT', 'Instruction refused by the trigger policy', {
+      commentId: comment.id,
+      policySource: triggerPolicy.source,
+      denyLabel: triggerPolicy.policy.denyLabel
+    });
+    await githubAPI.createComment(
+      repository.owner.login,
+      repository.name,
+      issue.number,
+      triggerPolicy.source === 'unavailable'
+        ? `🤖 **Claude Code Assistant**\n\n@${comment.user.login}, I couldn't check this repository's trigger policy, so I haven't started. Please try again in a few minutes.\n\n---\n🚀 Powered by Claude Code`
+        : `🤖 **Claude Code Assistant**\n\n@${comment.user.login}, this issue is labelled \`${triggerPolicy.policy.denyLabel}\`, so I won't work on it. Remove the label and ask again.\n\n---\n🚀 Powered by Claude Code`
+    );
+    return new Response('Refused by trigger policy', { status: 200 });
+  }
+
+  logWithContext('ISSUE_COMMENT_EVENT', 'Processing @claude instruction', {
+    commentId: comment.id,
+    issueNumber: issue.number,
+    userPrompt: userPrompt.substring(0, 100)
+  });
+
+  try {
+    const acknowledgment = await githubAPI.createComment(
+      repository.owner.login,
+      repository.name,
+      issue.number,
+      `🤖 **Claude Code Assistant**\n\nGot it, @${comment.user.login}! I'm picking this up now with the conversation so far as context.\n\n---\n🚀 Powered by Claude Code`
+    );
+
+    const threadComments = await buildThreadContext(githubAPI, repository, issue.number, comment.id);
+
+    logWithContext('ISSUE_COMMENT_EVENT', 'Routing to Claude Code container', {
+      threadCommentCount: threadComments.length
+    });
+
+    await routeToClaudeCodeContainer(issue, repository, env, configDO, {
+      USER_PROMPT: userPrompt,
+      COMMENT_ID: comment.id.toString(),
+      COMMENT_AUTHOR: comment.user.login,
+      REPO_CONFIG: JSON.stringify(repoConfig.config),
+      ...progressCommentContext(acknowledgment),
+      THREAD_CONTEXT: JSON.stringify({
+        threadComments,
+        totalComments: threadComments.length
+      })
+    }, 'issue_comment.created', origin);
+
+    logWithContext('ISSUE_COMMENT_EVENT', 'Issue comment routed to Claude Code container successfully');
+
+  } catch (error) {
+    logWithContext('ISSUE_COMMENT_EVENT', 'Failed to process @claude comment', {
+      error: error instanceof Error ? error.message : String(error),
+      issueNumber: issue.number
+    });
+
+    try {
+      await githubAPI.createComment(
+        repository.owner.login,
+        repository.name,
+        issue.number,
+        `❌ I encountered an error while working on your request: ${(error as Error).message}\n\nI'll need human assistance to resolve this.`
+      );
+    } catch (commentError) {
+      logWithContext('ISSUE_COMMENT_EVENT', 'Failed to post error comment', {
+        commentError: commentError instanceof Error ? commentError.message : String(commentError)
+      });
+    }
+  }
+
+  return new Response('Issue comment event processed', { status: 200 });
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { handlePullRequestEvent } from './pull_request';
+
+describe('GitHub Pull Request Handler', () => {
+  let mockEnv: any;
+  let mockConfigDO: any;
+  let mockContainer: any;
+  let jobs: any[];
+  let repoConfig: string | null;
+  let permission: string;
+  let fetchSpy: any;
+
+  const repository = {
+    id: 77,
+    name: 'my-repo',
+    full_name: 'acme/my-repo',
+    clone_url: 'https://github.com/acme/my-repo.git',
+    default_branch: 'main',
+    owner: { login: 'acme' }
+  };
+
+  const pullRequestEvent = (action: string = 'opened', overrides: any = {}) => ({
+    action,
+    pull_request: {
+      id: 9001,
+      number: 12,
+      state: 'open',
+      draft: false,
+      title: 'Add date helpers',
+      body: 'Adds addDays',
+      user: { login: 'jane' },
+      head: { ref: 'feature/dates', sha: 'abc1234def', repo: { id: 77 } },
+      base: { ref: 'main' },
+      ...overrides
+    },
+    sender: { login: 'jane', type: 'User' },
+    repository
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    jobs = [];
+    repoConfig = 'code_review: true\n';
+    permission = 'write';
+
+    mockContainer = {
+      fetch: vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ success: true, message: 'Reviewed pull request #12 (comment)' }), { status: 200 })
+      )
+    };
+
+    mockEnv = {
+      MY_CONTAINER: {
+        idFromName: vi.fn().mockReturnValue('mock-container-id'),
+        get: vi.fn().mockReturnValue(mockContainer)
+      },
+      GITHUB_APP_CONFIG: {
+        idFromName: vi.fn().mockReturnValue('mock-config-id'),
+        get: vi.fn().mockReturnValue({
+          fetch: vi.fn().mockImplementation(async () =>
+            new Response(JSON.stringify({ anthropicApiKey: 'test-claude-key' }), { status: 200 })
+          )
+        })
+      },
+      JOB_TRACKER: {
+        idFromName: vi.fn().mockReturnValue('mock-tracker-id'),
+        get: vi.fn().mockReturnValue({
+          fetch: vi.fn().mockImplementation(async (request: Request) => {
+            const url = new URL(request.url);
+            if (url.pathname === '/start') {
+              const job = await request.json() as any;
+              jobs.push({ ...job, id: `job-${jobs.length}`, status: 'running' });
+              return new Response(JSON.stringify({ id: `job-${jobs.length - 1}` }));
+            }
+            if (url.pathname === '/finish') {
+              const result = await request.json() as any;
+              Object.assign(jobs.find(job => job.id === result.id), { status: result.status });
+            }
+            return new Response('OK');
+          })
+        })
+      }
+    };
+
+    mockConfigDO = {
+      fetch: vi.fn().mockImplementation(async () =>
+        new Response(JSON.stringify({ token: 'test-installation-token' }), { status: 200 })
+      )
+    };
+
+    fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input: any) => {
+      const url = typeof input === 'string' ? input : input.url;
+      if (url.includes('/contents/.claude-containers.yml') && repoConfig) {
+        return new Response(JSON.stringify({ content: btoa(repoConfig), sha: 'cfg' }), { status: 200 });
+      }
+      if (url.includes('/contents/')) {
+        return new Response('Not Found', { status: 404 });
+      }
+      if (url.includes('/collaborators/')) {
+        return new Response(JSON.stringify({ role_name: permission }), { status: 200 });
+      }
+      return new Response(JSON.stringify({ id: 999 }), { status: 201 });
+    });
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  it('should review the head commit when code review is enabled', async () => {
+    const response = await handlePullRequestEvent(pullRequestEvent('synchronize'), mockEnv, mockConfigDO);
+    expect(response.status).toBe(200);
+
+    expect(mockEnv.MY_CONTAINER.idFromName).toHaveBeenCalledWith('claude-pr-9001');
+
+    const request = mockContainer.fetch.mock.calls[0][0];
+    expect(request.url).toBe('http://internal/process-code-review');
+    expect(JSON.parse(await request.text())).toMatchObject({
+      PR_NUMBER: '12',
+      PR_AUTHOR: 'jane',
+      HEAD_SHA: 'abc1234def',
+      BASE_BRANCH: 'main',
+      PROGRESS_COMMENT_ID: '999'
+    });
+    expect(jobs).toEqual([expect.objectContaining({ triggerEvent: 'pull_request.synchronize', reference: '#12', status: 'succeeded' })]);
+  });
+
+  it('should do nothing unless the repository opted in', async () => {
+    repoConfig = null;
+
+    await handlePullRequestEvent(pullRequestEvent(), mockEnv, mockConfigDO);
+    expect(mockContainer.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should skip drafts, closed pull requests and other actions', async () => {
+    await handlePullRequestEvent(pullRequestEvent('opened', { draft: true }), mockEnv, mockConfigDO);
+    await handlePullRequestEvent(pullRequestEvent('closed', { state: 'closed' }), mockEnv, mockConfigDO);
+    await handlePullRequestEvent(pullRequestEvent('labeled'), mockEnv, mockConfigDO);
+
+    expect(mockContainer.fetch).not.toHaveBeenCalled();
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('should not review pushes by bots', async () => {
+    const event = pullRequestEvent('synchronize');
+    event.sender = { login: 'claude-app[bot]', type: 'Bot' };
+
+    await handlePullRequestEvent(event, mockEnv, mockConfigDO);
+    expect(mockContainer.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should record refused reviews without commenting', async () => {
+    permission = 'read';
+
+    await handlePullRequestEvent(pullRequestEvent(), mockEnv, mockConfigDO);
+
+    expect(mockContainer.fetch).not.toHaveBeenCalled();
+    expect(jobs).toEqual([expect.objectContaining({ triggerEvent: 'pull_request.opened', status: 'refused' })]);
+    expect(fetchSpy.mock.calls.some(([input]: any[]) => String(input.url ?? input).includes('/comments'))).toBe(false);
+  });
+});
@@ -0,0 +1,206 @@
+import { GitHubAPI } from "../../github_client";
+import { logWithContext } from "../../log";
+import { progressCommentContext } from "./issue";
+import { RepoConfig, tryLoadGitHubRepoConfig, formatRepoConfigErrors } from "../../repo_config";
+import { getRunLimits, runLimitsContext } from "../../run_limits";
+import { dispatchRun, formatQueuedMessage } from "../../dispatch_queue";
+import { authorizeGitHubUser, recordRefusedTrigger } from "../../authorization";
+
+// Pull request actions that put new code up for review
+const REVIEW_ACTIONS = ['opened', 'synchronize', 'reopened', 'ready_for_review'];
+
+// Start a run that reviews a pull request without changing it
+async function routeCodeReviewToClaudeCodeContainer(
+  pullRequest: any,
+  repository: any,
+  repoConfig: RepoConfig,
+  acknowledgment: any,
+  triggerEvent: string,
+  env: any,
+  configDO: any,
+  origin?: string
+): Promise<void> {
+  // The pull request's container, so a review waits for follow-ups and CI fixes to finish
+  const containerName = `claude-pr-${pullRequest.id}`;
+
+  logWithContext('CLAUDE_ROUTING', 'Routing pull request to Claude Code container for review', {
+    pullNumber: pullRequest.number,
+    containerName,
+    headSha: pullRequest.head.sha,
+    repository: repository.full_name
+  });
+
+  const claudeConfigId = env.GITHUB_APP_CONFIG.idFromName('claude-config');
+  const claudeConfigDO = env.GITHUB_APP_CONFIG.get(claudeConfigId);
+  const claudeKeyResponse = await claudeConfigDO.fetch(new Request('http://internal/get-claude-key'));
+  const claudeKeyData = await claudeKeyResponse.json() as { anthropicApiKey: string | null };
+
+  if (!claudeKeyData.anthropicApiKey) {
+    logWithContext('CLAUDE_ROUTING', 'Claude API key not configured');
+    throw new Error('Claude API key not configured. Please visit /claude-setup first.');
+  }
+
+  const runLimits = await getRunLimits(configDO, repository.full_name);
+
+  const tokenResponse = await configDO.fetch(new Request('http://internal/get-installation-token'));
+  const tokenData = await tokenResponse.json() as { token: string };
+
+  const reviewContext = {
+    ANTHROPIC_API_KEY: claudeKeyData.anthropicApiKey,
+    GITHUB_TOKEN: tokenData.token,
+    REPOSITORY_URL: repository.clone_url,
+    REPOSITORY_NAME: repository.full_name,
+    PR_NUMBER: pullRequest.number.toString(),
+    PR_TITLE: pullRequest.title,
+    PR_BODY: pullRequest.body || '',
+    PR_AUTHOR: pullRequest.user?.login || '',
+    HEAD_BRANCH: pullRequest.head.ref,
+    BASE_BRANCH: pullRequest.base.ref,
+    HEAD_SHA: pullRequest.head.sha,
+    REPO_CONFIG: JSON.stringify(repoConfig),
+    ...runLimitsContext(runLimits),
+    ...progressCommentContext(acknowledgment),
+    MESSAGE: `Reviewing PR #${pullRequest.number}`
+  };
+
+  await dispatchRun(env, {
+    provider: 'github',
+    repository: repository.full_name,
+    reference: `#${pullRequest.number}`,
+    containerName,
+    triggerEvent
+  }, {
+    route: '/process-code-review',
+    context: reviewContext,
+    origin,
+    githubConfigId: configDO.id?.toString(),
+    // A review of an older commit is of no use
+    change: { number: pullRequest.number, headSha: pullRequest.head.sha }
+  }, {
+    onQueued: async (position, queueLength) => {
+      await new GitHubAPI(configDO).createComment(
+        repository.owner.login,
+        repository.name,
+        pullRequest.number,
+        `🤖 **Claude Code Review**\n\n${formatQueuedMessage(position, queueLength)}\n\n---\n🚀 Powered by Claude Code`
+      );
+    }
+  });
+}
+
+// Handle pull_request events: review the pull request when the repository has opted in
+// with `code_review: true`. Drafts are reviewed once they are marked ready.
+export async function handlePullRequestEvent(data: any, env: any, configDO: any, origin?: string): Promise<Response> {
+  const pullRequest = data.pull_request;
+  const repository = data.repository;
+  const sender = data.sender;
+
+  logWithContext('PULL_REQUEST_EVENT', 'Processing pull request event', {
+    action: data.action,
+    pullNumber: pullRequest?.number,
+    headSha: pullRequest?.head?.sha,
+    sender: sender?.login,
+    draft: pullRequest?.draft
+  });
+
+  if (!REVIEW_ACTIONS.includes(data.action) || pullRequest?.draft || pullRequest?.state !== 'open') {
+    return new Response('Pull request event ignored', { status: 200 });
+  }
+
+  // Pushes by bots, including Claude's own commits on its pull requests, aren't reviewed
+  if (sender?.type === 'Bot') {
+    logWithContext('PULL_REQUEST_EVENT', 'Ignoring pull request event from a bot', { sender: sender.login });
+    return new Response('Pull request event from a bot', { status: 200 });
+  }
+
+  const githubAPI = new GitHubAPI(configDO);
+
+  // Read from the default branch, so a pull request can't turn reviews on for itself
+  const repoConfig = await tryLoadGitHubRepoConfig(
+    githubAPI,
+    repository.owner.login,
+    repository.name,
+    repository.default_branch
+  );
+  if (!repoConfig) {
+    logWithContext('PULL_REQUEST_EVENT', 'Repository configuration unavailable, not starting', { repository: repository.full_name });
+    return new Response('Repository configuration unavailable', { status: 200 });
+  }
+
+  if (!repoConfig.config.codeReview) {
+    return new Response('Code review is not enabled', { status: 200 });
+  }
+
+  if (repoConfig.errors.length > 0) {
+    await githubAPI.createComment(
+      repository.owner.login,
+      repository.name,
+      pullRequest.number,
+      formatRepoConfigErrors(repoConfig)
+    );
+    return new Response('Invalid repository configuration', { status: 200 });
+  }
+
+  const triggerEvent = `pull_request.${data.action}`;
+  const authorization = await authorizeGitHubUser(
+    githubAPI,
+    repository.owner.login,
+    repository.name,
+    sender.login,
+    repoConfig.config.authorization
+  );
+
+  // Refused silently: every push would otherwise get the same comment
+  if (!authorization.authorized) {
+    await recordRefusedTrigger(env, {
+      triggerEvent,
+      provider: 'github',
+      repository: repository.full_name,
+      reference: `#${pullRequest.number}`,
+      containerName: `claude-pr-${pullRequest.id}`
+    }, sender.login, authorization);
+    return new Response('User not authorized', { status: 200 });
+  }
+
+  try {
+    const acknowledgment = await githubAPI.createComment(
+      repository.owner.login,
+      repository.name,
+      pullRequest.number,
+      `🤖 **Claude Code Review**\n\nI'm reviewing ${pullRequest.head.sha.substring(0, 7)} and will post my comments on the diff. I won't change any code.\n\n---\n🚀 Powered by Claude Code`
+    );
+
+    await routeCodeReviewToClaudeCodeContainer(
+      pullRequest,
+      repository,
+      repoConfig.config,
+      acknowledgment,
+      triggerEvent,
+      env,
+      configDO,
+      origin
+    );
+
+    logWithContext('PULL_REQUEST_EVENT', 'Pull request routed to Claude Code container for review');
+  } catch (error) {
+    logWithContext('PULL_REQUEST_EVENT', 'Failed to review pull request', {
+      error: error instanceof Error ? error.message : String(error),
+      pullNumber: pullRequest.number
+    });
+
+    try {
+      await githubAPI.createComment(
+        repository.owner.login,
+        repository.name,
+        pullRequest.number,
+        `❌ I encountered an error while reviewing this pull request: ${(error as Error).message}`
+      );
+    } catch (commentError) {
+      logWithContext('PULL_REQUEST_EVENT', 'Failed to post error comment', {
+        commentError: commentError instanceof Error ? commentError.message : String(commentError)
+      });
+    }
+  }
+
+  return new Response('Pull request processed', { status: 200 });
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { handlePullRequestReviewEvent, handlePullRequestReviewCommentEvent, isClaudePullRequest } from './pull_request_review';
+
+describe('GitHub Pull Request Review Handler', () => {
+  let mockEnv: any;
+  let mockConfigDO: any;
+  let mockContainer: any;
+  let fetchSpy: any;
+
+  const repository = {
+    id: 77,
+    name: 'my-repo',
+    full_name: 'acme/my-repo',
+    clone_url: 'https://github.com/acme/my-repo.git',
+    owner: { login: 'acme' }
+  };
+
+  const baseEvent = () => ({
+    action: 'submitted',
+    review: {
+      id: 3001,
+      state: 'changes_requested',
+      body: 'A couple of things',
+      user: { login: 'reviewer', type: 'User' }
+    },
+    pull_request: {
+      id: 9001,
+      number: 12,
+      title: 'Fix issue #42',
+      body: 'Fixes #42',
+      head: { ref: 'claude-code/issue-42-2025-01-01', repo: { id: 77 } },
+      base: { ref: 'main' }
+    },
+    repository
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockContainer = {
+      fetch: vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ success: true, message: 'Review processed' }), { status: 200 })
+      )
+    };
+
+    mockEnv = {
+      MY_CONTAINER: {
+        idFromName: vi.fn().mockReturnValue('mock-container-id'),
+        get: vi.fn().mockReturnValue(mockContainer)
+      },
+      GITHUB_APP_CONFIG: {
+        idFromName: vi.fn().mockReturnValue('mock-config-id'),
+        get: vi.fn().mockReturnValue({
+          fetch: vi.fn().mockImplementation(async () =>
+            new Response(JSON.stringify({ anthropicApiKey: 'test-claude-key' }), { status: 200 })
+          )
+        })
+      }
+    };
+
+    mockConfigDO = {
+      fetch: vi.fn().mockImplementation(async () =>
+        new Response(JSON.stringify({ token: 'test-installation-token' }), { status: 200 })
+      )
+    };
+
+    fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input: any) => {
+      const url = typeof input === 'string' ? input : input.url;
+      if (url.includes('/contents/')) {
+        return new Response('Not Found', { status: 404 });
+      }
+      if (url.includes('/permission')) {
+        return new Response(JSON.stringify({ permission: 'write', role_name: 'write' }), { status: 200 });
+      }
+      if (url.includes('/reviews/3001/comments')) {
+        return new Response(JSON.stringify([
+          {
+            id: 71,
+            path: 'src/dates.ts',
+            line: 18,
+            side: 'RIGHT',
+            diff_hunk: '@@ -10,6 +10,8 @@',
+            body: 'Use the helper from utils/ here',
+            user: { login: 'reviewer' }
+          }
+        ]), { status: 200 });
+      }
+      return new Response(JSON.stringify({ id: 999 }), { status: 201 });
+    });
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  it('should only treat same-repo claude-code branches as Claude pull requests', () => {
+    const event = baseEvent();
+    expect(isClaudePullRequest(event.pull_request, repository)).toBe(true);
+    expect(isClaudePullRequest({ ...event.pull_request, head: { ref: 'feature/x', repo: { id: 77 } } }, repository)).toBe(false);
+    expect(isClaudePullRequest({ ...event.pull_request, head: { ref: 'claude-code/x', repo: { id: 5 } } }, repository)).toBe(false);
+    expect(isClaudePullRequest({ ...event.pull_request, head: { ref: 'bots/x', repo: { id: 77 } } }, repository, 'bots/')).toBe(true);
+  });
+
+  it('should ignore reviews on pull requests Claude did not open', async () => {
+    const event = baseEvent();
+    event.pull_request.head.ref = 'feature/manual-change';
+
+    const response = await handlePullRequestReviewEvent(event, mockEnv, mockConfigDO);
+    expect(response.status).toBe(200);
+    expect(mockEnv.MY_CONTAINER.get).not.toHaveBeenCalled();
+  });
+
+  it('should route review comments with file paths and lines to the PR container', async () => {
+    const response = await handlePullRequestReviewEvent(baseEvent(), mockEnv, mockConfigDO);
+    expect(response.status).toBe(200);
+
+    expect(mockEnv.MY_CONTAINER.idFromName).toHaveBeenCalledWith('claude-pr-9001');
+
+    const request = mockContainer.fetch.mock.calls[0][0];
+    expect(request.url).toBe('http://internal/process-review');
+
+    const body = JSON.parse(await request.text());
+    expect(body).toMatchObject({
+      PR_NUMBER: '12',
+      HEAD_BRANCH: 'claude-code/issue-42-2025-01-01',
+      REVIEW_AUTHOR: 'reviewer',
+      REVIEW_BODY: 'A couple of things'
+    });
+    expect(JSON.parse(body.REVIEW_COMMENTS)).toEqual([
+      expect.objectContaining({ id: 71, path: 'src/dates.ts', line: 18, body: 'Use the helper from utils/ here' })
+    ]);
+  });
+
+  it('should not start a run for individual review comment events', async () => {
+    const response = await handlePullRequestReviewCommentEvent({
+      action: 'created',
+      comment: { id: 71, pull_request_review_id: 3001 },
+      pull_request: { number: 12 }
+    }, mockEnv, mockConfigDO);
+
+    expect(response.status).toBe(200);
+    expect(mockEnv.MY_CONTAINER.get).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,294 @@
+import { GitHubAPI } from "../../github_client";
+import { logWithContext } from "../../log";
+import { isBot } from "./issue_comment";
+import { progressCommentContext } from "./issue";
+import { DEFAULT_REPO_CONFIG, RepoConfig, tryLoadGitHubRepoConfig, formatRepoConfigErrors } from "../../repo_config";
+import { getRunLimits, runLimitsContext } from "../../run_limits";
+import { authorizeGitHubUser, formatAuthorizationRefusal, recordRefusedTrigger } from "../../authorization";
+import { dispatchRun, formatQueuedMessage } from "../../dispatch_queue";
+
+// Limit on the size of a single review comment passed to the container
+const MAX_COMMENT_LENGTH = 4000;
+
+interface ReviewCommentContext {
+  id: number;
+  path: string;
+  line: number | null;
+  side?: string;
+  diffHunk?: string;
+  body: string;
+  author: string;
+}
+
+// Only pull requests opened by the container (same repository, head branch under the
+// configured branch prefix, claude-code/ by default)
+export function isClaudePullRequest(
+  pullRequest: any,
+  repository: any,
+  branchPrefix: string = DEFAULT_REPO_CONFIG.branchPrefix
+): boolean {
+  return !!pullRequest?.head?.ref?.startsWith(branchPrefix) &&
+         pullRequest.head.repo?.id === repository.id;
+}
+
+// Route PR review feedback to the Claude Code container for this pull request
+async function routeReviewToClaudeCodeContainer(
+  pullRequest: any,
+  repository: any,
+  review: { id: number; body: string; author: string },
+  comments: ReviewCommentContext[],
+  repoConfig: RepoConfig,
+  acknowledgment: any,
+  env: any,
+  configDO: any,
+  origin?: string
+): Promise<void> {
+  const containerName = `claude-pr-${pullRequest.id}`;
+
+  logWithContext('CLAUDE_ROUTING', 'Routing review feedback to Claude Code container', {
+    pullNumber: pullRequest.number,
+    reviewId: review.id,
+    containerName,
+    commentCount: comments.length,
+    repository: repository.full_name
+  });
+
+  const tokenResponse = await configDO.fetch(new Request('http://internal/get-installation-token'));
+  const tokenData = await tokenResponse.json() as { token: string };
+
+  const claudeConfigId = env.GITHUB_APP_CONFIG.idFromName('claude-config');
+  const claudeConfigDO = env.GITHUB_APP_CONFIG.get(claudeConfigId);
+  const claudeKeyResponse = await claudeConfigDO.fetch(new Request('http://internal/get-claude-key'));
+  const claudeKeyData = await claudeKeyResponse.json() as { anthropicApiKey: string | null };
+
+  if (!claudeKeyData.anthropicApiKey) {
+    logWithContext('CLAUDE_ROUTING', 'Claude API key not configured');
+    throw new Error('Claude API key not configured. Please visit /claude-setup first.');
+  }
+
+  const runLimits = await getRunLimits(configDO, repository.full_name);
+
+  const reviewContext = {
+    ANTHROPIC_API_KEY: claudeKeyData.anthropicApiKey,
+    GITHUB_TOKEN: tokenData.token,
+    REPOSITORY_URL: repository.clone_url,
+    REPOSITORY_NAME: repository.full_name,
+    PR_NUMBER: pullRequest.number.toString(),
+    PR_TITLE: pullRequest.title,
+    PR_BODY: pullRequest.body || '',
+    HEAD_BRANCH: pullRequest.head.ref,
+    BASE_BRANCH: pullRequest.base.ref,
+    REVIEW_ID: review.id.toString(),
+    REVIEW_BODY: review.body,
+    REVIEW_AUTHOR: review.author,
+    REVIEW_COMMENTS: JSON.stringify(comments),
+    REPO_CONFIG: JSON.stringify(repoConfig),
+    ...runLimitsContext(runLimits),
+    ...progressCommentContext(acknowledgment),
+    MESSAGE: `Processing review feedback on PR #${pullRequest.number}`
+  };
+
+  // Review follow-ups take a container slot too, one at a time per pull request
+  await dispatchRun(env, {
+    provider: 'github',
+    repository: repository.full_name,
+    reference: `#${pullRequest.number}`,
+    containerName,
+    triggerEvent: 'pull_request_review.submitted'
+  }, {
+    route: '/process-review',
+    context: reviewContext,
+    origin,
+    githubConfigId: configDO.id?.toString()
+  }, {
+    onQueued: async (position, queueLength) => {
+      await new GitHubAPI(configDO).createComment(
+        repository.owner.login,
+        repository.name,
+        pullRequest.number,
+        `🤖 **Claude Code Assistant**\n\n${formatQueuedMessage(position, queueLength)}\n\n---\n🚀 Powered by Claude Code`
+      );
+    }
+  });
+}
+
+// Handle pull_request_review events (a review with its inline comments was submitted)
+export async function handlePullRequestReviewEvent(data: any, env: any, configDO: any, origin?: string): Promise<Response> {
+  const action = data.action;
+  const review = data.review;
+  const pullRequest = data.pull_request;
+  const repository = data.repository;
+
+  logWithContext('PR_REVIEW_EVENT', 'Processing pull request review event', {
+    action,
+    reviewId: review?.id,
+    state: review?.state,
+    pullNumber: pullRequest?.number,
+    headRef: pullRequest?.head?.ref,
+    author: review?.user?.login
+  });
+
+  if (action !== 'submitted') {
+    return new Response('Review action ignored', { status: 200 });
+  }
+
+  // Same-repository pull requests only; forks can't have been opened by the container
+  if (pullRequest?.head?.repo?.id !== repository.id) {
+    logWithContext('PR_REVIEW_EVENT', 'Ignoring review on pull request from another repository', {
+      pullNumber: pullRequest?.number
+    });
+    return new Response('Not a Claude pull request', { status: 200 });
+  }
+
+  if (isBot(review.user)) {
+    logWithContext('PR_REVIEW_EVENT', 'Ignoring bot review', { reviewId: review.id });
+    return new Response('Bot review ignored', { status: 200 });
+  }
+
+  const githubAPI = new GitHubAPI(configDO);
+
+  // An invalid configuration falls back to the defaults until the run is about to start
+  const repoConfig = await tryLoadGitHubRepoConfig(
+    githubAPI,
+    repository.owner.login,
+    repository.name,
+    repository.default_branch
+  );
+  if (!repoConfig) {
+    logWithContext('PR_REVIEW_EVENT', 'Repository configuration unavailable, not starting', { repository: repository.full_name });
+    return new Response('Repository configuration unavailable', { status: 200 });
+  }
+
+  if (!isClaudePullRequest(pullRequest, repository, repoConfig.config.branchPrefix)) {
+    logWithContext('PR_REVIEW_EVENT', 'Ignoring review on pull request not opened by Claude', {
+      pullNumber: pullRequest?.number,
+      headRef: pullRequest?.head?.ref
+    });
+    return new Response('Not a Claude pull request', { status: 200 });
+  }
+
+  try {
+    const reviewComments = await githubAPI.listReviewComments(
+      repository.owner.login,
+      repository.name,
+      pullRequest.number,
+      review.id
+    );
+
+    const comments: ReviewCommentContext[] = reviewComments.map((comment: any) => ({
+      id: comment.id,
+      path: comment.path,
+      line: comment.line ?? comment.original_line ?? null,
+      side: comment.side,
+      diffHunk: comment.diff_hunk,
+      body: (comment.body || '').substring(0, MAX_COMMENT_LENGTH),
+      author: comment.user?.login || review.user.login
+    }));
+
+    // Approvals without feedback leave nothing to act on
+    if (comments.length === 0 && !review.body?.trim()) {
+      logWithContext('PR_REVIEW_EVENT', 'Review has no feedback to act on', {
+        reviewId: review.id,
+        state: review.state
+      });
+      return new Response('Review has no feedback', { status: 200 });
+    }
+
+    // The defaults are good enough to recognise the pull request, but a run needs the
+    // repository's own tool policy and authorization settings
+    if (repoConfig.errors.length > 0) {
+      logWithContext('PR_REVIEW_EVENT', 'Repository configuration is invalid, not starting', {
+        path: repoConfig.path,
+        errors: repoConfig.errors
+      });
+      await githubAPI.createComment(
+        repository.owner.login,
+        repository.name,
+        pullRequest.number,
+        formatRepoConfigErrors(repoConfig)
+      );
+      return new Response('Invalid repository configuration', { status: 200 });
+    }
+
+    const authorization = await authorizeGitHubUser(
+      githubAPI,
+      repository.owner.login,
+      repository.name,
+      review.user.login,
+      repoConfig.config.authorization
+    );
+
+    if (!authorization.authorized) {
+      await githubAPI.createComment(
+        repository.owner.login,
+        repository.name,
+        pullRequest.number,
+        formatAuthorizationRefusal(review.user.login, 'github', repoConfig.config.authorization)
+      );
+      await recordRefusedTrigger(env, {
+        triggerEvent: 'pull_request_review.submitted',
+        provider: 'github',
+        repository: repository.full_name,
+        reference: `#${pullRequest.number}`,
+        containerName: `claude-pr-${pullRequest.id}`
+      }, review.user.login, authorization);
+      return new Response('User not authorized', { status: 200 });
+    }
+
+    const acknowledgment = await githubAPI.createComment(
+      repository.owner.login,
+      repository.name,
+      pullRequest.number,
+      `🤖 **Claude Code Assistant**\n\nThanks for the review, @${review.user.login}! I'm working through ${comments.length} comment${comments.length === 1 ? '' : 's'} and will push follow-up commits to \`${pullRequest.head.ref}\`.\n\n---\n🚀 Powered by Claude Code`
+    );
+
+    await routeReviewToClaudeCodeContainer(
+      pullRequest,
+      repository,
+      { id: review.id, body: review.body || '', author: review.user.login },
+      comments,
+      repoConfig.config,
+      acknowledgment,
+      env,
+      configDO,
+      origin
+    );
+
+    logWithContext('PR_REVIEW_EVENT', 'Review routed to Claude Code container successfully');
+
+  } catch (error) {
+    logWithContext('PR_REVIEW_EVENT', 'Failed to process review', {
+      error: error instanceof Error ? error.message : String(error),
+      pullNumber: pullRequest.number
+    });
+
+    try {
+      await githubAPI.createComment(
+        repository.owner.login,
+        repository.name,
+        pullRequest.number,
+        `❌ I encountered an error while addressing this review: ${(error as Error).message}\n\nI'll need human assistance to resolve this.`
+      );
+    } catch (commentError) {
+      logWithContext('PR_REVIEW_EVENT', 'Failed to post error comment', {
+        commentError: commentError instanceof Error ? commentError.message : String(commentError)
+      });
+    }
+  }
+
+  return new Response('Pull request review processed', { status: 200 });
+}
+
+// Handle pull_request_review_comment events.
+// Every inline comment belongs to a review, and GitHub also delivers that review as a
+// pull_request_review event, so the run is started from there to avoid one run per comment.
+export async function handlePullRequestReviewCommentEvent(data: any, _env: any, _configDO: any): Promise<Response> {
+  logWithContext('PR_REVIEW_COMMENT_EVENT', 'Review comment received, handled with its review', {
+    action: data.action,
+    commentId: data.comment?.id,
+    reviewId: data.comment?.pull_request_review_id,
+    pullNumber: data.pull_request?.number
+  });
+
+  return new Response('Review comment acknowledged', { status: 200 });
+}
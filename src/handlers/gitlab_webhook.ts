@@ -2,9 +2,18 @@ import { logWithContext } from "../log";
 import { handleGitLabIssuesEvent } from "./gitlab_webhooks/issue";
 import { handleGitLabNoteEvent } from "./gitlab_webhooks/note";
 import { handleGitLabMergeRequestEvent } from "./gitlab_webhooks/merge_request";
+import {
+  recordWebhookDelivery,
+  finishWebhookDelivery,
+  duplicateDeliveryResponse,
+  pickHeaders,
+  GITLAB_REPLAY_HEADERS,
+  WebhookOptions
+} from "../webhook_deliveries";
 
 // Route GitLab webhook events to specific handlers
-async function routeGitLabEvent(data: any, configDO: any, env: any, ctx: ExecutionContext): Promise<Response> {
+// origin is the worker's own URL, for links back to it (e.g. run transcripts)
+async function routeGitLabEvent(data: any, configDO: any, env: any, ctx: ExecutionContext, origin: string): Promise<Response> {
   logWithContext('GITLAB_EVENT_ROUTER', 'Routing GitLab event', {
     objectKind: data.object_kind,
     action: data.object_attributes?.action,
@@ -14,15 +23,15 @@ async function routeGitLabEvent(data: any, configDO: any, env: any, ctx: Executi
   switch (data.object_kind) {
     case 'issue':
       logWithContext('GITLAB_EVENT_ROUTER', 'Routing to issue handler');
-      return await handleGitLabIssuesEvent(data, env, configDO, ctx);
+      return await handleGitLabIssuesEvent(data, env, configDO, ctx, origin);
 
     case 'note':
       logWithContext('GITLAB_EVENT_ROUTER', 'Routing to note handler');
-      return await handleGitLabNoteEvent(data, env, configDO);
+      return await handleGitLabNoteEvent(data, env, configDO, origin);
 
     case 'merge_request':
       logWithContext('GITLAB_EVENT_ROUTER', 'Routing to merge request handler');
-      return await handleGitLabMergeRequestEvent(data, env, configDO);
+      return await handleGitLabMergeRequestEvent(data, env, configDO, origin);
 
     default:
       logWithContext('GITLAB_EVENT_ROUTER', 'Unhandled GitLab event', {
@@ -43,24 +52,36 @@ function verifyGitLabToken(providedToken: string, expectedSecret: string): boole
   return providedToken === expectedSecret;
 }
 
-export async function handleGitLabWebhook(request: Request, env: any, ctx: ExecutionContext): Promise<Response> {
+export async function handleGitLabWebhook(
+  request: Request,
+  env: any,
+  ctx: ExecutionContext,
+  options: WebhookOptions = {}
+): Promise<Response> {
   const startTime = Date.now();
   
+  // Set once the delivery is recorded, so it can be marked processed or failed
+  let recordedDelivery: string | null = null;
+
   try {
     // Check for required headers
     const token = request.headers.get('X-Gitlab-Token');
     const event = request.headers.get('X-Gitlab-Event');
+    const eventUuid = request.headers.get('X-Gitlab-Event-UUID');
     
     logWithContext('GITLAB_WEBHOOK', 'Received GitLab webhook', {
       event,
+      eventUuid,
       hasToken: !!token,
+      replay: !!options.replay,
       headers: {
         userAgent: request.headers.get('user-agent'),
         contentType: request.headers.get('content-type')
       }
     });
     
-    if (!token || !event) {
+    // Replayed deliveries were verified when first received; the token isn't stored
+    if ((!token && !options.replay) || !event) {
       logWithContext('GITLAB_WEBHOOK', 'Missing required webhook headers', {
         hasToken: !!token,
         hasEvent: !!event
@@ -70,8 +91,9 @@ export async function handleGitLabWebhook(request: Request, env: any, ctx: Execu
 
     // Parse the payload to get project info
     let webhookData;
+    let payload = '';
     try {
-      const payload = await request.text();
+      payload = await request.text();
       webhookData = JSON.parse(payload);
       
       logWithContext('GITLAB_WEBHOOK', 'Webhook payload parsed successfully', {
@@ -144,7 +166,7 @@ export async function handleGitLabWebhook(request: Request, env: any, ctx: Execu
     // Verify the webhook token
     logWithContext('GITLAB_WEBHOOK', 'Verifying webhook token');
     
-    const isValid = verifyGitLabToken(token, credentials.webhookSecret);
+    const isValid = options.replay || verifyGitLabToken(token!, credentials.webhookSecret);
     
     logWithContext('GITLAB_WEBHOOK', 'Token verification result', { isValid });
     
@@ -153,13 +175,30 @@ export async function handleGitLabWebhook(request: Request, env: any, ctx: Execu
       return new Response('Invalid token', { status: 401 });
     }
 
+    // Skip redeliveries of an event that was already processed (older GitLab versions don't send a UUID)
+    if (eventUuid) {
+      const { duplicate } = await recordWebhookDelivery(env, {
+        provider: 'gitlab',
+        deliveryId: eventUuid,
+        event,
+        headers: pickHeaders(request, GITLAB_REPLAY_HEADERS),
+        payload
+      }, options);
+
+      if (duplicate) {
+        return duplicateDeliveryResponse(eventUuid);
+      }
+      recordedDelivery = eventUuid;
+    }
+
     // Route to appropriate event handler based on object_kind
     logWithContext('GITLAB_WEBHOOK', 'Routing to event handler', {
       objectKind: webhookData.object_kind,
       event
     });
 
-    const eventResponse = await routeGitLabEvent(webhookData, configDO, env, ctx);
+    const eventResponse = await routeGitLabEvent(webhookData, configDO, env, ctx, new URL(request.url).origin);
+    await finishWebhookDelivery(env, 'gitlab', recordedDelivery, eventResponse.status < 500);
 
     const processingTime = Date.now() - startTime;
     logWithContext('GITLAB_WEBHOOK', 'Webhook processing completed', {
@@ -172,6 +211,7 @@ export async function handleGitLabWebhook(request: Request, env: any, ctx: Execu
     return eventResponse;
 
   } catch (error) {
+    await finishWebhookDelivery(env, 'gitlab', recordedDelivery, false);
     const processingTime = Date.now() - startTime;
     logWithContext('GITLAB_WEBHOOK', 'Webhook processing error', {
       error: error instanceof Error ? error.message : String(error),
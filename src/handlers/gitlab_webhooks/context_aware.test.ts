@@ -1,7 +1,8 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { 
   extractFileLineContext, 
   extractDiscussionThreadContext, 
+  extractLinesAround,
   formatContextAwareResponse,
   enhanceMRCommentContext 
 } from './context_aware';
@@ -9,9 +10,31 @@ import {
 describe('Context-Aware Processing', () => {
   let mockEnv: any;
   let mockConfigDO: any;
+  let fetchSpy: any;
+
+  const authFile = Array.from({ length: 60 }, (_, i) => `line ${i + 1}`).join('\n');
 
   beforeEach(() => {
     vi.clearAllMocks();
+
+    // Mock GitLab repository files and discussions APIs
+    fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input: any) => {
+      const url = typeof input === 'string' ? input : input.url;
+      if (url.includes('/repository/files/')) {
+        return new Response(authFile, { status: 200 });
+      }
+      if (url.includes('/discussions/')) {
+        return new Response(JSON.stringify({
+          id: 'discussion-123',
+          notes: [
+            { author: { username: 'alice' }, body: 'Why is this synchronous?', created_at: '2025-01-01T00:00:00Z', system: false },
+            { author: { username: 'gitlab' }, body: 'changed this line', system: true },
+            { author: { username: 'bob' }, body: '@duo-agent can you fix it?', created_at: '2025-01-01T01:00:00Z', system: false }
+          ]
+        }), { status: 200 });
+      }
+      return new Response('Not Found', { status: 404 });
+    });
     
     // Mock container environment
     mockEnv = {
@@ -45,6 +68,10 @@ describe('Context-Aware Processing', () => {
     };
   });
 
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
   describe('extractFileLineContext', () => {
     it('should extract file/line information from MR comment position', async () => {
       const positionData = {
@@ -71,6 +98,36 @@ describe('Context-Aware Processing', () => {
         headSha: 'def456',
         codeContext: expect.any(String)
       });
+      expect(result!.codeContext).toContain('> 42 | line 42');
+      expect(result!.codeContext).toContain('32 | line 32');
+      expect(result!.codeContext).not.toContain('line 31\n');
+      expect(fetchSpy.mock.calls[0][0]).toBe('https://gitlab.com/api/v4/projects/123/repository/files/src%2Fauth.js/raw?ref=def456');
+    });
+
+    it('should read removed lines from the base commit', async () => {
+      await extractFileLineContext({
+        base_sha: 'abc123',
+        head_sha: 'def456',
+        old_path: 'src/legacy.js',
+        new_path: 'src/legacy.js',
+        new_line: null,
+        old_line: 5
+      }, { token: 'test-token', url: 'https://gitlab.com', projectId: '123' });
+
+      expect(fetchSpy.mock.calls[0][0]).toContain('/repository/files/src%2Flegacy.js/raw?ref=abc123');
+    });
+
+    it('should fall back to empty code context when the API call fails', async () => {
+      fetchSpy.mockResolvedValueOnce(new Response('Not Found', { status: 404 }));
+
+      const result = await extractFileLineContext({
+        base_sha: 'abc123',
+        head_sha: 'def456',
+        new_path: 'src/missing.js',
+        new_line: 3
+      }, { token: 'test-token', url: 'https://gitlab.com', projectId: '123' });
+
+      expect(result!.codeContext).toBe('');
     });
 
     it('should return null when no position data available', async () => {
@@ -98,6 +155,11 @@ describe('Context-Aware Processing', () => {
         threadComments: expect.any(Array),
         totalComments: expect.any(Number)
       });
+      expect(result!.threadComments).toEqual([
+        { author: 'alice', body: 'Why is this synchronous?', created_at: '2025-01-01T00:00:00Z' },
+        { author: 'bob', body: '@duo-agent can you fix it?', created_at: '2025-01-01T01:00:00Z' }
+      ]);
+      expect(fetchSpy.mock.calls[0][0]).toBe('https://gitlab.com/api/v4/projects/123/merge_requests/1/discussions/discussion-123');
     });
 
     it('should handle missing discussion ID', async () => {
@@ -112,6 +174,13 @@ describe('Context-Aware Processing', () => {
     });
   });
 
+  describe('extractLinesAround', () => {
+    it('should clamp the snippet to the start of the file', () => {
+      const snippet = extractLinesAround('a\nb\nc', 1, 1);
+      expect(snippet).toBe('> 1 | a\n  2 | b');
+    });
+  });
+
   describe('formatContextAwareResponse', () => {
     it('should format response with file/line context for MR comments', () => {
       const context = {
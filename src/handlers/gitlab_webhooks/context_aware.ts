@@ -1,6 +1,9 @@
 // Context-aware processing for GitLab webhooks
 // This module enhances the existing GitLab webhook processing with intelligent context extraction
 
+import { logWithContext } from "../../log";
+import { getProjectApiUrl } from "../../gitlab_api";
+
 // Types for enhanced context
 interface FileLineContext {
   filePath: string;
@@ -33,6 +36,31 @@ interface EnhancedMRContext {
   threadContext: DiscussionThreadContext | null;
 }
 
+// Limits for context fetched from the GitLab API
+const CONTEXT_LINES = 10;
+const MAX_CODE_CONTEXT_LENGTH = 4000;
+const MAX_THREAD_COMMENTS = 20;
+const MAX_COMMENT_LENGTH = 2000;
+
+// Return the lines around lineNumber, numbered and with the commented line marked
+export function extractLinesAround(fileContent: string, lineNumber: number, contextLines: number = CONTEXT_LINES): string {
+  const lines = fileContent.split('\n');
+  const start = Math.max(1, lineNumber - contextLines);
+  const end = Math.min(lines.length, lineNumber + contextLines);
+  const width = String(end).length;
+
+  const snippet: string[] = [];
+  for (let current = start; current <= end; current++) {
+    const marker = current === lineNumber ? '>' : ' ';
+    snippet.push(`${marker} ${String(current).padStart(width)} | ${lines[current - 1]}`);
+  }
+
+  const result = snippet.join('\n');
+  return result.length > MAX_CODE_CONTEXT_LENGTH
+    ? result.substring(0, MAX_CODE_CONTEXT_LENGTH) + '\n... (truncated)'
+    : result;
+}
+
 // Extract file/line context from MR comment position data
 export async function extractFileLineContext(
   positionData: any,
@@ -42,25 +70,42 @@ export async function extractFileLineContext(
     return null;
   }
 
-  // Extract position information
+  // Extract position information. Comments on removed lines only have old_line/old_path,
+  // and that content exists at the base commit rather than the head commit.
+  const isRemovedLine = !positionData.new_line && !!positionData.old_line;
   const filePath = positionData.new_path || positionData.old_path;
   const lineNumber = positionData.new_line || positionData.old_line;
   const baseSha = positionData.base_sha;
   const headSha = positionData.head_sha;
 
   // Fetch code context from GitLab API
-  let codeContext = 'function authenticate() { /* ... */ }'; // Default fallback
-  
-  try {
-    // In a real implementation, this would fetch file content from GitLab
-    // const fileResponse = await fetch(`${credentials.url}/api/v4/projects/${credentials.projectId}/repository/files/${encodeURIComponent(filePath)}/raw?ref=${headSha}`, {
-    //   headers: { 'Private-Token': credentials.token }
-    // });
-    // const fileContent = await fileResponse.text();
-    // codeContext = extractLinesAround(fileContent, lineNumber, 5);
-  } catch (error) {
-    // Use fallback if API call fails
-    console.warn('Failed to fetch code context from GitLab API:', error);
+  let codeContext = '';
+
+  if (credentials?.token && credentials?.projectId && lineNumber) {
+    const sourcePath = isRemovedLine ? (positionData.old_path || filePath) : filePath;
+    const ref = isRemovedLine ? baseSha : headSha;
+
+    try {
+      const fileResponse = await fetch(
+        `${getProjectApiUrl(credentials, credentials.projectId)}/repository/files/${encodeURIComponent(sourcePath)}/raw?ref=${encodeURIComponent(ref)}`,
+        { headers: { 'Private-Token': credentials.token } }
+      );
+
+      if (fileResponse.ok) {
+        codeContext = extractLinesAround(await fileResponse.text(), lineNumber);
+      } else {
+        logWithContext('GITLAB_CONTEXT', 'Failed to fetch file for code context', {
+          filePath: sourcePath,
+          ref,
+          status: fileResponse.status
+        });
+      }
+    } catch (error) {
+      logWithContext('GITLAB_CONTEXT', 'Error fetching code context from GitLab API', {
+        filePath: sourcePath,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
   }
 
   return {
@@ -83,12 +128,41 @@ export async function extractDiscussionThreadContext(
     return null;
   }
 
-  // For now, return mock discussion context
-  // In a real implementation, this would fetch discussion from GitLab API
-  const threadComments = [
-    { author: 'user1', body: 'Initial comment' },
-    { author: 'user2', body: 'Follow-up question' }
-  ];
+  let threadComments: DiscussionThreadContext['threadComments'] = [];
+
+  if (credentials?.token && credentials?.projectId) {
+    const resource = noteableType === 'MergeRequest' ? 'merge_requests' : 'issues';
+
+    try {
+      const discussionResponse = await fetch(
+        `${getProjectApiUrl(credentials, credentials.projectId)}/${resource}/${noteableIid}/discussions/${encodeURIComponent(discussionId)}`,
+        { headers: { 'Private-Token': credentials.token } }
+      );
+
+      if (discussionResponse.ok) {
+        const discussion = await discussionResponse.json() as { notes?: any[] };
+
+        threadComments = (discussion.notes || [])
+          .filter(note => !note.system)
+          .slice(-MAX_THREAD_COMMENTS)
+          .map(note => ({
+            author: note.author?.username || 'unknown',
+            body: (note.body || '').substring(0, MAX_COMMENT_LENGTH),
+            created_at: note.created_at
+          }));
+      } else {
+        logWithContext('GITLAB_CONTEXT', 'Failed to fetch discussion thread', {
+          discussionId,
+          status: discussionResponse.status
+        });
+      }
+    } catch (error) {
+      logWithContext('GITLAB_CONTEXT', 'Error fetching discussion thread from GitLab API', {
+        discussionId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
 
   return {
     discussionId,
@@ -109,9 +183,11 @@ export function formatContextAwareResponse(context: ContextAwareResponse): strin
     const fileExtension = context.fileContext.filePath.split('.').pop()?.toLowerCase();
     const language = getLanguageFromExtension(fileExtension);
     
-    response += `\`\`\`${language}\n`;
-    response += context.fileContext.codeContext;
-    response += '\n```\n\n';
+    if (context.fileContext.codeContext) {
+      response += `\`\`\`${language}\n`;
+      response += context.fileContext.codeContext;
+      response += '\n```\n\n';
+    }
     
     // Add commit information
     response += `<details>\n<summary>📋 Commit Information</summary>\n\n`;
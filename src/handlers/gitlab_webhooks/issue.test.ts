@@ -208,7 +208,15 @@ describe('GitLab Issues Handler', () => {
         }
       };
 
-      await handleGitLabIssuesEvent(issueData, mockEnv, mockConfigDO);
+      // No repository configuration, and the author is a maintainer
+      global.fetch = vi.fn().mockImplementation(async (url: string) => url.includes('/members/')
+        ? new Response(JSON.stringify({ access_level: 40 }))
+        : new Response('Not found', { status: 404 }));
+      const runs: Promise<unknown>[] = [];
+      const ctx = { waitUntil: vi.fn((promise: Promise<unknown>) => runs.push(promise)) } as any;
+
+      await handleGitLabIssuesEvent(issueData, mockEnv, mockConfigDO, ctx);
+      await Promise.all(runs);
 
       expect(mockEnv.MY_CONTAINER.idFromName).toHaveBeenCalledWith('claude-gitlab-issue-12345');
     });
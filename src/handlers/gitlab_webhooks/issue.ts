@@ -1,18 +1,16 @@
 import { logWithContext } from "../../log";
-import { containerFetch } from "../../fetch";
-
-// Simplified container response interface
-interface ContainerResponse {
-  success: boolean;
-  message: string;
-  error?: string;
-}
+import { createGitLabIssueNote } from "../../gitlab_api";
+import { loadGitLabRepoConfig, matchesTriggerLabels, formatRepoConfigErrors } from "../../repo_config";
+import { getRunLimits, runLimitsContext } from "../../run_limits";
+import { authorizeGitLabUser, formatAuthorizationRefusal, recordRefusedTrigger } from "../../authorization";
+import { dispatchRun, formatQueuedMessage } from "../../dispatch_queue";
 
 // Route GitLab issue to Claude Code container
 async function routeToClaudeCodeContainer(
   issueData: any, 
   env: any, 
-  configDO: any
+  configDO: any,
+  origin?: string
 ): Promise<void> {
   const issue = issueData.object_attributes;
   const project = issueData.project;
@@ -27,10 +25,6 @@ async function routeToClaudeCodeContainer(
     project: project.path_with_namespace
   });
 
-  // Create unique container for this issue
-  const id = env.MY_CONTAINER.idFromName(containerName);
-  const container = env.MY_CONTAINER.get(id);
-
   // Get GitLab credentials from configDO
   logWithContext('GITLAB_CLAUDE_ROUTING', 'Retrieving GitLab credentials');
 
@@ -42,6 +36,49 @@ async function routeToClaudeCodeContainer(
     url: credentials.url
   });
 
+  const repoConfig = await loadGitLabRepoConfig(
+    credentials,
+    project.id,
+    project.path_with_namespace,
+    project.default_branch
+  );
+
+  if (repoConfig.errors.length > 0) {
+    logWithContext('GITLAB_CLAUDE_ROUTING', 'Repository configuration is invalid, not starting', {
+      path: repoConfig.path,
+      errors: repoConfig.errors
+    });
+    await createGitLabIssueNote(credentials, project.id, issue.iid, formatRepoConfigErrors(repoConfig));
+    return;
+  }
+
+  const issueLabels: string[] = issue.labels?.map((label: any) => label.title ?? label.name) || [];
+  if (!matchesTriggerLabels(repoConfig.config, issueLabels)) {
+    logWithContext('GITLAB_CLAUDE_ROUTING', 'Issue has none of the configured trigger labels', {
+      triggerLabels: repoConfig.config.triggers.labels,
+      issueLabels
+    });
+    return;
+  }
+
+  const authorization = await authorizeGitLabUser(credentials, project.id, user, repoConfig.config.authorization);
+  if (!authorization.authorized) {
+    await createGitLabIssueNote(
+      credentials,
+      project.id,
+      issue.iid,
+      formatAuthorizationRefusal(user.username, 'gitlab', repoConfig.config.authorization)
+    );
+    await recordRefusedTrigger(env, {
+      triggerEvent: 'gitlab.issue.open',
+      provider: 'gitlab',
+      repository: project.path_with_namespace,
+      reference: `#${issue.iid}`,
+      containerName
+    }, user.username, authorization);
+    return;
+  }
+
   // Get Claude API key from secure storage (stored in GitLab Durable Object)
   logWithContext('GITLAB_CLAUDE_ROUTING', 'Retrieving Claude API key');
 
@@ -59,6 +96,8 @@ async function routeToClaudeCodeContainer(
     throw new Error('Claude API key not configured. Please visit /claude-setup first.');
   }
 
+  const runLimits = await getRunLimits(configDO, project.path_with_namespace);
+
   // Prepare environment variables for the container (GitLab format)
   const issueContext = {
     ANTHROPIC_API_KEY: claudeKeyData.anthropicApiKey,
@@ -71,7 +110,8 @@ async function routeToClaudeCodeContainer(
     ISSUE_IID: issue.iid.toString(),
     ISSUE_TITLE: issue.title,
     ISSUE_DESCRIPTION: issue.description || '',
-    ISSUE_LABELS: JSON.stringify(issue.labels?.map((label: any) => label.name) || []),
+    ISSUE_LABELS: JSON.stringify(issueLabels),
+    REPO_CONFIG: JSON.stringify(repoConfig.config),
     
     // Project context
     PROJECT_NAMESPACE: project.path_with_namespace,
@@ -80,7 +120,8 @@ async function routeToClaudeCodeContainer(
     // User context
     ISSUE_AUTHOR: user.username,
     
-    MESSAGE: `Processing GitLab issue #${issue.iid}: ${issue.title}`
+    MESSAGE: `Processing GitLab issue #${issue.iid}: ${issue.title}`,
+    ...runLimitsContext(runLimits)
   };
 
   // Start Claude Code processing by calling the container
@@ -89,58 +130,23 @@ async function routeToClaudeCodeContainer(
     issueIid: issueContext.ISSUE_IID
   });
 
-  try {
-    const response = await containerFetch(container, new Request('http://internal/process-gitlab', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(issueContext)
-    }), {
-      containerName,
-      route: '/process-gitlab'
-    });
-
-    logWithContext('GITLAB_CLAUDE_ROUTING', 'Claude Code container response', {
-      status: response.status,
-      statusText: response.statusText
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => 'Unable to read error response');
-      logWithContext('GITLAB_CLAUDE_ROUTING', 'Container returned error', {
-        status: response.status,
-        errorText
-      });
-      throw new Error(`Container returned status ${response.status}: ${errorText}`);
-    }
-
-    // Parse container response
-    const containerResponse: ContainerResponse = await response.json();
-    
-    logWithContext('GITLAB_CLAUDE_ROUTING', 'Container response parsed', {
-      success: containerResponse.success,
-      message: containerResponse.message,
-      hasError: !!containerResponse.error
-    });
-
-    if (containerResponse.success) {
-      logWithContext('GITLAB_CLAUDE_ROUTING', 'Container processing completed successfully', {
-        message: containerResponse.message
-      });
-    } else {
-      logWithContext('GITLAB_CLAUDE_ROUTING', 'Container processing failed', {
-        error: containerResponse.error
-      });
+  // Queue the run for a container slot; see dispatch_queue.ts for the limits
+  await dispatchRun(env, {
+    provider: 'gitlab',
+    repository: project.path_with_namespace,
+    reference: `#${issue.iid}`,
+    containerName,
+    triggerEvent: 'gitlab.issue.open'
+  }, {
+    route: '/process-gitlab',
+    context: issueContext,
+    origin,
+    thread: { provider: 'gitlab', repository: project.path_with_namespace, reference: `#${issue.iid}` }
+  }, {
+    onQueued: async (position, queueLength) => {
+      await createGitLabIssueNote(credentials, project.id, issue.iid, `🤖 **Claude Code Assistant**\n\n${formatQueuedMessage(position, queueLength)}`);
     }
-
-  } catch (error) {
-    logWithContext('GITLAB_CLAUDE_ROUTING', 'Failed to process Claude Code response', {
-      error: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined
-    });
-    throw error;
-  }
+  });
 }
 
 // Handle GitLab issues events
@@ -148,7 +154,8 @@ export async function handleGitLabIssuesEvent(
   data: any, 
   env: any, 
   configDO: any,
-  ctx: ExecutionContext
+  ctx: ExecutionContext,
+  origin?: string
 ): Promise<Response> {
   const action = data.object_attributes?.action;
   const issue = data.object_attributes;
@@ -174,7 +181,7 @@ export async function handleGitLabIssuesEvent(
       logWithContext('GITLAB_ISSUES_EVENT', 'Routing to Claude Code container (async)');
       
       // Use waitUntil to ensure the processing continues after we return
-      const processingPromise = routeToClaudeCodeContainer(data, env, configDO)
+      const processingPromise = routeToClaudeCodeContainer(data, env, configDO, origin)
         .then(() => {
           logWithContext('GITLAB_ISSUES_EVENT', 'GitLab issue routed to Claude Code container successfully');
         })
@@ -1,9 +1,10 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { handleGitLabMergeRequestEvent } from './merge_request';
 
 describe('GitLab Merge Request Handler', () => {
   let mockEnv: any;
   let mockConfigDO: any;
+  let fetchSpy: any;
 
   beforeEach(() => {
     vi.clearAllMocks();
@@ -38,6 +39,22 @@ describe('GitLab Merge Request Handler', () => {
         }), { status: 200 })
       )
     };
+
+    // GitLab API: no repository config, the author is a Developer on the project
+    fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input: any) => {
+      const url = typeof input === 'string' ? input : input.url;
+      if (url.includes('/members/all/')) {
+        return new Response(JSON.stringify({ id: 456, username: 'developer', access_level: 30, state: 'active' }), { status: 200 });
+      }
+      if (url.includes('/repository/files/')) {
+        return new Response('Not Found', { status: 404 });
+      }
+      return new Response(JSON.stringify({ id: 999 }), { status: 201 });
+    });
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
   });
 
   describe('handleGitLabMergeRequestEvent', () => {
@@ -354,4 +371,83 @@ describe('GitLab Merge Request Handler', () => {
       expect(mockEnv.MY_CONTAINER.idFromName).toHaveBeenCalledWith('claude-gitlab-mr-12345');
     });
   });
-});
\ No newline at end of file
+
+  describe('code review', () => {
+    const pushEvent = (overrides: any = {}) => ({
+      object_kind: 'merge_request',
+      object_attributes: {
+        id: 123,
+        iid: 5,
+        title: 'Add OAuth authentication',
+        description: 'Implements OAuth2',
+        action: 'update',
+        oldrev: '0ld5ha0',
+        last_commit: { id: 'abc1234def' },
+        source_branch: 'feature/oauth',
+        target_branch: 'main',
+        state: 'opened',
+        ...overrides
+      },
+      user: { id: 456, username: 'developer', name: 'Developer Name', bot: false },
+      project: {
+        id: 789,
+        name: 'my-project',
+        path_with_namespace: 'group/my-project',
+        default_branch: 'main',
+        git_http_url: 'https://gitlab.com/group/my-project.git'
+      }
+    });
+
+    beforeEach(() => {
+      fetchSpy.mockImplementation(async (input: any) => {
+        const url = typeof input === 'string' ? input : input.url;
+        if (url.includes('/members/all/')) {
+          return new Response(JSON.stringify({ id: 456, username: 'developer', access_level: 30, state: 'active' }), { status: 200 });
+        }
+        if (url.includes('/repository/files/.claude-containers.yml/')) {
+          return new Response('code_review: true\n', { status: 200 });
+        }
+        if (url.includes('/repository/files/')) {
+          return new Response('Not Found', { status: 404 });
+        }
+        return new Response(JSON.stringify({ id: 999 }), { status: 201 });
+      });
+    });
+
+    it('should review merge requests when new commits are pushed', async () => {
+      const mockContainer = {
+        fetch: vi.fn().mockResolvedValue(
+          new Response(JSON.stringify({ success: true, message: 'Reviewed MR !5 (comment)' }), { status: 200 })
+        )
+      };
+      mockEnv.MY_CONTAINER.get.mockReturnValue(mockContainer);
+
+      const response = await handleGitLabMergeRequestEvent(pushEvent(), mockEnv, mockConfigDO);
+      expect(response.status).toBe(200);
+
+      expect(mockEnv.MY_CONTAINER.idFromName).toHaveBeenCalledWith('claude-gitlab-mr-123');
+      const request = mockContainer.fetch.mock.calls[0][0];
+      expect(request.url).toBe('http://internal/process-gitlab');
+      expect(JSON.parse(await request.text())).toMatchObject({
+        PROCESSING_MODE: 'mr_review',
+        MR_IID: '5',
+        SOURCE_BRANCH: 'feature/oauth',
+        MR_AUTHOR: 'developer'
+      });
+    });
+
+    it('should not review updates without new commits, or drafts', async () => {
+      await handleGitLabMergeRequestEvent(pushEvent({ oldrev: undefined }), mockEnv, mockConfigDO);
+      await handleGitLabMergeRequestEvent(pushEvent({ draft: true }), mockEnv, mockConfigDO);
+
+      expect(mockEnv.MY_CONTAINER.get).not.toHaveBeenCalled();
+    });
+
+    it('should not review unless the project opted in', async () => {
+      fetchSpy.mockImplementation(async () => new Response('Not Found', { status: 404 }));
+
+      await handleGitLabMergeRequestEvent(pushEvent({ action: 'open', oldrev: undefined }), mockEnv, mockConfigDO);
+      expect(mockEnv.MY_CONTAINER.get).not.toHaveBeenCalled();
+    });
+  });
+});
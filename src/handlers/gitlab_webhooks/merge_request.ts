@@ -1,12 +1,9 @@
 import { logWithContext } from "../../log";
-import { containerFetch } from "../../fetch";
-
-// Simplified container response interface
-interface ContainerResponse {
-  success: boolean;
-  message: string;
-  error?: string;
-}
+import { getRunLimits, runLimitsContext } from "../../run_limits";
+import { createGitLabMergeRequestNote } from "../../gitlab_api";
+import { loadGitLabRepoConfig, formatRepoConfigErrors } from "../../repo_config";
+import { authorizeGitLabUser, formatAuthorizationRefusal, recordRefusedTrigger } from "../../authorization";
+import { dispatchRun, formatQueuedMessage } from "../../dispatch_queue";
 
 // @duo-agent detection with code block filtering (reused from note handler)
 function detectDuoAgentMention(text: string): boolean {
@@ -34,11 +31,132 @@ function isBot(user: any): boolean {
          user.username === 'ghost';
 }
 
+// Job history trigger event of a review for this merge request event: opening, reopening
+// and pushing new commits (`oldrev` is only set on updates that changed the code).
+// Drafts are reviewed once they are marked ready and new commits arrive.
+function codeReviewTriggerEvent(mr: any): string | null {
+  if (mr.draft || mr.work_in_progress) {
+    return null;
+  }
+  if (mr.action === 'open' || mr.action === 'reopen' || (mr.action === 'update' && mr.oldrev)) {
+    return `gitlab.merge_request.${mr.action}`;
+  }
+  return null;
+}
+
+// Route a GitLab MR to a Claude Code container for review, if the project opted in
+// with `code_review: true`
+async function routeReviewToClaudeCodeContainer(
+  mrData: any,
+  triggerEvent: string,
+  env: any,
+  configDO: any,
+  origin?: string
+): Promise<void> {
+  const mr = mrData.object_attributes;
+  const project = mrData.project;
+  const user = mrData.user;
+
+  // The same container as runs asked for in the MR description, so they never overlap
+  const containerName = `claude-gitlab-mr-${mr.id}`;
+
+  const credentialsResponse = await configDO.fetch(new Request('http://internal/get-credentials'));
+  const credentials = await credentialsResponse.json();
+
+  // Read from the default branch, so a merge request can't turn reviews on for itself
+  const repoConfig = await loadGitLabRepoConfig(
+    credentials,
+    project.id,
+    project.path_with_namespace,
+    project.default_branch
+  );
+
+  if (!repoConfig.config.codeReview) {
+    logWithContext('GITLAB_CLAUDE_ROUTING', 'Code review is not enabled', { project: project.path_with_namespace });
+    return;
+  }
+
+  if (repoConfig.errors.length > 0) {
+    await createGitLabMergeRequestNote(credentials, project.id, mr.iid, formatRepoConfigErrors(repoConfig));
+    return;
+  }
+
+  // Refused silently: every push would otherwise get the same note
+  const authorization = await authorizeGitLabUser(credentials, project.id, user, repoConfig.config.authorization);
+  if (!authorization.authorized) {
+    await recordRefusedTrigger(env, {
+      triggerEvent,
+      provider: 'gitlab',
+      repository: project.path_with_namespace,
+      reference: `!${mr.iid}`,
+      containerName
+    }, user.username, authorization);
+    return;
+  }
+
+  const claudeConfigId = env.GITLAB_APP_CONFIG.idFromName('claude-config');
+  const claudeConfigDO = env.GITLAB_APP_CONFIG.get(claudeConfigId);
+  const claudeKeyResponse = await claudeConfigDO.fetch(new Request('http://internal/get-claude-key'));
+  const claudeKeyData = await claudeKeyResponse.json();
+
+  if (!claudeKeyData.anthropicApiKey) {
+    logWithContext('GITLAB_CLAUDE_ROUTING', 'Claude API key not configured');
+    throw new Error('Claude API key not configured. Please visit /claude-setup first.');
+  }
+
+  logWithContext('GITLAB_CLAUDE_ROUTING', 'Routing GitLab MR to Claude Code container for review', {
+    mrIid: mr.iid,
+    containerName,
+    headSha: mr.last_commit?.id,
+    project: project.path_with_namespace
+  });
+
+  const runLimits = await getRunLimits(configDO, project.path_with_namespace);
+
+  const reviewContext = {
+    ANTHROPIC_API_KEY: claudeKeyData.anthropicApiKey,
+    GITLAB_URL: credentials.url || 'https://gitlab.com',
+    GITLAB_TOKEN: credentials.token,
+    GITLAB_PROJECT_ID: credentials.projectId,
+    PROCESSING_MODE: 'mr_review',
+    MR_IID: mr.iid.toString(),
+    MR_TITLE: mr.title,
+    MR_DESCRIPTION: mr.description || '',
+    SOURCE_BRANCH: mr.source_branch,
+    TARGET_BRANCH: mr.target_branch,
+    MR_AUTHOR: user.username,
+    REPO_CONFIG: JSON.stringify(repoConfig.config),
+    PROJECT_NAMESPACE: project.path_with_namespace,
+    GIT_CLONE_URL: project.git_http_url,
+    MESSAGE: `Reviewing GitLab MR !${mr.iid}`,
+    ...runLimitsContext(runLimits)
+  };
+
+  await dispatchRun(env, {
+    provider: 'gitlab',
+    repository: project.path_with_namespace,
+    reference: `!${mr.iid}`,
+    containerName,
+    triggerEvent
+  }, {
+    route: '/process-gitlab',
+    context: reviewContext,
+    origin,
+    // A review of an older commit is of no use
+    change: mr.last_commit?.id ? { number: mr.iid, headSha: mr.last_commit.id, gitlabProjectId: project.id } : undefined
+  }, {
+    onQueued: async (position, queueLength) => {
+      await createGitLabMergeRequestNote(credentials, project.id, mr.iid, `🤖 **Claude Code Review**\n\n${formatQueuedMessage(position, queueLength)}`);
+    }
+  });
+}
+
 // Route GitLab MR to Claude Code container
 async function routeToClaudeCodeContainer(
   mrData: any, 
   env: any, 
-  configDO: any
+  configDO: any,
+  origin?: string
 ): Promise<void> {
   const mr = mrData.object_attributes;
   const project = mrData.project;
@@ -54,10 +172,6 @@ async function routeToClaudeCodeContainer(
     userPrompt: extractUserPrompt(mr.description)
   });
 
-  // Create unique container for this MR
-  const id = env.MY_CONTAINER.idFromName(containerName);
-  const container = env.MY_CONTAINER.get(id);
-
   // Get GitLab credentials from configDO
   logWithContext('GITLAB_CLAUDE_ROUTING', 'Retrieving GitLab credentials');
 
@@ -69,6 +183,42 @@ async function routeToClaudeCodeContainer(
     url: credentials.url
   });
 
+  const repoConfig = await loadGitLabRepoConfig(
+    credentials,
+    project.id,
+    project.path_with_namespace,
+    project.default_branch
+  );
+
+  // The tool policy and authorization settings come from the configuration, so never
+  // run without a valid one
+  if (repoConfig.errors.length > 0) {
+    logWithContext('GITLAB_CLAUDE_ROUTING', 'Repository configuration is invalid, not starting', {
+      path: repoConfig.path,
+      errors: repoConfig.errors
+    });
+    await createGitLabMergeRequestNote(credentials, project.id, mr.iid, formatRepoConfigErrors(repoConfig));
+    return;
+  }
+
+  const authorization = await authorizeGitLabUser(credentials, project.id, user, repoConfig.config.authorization);
+  if (!authorization.authorized) {
+    await createGitLabMergeRequestNote(
+      credentials,
+      project.id,
+      mr.iid,
+      formatAuthorizationRefusal(user.username, 'gitlab', repoConfig.config.authorization)
+    );
+    await recordRefusedTrigger(env, {
+      triggerEvent: 'gitlab.merge_request.open',
+      provider: 'gitlab',
+      repository: project.path_with_namespace,
+      reference: `!${mr.iid}`,
+      containerName
+    }, user.username, authorization);
+    return;
+  }
+
   // Get Claude API key from secure storage in GitLab Durable Object
   logWithContext('GITLAB_CLAUDE_ROUTING', 'Retrieving Claude API key');
 
@@ -86,6 +236,8 @@ async function routeToClaudeCodeContainer(
     throw new Error('Claude API key not configured. Please visit /claude-setup first.');
   }
 
+  const runLimits = await getRunLimits(configDO, project.path_with_namespace);
+
   // Prepare environment variables for the container
   const mrContext = {
     ANTHROPIC_API_KEY: claudeKeyData.anthropicApiKey,
@@ -104,12 +256,14 @@ async function routeToClaudeCodeContainer(
     SOURCE_BRANCH: mr.source_branch,
     TARGET_BRANCH: mr.target_branch,
     MR_AUTHOR: user.username,
+    REPO_CONFIG: JSON.stringify(repoConfig.config),
     
     // Project context
     PROJECT_NAMESPACE: project.path_with_namespace,
     GIT_CLONE_URL: project.git_http_url,
     
-    MESSAGE: `Processing GitLab MR creation #${mr.iid}`
+    MESSAGE: `Processing GitLab MR creation #${mr.iid}`,
+    ...runLimitsContext(runLimits)
   };
 
   // Start Claude Code processing by calling the container
@@ -120,65 +274,31 @@ async function routeToClaudeCodeContainer(
     processingMode: mrContext.PROCESSING_MODE
   });
 
-  try {
-    const response = await containerFetch(container, new Request('http://internal/process-gitlab', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(mrContext)
-    }), {
-      containerName,
-      route: '/process-gitlab'
-    });
-
-    logWithContext('GITLAB_CLAUDE_ROUTING', 'Claude Code container response', {
-      status: response.status,
-      statusText: response.statusText
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => 'Unable to read error response');
-      logWithContext('GITLAB_CLAUDE_ROUTING', 'Container returned error', {
-        status: response.status,
-        errorText
-      });
-      throw new Error(`Container returned status ${response.status}: ${errorText}`);
-    }
-
-    // Parse container response
-    const containerResponse: ContainerResponse = await response.json();
-    
-    logWithContext('GITLAB_CLAUDE_ROUTING', 'Container response parsed', {
-      success: containerResponse.success,
-      message: containerResponse.message,
-      hasError: !!containerResponse.error
-    });
-
-    if (containerResponse.success) {
-      logWithContext('GITLAB_CLAUDE_ROUTING', 'Container processing completed successfully', {
-        message: containerResponse.message
-      });
-    } else {
-      logWithContext('GITLAB_CLAUDE_ROUTING', 'Container processing failed', {
-        error: containerResponse.error
-      });
+  // Queue the run for a container slot; see dispatch_queue.ts for the limits
+  await dispatchRun(env, {
+    provider: 'gitlab',
+    repository: project.path_with_namespace,
+    reference: `!${mr.iid}`,
+    containerName,
+    triggerEvent: 'gitlab.merge_request.open'
+  }, {
+    route: '/process-gitlab',
+    context: mrContext,
+    origin,
+    thread: { provider: 'gitlab', repository: project.path_with_namespace, reference: `!${mr.iid}` }
+  }, {
+    onQueued: async (position, queueLength) => {
+      await createGitLabMergeRequestNote(credentials, project.id, mr.iid, `🤖 **Claude Code Assistant**\n\n${formatQueuedMessage(position, queueLength)}`);
     }
-
-  } catch (error) {
-    logWithContext('GITLAB_CLAUDE_ROUTING', 'Failed to process Claude Code response', {
-      error: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined
-    });
-    throw error;
-  }
+  });
 }
 
 // Handle GitLab merge request events
 export async function handleGitLabMergeRequestEvent(
   data: any, 
   env: any, 
-  configDO: any
+  configDO: any,
+  origin?: string
 ): Promise<Response> {
   const mr = data.object_attributes;
   const project = data.project;
@@ -193,13 +313,14 @@ export async function handleGitLabMergeRequestEvent(
     isBot: isBot(user)
   });
 
-  // Only process "open" action events
-  if (mr.action !== 'open') {
-    logWithContext('GITLAB_MR_EVENT', 'Ignoring non-open MR action', { 
+  // Only "open" action events, and the events that start a review
+  const reviewTriggerEvent = codeReviewTriggerEvent(mr);
+  if (mr.action !== 'open' && !reviewTriggerEvent) {
+    logWithContext('GITLAB_MR_EVENT', 'Ignoring MR action', { 
       mrId: mr.id,
       action: mr.action
     });
-    return new Response('Non-open MR action ignored', { status: 200 });
+    return new Response('MR action ignored', { status: 200 });
   }
 
   // Filter out bot-created MRs
@@ -212,13 +333,28 @@ export async function handleGitLabMergeRequestEvent(
     return new Response('Bot MR ignored', { status: 200 });
   }
 
-  // Check for @duo-agent mention in MR description
-  if (!detectDuoAgentMention(mr.description)) {
+  // Without @duo-agent instructions in a new MR, the MR may still be up for review
+  if (mr.action !== 'open' || !detectDuoAgentMention(mr.description)) {
     logWithContext('GITLAB_MR_EVENT', 'No @duo-agent mention found in MR description', { 
       mrId: mr.id,
       mrIid: mr.iid
     });
-    return new Response('No @duo-agent mention found', { status: 200 });
+
+    if (!reviewTriggerEvent) {
+      return new Response('No @duo-agent mention found', { status: 200 });
+    }
+
+    try {
+      await routeReviewToClaudeCodeContainer(data, reviewTriggerEvent, env, configDO, origin);
+      return new Response('GitLab MR review processed', { status: 200 });
+    } catch (error) {
+      logWithContext('GITLAB_MR_EVENT', 'Failed to review GitLab MR', {
+        error: error instanceof Error ? error.message : String(error),
+        mrId: mr?.id,
+        mrIid: mr?.iid
+      });
+      return new Response('Failed to review MR', { status: 500 });
+    }
   }
 
   // Handle @duo-agent MR processing
@@ -231,7 +367,7 @@ export async function handleGitLabMergeRequestEvent(
   try {
     // Route to Claude Code container for processing
     logWithContext('GITLAB_MR_EVENT', 'Routing to Claude Code container');
-    await routeToClaudeCodeContainer(data, env, configDO);
+    await routeToClaudeCodeContainer(data, env, configDO, origin);
 
     logWithContext('GITLAB_MR_EVENT', 'GitLab MR routed to Claude Code container successfully');
 
@@ -1,9 +1,10 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { handleGitLabNoteEvent } from './note';
 
 describe('GitLab Note Handler', () => {
   let mockEnv: any;
   let mockConfigDO: any;
+  let fetchSpy: any;
 
   beforeEach(() => {
     vi.clearAllMocks();
@@ -38,6 +39,22 @@ describe('GitLab Note Handler', () => {
         }), { status: 200 })
       )
     };
+
+    // GitLab API: no repository config, the author is a Developer on the project
+    fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input: any) => {
+      const url = typeof input === 'string' ? input : input.url;
+      if (url.includes('/members/all/')) {
+        return new Response(JSON.stringify({ id: 456, username: 'developer', access_level: 30, state: 'active' }), { status: 200 });
+      }
+      if (url.includes('/repository/files/')) {
+        return new Response('Not Found', { status: 404 });
+      }
+      return new Response(JSON.stringify({ id: 999 }), { status: 201 });
+    });
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
   });
 
   describe('handleGitLabNoteEvent', () => {
@@ -1,12 +1,10 @@
 import { logWithContext } from "../../log";
-import { containerFetch } from "../../fetch";
-
-// Simplified container response interface
-interface ContainerResponse {
-  success: boolean;
-  message: string;
-  error?: string;
-}
+import { clearThreadSession, isResetCommand, ThreadRef } from "../../sessions";
+import { getRunLimits, runLimitsContext } from "../../run_limits";
+import { createGitLabIssueNote, createGitLabMergeRequestNote } from "../../gitlab_api";
+import { loadGitLabRepoConfig, formatRepoConfigErrors } from "../../repo_config";
+import { authorizeGitLabUser, formatAuthorizationRefusal, recordRefusedTrigger } from "../../authorization";
+import { dispatchRun, formatQueuedMessage } from "../../dispatch_queue";
 
 // @duo-agent detection with code block filtering
 function detectDuoAgentMention(text: string): boolean {
@@ -38,7 +36,8 @@ function isBot(user: any): boolean {
 async function routeToClaudeCodeContainer(
   noteData: any, 
   env: any, 
-  configDO: any
+  configDO: any,
+  origin?: string
 ): Promise<void> {
   const note = noteData.object_attributes;
   const project = noteData.project;
@@ -48,6 +47,13 @@ async function routeToClaudeCodeContainer(
 
   const containerName = `claude-gitlab-note-${note.id}`;
 
+  // Notes on the same issue or merge request share one Claude session
+  const thread: ThreadRef = {
+    provider: 'gitlab',
+    repository: project.path_with_namespace,
+    reference: isIssueComment ? `#${noteData.issue.iid}` : `!${noteData.merge_request.iid}`
+  };
+
   logWithContext('GITLAB_CLAUDE_ROUTING', 'Routing GitLab note to Claude Code container', {
     noteId: note.id,
     containerName,
@@ -56,10 +62,6 @@ async function routeToClaudeCodeContainer(
     userPrompt: extractUserPrompt(note.note)
   });
 
-  // Create unique container for this note
-  const id = env.MY_CONTAINER.idFromName(containerName);
-  const container = env.MY_CONTAINER.get(id);
-
   // Get GitLab credentials from configDO
   logWithContext('GITLAB_CLAUDE_ROUTING', 'Retrieving GitLab credentials');
 
@@ -71,6 +73,59 @@ async function routeToClaudeCodeContainer(
     url: credentials.url
   });
 
+  const repoConfig = await loadGitLabRepoConfig(
+    credentials,
+    project.id,
+    project.path_with_namespace,
+    project.default_branch
+  );
+
+  // The tool policy and authorization settings come from the configuration, so never
+  // run without a valid one
+  if (repoConfig.errors.length > 0) {
+    logWithContext('GITLAB_CLAUDE_ROUTING', 'Repository configuration is invalid, not starting', {
+      path: repoConfig.path,
+      errors: repoConfig.errors
+    });
+    if (isIssueComment) {
+      await createGitLabIssueNote(credentials, project.id, noteData.issue.iid, formatRepoConfigErrors(repoConfig));
+    } else if (isMRComment) {
+      await createGitLabMergeRequestNote(credentials, project.id, noteData.merge_request.iid, formatRepoConfigErrors(repoConfig));
+    }
+    return;
+  }
+
+  const authorization = await authorizeGitLabUser(credentials, project.id, user, repoConfig.config.authorization);
+  if (!authorization.authorized) {
+    const refusal = formatAuthorizationRefusal(user.username, 'gitlab', repoConfig.config.authorization);
+    if (isIssueComment) {
+      await createGitLabIssueNote(credentials, project.id, noteData.issue.iid, refusal);
+    } else if (isMRComment) {
+      await createGitLabMergeRequestNote(credentials, project.id, noteData.merge_request.iid, refusal);
+    }
+    await recordRefusedTrigger(env, {
+      triggerEvent: `gitlab.note.${note.noteable_type}`,
+      provider: 'gitlab',
+      repository: project.path_with_namespace,
+      reference: thread.reference,
+      containerName
+    }, user.username, authorization);
+    return;
+  }
+
+  if (isResetCommand(extractUserPrompt(note.note))) {
+    const hadSession = await clearThreadSession(env, thread);
+    const reply = hadSession
+      ? `🤖 **Claude Code Assistant**\n\n@${user.username}, I've forgotten our earlier conversation here. The next instruction starts a fresh session.`
+      : `🤖 **Claude Code Assistant**\n\n@${user.username}, there's no session here to reset.`;
+    if (isIssueComment) {
+      await createGitLabIssueNote(credentials, project.id, noteData.issue.iid, reply);
+    } else if (isMRComment) {
+      await createGitLabMergeRequestNote(credentials, project.id, noteData.merge_request.iid, reply);
+    }
+    return;
+  }
+
   // Get Claude API key from secure storage in GitLab Durable Object
   logWithContext('GITLAB_CLAUDE_ROUTING', 'Retrieving Claude API key');
 
@@ -88,6 +143,8 @@ async function routeToClaudeCodeContainer(
     throw new Error('Claude API key not configured. Please visit /claude-setup first.');
   }
 
+  const runLimits = await getRunLimits(configDO, project.path_with_namespace);
+
   // Prepare environment variables for the container
   const baseContext = {
     ANTHROPIC_API_KEY: claudeKeyData.anthropicApiKey,
@@ -100,12 +157,14 @@ async function routeToClaudeCodeContainer(
     COMMENT_ID: note.id.toString(),
     DISCUSSION_ID: note.discussion_id || '',
     COMMENT_AUTHOR: user.username,
+    REPO_CONFIG: JSON.stringify(repoConfig.config),
     
     // Project context
     PROJECT_NAMESPACE: project.path_with_namespace,
     GIT_CLONE_URL: project.git_http_url,
     
-    MESSAGE: `Processing GitLab ${note.noteable_type} comment #${note.id}`
+    MESSAGE: `Processing GitLab ${note.noteable_type} comment #${note.id}`,
+    ...runLimitsContext(runLimits)
   };
 
   // Add context specific to issue or MR comments
@@ -141,65 +200,36 @@ async function routeToClaudeCodeContainer(
     processingMode: noteContext.PROCESSING_MODE
   });
 
-  try {
-    const response = await containerFetch(container, new Request('http://internal/process-gitlab', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(noteContext)
-    }), {
-      containerName,
-      route: '/process-gitlab'
-    });
-
-    logWithContext('GITLAB_CLAUDE_ROUTING', 'Claude Code container response', {
-      status: response.status,
-      statusText: response.statusText
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => 'Unable to read error response');
-      logWithContext('GITLAB_CLAUDE_ROUTING', 'Container returned error', {
-        status: response.status,
-        errorText
-      });
-      throw new Error(`Container returned status ${response.status}: ${errorText}`);
-    }
-
-    // Parse container response
-    const containerResponse: ContainerResponse = await response.json();
-    
-    logWithContext('GITLAB_CLAUDE_ROUTING', 'Container response parsed', {
-      success: containerResponse.success,
-      message: containerResponse.message,
-      hasError: !!containerResponse.error
-    });
-
-    if (containerResponse.success) {
-      logWithContext('GITLAB_CLAUDE_ROUTING', 'Container processing completed successfully', {
-        message: containerResponse.message
-      });
-    } else {
-      logWithContext('GITLAB_CLAUDE_ROUTING', 'Container processing failed', {
-        error: containerResponse.error
-      });
+  // Notes queue for a container slot like every other run
+  await dispatchRun(env, {
+    provider: 'gitlab',
+    repository: project.path_with_namespace,
+    reference: thread.reference,
+    containerName,
+    triggerEvent: `gitlab.note.${note.noteable_type}`
+  }, {
+    route: '/process-gitlab',
+    context: noteContext,
+    origin,
+    thread
+  }, {
+    onQueued: async (position, queueLength) => {
+      const message = `🤖 **Claude Code Assistant**\n\n${formatQueuedMessage(position, queueLength)}`;
+      if (isIssueComment) {
+        await createGitLabIssueNote(credentials, project.id, noteData.issue.iid, message);
+      } else if (isMRComment) {
+        await createGitLabMergeRequestNote(credentials, project.id, noteData.merge_request.iid, message);
+      }
     }
-
-  } catch (error) {
-    logWithContext('GITLAB_CLAUDE_ROUTING', 'Failed to process Claude Code response', {
-      error: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined
-    });
-    throw error;
-  }
+  });
 }
 
 // Handle GitLab note events
 export async function handleGitLabNoteEvent(
   data: any, 
   env: any, 
-  configDO: any
+  configDO: any,
+  origin?: string
 ): Promise<Response> {
   const note = data.object_attributes;
   const project = data.project;
@@ -255,7 +285,7 @@ export async function handleGitLabNoteEvent(
   try {
     // Route to Claude Code container for processing
     logWithContext('GITLAB_NOTE_EVENT', 'Routing to Claude Code container');
-    await routeToClaudeCodeContainer(data, env, configDO);
+    await routeToClaudeCodeContainer(data, env, configDO, origin);
 
     logWithContext('GITLAB_NOTE_EVENT', 'GitLab note routed to Claude Code container successfully');
 
@@ -1,5 +1,6 @@
 import { logWithContext } from "../../log";
 import { containerFetch } from "../../fetch";
+import { startJob, finishJob, RunUsage } from "../../jobs";
 import { enhanceMRCommentContext } from "./context_aware";
 
 // Enhanced GitLab note handler with context-aware processing
@@ -10,6 +11,9 @@ interface ContainerResponse {
   success: boolean;
   message: string;
   error?: string;
+  turnCount?: number;
+  prUrl?: string;
+  usage?: RunUsage;
 }
 
 // @duo-agent detection with code block filtering
@@ -206,6 +210,14 @@ async function routeToEnhancedClaudeCodeContainer(
     hasThreadContext: !!noteContext.THREAD_CONTEXT
   });
 
+  const jobId = await startJob(env, {
+    triggerEvent: `gitlab.note.${note.noteable_type}`,
+    provider: 'gitlab',
+    repository: project.path_with_namespace,
+    reference: isIssueComment ? `#${noteData.issue.iid}` : `!${noteData.merge_request.iid}`,
+    containerName
+  });
+
   try {
     const response = await containerFetch(container, new Request('http://internal/process-gitlab', {
       method: 'POST',
@@ -225,6 +237,15 @@ async function routeToEnhancedClaudeCodeContainer(
 
     // Parse container response
     const containerResponse: ContainerResponse = await response.json();
+
+    await finishJob(env, jobId, {
+      status: containerResponse.success ? 'succeeded' : 'failed',
+      outcome: containerResponse.message,
+      turnCount: containerResponse.turnCount,
+      prUrl: containerResponse.prUrl,
+      error: containerResponse.error,
+      usage: containerResponse.usage
+    });
     
     logWithContext('GITLAB_ENHANCED_ROUTING', 'Enhanced container response parsed', {
       success: containerResponse.success,
@@ -236,6 +257,10 @@ async function routeToEnhancedClaudeCodeContainer(
     logWithContext('GITLAB_ENHANCED_ROUTING', 'Failed to process enhanced Claude Code response', {
       error: error instanceof Error ? error.message : String(error)
     });
+    await finishJob(env, jobId, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error)
+    });
     throw error;
   }
 }
@@ -51,8 +51,8 @@ export async function handleOAuthCallback(_request: Request, url: URL, env: any)
     logWithContext('OAUTH_CALLBACK', 'Storing app credentials in Durable Object');
 
     try {
-      const encryptedPrivateKey = await encrypt(appData.pem);
-      const encryptedWebhookSecret = await encrypt(appData.webhook_secret);
+      const encryptedPrivateKey = await encrypt(appData.pem, env);
+      const encryptedWebhookSecret = await encrypt(appData.webhook_secret, env);
 
       logWithContext('OAUTH_CALLBACK', 'App credentials encrypted successfully');
 
@@ -0,0 +1,270 @@
+import { getJobTracker } from "../jobs";
+import { getTranscript, Transcript } from "../transcripts";
+import { logWithContext } from "../log";
+
+const TRANSCRIPT_PATH = /^\/runs\/([^/]+)\/transcript$/;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Only web links are rendered as links; anything else (javascript:, data:, ...) is shown as text
+function isWebUrl(url: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function renderLink(url: string): string {
+  return isWebUrl(url) ? `<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>` : escapeHtml(url);
+}
+
+function formatJson(value: unknown): string {
+  return escapeHtml(JSON.stringify(value, null, 2) ?? '');
+}
+
+// Line diff between the text an edit replaced and its replacement. Lines the two share at
+// the start and end are shown as context, so only the changed lines are marked.
+export function renderDiff(oldText: string, newText: string): string {
+  const oldLines = oldText ? oldText.split('\n') : [];
+  const newLines = newText ? newText.split('\n') : [];
+
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const line = (kind: string, marker: string, text: string) => `<span class="${kind}">${marker} ${escapeHtml(text)}</span>`;
+  const lines = [
+    ...oldLines.slice(0, prefix).map(text => line('context', ' ', text)),
+    ...oldLines.slice(prefix, oldLines.length - suffix).map(text => line('removed', '-', text)),
+    ...newLines.slice(prefix, newLines.length - suffix).map(text => line('added', '+', text)),
+    ...oldLines.slice(oldLines.length - suffix).map(text => line('context', ' ', text))
+  ];
+
+  return `<pre class="diff">${lines.join('\n')}</pre>`;
+}
+
+function renderToolUse(name: string, input: any): string {
+  const heading = (detail: string) => `<div class="tool-use"><strong>🔧 ${escapeHtml(name)}</strong> <code>${escapeHtml(detail)}</code></div>`;
+
+  switch (name) {
+    case 'Edit':
+      return heading(input.file_path ?? '') + renderDiff(input.old_string ?? '', input.new_string ?? '');
+    case 'MultiEdit':
+      return heading(input.file_path ?? '') +
+        (input.edits ?? []).map((edit: any) => renderDiff(edit.old_string ?? '', edit.new_string ?? '')).join('');
+    case 'Write':
+      return heading(input.file_path ?? '') + renderDiff('', input.content ?? '');
+    case 'Bash':
+      return heading(input.description ?? '') + `<pre class="command">$ ${escapeHtml(input.command ?? '')}</pre>`;
+    case 'Read':
+    case 'NotebookRead':
+      return heading(input.file_path ?? input.notebook_path ?? '');
+    case 'Grep':
+    case 'Glob':
+      return heading(`${input.pattern ?? ''}${input.path ? ` in ${input.path}` : ''}`);
+    case 'LS':
+      return heading(input.path ?? '');
+    case 'TodoWrite':
+      return heading('') + `<ul class="todos">${(input.todos ?? []).map((todo: any) =>
+        `<li>${todo.status === 'completed' ? '☑' : '☐'} ${escapeHtml(todo.content ?? '')}</li>`).join('')}</ul>`;
+    default:
+      return heading('') + `<pre>${formatJson(input)}</pre>`;
+  }
+}
+
+function toolResultText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content.map(part => (typeof part?.text === 'string' ? part.text : JSON.stringify(part))).join('\n');
+  }
+  return JSON.stringify(content ?? '');
+}
+
+function renderMessage(message: any, toolNames: Map<string, string>): string {
+  switch (message?.type) {
+    case 'system':
+      return `<div class="entry system">⚙️ Session started${message.model ? ` · ${escapeHtml(message.model)}` : ''}` +
+        `${Array.isArray(message.tools) ? ` · ${message.tools.length} tools` : ''}` +
+        `${message.permissionMode ? ` · permission mode ${escapeHtml(message.permissionMode)}` : ''}</div>`;
+
+    case 'assistant': {
+      const blocks = Array.isArray(message.message?.content) ? message.message.content : [];
+      return blocks.map((block: any) => {
+        if (block.type === 'text') {
+          return `<div class="entry assistant"><div class="text">${escapeHtml(block.text ?? '')}</div></div>`;
+        }
+        if (block.type === 'thinking') {
+          return `<details class="entry thinking"><summary>💭 Thinking</summary><div class="text">${escapeHtml(block.thinking ?? '')}</div></details>`;
+        }
+        if (block.type === 'tool_use') {
+          toolNames.set(block.id, block.name);
+          return `<div class="entry">${renderToolUse(block.name, block.input ?? {})}</div>`;
+        }
+        return '';
+      }).join('');
+    }
+
+    case 'user': {
+      const content = message.message?.content;
+      if (typeof content === 'string') {
+        return `<details class="entry prompt"><summary>📝 Prompt</summary><div class="text">${escapeHtml(content)}</div></details>`;
+      }
+
+      return (Array.isArray(content) ? content : []).map((block: any) => {
+        if (block.type === 'tool_result') {
+          const name = toolNames.get(block.tool_use_id) ?? 'tool';
+          return `<details class="entry tool-result${block.is_error ? ' error' : ''}">` +
+            `<summary>${block.is_error ? '⚠️ Error from' : '↩️ Result of'} ${escapeHtml(name)}</summary>` +
+            `<pre>${escapeHtml(toolResultText(block.content))}</pre></details>`;
+        }
+        if (block.type === 'text') {
+          return `<div class="entry prompt"><div class="text">${escapeHtml(block.text ?? '')}</div></div>`;
+        }
+        return '';
+      }).join('');
+    }
+
+    case 'result':
+      return `<div class="entry result">🏁 ${escapeHtml(message.subtype ?? 'finished')} after ${message.num_turns ?? '?'} turns` +
+        `${typeof message.total_cost_usd === 'number' ? ` · $${message.total_cost_usd.toFixed(2)}` : ''}` +
+        `${message.result ? `<div class="text">${escapeHtml(message.result)}</div>` : ''}</div>`;
+
+    default:
+      return `<details class="entry"><summary>${escapeHtml(String(message?.type ?? 'message'))}</summary><pre>${formatJson(message)}</pre></details>`;
+  }
+}
+
+export function renderTranscriptPage(transcript: Transcript, job: any | null): string {
+  const toolNames = new Map<string, string>();
+  const title = job ? `${job.repository} ${job.reference}` : transcript.jobId;
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+    <title>Transcript ${escapeHtml(title)} - Claude Code on Cloudflare</title>
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            max-width: 960px;
+            margin: 40px auto;
+            padding: 20px;
+            line-height: 1.6;
+            color: #333;
+        }
+        .summary {
+            background: #f5f5f5;
+            padding: 20px;
+            border-radius: 8px;
+        }
+        .notice {
+            background: #fff8e1;
+            padding: 10px 20px;
+            border-radius: 8px;
+        }
+        .entry {
+            margin: 12px 0;
+            padding: 8px 12px;
+            border-left: 3px solid #ddd;
+        }
+        .assistant { border-left-color: #d97757; }
+        .result { border-left-color: #2e7d32; }
+        .error { border-left-color: #c62828; }
+        .system, .thinking, .prompt { color: #666; }
+        .text { white-space: pre-wrap; }
+        pre {
+            background: #f8f8f8;
+            padding: 10px;
+            overflow-x: auto;
+            white-space: pre-wrap;
+            word-break: break-word;
+        }
+        .diff .added { background: #e6ffed; display: block; }
+        .diff .removed { background: #ffeef0; display: block; }
+        .diff .context { color: #888; display: block; }
+        .todos { list-style: none; padding-left: 0; }
+    </style>
+</head>
+<body>
+    <h1>Transcript: ${escapeHtml(title)}</h1>
+    <div class="summary">
+        ${job ? `${escapeHtml(job.triggerEvent)} · ${escapeHtml(job.status)} · started ${escapeHtml(job.startedAt)}` +
+          `${job.usage ? ` · $${Number(job.usage.costUsd).toFixed(2)}` : ''}` +
+          `${job.prUrl ? ` · ${renderLink(job.prUrl)}` : ''}` +
+          `${job.outcome ? `<br>${escapeHtml(job.outcome)}` : ''}<br>` : ''}
+        ${transcript.messageCount} messages · <a href="?format=json">Download JSON</a>
+    </div>
+    ${transcript.truncated ? `<p class="notice">This transcript was ${(transcript.sizeBytes / 1024 / 1024).toFixed(1)} MB, too large to keep in full. Long tool results were shortened${transcript.messages.length < transcript.messageCount ? ` and only the first ${transcript.messages.length} messages were kept` : ''}.</p>` : ''}
+    ${transcript.messages.map(message => renderMessage(message, toolNames)).join('\n    ')}
+</body>
+</html>`;
+}
+
+// Handle /runs/:id/transcript (HTML page, or the raw messages with ?format=json)
+export async function handleTranscriptRequest(request: Request, env: any): Promise<Response> {
+  const url = new URL(request.url);
+  const match = url.pathname.match(TRANSCRIPT_PATH);
+
+  if (!match) {
+    return new Response('Not Found', { status: 404 });
+  }
+
+  if (request.method !== 'GET') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const jobId = decodeURIComponent(match[1]);
+  const transcript = await getTranscript(env, jobId);
+
+  logWithContext('TRANSCRIPTS', 'Transcript requested', {
+    jobId,
+    found: !!transcript,
+    format: url.searchParams.get('format') || 'html'
+  });
+
+  if (!transcript) {
+    return new Response(JSON.stringify({ error: 'Transcript not found' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  if (url.searchParams.get('format') === 'json') {
+    return new Response(JSON.stringify(transcript.messages, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="transcript-${jobId.replace(/[^\w-]/g, '')}.json"`
+      }
+    });
+  }
+
+  const jobResponse = await getJobTracker(env).fetch(new Request(`http://internal/get?id=${encodeURIComponent(jobId)}`));
+  const job = await jobResponse.json();
+
+  return new Response(renderTranscriptPage(transcript, job), {
+    headers: { 'Content-Type': 'text/html' }
+  });
+}
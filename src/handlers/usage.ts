@@ -0,0 +1,137 @@
+import { getUsageSummary, UsageSummary, UsageTotals, DEFAULT_USAGE_DAYS } from "../jobs";
+import { logWithContext } from "../log";
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatTokens(value: number): string {
+  return value.toLocaleString('en-US');
+}
+
+function formatCost(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+function renderRows<T extends UsageTotals>(rows: T[], label: (row: T) => string): string {
+  if (rows.length === 0) {
+    return '<tr><td colspan="6" class="empty">No runs in this period</td></tr>';
+  }
+
+  return rows.map(row => `
+            <tr>
+                <td>${escapeHtml(label(row))}</td>
+                <td>${row.runs}</td>
+                <td>${formatTokens(row.inputTokens)}</td>
+                <td>${formatTokens(row.outputTokens)}</td>
+                <td>${formatTokens(row.cacheReadTokens + row.cacheWriteTokens)}</td>
+                <td>${formatCost(row.costUsd)}</td>
+            </tr>`).join('');
+}
+
+function renderTable<T extends UsageTotals>(title: string, column: string, rows: T[], label: (row: T) => string): string {
+  return `
+    <h2>${title}</h2>
+    <table>
+        <thead>
+            <tr><th>${column}</th><th>Runs</th><th>Input tokens</th><th>Output tokens</th><th>Cache tokens</th><th>Cost</th></tr>
+        </thead>
+        <tbody>${renderRows(rows, label)}
+        </tbody>
+    </table>`;
+}
+
+export function renderUsagePage(summary: UsageSummary): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+    <title>Usage - Claude Code on Cloudflare</title>
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            max-width: 960px;
+            margin: 40px auto;
+            padding: 20px;
+            line-height: 1.6;
+            color: #333;
+        }
+        .summary {
+            background: #f5f5f5;
+            padding: 20px;
+            border-radius: 8px;
+            font-size: 18px;
+        }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+            margin-bottom: 30px;
+        }
+        th, td {
+            text-align: right;
+            padding: 6px 10px;
+            border-bottom: 1px solid #eee;
+        }
+        th:first-child, td:first-child {
+            text-align: left;
+        }
+        .empty {
+            text-align: center !important;
+            color: #888;
+        }
+    </style>
+</head>
+<body>
+    <h1>Usage</h1>
+    <p>Tokens and cost of container runs from ${summary.from} to ${summary.to} (UTC). Runs are counted on the day they started. Also available as JSON at <a href="/gh-usage/totals">/gh-usage/totals</a>.</p>
+    <div class="summary">
+        <strong>${formatCost(summary.totals.costUsd)}</strong> across ${summary.totals.runs} runs ·
+        ${formatTokens(summary.totals.inputTokens)} input, ${formatTokens(summary.totals.outputTokens)} output and
+        ${formatTokens(summary.totals.cacheReadTokens + summary.totals.cacheWriteTokens)} cache tokens
+    </div>
+    ${renderTable('By installation', 'Installation', summary.byInstallation, row => `${row.installation} (${row.provider})`)}
+    ${renderTable('By repository', 'Repository', summary.byRepository, row => `${row.repository} (${row.provider})`)}
+    ${renderTable('By day', 'Day', summary.byDay, row => row.day)}
+</body>
+</html>`;
+}
+
+// Handle /gh-usage (HTML page) and /gh-usage/totals (JSON).
+// Query parameters: days (default 30), provider, repository.
+export async function handleUsageRequest(request: Request, env: any): Promise<Response> {
+  const url = new URL(request.url);
+
+  if (request.method !== 'GET') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const summary = await getUsageSummary(env, {
+    days: parseInt(url.searchParams.get('days') || String(DEFAULT_USAGE_DAYS)),
+    provider: url.searchParams.get('provider'),
+    repository: url.searchParams.get('repository')
+  });
+
+  logWithContext('USAGE', 'Usage summary requested', {
+    from: summary.from,
+    to: summary.to,
+    runs: summary.totals.runs
+  });
+
+  if (url.pathname === '/gh-usage/totals') {
+    return new Response(JSON.stringify(summary, null, 2), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  return new Response(renderUsagePage(summary), {
+    headers: { 'Content-Type': 'text/html' }
+  });
+}
@@ -0,0 +1,81 @@
+import { logWithContext } from "../log";
+import { getDeliveryTracker, WebhookProvider } from "../webhook_deliveries";
+import { handleGitHubWebhook } from "./github_webhook";
+import { handleGitLabWebhook } from "./gitlab_webhook";
+import { handleBitbucketWebhook } from "./bitbucket_webhook";
+import { handleGiteaWebhook } from "./gitea_webhook";
+
+function jsonResponse(body: any, status: number = 200): Response {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// Handle /webhooks/deliveries (list recent deliveries) and
+// /webhooks/deliveries/:provider/:id/replay (process a stored delivery again)
+export async function handleWebhookDeliveriesRequest(request: Request, env: any, ctx: ExecutionContext): Promise<Response> {
+  const url = new URL(request.url);
+  const tracker = getDeliveryTracker(env);
+
+  if (url.pathname === '/webhooks/deliveries') {
+    if (request.method !== 'GET') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    // Pass filters (provider, limit) through to the tracker
+    const response = await tracker.fetch(new Request(`http://internal/list${url.search}`));
+    return jsonResponse(await response.json());
+  }
+
+  const match = url.pathname.match(/^\/webhooks\/deliveries\/(github|gitlab|bitbucket|gitea)\/([^/]+)\/replay$/);
+  if (!match) {
+    return jsonResponse({ error: 'Not found' }, 404);
+  }
+
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const provider = match[1] as WebhookProvider;
+  const deliveryId = decodeURIComponent(match[2]);
+
+  const response = await tracker.fetch(new Request(
+    `http://internal/get?provider=${provider}&id=${encodeURIComponent(deliveryId)}`
+  ));
+  const delivery = await response.json() as { headers: Record<string, string>; payload: string | null } | null;
+
+  if (!delivery) {
+    return jsonResponse({ error: 'Delivery not found or expired' }, 404);
+  }
+
+  if (delivery.payload === null) {
+    return jsonResponse({ error: 'Delivery payload was too large to store and cannot be replayed' }, 409);
+  }
+
+  logWithContext('WEBHOOK_DELIVERIES', 'Replaying stored delivery', { provider, deliveryId });
+
+  const replayRequest = new Request(`${url.origin}/webhooks/${provider}`, {
+    method: 'POST',
+    headers: delivery.headers,
+    body: delivery.payload
+  });
+
+  let result: Response;
+  if (provider === 'github') {
+    result = await handleGitHubWebhook(replayRequest, env, { replay: true });
+  } else if (provider === 'gitlab') {
+    result = await handleGitLabWebhook(replayRequest, env, ctx, { replay: true });
+  } else if (provider === 'bitbucket') {
+    result = await handleBitbucketWebhook(replayRequest, env, ctx, { replay: true });
+  } else {
+    result = await handleGiteaWebhook(replayRequest, env, ctx, { replay: true });
+  }
+
+  return jsonResponse({
+    provider,
+    delivery: deliveryId,
+    status: result.status,
+    response: await result.text()
+  }, result.ok ? 200 : 502);
+}
@@ -1,5 +1,5 @@
 import { Container, loadBalance, getContainer } from '@cloudflare/containers';
-import { decrypt, generateInstallationToken } from './crypto';
+import { encrypt, decrypt, reEncrypt, getCurrentKeyId, generateInstallationToken, EncryptionEnv } from './crypto';
 import { containerFetch, getRouteFromRequest } from './fetch';
 import { handleOAuthCallback } from './handlers/oauth_callback';
 import { handleClaudeSetup } from './handlers/claude_setup';
@@ -8,7 +8,39 @@ import { handleGitHubStatus } from './handlers/github_status';
 import { handleGitHubWebhook } from './handlers/github_webhook';
 import { handleGitLabSetup } from './handlers/gitlab_setup';
 import { handleGitLabWebhook } from './handlers/gitlab_webhook';
+import { handleBitbucketSetup } from './handlers/bitbucket_setup';
+import { handleBitbucketWebhook } from './handlers/bitbucket_webhook';
+import { handleGiteaSetup } from './handlers/gitea_setup';
+import { handleGiteaWebhook } from './handlers/gitea_webhook';
+import { handleJobsRequest, installationForRepository, finishJob, DEFAULT_USAGE_DAYS, MAX_USAGE_DAYS } from './jobs';
+import { handleWebhookDeliveriesRequest } from './handlers/webhook_deliveries';
+import { handleUsageRequest } from './handlers/usage';
+import { handleTranscriptRequest } from './handlers/transcript';
+import { transcriptPath, transcriptKey } from './transcripts';
+import { sessionObjectKey } from './sessions';
+import { DELIVERY_TTL_SECONDS, DELIVERY_PROCESSING_TIMEOUT_MS } from './webhook_deliveries';
+import { isAdminRoute, requireAdmin } from './auth';
+import { handleAdminLogin } from './handlers/admin_login';
 import { logWithContext } from './log';
+import { TriggerPolicy, TriggerPolicyTarget, ResolvedTriggerPolicy, DEFAULT_TRIGGER_POLICY, handleTriggerPolicyRequest } from './trigger_policy';
+import { RunLimitsStore, handleRunLimitsRequest } from './run_limits';
+import {
+  DispatchJob,
+  DispatchLimits,
+  DispatchRequest,
+  QueueEntry,
+  QueueStatus,
+  QueueTicket,
+  planDispatch,
+  dispatchLimitsFromEnv,
+  runDispatchJob,
+  MAX_DISPATCH_ATTEMPTS,
+  RETRY_DELAY_MS,
+  RUN_LEASE_MS,
+  RUN_CHECK_INTERVAL_MS,
+  DEAD_LETTER_TTL_MS
+} from './dispatch_queue';
+import { handleDispatchQueueRequest } from './handlers/dispatch_queue';
 
 // Type definitions
 interface GitHubAppConfig {
@@ -49,13 +81,64 @@ interface Repository {
   default_branch: string;
 }
 
+// Re-encrypt the given columns of every row in a table under the current encryption key.
+// Used for key rotation and for migrating values written with the legacy static key.
+async function reEncryptColumns(
+  storage: DurableObjectStorage,
+  env: EncryptionEnv,
+  table: string,
+  columns: string[]
+): Promise<{ rotated: number; failed: number }> {
+  let rotated = 0;
+  let failed = 0;
+
+  const rows = storage.sql.exec(`SELECT id, ${columns.join(', ')} FROM ${table}`).toArray();
+
+  for (const row of rows) {
+    for (const column of columns) {
+      const value = row[column] as string | null;
+      if (!value) {
+        continue;
+      }
+
+      try {
+        const updated = await reEncrypt(value, env);
+        if (updated) {
+          storage.sql.exec(`UPDATE ${table} SET ${column} = ? WHERE id = ?`, updated, row.id);
+          rotated++;
+        }
+      } catch (error) {
+        failed++;
+        logWithContext('KEY_ROTATION', 'Failed to re-encrypt column', {
+          table,
+          column,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  }
+
+  return { rotated, failed };
+}
+
 export class GitHubAppConfigDO {
   private storage: DurableObjectStorage;
+  private env: EncryptionEnv;
+  private runLimits: RunLimitsStore;
 
-  constructor(state: DurableObjectState) {
+  constructor(state: DurableObjectState, env: EncryptionEnv) {
     this.storage = state.storage;
+    this.env = env;
+    this.runLimits = new RunLimitsStore(state.storage);
     this.initializeTables();
     logWithContext('DURABLE_OBJECT', 'GitHubAppConfigDO initialized with SQLite');
+
+    // Bring stored secrets onto the current key before serving any requests
+    if (env.ENCRYPTION_KEY) {
+      state.blockConcurrencyWhile(async () => {
+        await this.rotateEncryptionKey();
+      });
+    }
   }
 
   private initializeTables(): void {
@@ -103,6 +186,29 @@ export class GitHubAppConfigDO {
       )
     `);
 
+    // Create trigger_policies table (scope is 'installation:<id>' or a repository full name)
+    this.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS trigger_policies (
+        scope TEXT PRIMARY KEY,
+        mode TEXT NOT NULL,
+        trigger_label TEXT NOT NULL,
+        deny_label TEXT,
+        updated_at TEXT NOT NULL
+      )
+    `);
+
+    // Policies stored before they were keyed by installation applied to the whole app;
+    // hand them to the installation this app was set up with
+    this.storage.sql.exec(`
+      UPDATE trigger_policies
+      SET scope = 'installation:' || (SELECT installation_id FROM github_app_config WHERE id = 1)
+      WHERE scope = 'installation'
+        AND (SELECT installation_id FROM github_app_config WHERE id = 1) IS NOT NULL
+    `);
+
+    // Create run_limits table (model, turn, time and budget limits per run)
+    this.runLimits.initializeTable();
+
     logWithContext('DURABLE_OBJECT', 'SQLite tables initialized successfully');
   }
 
@@ -240,6 +346,54 @@ export class GitHubAppConfigDO {
       return new Response(JSON.stringify({ anthropicApiKey: apiKey }));
     }
 
+    if (url.pathname === '/rotate-encryption-key' && request.method === 'POST') {
+      logWithContext('DURABLE_OBJECT', 'Rotating encryption key');
+
+      const result = await this.rotateEncryptionKey();
+      return new Response(JSON.stringify(result));
+    }
+
+    if (url.pathname === '/get-trigger-policy' && request.method === 'GET') {
+      const policy = await this.getTriggerPolicy(
+        url.searchParams.get('repository'),
+        url.searchParams.get('installation_id')
+      );
+      return new Response(JSON.stringify(policy));
+    }
+
+    if (url.pathname === '/list-trigger-policies' && request.method === 'GET') {
+      const policies = await this.listTriggerPolicies();
+      return new Response(JSON.stringify(policies));
+    }
+
+    if (url.pathname === '/store-trigger-policy' && request.method === 'POST') {
+      const { policy, ...target } = await request.json() as TriggerPolicyTarget & { policy: TriggerPolicy };
+      const scope = this.triggerPolicyScope(target);
+      if (!scope) {
+        return new Response('Missing installation or repository', { status: 400 });
+      }
+
+      logWithContext('DURABLE_OBJECT', 'Storing trigger policy', { scope, mode: policy.mode });
+
+      await this.storeTriggerPolicy(scope, policy);
+      return new Response('OK');
+    }
+
+    if (url.pathname === '/remove-trigger-policy' && request.method === 'DELETE') {
+      const scope = this.triggerPolicyScope(await request.json() as TriggerPolicyTarget);
+      if (!scope) {
+        return new Response('Missing installation or repository', { status: 400 });
+      }
+
+      await this.removeTriggerPolicy(scope);
+      return new Response('OK');
+    }
+
+    const runLimitsResponse = await this.runLimits.handleRequest(request, url);
+    if (runLimitsResponse) {
+      return runLimitsResponse;
+    }
+
     logWithContext('DURABLE_OBJECT', 'Unknown endpoint requested', {
       method: request.method,
       pathname: url.pathname
@@ -373,8 +527,8 @@ export class GitHubAppConfigDO {
     try {
       logWithContext('DURABLE_OBJECT', 'Decrypting credentials');
 
-      const privateKey = await decrypt(config.privateKey);
-      const webhookSecret = await decrypt(config.webhookSecret);
+      const privateKey = await decrypt(config.privateKey, this.env);
+      const webhookSecret = await decrypt(config.webhookSecret, this.env);
 
       logWithContext('DURABLE_OBJECT', 'Credentials decrypted successfully');
       return { privateKey, webhookSecret };
@@ -521,7 +675,7 @@ export class GitHubAppConfigDO {
         setupAt: row.claude_setup_at
       });
 
-      const decryptedKey = await decrypt(row.anthropic_api_key as string);
+      const decryptedKey = await decrypt(row.anthropic_api_key as string, this.env);
 
       logWithContext('DURABLE_OBJECT', 'Claude API key decrypted successfully');
       return decryptedKey;
@@ -533,7 +687,91 @@ export class GitHubAppConfigDO {
     }
   }
 
+  // Re-encrypt stored secrets (app private key, webhook secret, Claude API key) under the current key
+  async rotateEncryptionKey(): Promise<{ rotated: number; failed: number }> {
+    const appConfig = await reEncryptColumns(this.storage, this.env, 'github_app_config', ['private_key', 'webhook_secret']);
+    const claudeConfig = await reEncryptColumns(this.storage, this.env, 'claude_config', ['anthropic_api_key']);
+
+    const result = {
+      rotated: appConfig.rotated + claudeConfig.rotated,
+      failed: appConfig.failed + claudeConfig.failed
+    };
+
+    logWithContext('KEY_ROTATION', 'GitHub config encryption key rotation complete', result);
+    return result;
+  }
+
   // SQLite-specific enhancement methods
+  // Scopes are "installation:<id>" or a repository full name. Repository names are matched
+  // case-insensitively, like GitHub does.
+  private triggerPolicyScope(target: TriggerPolicyTarget): string | null {
+    if (target.repository) {
+      return target.repository.toLowerCase();
+    }
+    return target.installationId ? `installation:${target.installationId}` : null;
+  }
+
+  private rowToTriggerPolicy(row: Record<string, any>): TriggerPolicy {
+    return {
+      mode: row.mode,
+      triggerLabel: row.trigger_label,
+      ...(row.deny_label ? { denyLabel: row.deny_label } : {})
+    };
+  }
+
+  // A repository override wins over the policy of its installation, which wins over the default
+  async getTriggerPolicy(repository: string | null, installationId: string | null): Promise<ResolvedTriggerPolicy> {
+    const scopes = [
+      this.triggerPolicyScope({ repository }),
+      this.triggerPolicyScope({ installationId })
+    ].filter((scope): scope is string => !!scope);
+
+    for (const scope of scopes) {
+      const results = this.storage.sql.exec('SELECT * FROM trigger_policies WHERE scope = ? LIMIT 1', scope).toArray();
+      if (results.length > 0) {
+        return {
+          policy: this.rowToTriggerPolicy(results[0]),
+          source: scope.startsWith('installation:') ? 'installation' : 'repository'
+        };
+      }
+    }
+
+    return { policy: DEFAULT_TRIGGER_POLICY, source: 'default' };
+  }
+
+  async listTriggerPolicies(): Promise<{ installations: Record<string, TriggerPolicy>; repositories: Record<string, TriggerPolicy> }> {
+    const rows = this.storage.sql.exec('SELECT * FROM trigger_policies ORDER BY scope').toArray();
+    const installations: Record<string, TriggerPolicy> = {};
+    const repositories: Record<string, TriggerPolicy> = {};
+
+    for (const row of rows) {
+      const scope = row.scope as string;
+      if (scope.startsWith('installation:')) {
+        installations[scope.slice('installation:'.length)] = this.rowToTriggerPolicy(row);
+      } else if (scope.includes('/')) {
+        repositories[scope] = this.rowToTriggerPolicy(row);
+      }
+    }
+
+    return { installations, repositories };
+  }
+
+  async storeTriggerPolicy(scope: string, policy: TriggerPolicy): Promise<void> {
+    this.storage.sql.exec(
+      `INSERT OR REPLACE INTO trigger_policies (scope, mode, trigger_label, deny_label, updated_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      scope,
+      policy.mode,
+      policy.triggerLabel,
+      policy.denyLabel || null,
+      new Date().toISOString()
+    );
+  }
+
+  async removeTriggerPolicy(scope: string): Promise<void> {
+    this.storage.sql.exec('DELETE FROM trigger_policies WHERE scope = ?', scope);
+  }
+
   async getWebhookStats(): Promise<{ totalWebhooks: number; lastWebhookAt: string | null }> {
     const cursor = this.storage.sql.exec(`
       SELECT webhook_count, last_webhook_at
@@ -599,11 +837,22 @@ export class GitHubAppConfigDO {
 
 export class GitLabAppConfigDO {
   private storage: DurableObjectStorage;
+  private env: EncryptionEnv;
+  private runLimits: RunLimitsStore;
 
-  constructor(state: DurableObjectState) {
+  constructor(state: DurableObjectState, env: EncryptionEnv) {
     this.storage = state.storage;
+    this.env = env;
+    this.runLimits = new RunLimitsStore(state.storage);
     this.initializeTables();
     logWithContext('DURABLE_OBJECT', 'GitLabAppConfigDO initialized with SQLite');
+
+    // Bring stored secrets onto the current key before serving any requests
+    if (env.ENCRYPTION_KEY) {
+      state.blockConcurrencyWhile(async () => {
+        await this.rotateEncryptionKey();
+      });
+    }
   }
 
   private initializeTables(): void {
@@ -619,6 +868,7 @@ export class GitLabAppConfigDO {
         webhook_secret TEXT NOT NULL,
         project_name TEXT,
         project_namespace TEXT,
+        secrets_encrypted INTEGER NOT NULL DEFAULT 0,
         created_at TEXT NOT NULL,
         updated_at TEXT NOT NULL
       )
@@ -635,11 +885,21 @@ export class GitLabAppConfigDO {
         group_name TEXT,
         group_path TEXT,
         auto_discover_projects BOOLEAN DEFAULT 1,
+        secrets_encrypted INTEGER NOT NULL DEFAULT 0,
         created_at TEXT NOT NULL,
         updated_at TEXT NOT NULL
       )
     `);
 
+    // Tables created by earlier releases stored tokens and webhook secrets in plaintext;
+    // their rows are marked unencrypted until rotateEncryptionKey() migrates them
+    for (const table of ['gitlab_projects', 'gitlab_groups']) {
+      const columns = this.storage.sql.exec(`PRAGMA table_info(${table})`).toArray();
+      if (!columns.some(column => column.name === 'secrets_encrypted')) {
+        this.storage.sql.exec(`ALTER TABLE ${table} ADD COLUMN secrets_encrypted INTEGER NOT NULL DEFAULT 0`);
+      }
+    }
+
     // Create claude_config table (shared Claude API key)
     this.storage.sql.exec(`
       CREATE TABLE IF NOT EXISTS claude_config (
@@ -651,6 +911,9 @@ export class GitLabAppConfigDO {
       )
     `);
 
+    // Create run_limits table (model, turn, time and budget limits per run)
+    this.runLimits.initializeTable();
+
     logWithContext('DURABLE_OBJECT', 'GitLab SQLite tables initialized successfully');
   }
 
@@ -733,6 +996,16 @@ export class GitLabAppConfigDO {
       return new Response(JSON.stringify({ anthropicApiKey: apiKey }));
     }
 
+    if (url.pathname === '/rotate-encryption-key' && request.method === 'POST') {
+      const result = await this.rotateEncryptionKey();
+      return new Response(JSON.stringify(result));
+    }
+
+    const runLimitsResponse = await this.runLimits.handleRequest(request, url);
+    if (runLimitsResponse) {
+      return runLimitsResponse;
+    }
+
     return new Response('Not Found', { status: 404 });
   }
 
@@ -741,12 +1014,12 @@ export class GitLabAppConfigDO {
     
     this.storage.sql.exec(
       `INSERT OR REPLACE INTO gitlab_projects (
-        project_id, gitlab_url, token, webhook_secret, project_name, project_namespace, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        project_id, gitlab_url, token, webhook_secret, project_name, project_namespace, secrets_encrypted, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, 1, ?, ?)`,
       config.projectId,
       config.gitlabUrl,
-      config.token,
-      config.webhookSecret,
+      await encrypt(config.token, this.env),
+      await encrypt(config.webhookSecret, this.env),
       config.projectName || null,
       config.projectNamespace || null,
       now,
@@ -764,15 +1037,7 @@ export class GitLabAppConfigDO {
         return null;
       }
 
-      const row = results[0];
-      return {
-        gitlabUrl: row.gitlab_url,
-        projectId: row.project_id,
-        token: row.token,
-        webhookSecret: row.webhook_secret,
-        projectName: row.project_name,
-        projectNamespace: row.project_namespace
-      };
+      return this.toProjectCredentials(results[0]);
     }
 
     const cursor = this.storage.sql.exec('SELECT * FROM gitlab_projects WHERE project_id = ? LIMIT 1', projectId);
@@ -782,17 +1047,43 @@ export class GitLabAppConfigDO {
       return null;
     }
 
-    const row = results[0];
+    return this.toProjectCredentials(results[0]);
+  }
+
+  private async toProjectCredentials(row: Record<string, SqlStorageValue>): Promise<any> {
+    const secrets = await this.decryptSecrets(row);
+    if (!secrets) {
+      return null;
+    }
+
     return {
       gitlabUrl: row.gitlab_url,
       projectId: row.project_id,
-      token: row.token,
-      webhookSecret: row.webhook_secret,
+      ...secrets,
       projectName: row.project_name,
       projectNamespace: row.project_namespace
     };
   }
 
+  // Decrypt a row's token and webhook secret; rows not yet migrated still hold plaintext
+  private async decryptSecrets(row: Record<string, SqlStorageValue>): Promise<{ token: string; webhookSecret: string } | null> {
+    if (row.secrets_encrypted !== 1) {
+      return { token: row.token as string, webhookSecret: row.webhook_secret as string };
+    }
+
+    try {
+      return {
+        token: await decrypt(row.token as string, this.env),
+        webhookSecret: await decrypt(row.webhook_secret as string, this.env)
+      };
+    } catch (error) {
+      logWithContext('DURABLE_OBJECT', 'Failed to decrypt GitLab credentials', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
   async listProjects(): Promise<any[]> {
     const cursor = this.storage.sql.exec('SELECT * FROM gitlab_projects ORDER BY created_at DESC');
     const results = cursor.toArray();
@@ -817,12 +1108,12 @@ export class GitLabAppConfigDO {
     
     this.storage.sql.exec(
       `INSERT OR REPLACE INTO gitlab_groups (
-        group_id, gitlab_url, token, webhook_secret, group_name, group_path, auto_discover_projects, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        group_id, gitlab_url, token, webhook_secret, group_name, group_path, auto_discover_projects, secrets_encrypted, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, 1, ?, ?)`,
       config.groupId,
       config.gitlabUrl,
-      config.token,
-      config.webhookSecret,
+      await encrypt(config.token, this.env),
+      await encrypt(config.webhookSecret, this.env),
       config.groupName || null,
       config.groupPath || null,
       config.autoDiscoverProjects !== false ? 1 : 0,
@@ -841,16 +1132,7 @@ export class GitLabAppConfigDO {
         return null;
       }
 
-      const row = results[0];
-      return {
-        gitlabUrl: row.gitlab_url,
-        groupId: row.group_id,
-        token: row.token,
-        webhookSecret: row.webhook_secret,
-        groupName: row.group_name,
-        groupPath: row.group_path,
-        autoDiscoverProjects: row.auto_discover_projects === 1
-      };
+      return this.toGroupCredentials(results[0]);
     }
 
     const cursor = this.storage.sql.exec('SELECT * FROM gitlab_groups WHERE group_id = ? LIMIT 1', groupId);
@@ -860,12 +1142,19 @@ export class GitLabAppConfigDO {
       return null;
     }
 
-    const row = results[0];
+    return this.toGroupCredentials(results[0]);
+  }
+
+  private async toGroupCredentials(row: Record<string, SqlStorageValue>): Promise<any> {
+    const secrets = await this.decryptSecrets(row);
+    if (!secrets) {
+      return null;
+    }
+
     return {
       gitlabUrl: row.gitlab_url,
       groupId: row.group_id,
-      token: row.token,
-      webhookSecret: row.webhook_secret,
+      ...secrets,
       groupName: row.group_name,
       groupPath: row.group_path,
       autoDiscoverProjects: row.auto_discover_projects === 1
@@ -899,15 +1188,7 @@ export class GitLabAppConfigDO {
     for (const row of results) {
       const groupPath = row.group_path as string;
       if (groupPath && projectNamespace.startsWith(groupPath + '/')) {
-        return {
-          gitlabUrl: row.gitlab_url,
-          groupId: row.group_id,
-          token: row.token,
-          webhookSecret: row.webhook_secret,
-          groupName: row.group_name,
-          groupPath: row.group_path,
-          autoDiscoverProjects: row.auto_discover_projects === 1
-        };
+        return this.toGroupCredentials(row);
       }
     }
 
@@ -949,7 +1230,7 @@ export class GitLabAppConfigDO {
         setupAt: row.claude_setup_at
       });
 
-      const decryptedKey = await decrypt(row.anthropic_api_key as string);
+      const decryptedKey = await decrypt(row.anthropic_api_key as string, this.env);
 
       logWithContext('DURABLE_OBJECT', 'Claude API key decrypted successfully from GitLab storage');
       return decryptedKey;
@@ -960,116 +1241,1665 @@ export class GitLabAppConfigDO {
       return null;
     }
   }
-}
 
-export class MyContainer extends Container {
-  defaultPort = 8080;
-  requiredPorts = [8080];
-  sleepAfter = '45s'; // Extended timeout for Claude Code processing
-  envVars: Record<string, string> = {
-    MESSAGE: 'I was passed in via the container class!',
-  };
+  // Encrypt project and group secrets still stored in plaintext, then re-encrypt every stored
+  // secret under the current key
+  async rotateEncryptionKey(): Promise<{ rotated: number; failed: number }> {
+    const migrated = await this.encryptPlaintextSecrets();
+    const projects = await reEncryptColumns(this.storage, this.env, 'gitlab_projects', ['token', 'webhook_secret']);
+    const groups = await reEncryptColumns(this.storage, this.env, 'gitlab_groups', ['token', 'webhook_secret']);
+    const claudeConfig = await reEncryptColumns(this.storage, this.env, 'claude_config', ['anthropic_api_key']);
+
+    const result = {
+      rotated: migrated.rotated + projects.rotated + groups.rotated + claudeConfig.rotated,
+      failed: migrated.failed + projects.failed + groups.failed + claudeConfig.failed
+    };
 
-  // Override fetch to handle environment variable setting for specific requests
-  override async fetch(request: Request): Promise<Response> {
-    const url = new URL(request.url);
+    logWithContext('KEY_ROTATION', 'GitLab config encryption key rotation complete', result);
+    return result;
+  }
 
-    logWithContext('CONTAINER', 'Container request received', {
-      method: request.method,
-      pathname: url.pathname,
-      headers: Object.fromEntries(request.headers.entries())
-    });
+  private async encryptPlaintextSecrets(): Promise<{ rotated: number; failed: number }> {
+    let rotated = 0;
+    let failed = 0;
+
+    for (const table of ['gitlab_projects', 'gitlab_groups']) {
+      const rows = this.storage.sql.exec(
+        `SELECT id, token, webhook_secret FROM ${table} WHERE secrets_encrypted = 0`
+      ).toArray();
+
+      for (const row of rows) {
+        try {
+          this.storage.sql.exec(
+            `UPDATE ${table} SET token = ?, webhook_secret = ?, secrets_encrypted = 1 WHERE id = ?`,
+            await encrypt(row.token as string, this.env),
+            await encrypt(row.webhook_secret as string, this.env),
+            row.id
+          );
+          rotated += 2;
+        } catch (error) {
+          failed++;
+          logWithContext('KEY_ROTATION', 'Failed to encrypt plaintext GitLab secrets', {
+            table,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+    }
 
-    // Handle process-issue requests by setting environment variables
-    if (url.pathname === '/process-issue' && request.method === 'POST') {
-      logWithContext('CONTAINER', 'Processing issue request');
+    return { rotated, failed };
+  }
+}
 
-      try {
-        const issueContext = await request.json() as Record<string, any>;
+// Bitbucket Cloud credentials: an app password per repository, or one for a whole workspace
+// (stored with an empty repo_slug). App passwords and webhook secrets are stored encrypted.
+export class BitbucketAppConfigDO {
+  private storage: DurableObjectStorage;
+  private env: EncryptionEnv;
+  private runLimits: RunLimitsStore;
 
-        logWithContext('CONTAINER', 'Issue context received', {
-          issueId: issueContext.ISSUE_ID,
-          repository: issueContext.REPOSITORY_NAME,
-          envVarCount: Object.keys(issueContext).length
-        });
+  constructor(state: DurableObjectState, env: EncryptionEnv) {
+    this.storage = state.storage;
+    this.env = env;
+    this.runLimits = new RunLimitsStore(state.storage);
+    this.initializeTables();
+    logWithContext('DURABLE_OBJECT', 'BitbucketAppConfigDO initialized with SQLite');
 
-        // Set environment variables for this container instance
-        let envVarsSet = 0;
-        Object.entries(issueContext).forEach(([key, value]) => {
-          if (typeof value === 'string') {
-            this.envVars[key] = value;
-            envVarsSet++;
-          }
-        });
+    // Bring stored secrets onto the current key before serving any requests
+    if (env.ENCRYPTION_KEY) {
+      state.blockConcurrencyWhile(async () => {
+        await this.rotateEncryptionKey();
+      });
+    }
+  }
 
-        logWithContext('CONTAINER', 'Environment variables set', {
-          envVarsSet,
-          totalEnvVars: Object.keys(issueContext).length
-        });
+  private initializeTables(): void {
+    this.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS bitbucket_repositories (
+        id INTEGER PRIMARY KEY,
+        workspace TEXT NOT NULL,
+        repo_slug TEXT NOT NULL,
+        username TEXT NOT NULL,
+        app_password TEXT NOT NULL,
+        webhook_secret TEXT NOT NULL,
+        account_uuid TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        UNIQUE (workspace, repo_slug)
+      )
+    `);
 
-        logWithContext('CONTAINER', 'Forwarding request to container');
+    // Create run_limits table (model, turn, time and budget limits per run)
+    this.runLimits.initializeTable();
+  }
 
-        // Create a new request with the JSON data to avoid ReadableStream being disturbed
-        const newRequest = new Request(request.url, {
-          method: request.method,
-          headers: request.headers,
-          body: JSON.stringify(issueContext)
-        });
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
 
-        const response = await super.fetch(newRequest);
+    logWithContext('DURABLE_OBJECT', 'Processing Bitbucket config request', {
+      method: request.method,
+      pathname: url.pathname
+    });
 
-        logWithContext('CONTAINER', 'Container response received', {
-          status: response.status,
-          statusText: response.statusText
-        });
+    if (url.pathname === '/store' && request.method === 'POST') {
+      const config = await request.json();
+      await this.storeCredentials(config);
+      return new Response('OK');
+    }
 
-        return response;
-      } catch (error) {
-        logWithContext('CONTAINER', 'Error processing issue request', {
-          error: error instanceof Error ? error.message : String(error),
-          stack: error instanceof Error ? error.stack : undefined
-        });
+    if (url.pathname === '/get-credentials' && request.method === 'GET') {
+      const credentials = await this.getDecryptedCredentials(url.searchParams.get('repository') || '');
+      return new Response(JSON.stringify(credentials));
+    }
 
-        return new Response(JSON.stringify({
-          error: 'Failed to process issue context',
-          message: (error as Error).message
-        }), {
-          status: 500,
-          headers: { 'Content-Type': 'application/json' }
-        });
+    if (url.pathname === '/list' && request.method === 'GET') {
+      return new Response(JSON.stringify(this.listCredentials()));
+    }
+
+    if (url.pathname === '/remove' && request.method === 'DELETE') {
+      const workspace = url.searchParams.get('workspace');
+      if (!workspace) {
+        return new Response('Bad Request', { status: 400 });
       }
+      this.storage.sql.exec(
+        'DELETE FROM bitbucket_repositories WHERE workspace = ? AND repo_slug = ?',
+        workspace.toLowerCase(),
+        (url.searchParams.get('repo_slug') || '').toLowerCase()
+      );
+      return new Response('OK');
     }
 
-    // For all other requests, use default behavior
-    logWithContext('CONTAINER', 'Using default container behavior');
-    return super.fetch(request);
-  }
+    if (url.pathname === '/rotate-encryption-key' && request.method === 'POST') {
+      const result = await this.rotateEncryptionKey();
+      return new Response(JSON.stringify(result));
+    }
 
-  override onStart() {
-    logWithContext('CONTAINER_LIFECYCLE', 'Container started successfully', {
-      port: this.defaultPort,
-      sleepAfter: this.sleepAfter
-    });
-  }
+    const runLimitsResponse = await this.runLimits.handleRequest(request, url);
+    if (runLimitsResponse) {
+      return runLimitsResponse;
+    }
 
-  override onStop() {
-    logWithContext('CONTAINER_LIFECYCLE', 'Container shut down successfully');
+    return new Response('Not Found', { status: 404 });
   }
 
-  override onError(error: unknown) {
-    logWithContext('CONTAINER_LIFECYCLE', 'Container error occurred', {
-      error: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined
-    });
+  // Workspace and repository slugs are case-insensitive on Bitbucket, so they're stored lowercased
+  async storeCredentials(config: any): Promise<void> {
+    const now = new Date().toISOString();
+
+    this.storage.sql.exec(
+      `INSERT INTO bitbucket_repositories (
+        workspace, repo_slug, username, app_password, webhook_secret, account_uuid, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (workspace, repo_slug) DO UPDATE SET
+        username = excluded.username,
+        app_password = excluded.app_password,
+        webhook_secret = excluded.webhook_secret,
+        account_uuid = excluded.account_uuid,
+        updated_at = excluded.updated_at`,
+      config.workspace.toLowerCase(),
+      (config.repoSlug || '').toLowerCase(),
+      config.username,
+      config.appPassword,
+      config.webhookSecret,
+      config.accountUuid || null,
+      now,
+      now
+    );
   }
-}
 
-export interface Env {
-  MY_CONTAINER: DurableObjectNamespace<Container<unknown>>;
+  // Credentials for a repository (`workspace/repo-slug`): its own, else its workspace's
+  async getDecryptedCredentials(repository: string): Promise<any> {
+    const [workspace, slug = ''] = repository.toLowerCase().split('/', 2);
+    const results = this.storage.sql.exec(
+      `SELECT * FROM bitbucket_repositories
+        WHERE workspace = ? AND repo_slug IN (?, '')
+        ORDER BY repo_slug DESC LIMIT 1`,
+      workspace,
+      slug
+    ).toArray();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const row = results[0];
+    try {
+      return {
+        workspace: row.workspace,
+        repoSlug: row.repo_slug || null,
+        username: row.username,
+        appPassword: await decrypt(row.app_password as string, this.env),
+        webhookSecret: await decrypt(row.webhook_secret as string, this.env),
+        accountUuid: row.account_uuid
+      };
+    } catch (error) {
+      logWithContext('DURABLE_OBJECT', 'Failed to decrypt Bitbucket credentials', {
+        repository,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  listCredentials(): any[] {
+    return this.storage.sql.exec('SELECT * FROM bitbucket_repositories ORDER BY workspace, repo_slug').toArray().map(row => ({
+      workspace: row.workspace,
+      repoSlug: row.repo_slug || null,
+      username: row.username,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }));
+  }
+
+  // Re-encrypt the stored app passwords and webhook secrets under the current key
+  async rotateEncryptionKey(): Promise<{ rotated: number; failed: number }> {
+    const result = await reEncryptColumns(this.storage, this.env, 'bitbucket_repositories', ['app_password', 'webhook_secret']);
+
+    logWithContext('KEY_ROTATION', 'Bitbucket config encryption key rotation complete', result);
+    return result;
+  }
+}
+
+// Gitea/Forgejo credentials per instance: an access token per repository, or one for every
+// repository of an owner (stored with an empty repo). Tokens and webhook secrets are stored encrypted.
+export class GiteaAppConfigDO {
+  private storage: DurableObjectStorage;
+  private env: EncryptionEnv;
+  private runLimits: RunLimitsStore;
+
+  constructor(state: DurableObjectState, env: EncryptionEnv) {
+    this.storage = state.storage;
+    this.env = env;
+    this.runLimits = new RunLimitsStore(state.storage);
+    this.initializeTables();
+    logWithContext('DURABLE_OBJECT', 'GiteaAppConfigDO initialized with SQLite');
+
+    // Bring stored secrets onto the current key before serving any requests
+    if (env.ENCRYPTION_KEY) {
+      state.blockConcurrencyWhile(async () => {
+        await this.rotateEncryptionKey();
+      });
+    }
+  }
+
+  private initializeTables(): void {
+    this.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS gitea_repositories (
+        id INTEGER PRIMARY KEY,
+        gitea_url TEXT NOT NULL,
+        owner TEXT NOT NULL,
+        repo TEXT NOT NULL,
+        token TEXT NOT NULL,
+        webhook_secret TEXT NOT NULL,
+        account_id INTEGER,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        UNIQUE (gitea_url, owner, repo)
+      )
+    `);
+
+    // Create run_limits table (model, turn, time and budget limits per run)
+    this.runLimits.initializeTable();
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    logWithContext('DURABLE_OBJECT', 'Processing Gitea config request', {
+      method: request.method,
+      pathname: url.pathname
+    });
+
+    if (url.pathname === '/store' && request.method === 'POST') {
+      const config = await request.json();
+      await this.storeCredentials(config);
+      return new Response('OK');
+    }
+
+    if (url.pathname === '/get-credentials' && request.method === 'GET') {
+      const credentials = await this.getDecryptedCredentials(
+        url.searchParams.get('gitea_url') || '',
+        url.searchParams.get('repository') || ''
+      );
+      return new Response(JSON.stringify(credentials));
+    }
+
+    if (url.pathname === '/list' && request.method === 'GET') {
+      return new Response(JSON.stringify(this.listCredentials()));
+    }
+
+    if (url.pathname === '/remove' && request.method === 'DELETE') {
+      const giteaUrl = url.searchParams.get('gitea_url');
+      const owner = url.searchParams.get('owner');
+      if (!giteaUrl || !owner) {
+        return new Response('Bad Request', { status: 400 });
+      }
+      this.storage.sql.exec(
+        'DELETE FROM gitea_repositories WHERE gitea_url = ? AND owner = ? AND repo = ?',
+        giteaUrl,
+        owner.toLowerCase(),
+        (url.searchParams.get('repo') || '').toLowerCase()
+      );
+      return new Response('OK');
+    }
+
+    if (url.pathname === '/rotate-encryption-key' && request.method === 'POST') {
+      const result = await this.rotateEncryptionKey();
+      return new Response(JSON.stringify(result));
+    }
+
+    const runLimitsResponse = await this.runLimits.handleRequest(request, url);
+    if (runLimitsResponse) {
+      return runLimitsResponse;
+    }
+
+    return new Response('Not Found', { status: 404 });
+  }
+
+  // Owner and repository names are case-insensitive on Gitea, so they're stored lowercased
+  async storeCredentials(config: any): Promise<void> {
+    const now = new Date().toISOString();
+
+    this.storage.sql.exec(
+      `INSERT INTO gitea_repositories (
+        gitea_url, owner, repo, token, webhook_secret, account_id, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (gitea_url, owner, repo) DO UPDATE SET
+        token = excluded.token,
+        webhook_secret = excluded.webhook_secret,
+        account_id = excluded.account_id,
+        updated_at = excluded.updated_at`,
+      config.giteaUrl,
+      config.owner.toLowerCase(),
+      (config.repo || '').toLowerCase(),
+      config.token,
+      config.webhookSecret,
+      config.accountId ?? null,
+      now,
+      now
+    );
+  }
+
+  // Credentials for a repository (`owner/name`) on an instance: its own, else its owner's
+  async getDecryptedCredentials(giteaUrl: string, repository: string): Promise<any> {
+    const [owner, repo = ''] = repository.toLowerCase().split('/', 2);
+    const results = this.storage.sql.exec(
+      `SELECT * FROM gitea_repositories
+        WHERE gitea_url = ? AND owner = ? AND repo IN (?, '')
+        ORDER BY repo DESC LIMIT 1`,
+      giteaUrl,
+      owner,
+      repo
+    ).toArray();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const row = results[0];
+    try {
+      return {
+        giteaUrl: row.gitea_url,
+        owner: row.owner,
+        repo: row.repo || null,
+        token: await decrypt(row.token as string, this.env),
+        webhookSecret: await decrypt(row.webhook_secret as string, this.env),
+        accountId: row.account_id
+      };
+    } catch (error) {
+      logWithContext('DURABLE_OBJECT', 'Failed to decrypt Gitea credentials', {
+        giteaUrl,
+        repository,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  listCredentials(): any[] {
+    return this.storage.sql.exec('SELECT * FROM gitea_repositories ORDER BY gitea_url, owner, repo').toArray().map(row => ({
+      giteaUrl: row.gitea_url,
+      owner: row.owner,
+      repo: row.repo || null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }));
+  }
+
+  // Re-encrypt the stored tokens and webhook secrets under the current key
+  async rotateEncryptionKey(): Promise<{ rotated: number; failed: number }> {
+    const result = await reEncryptColumns(this.storage, this.env, 'gitea_repositories', ['token', 'webhook_secret']);
+
+    logWithContext('KEY_ROTATION', 'Gitea config encryption key rotation complete', result);
+    return result;
+  }
+}
+
+// A stored transcript or session file that is not yet encrypted under the current key
+interface StaleCiphertext {
+  table: 'job_transcripts' | 'thread_sessions';
+  id: string;
+  storage: string;
+  keyId: string | null;
+  objectKey: string;
+}
+
+export class JobTrackerDO {
+  private static readonly USAGE_COLUMNS =
+    'job_usage.input_tokens, job_usage.output_tokens, job_usage.cache_read_tokens, job_usage.cache_write_tokens, job_usage.cost_usd';
+
+  private static readonly JOB_JOINS =
+    'LEFT JOIN job_usage ON job_usage.job_id = jobs.id LEFT JOIN job_transcripts ON job_transcripts.job_id = jobs.id';
+
+  // Longest an alarm spends re-encrypting transcripts and sessions before handing over to the next one
+  private static readonly ROTATION_SLICE_MS = 10 * 1000;
+
+  // How long a commit's CI fix claim is kept; failures on a commit come in within minutes
+  private static readonly CI_FIX_CLAIM_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+  private storage: DurableObjectStorage;
+  private env: Record<string, any>;
+
+  constructor(state: DurableObjectState, env: Record<string, any> = {}) {
+    this.storage = state.storage;
+    this.env = env;
+    this.initializeTables();
+    logWithContext('DURABLE_OBJECT', 'JobTrackerDO initialized with SQLite');
+
+    // Transcripts and session files can be large, so unlike credentials they are brought onto
+    // the current key from the alarm, a slice at a time, rather than before serving requests
+    if (env.ENCRYPTION_KEY) {
+      state.blockConcurrencyWhile(async () => {
+        const currentKeyId = await getCurrentKeyId(env);
+        if (currentKeyId && this.findStaleCiphertexts(currentKeyId).length > 0) {
+          await this.storage.setAlarm(Date.now());
+        }
+      });
+    }
+  }
+
+  private initializeTables(): void {
+    // Create jobs table (one row per container run)
+    this.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        trigger_event TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        repository TEXT NOT NULL,
+        reference TEXT NOT NULL,
+        container_name TEXT NOT NULL,
+        status TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        ended_at TEXT,
+        turn_count INTEGER,
+        outcome TEXT,
+        pr_url TEXT,
+        error TEXT
+      )
+    `);
+
+    this.storage.sql.exec('CREATE INDEX IF NOT EXISTS jobs_started_at ON jobs (started_at)');
+
+    // Create job_usage table (tokens and cost per finished run; day is the UTC day the run started)
+    this.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS job_usage (
+        job_id TEXT PRIMARY KEY,
+        day TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        installation TEXT NOT NULL,
+        repository TEXT NOT NULL,
+        input_tokens INTEGER NOT NULL,
+        output_tokens INTEGER NOT NULL,
+        cache_read_tokens INTEGER NOT NULL,
+        cache_write_tokens INTEGER NOT NULL,
+        cost_usd REAL NOT NULL
+      )
+    `);
+
+    this.storage.sql.exec('CREATE INDEX IF NOT EXISTS job_usage_day ON job_usage (day)');
+
+    // Create job_transcripts table (one row per stored transcript; messages is NULL when the
+    // transcript itself is in the TRANSCRIPTS R2 bucket; key_id is the key the transcript is
+    // encrypted with, NULL for transcripts stored before they were encrypted)
+    this.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS job_transcripts (
+        job_id TEXT PRIMARY KEY,
+        storage TEXT NOT NULL,
+        size_bytes INTEGER NOT NULL,
+        message_count INTEGER NOT NULL,
+        truncated INTEGER NOT NULL,
+        messages TEXT,
+        key_id TEXT,
+        created_at TEXT NOT NULL
+      )
+    `);
+
+    // Create thread_sessions table (the Claude session to resume for each issue or merge
+    // request thread; data is NULL when the session file is in the TRANSCRIPTS R2 bucket;
+    // key_id as for transcripts)
+    this.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS thread_sessions (
+        thread TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        branch TEXT,
+        storage TEXT NOT NULL,
+        data TEXT,
+        key_id TEXT,
+        updated_at TEXT NOT NULL
+      )
+    `);
+
+    // Create ci_fix_claims table (the pull request commits a CI fix was taken on for, so that
+    // several workflows failing on one commit start a single fix)
+    this.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS ci_fix_claims (
+        repository TEXT NOT NULL,
+        reference TEXT NOT NULL,
+        head_sha TEXT NOT NULL,
+        claimed_at INTEGER NOT NULL,
+        PRIMARY KEY (repository, reference, head_sha)
+      )
+    `);
+
+    for (const table of ['job_transcripts', 'thread_sessions']) {
+      const columns = this.storage.sql.exec(`PRAGMA table_info(${table})`).toArray();
+      if (!columns.some(column => column.name === 'key_id')) {
+        this.storage.sql.exec(`ALTER TABLE ${table} ADD COLUMN key_id TEXT`);
+      }
+    }
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname === '/start' && request.method === 'POST') {
+      const job = await request.json() as Record<string, string>;
+      const id = await this.startJob(job);
+      return new Response(JSON.stringify({ id }));
+    }
+
+    if (url.pathname === '/finish' && request.method === 'POST') {
+      const result = await request.json() as Record<string, any>;
+      await this.finishJob(result);
+      return new Response('OK');
+    }
+
+    if (url.pathname === '/get' && request.method === 'GET') {
+      const job = await this.getJob(url.searchParams.get('id') || '');
+      return new Response(JSON.stringify(job));
+    }
+
+    if (url.pathname === '/list' && request.method === 'GET') {
+      const jobs = await this.listJobs({
+        repository: url.searchParams.get('repository'),
+        status: url.searchParams.get('status'),
+        reference: url.searchParams.get('reference'),
+        limit: parseInt(url.searchParams.get('limit') || '50')
+      });
+      return new Response(JSON.stringify(jobs));
+    }
+
+    if (url.pathname === '/usage' && request.method === 'GET') {
+      const summary = await this.getUsageSummary({
+        days: parseInt(url.searchParams.get('days') || String(DEFAULT_USAGE_DAYS)),
+        provider: url.searchParams.get('provider'),
+        repository: url.searchParams.get('repository')
+      });
+      return new Response(JSON.stringify(summary));
+    }
+
+    if (url.pathname === '/transcript' && request.method === 'POST') {
+      const transcript = await request.json() as Record<string, any>;
+      await this.storeTranscript(transcript);
+      return new Response('OK');
+    }
+
+    if (url.pathname === '/transcript' && request.method === 'GET') {
+      const transcript = await this.getTranscript(url.searchParams.get('id') || '');
+      return new Response(JSON.stringify(transcript));
+    }
+
+    if (url.pathname === '/session' && request.method === 'POST') {
+      const session = await request.json() as Record<string, any>;
+      await this.storeThreadSession(session);
+      return new Response('OK');
+    }
+
+    if (url.pathname === '/session' && request.method === 'GET') {
+      const session = await this.getThreadSession(url.searchParams.get('thread') || '');
+      return new Response(JSON.stringify(session));
+    }
+
+    if (url.pathname === '/claim-ci-fix' && request.method === 'POST') {
+      const claim = await request.json() as Record<string, string>;
+      const claimed = this.claimCiFix(claim);
+      return new Response(JSON.stringify({ claimed }));
+    }
+
+    if (url.pathname === '/release-ci-fix' && request.method === 'POST') {
+      const claim = await request.json() as Record<string, string>;
+      this.storage.sql.exec(
+        'DELETE FROM ci_fix_claims WHERE repository = ? AND reference = ? AND head_sha = ?',
+        claim.repository,
+        claim.reference,
+        claim.headSha
+      );
+      return new Response('OK');
+    }
+
+    if (url.pathname === '/session' && request.method === 'DELETE') {
+      const session = await this.getThreadSession(url.searchParams.get('thread') || '');
+      this.storage.sql.exec('DELETE FROM thread_sessions WHERE thread = ?', url.searchParams.get('thread') || '');
+      return new Response(JSON.stringify(session));
+    }
+
+    return new Response('Not Found', { status: 404 });
+  }
+
+  // Check and claim in one step; requests to a Durable Object are handled one at a time, so
+  // of several failures on the same commit only the first is claimed
+  private claimCiFix(claim: Record<string, string>): boolean {
+    const now = Date.now();
+    this.storage.sql.exec('DELETE FROM ci_fix_claims WHERE claimed_at <= ?', now - JobTrackerDO.CI_FIX_CLAIM_TTL_MS);
+
+    const existing = this.storage.sql.exec(
+      'SELECT 1 FROM ci_fix_claims WHERE repository = ? AND reference = ? AND head_sha = ? LIMIT 1',
+      claim.repository,
+      claim.reference,
+      claim.headSha
+    ).toArray();
+    if (existing.length > 0) {
+      return false;
+    }
+
+    this.storage.sql.exec(
+      'INSERT INTO ci_fix_claims (repository, reference, head_sha, claimed_at) VALUES (?, ?, ?, ?)',
+      claim.repository,
+      claim.reference,
+      claim.headSha,
+      now
+    );
+    return true;
+  }
+
+  async startJob(job: Record<string, string>): Promise<string> {
+    const id = crypto.randomUUID();
+
+    this.storage.sql.exec(
+      `INSERT INTO jobs (
+        id, trigger_event, provider, repository, reference, container_name, status, started_at
+      ) VALUES (?, ?, ?, ?, ?, ?, 'running', ?)`,
+      id,
+      job.triggerEvent,
+      job.provider,
+      job.repository,
+      job.reference,
+      job.containerName,
+      new Date().toISOString()
+    );
+
+    return id;
+  }
+
+  async finishJob(result: Record<string, any>): Promise<void> {
+    this.storage.sql.exec(
+      `UPDATE jobs SET
+        status = ?, ended_at = ?, turn_count = ?, outcome = ?, pr_url = ?, error = ?
+      WHERE id = ?`,
+      result.status,
+      new Date().toISOString(),
+      result.turnCount ?? null,
+      result.outcome || null,
+      result.prUrl || null,
+      result.error || null,
+      result.id
+    );
+
+    if (result.usage) {
+      await this.recordUsage(result.id, result.usage);
+    }
+  }
+
+  private async recordUsage(jobId: string, usage: Record<string, number>): Promise<void> {
+    const jobs = this.storage.sql.exec('SELECT provider, repository, started_at FROM jobs WHERE id = ? LIMIT 1', jobId).toArray();
+    if (jobs.length === 0) {
+      return;
+    }
+
+    const job = jobs[0];
+    this.storage.sql.exec(
+      `INSERT OR REPLACE INTO job_usage (
+        job_id, day, provider, installation, repository,
+        input_tokens, output_tokens, cache_read_tokens, cache_write_tokens, cost_usd
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      jobId,
+      (job.started_at as string).slice(0, 10),
+      job.provider,
+      installationForRepository(job.repository as string),
+      job.repository,
+      usage.inputTokens || 0,
+      usage.outputTokens || 0,
+      usage.cacheReadTokens || 0,
+      usage.cacheWriteTokens || 0,
+      usage.costUsd || 0
+    );
+  }
+
+  async storeTranscript(transcript: Record<string, any>): Promise<void> {
+    this.storage.sql.exec(
+      `INSERT OR REPLACE INTO job_transcripts (
+        job_id, storage, size_bytes, message_count, truncated, messages, key_id, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      transcript.jobId,
+      transcript.storage,
+      transcript.sizeBytes,
+      transcript.messageCount,
+      transcript.truncated ? 1 : 0,
+      transcript.messages ?? null,
+      transcript.keyId ?? null,
+      new Date().toISOString()
+    );
+  }
+
+  async getTranscript(jobId: string): Promise<any> {
+    const results = this.storage.sql.exec('SELECT * FROM job_transcripts WHERE job_id = ? LIMIT 1', jobId).toArray();
+    if (results.length === 0) {
+      return null;
+    }
+
+    const row = results[0];
+    return {
+      jobId: row.job_id,
+      storage: row.storage,
+      sizeBytes: row.size_bytes,
+      messageCount: row.message_count,
+      truncated: row.truncated === 1,
+      keyId: row.key_id ?? null,
+      messages: row.messages ?? null,
+      createdAt: row.created_at
+    };
+  }
+
+  async storeThreadSession(session: Record<string, any>): Promise<void> {
+    this.storage.sql.exec(
+      `INSERT OR REPLACE INTO thread_sessions (
+        thread, session_id, branch, storage, data, key_id, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      session.thread,
+      session.sessionId,
+      session.branch || null,
+      session.storage,
+      session.data ?? null,
+      session.keyId ?? null,
+      new Date().toISOString()
+    );
+  }
+
+  async getThreadSession(thread: string): Promise<any> {
+    const results = this.storage.sql.exec('SELECT * FROM thread_sessions WHERE thread = ? LIMIT 1', thread).toArray();
+    if (results.length === 0) {
+      return null;
+    }
+
+    const row = results[0];
+    return {
+      thread: row.thread,
+      sessionId: row.session_id,
+      branch: row.branch || undefined,
+      storage: row.storage,
+      keyId: row.key_id ?? null,
+      data: row.data ?? null,
+      updatedAt: row.updated_at
+    };
+  }
+
+  // Transcripts and session files not yet under the current key, including those stored
+  // before they were encrypted. Rows with nothing stored (a session kept without its file)
+  // are left out.
+  private findStaleCiphertexts(currentKeyId: string): StaleCiphertext[] {
+    const transcripts = this.storage.sql.exec(
+      `SELECT job_id, storage, key_id FROM job_transcripts
+      WHERE (key_id IS NULL OR key_id != ?) AND (storage = 'r2' OR messages IS NOT NULL)`,
+      currentKeyId
+    ).toArray().map(row => ({
+      table: 'job_transcripts' as const,
+      id: row.job_id as string,
+      storage: row.storage as string,
+      keyId: row.key_id as string | null,
+      objectKey: transcriptKey(row.job_id as string)
+    }));
+
+    const sessions = this.storage.sql.exec(
+      `SELECT thread, storage, key_id FROM thread_sessions
+      WHERE (key_id IS NULL OR key_id != ?) AND (storage = 'r2' OR data IS NOT NULL)`,
+      currentKeyId
+    ).toArray().map(row => ({
+      table: 'thread_sessions' as const,
+      id: row.thread as string,
+      storage: row.storage as string,
+      keyId: row.key_id as string | null,
+      objectKey: sessionObjectKey(row.thread as string)
+    }));
+
+    return [...transcripts, ...sessions];
+  }
+
+  // Encrypt one transcript or session file under the current key, wherever it is stored.
+  // A row or object rewritten meanwhile by a new run is already current and left alone.
+  private async rotateStoredCiphertext(target: StaleCiphertext, currentKeyId: string): Promise<void> {
+    const [idColumn, valueColumn] = target.table === 'job_transcripts' ? ['job_id', 'messages'] : ['thread', 'data'];
+    const rotate = (value: string) => target.keyId ? reEncrypt(value, this.env) : encrypt(value, this.env);
+
+    if (target.storage === 'r2') {
+      const object = this.env.TRANSCRIPTS ? await this.env.TRANSCRIPTS.get(target.objectKey) : null;
+      if (!object) {
+        return;
+      }
+
+      const updated = await rotate(await object.text());
+      if (updated) {
+        const written = await this.env.TRANSCRIPTS.put(target.objectKey, updated, {
+          httpMetadata: { contentType: 'text/plain' },
+          onlyIf: { etagMatches: object.etag }
+        });
+        if (!written) {
+          return;
+        }
+      }
+    } else {
+      const rows = this.storage.sql.exec(
+        `SELECT ${valueColumn} AS value FROM ${target.table} WHERE ${idColumn} = ? AND key_id IS ? LIMIT 1`,
+        target.id,
+        target.keyId
+      ).toArray();
+      if (rows.length === 0 || !rows[0].value) {
+        return;
+      }
+
+      const updated = await rotate(rows[0].value as string);
+      if (updated) {
+        this.storage.sql.exec(
+          `UPDATE ${target.table} SET ${valueColumn} = ? WHERE ${idColumn} = ? AND key_id IS ?`,
+          updated,
+          target.id,
+          target.keyId
+        );
+      }
+    }
+
+    this.storage.sql.exec(
+      `UPDATE ${target.table} SET key_id = ? WHERE ${idColumn} = ? AND key_id IS ?`,
+      currentKeyId,
+      target.id,
+      target.keyId
+    );
+  }
+
+  async alarm(): Promise<void> {
+    const currentKeyId = await getCurrentKeyId(this.env);
+    if (!currentKeyId) {
+      return;
+    }
+
+    const started = Date.now();
+    const result = { rotated: 0, failed: 0, remaining: 0 };
+    const stale = this.findStaleCiphertexts(currentKeyId);
+
+    for (const [index, target] of stale.entries()) {
+      if (Date.now() - started > JobTrackerDO.ROTATION_SLICE_MS) {
+        result.remaining = stale.length - index;
+        await this.storage.setAlarm(Date.now());
+        break;
+      }
+
+      try {
+        await this.rotateStoredCiphertext(target, currentKeyId);
+        result.rotated++;
+      } catch (error) {
+        result.failed++;
+        logWithContext('KEY_ROTATION', 'Failed to re-encrypt stored run data', {
+          table: target.table,
+          id: target.id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    logWithContext('KEY_ROTATION', 'Job tracker encryption key rotation pass complete', result);
+  }
+
+  async getUsageSummary(filters: { days: number; provider: string | null; repository: string | null }): Promise<any> {
+    const days = Math.min(Math.max(filters.days || DEFAULT_USAGE_DAYS, 1), MAX_USAGE_DAYS);
+    const to = new Date().toISOString().slice(0, 10);
+    const from = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    const conditions = ['day >= ?'];
+    const params: any[] = [from];
+    if (filters.provider) {
+      conditions.push('provider = ?');
+      params.push(filters.provider);
+    }
+    if (filters.repository) {
+      conditions.push('repository = ?');
+      params.push(filters.repository);
+    }
+
+    const where = `WHERE ${conditions.join(' AND ')}`;
+    const sums = `COUNT(*) AS runs,
+      SUM(input_tokens) AS input_tokens, SUM(output_tokens) AS output_tokens,
+      SUM(cache_read_tokens) AS cache_read_tokens, SUM(cache_write_tokens) AS cache_write_tokens,
+      SUM(cost_usd) AS cost_usd`;
+    const query = (groupBy: string | null, orderBy: string) => this.storage.sql.exec(
+      `SELECT ${groupBy ? `${groupBy}, ` : ''}${sums} FROM job_usage ${where}${groupBy ? ` GROUP BY ${groupBy}` : ''} ORDER BY ${orderBy}`,
+      ...params
+    ).toArray().map(row => this.rowToUsage(row));
+
+    return {
+      from,
+      to,
+      totals: query(null, 'runs')[0],
+      byDay: query('day', 'day DESC'),
+      byRepository: query('provider, repository', 'cost_usd DESC'),
+      byInstallation: query('provider, installation', 'cost_usd DESC')
+    };
+  }
+
+  private rowToUsage(row: Record<string, any>): any {
+    return {
+      ...(row.day !== undefined ? { day: row.day } : {}),
+      ...(row.provider !== undefined ? { provider: row.provider } : {}),
+      ...(row.repository !== undefined ? { repository: row.repository } : {}),
+      ...(row.installation !== undefined ? { installation: row.installation } : {}),
+      runs: row.runs,
+      inputTokens: row.input_tokens ?? 0,
+      outputTokens: row.output_tokens ?? 0,
+      cacheReadTokens: row.cache_read_tokens ?? 0,
+      cacheWriteTokens: row.cache_write_tokens ?? 0,
+      costUsd: row.cost_usd ?? 0
+    };
+  }
+
+  async getJob(id: string): Promise<any> {
+    const results = this.storage.sql.exec(
+      `SELECT jobs.*, ${JobTrackerDO.USAGE_COLUMNS}, job_transcripts.job_id AS transcript_job_id
+      FROM jobs ${JobTrackerDO.JOB_JOINS} WHERE id = ? LIMIT 1`,
+      id
+    ).toArray();
+    return results.length > 0 ? this.rowToJob(results[0]) : null;
+  }
+
+  async listJobs(filters: { repository: string | null; status: string | null; reference: string | null; limit: number }): Promise<any[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.repository) {
+      conditions.push('jobs.repository = ?');
+      params.push(filters.repository);
+    }
+    if (filters.status) {
+      conditions.push('status = ?');
+      params.push(filters.status);
+    }
+    if (filters.reference) {
+      conditions.push('reference = ?');
+      params.push(filters.reference);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = Math.min(Math.max(filters.limit || 50, 1), 500);
+
+    const results = this.storage.sql.exec(
+      `SELECT jobs.*, ${JobTrackerDO.USAGE_COLUMNS}, job_transcripts.job_id AS transcript_job_id
+      FROM jobs ${JobTrackerDO.JOB_JOINS}
+      ${where} ORDER BY started_at DESC LIMIT ${limit}`,
+      ...params
+    ).toArray();
+
+    return results.map(row => this.rowToJob(row));
+  }
+
+  private rowToJob(row: Record<string, any>): any {
+    return {
+      id: row.id,
+      triggerEvent: row.trigger_event,
+      provider: row.provider,
+      repository: row.repository,
+      reference: row.reference,
+      containerName: row.container_name,
+      status: row.status,
+      startedAt: row.started_at,
+      endedAt: row.ended_at,
+      durationMs: row.ended_at ? new Date(row.ended_at).getTime() - new Date(row.started_at).getTime() : null,
+      turnCount: row.turn_count,
+      outcome: row.outcome,
+      prUrl: row.pr_url,
+      error: row.error,
+      usage: row.cost_usd !== null && row.cost_usd !== undefined ? {
+        inputTokens: row.input_tokens,
+        outputTokens: row.output_tokens,
+        cacheReadTokens: row.cache_read_tokens,
+        cacheWriteTokens: row.cache_write_tokens,
+        costUsd: row.cost_usd
+      } : null,
+      transcriptUrl: row.transcript_job_id ? transcriptPath(row.id) : null
+    };
+  }
+}
+
+export class MyContainer extends Container {
+  defaultPort = 8080;
+  requiredPorts = [8080];
+  sleepAfter = '45s'; // Extended timeout for Claude Code processing
+  envVars: Record<string, string> = {
+    MESSAGE: 'I was passed in via the container class!',
+  };
+
+  // Override fetch to handle environment variable setting for specific requests
+  override async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    logWithContext('CONTAINER', 'Container request received', {
+      method: request.method,
+      pathname: url.pathname,
+      headers: Object.fromEntries(request.headers.entries())
+    });
+
+    // Handle process-issue requests by setting environment variables
+    if (url.pathname === '/process-issue' && request.method === 'POST') {
+      logWithContext('CONTAINER', 'Processing issue request');
+
+      try {
+        const issueContext = await request.json() as Record<string, any>;
+
+        logWithContext('CONTAINER', 'Issue context received', {
+          issueId: issueContext.ISSUE_ID,
+          repository: issueContext.REPOSITORY_NAME,
+          envVarCount: Object.keys(issueContext).length
+        });
+
+        // Set environment variables for this container instance
+        let envVarsSet = 0;
+        Object.entries(issueContext).forEach(([key, value]) => {
+          if (typeof value === 'string') {
+            this.envVars[key] = value;
+            envVarsSet++;
+          }
+        });
+
+        logWithContext('CONTAINER', 'Environment variables set', {
+          envVarsSet,
+          totalEnvVars: Object.keys(issueContext).length
+        });
+
+        logWithContext('CONTAINER', 'Forwarding request to container');
+
+        // Create a new request with the JSON data to avoid ReadableStream being disturbed
+        const newRequest = new Request(request.url, {
+          method: request.method,
+          headers: request.headers,
+          body: JSON.stringify(issueContext)
+        });
+
+        const response = await super.fetch(newRequest);
+
+        logWithContext('CONTAINER', 'Container response received', {
+          status: response.status,
+          statusText: response.statusText
+        });
+
+        return response;
+      } catch (error) {
+        logWithContext('CONTAINER', 'Error processing issue request', {
+          error: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined
+        });
+
+        return new Response(JSON.stringify({
+          error: 'Failed to process issue context',
+          message: (error as Error).message
+        }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    // Cancelling must not start a container that isn't running
+    if (url.pathname === '/cancel' && !this.ctx.container?.running) {
+      logWithContext('CONTAINER', 'Cancel requested but container is not running');
+
+      return new Response(JSON.stringify({ cancelled: false }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // For all other requests, use default behavior
+    logWithContext('CONTAINER', 'Using default container behavior');
+    return super.fetch(request);
+  }
+
+  override onStart() {
+    logWithContext('CONTAINER_LIFECYCLE', 'Container started successfully', {
+      port: this.defaultPort,
+      sleepAfter: this.sleepAfter
+    });
+  }
+
+  override onStop() {
+    logWithContext('CONTAINER_LIFECYCLE', 'Container shut down successfully');
+  }
+
+  override onError(error: unknown) {
+    logWithContext('CONTAINER_LIFECYCLE', 'Container error occurred', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+  }
+}
+
+export class WebhookDeliveryDO {
+  private storage: DurableObjectStorage;
+
+  constructor(state: DurableObjectState) {
+    this.storage = state.storage;
+    this.initializeTables();
+    logWithContext('DURABLE_OBJECT', 'WebhookDeliveryDO initialized with SQLite');
+  }
+
+  private initializeTables(): void {
+    // Create webhook_deliveries table (one row per provider delivery ID, kept until expires_at)
+    this.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        provider TEXT NOT NULL,
+        delivery_id TEXT NOT NULL,
+        event TEXT NOT NULL,
+        headers TEXT NOT NULL,
+        payload TEXT,
+        received_at TEXT NOT NULL,
+        expires_at INTEGER NOT NULL,
+        skipped_count INTEGER NOT NULL DEFAULT 0,
+        last_skipped_at TEXT,
+        replay_count INTEGER NOT NULL DEFAULT 0,
+        last_replayed_at TEXT,
+        status TEXT NOT NULL DEFAULT 'processed',
+        status_at INTEGER,
+        PRIMARY KEY (provider, delivery_id)
+      )
+    `);
+
+    // Deliveries recorded before processing was tracked count as processed
+    const columns = this.storage.sql.exec('PRAGMA table_info(webhook_deliveries)').toArray();
+    if (!columns.some(column => column.name === 'status')) {
+      this.storage.sql.exec(`ALTER TABLE webhook_deliveries ADD COLUMN status TEXT NOT NULL DEFAULT 'processed'`);
+      this.storage.sql.exec('ALTER TABLE webhook_deliveries ADD COLUMN status_at INTEGER');
+    }
+
+    this.storage.sql.exec('CREATE INDEX IF NOT EXISTS webhook_deliveries_expires_at ON webhook_deliveries (expires_at)');
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname === '/record' && request.method === 'POST') {
+      const delivery = await request.json() as Record<string, any>;
+      const result = await this.recordDelivery(delivery);
+      return new Response(JSON.stringify(result));
+    }
+
+    if (url.pathname === '/finish' && request.method === 'POST') {
+      const { provider, deliveryId, succeeded } = await request.json() as { provider: string; deliveryId: string; succeeded: boolean };
+      await this.finishDelivery(provider, deliveryId, succeeded);
+      return new Response('OK');
+    }
+
+    if (url.pathname === '/get' && request.method === 'GET') {
+      const delivery = await this.getDelivery(url.searchParams.get('provider') || '', url.searchParams.get('id') || '');
+      return new Response(JSON.stringify(delivery));
+    }
+
+    if (url.pathname === '/list' && request.method === 'GET') {
+      const deliveries = await this.listDeliveries({
+        provider: url.searchParams.get('provider'),
+        limit: parseInt(url.searchParams.get('limit') || '50')
+      });
+      return new Response(JSON.stringify(deliveries));
+    }
+
+    return new Response('Not Found', { status: 404 });
+  }
+
+  // Check and record in one step; requests to a Durable Object are handled one at a time,
+  // so two concurrent redeliveries can't both be treated as new. Only a delivery that was
+  // processed, or is being processed right now, is a duplicate: one that failed, or whose
+  // processing was cut off, is taken on again when the forge retries it.
+  async recordDelivery(delivery: Record<string, any>): Promise<{ duplicate: boolean }> {
+    const now = Date.now();
+    const nowIso = new Date(now).toISOString();
+
+    this.storage.sql.exec('DELETE FROM webhook_deliveries WHERE expires_at <= ?', now);
+
+    const existing = this.storage.sql.exec(
+      'SELECT status, status_at FROM webhook_deliveries WHERE provider = ? AND delivery_id = ? LIMIT 1',
+      delivery.provider,
+      delivery.deliveryId
+    ).toArray();
+
+    if (existing.length > 0) {
+      const { status, status_at: statusAt } = existing[0] as { status: string; status_at: number | null };
+      const inProgress = status === 'processing' && statusAt !== null && now - statusAt < DELIVERY_PROCESSING_TIMEOUT_MS;
+
+      if (delivery.replay || (status !== 'processed' && !inProgress)) {
+        this.storage.sql.exec(
+          `UPDATE webhook_deliveries SET status = 'processing', status_at = ?
+          WHERE provider = ? AND delivery_id = ?`,
+          now,
+          delivery.provider,
+          delivery.deliveryId
+        );
+
+        if (delivery.replay) {
+          this.storage.sql.exec(
+            `UPDATE webhook_deliveries SET replay_count = replay_count + 1, last_replayed_at = ?
+            WHERE provider = ? AND delivery_id = ?`,
+            nowIso,
+            delivery.provider,
+            delivery.deliveryId
+          );
+        }
+        return { duplicate: false };
+      }
+
+      this.storage.sql.exec(
+        `UPDATE webhook_deliveries SET skipped_count = skipped_count + 1, last_skipped_at = ?
+        WHERE provider = ? AND delivery_id = ?`,
+        nowIso,
+        delivery.provider,
+        delivery.deliveryId
+      );
+      return { duplicate: true };
+    }
+
+    this.storage.sql.exec(
+      `INSERT INTO webhook_deliveries (
+        provider, delivery_id, event, headers, payload, received_at, expires_at, replay_count, last_replayed_at,
+        status, status_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'processing', ?)`,
+      delivery.provider,
+      delivery.deliveryId,
+      delivery.event,
+      JSON.stringify(delivery.headers || {}),
+      delivery.payload ?? null,
+      nowIso,
+      now + DELIVERY_TTL_SECONDS * 1000,
+      delivery.replay ? 1 : 0,
+      delivery.replay ? nowIso : null,
+      now
+    );
+
+    return { duplicate: false };
+  }
+
+  // A failed delivery keeps its payload for replay, but a retry of it is processed again
+  async finishDelivery(provider: string, deliveryId: string, succeeded: boolean): Promise<void> {
+    this.storage.sql.exec(
+      'UPDATE webhook_deliveries SET status = ?, status_at = ? WHERE provider = ? AND delivery_id = ?',
+      succeeded ? 'processed' : 'failed',
+      Date.now(),
+      provider,
+      deliveryId
+    );
+  }
+
+  async getDelivery(provider: string, deliveryId: string): Promise<any> {
+    const results = this.storage.sql.exec(
+      'SELECT * FROM webhook_deliveries WHERE provider = ? AND delivery_id = ? AND expires_at > ? LIMIT 1',
+      provider,
+      deliveryId,
+      Date.now()
+    ).toArray();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    return {
+      ...this.rowToDelivery(results[0]),
+      headers: JSON.parse(results[0].headers as string),
+      payload: results[0].payload ?? null
+    };
+  }
+
+  async listDeliveries(filters: { provider: string | null; limit: number }): Promise<any[]> {
+    const limit = Math.min(Math.max(filters.limit || 50, 1), 500);
+    const where = filters.provider ? 'WHERE provider = ? AND expires_at > ?' : 'WHERE expires_at > ?';
+    const params = filters.provider ? [filters.provider, Date.now()] : [Date.now()];
+
+    const results = this.storage.sql.exec(
+      `SELECT * FROM webhook_deliveries ${where} ORDER BY received_at DESC LIMIT ${limit}`,
+      ...params
+    ).toArray();
+
+    return results.map(row => this.rowToDelivery(row));
+  }
+
+  private rowToDelivery(row: Record<string, any>): any {
+    return {
+      provider: row.provider,
+      deliveryId: row.delivery_id,
+      event: row.event,
+      receivedAt: row.received_at,
+      expiresAt: new Date(row.expires_at).toISOString(),
+      replayable: row.payload !== null,
+      skippedCount: row.skipped_count,
+      lastSkippedAt: row.last_skipped_at,
+      replayCount: row.replay_count,
+      lastReplayedAt: row.last_replayed_at,
+      status: row.status
+    };
+  }
+}
+
+export class DispatchQueueDO {
+  private state: DurableObjectState;
+  private storage: DurableObjectStorage;
+  private env: Record<string, any>;
+  private limits: DispatchLimits;
+
+  constructor(state: DurableObjectState, env: Record<string, any> = {}) {
+    this.state = state;
+    this.storage = state.storage;
+    this.env = env;
+    this.limits = dispatchLimitsFromEnv(env);
+    this.initializeTables();
+    logWithContext('DURABLE_OBJECT', 'DispatchQueueDO initialized with SQLite', { limits: this.limits });
+
+    state.blockConcurrencyWhile(async () => {
+      // Waiting runs carry credentials, so they are brought onto the current key too
+      if (env.ENCRYPTION_KEY) {
+        const result = await reEncryptColumns(this.storage, this.env, 'dispatch_queue', ['payload']);
+        logWithContext('KEY_ROTATION', 'Dispatch queue encryption key rotation complete', result);
+      }
+      await this.reclaimLostRuns();
+    });
+  }
+
+  private initializeTables(): void {
+    // Create dispatch_queue table (one row per container run waiting for or holding a slot;
+    // payload is the encrypted DispatchJob the run is started from, handed_off_at is set once
+    // the container has been sent the request)
+    this.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS dispatch_queue (
+        id TEXT PRIMARY KEY,
+        provider TEXT NOT NULL,
+        installation TEXT NOT NULL,
+        repository TEXT NOT NULL,
+        reference TEXT NOT NULL,
+        container_name TEXT NOT NULL,
+        trigger_event TEXT NOT NULL,
+        status TEXT NOT NULL,
+        payload TEXT,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        enqueued_at TEXT NOT NULL,
+        retry_at INTEGER,
+        started_at INTEGER,
+        job_id TEXT,
+        handed_off_at INTEGER,
+        dead_lettered_at INTEGER
+      )
+    `);
+
+    // Queues created before runs recorded their hand-off to the container
+    const columns = this.storage.sql.exec('PRAGMA table_info(dispatch_queue)').toArray();
+    if (!columns.some(column => column.name === 'handed_off_at')) {
+      this.storage.sql.exec('ALTER TABLE dispatch_queue ADD COLUMN job_id TEXT');
+      this.storage.sql.exec('ALTER TABLE dispatch_queue ADD COLUMN handed_off_at INTEGER');
+    }
+
+    this.storage.sql.exec('CREATE INDEX IF NOT EXISTS dispatch_queue_status ON dispatch_queue (status, enqueued_at)');
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname === '/enqueue' && request.method === 'POST') {
+      const run = await request.json() as DispatchRequest & { job: DispatchJob };
+      const ticket = await this.enqueue(run);
+      return new Response(JSON.stringify(ticket));
+    }
+
+    if (url.pathname === '/cancel' && request.method === 'POST') {
+      const cancel = await request.json() as { containerName: string; cancelledBy: string };
+      const cancelled = this.storage.sql.exec(
+        `DELETE FROM dispatch_queue WHERE container_name = ? AND status = 'queued'`,
+        cancel.containerName
+      ).rowsWritten;
+      if (cancelled > 0) {
+        logWithContext('DISPATCH_QUEUE', 'Queued run cancelled', cancel);
+      }
+      return new Response(JSON.stringify({ cancelled: cancelled > 0 }));
+    }
+
+    if (url.pathname === '/list' && request.method === 'GET') {
+      return new Response(JSON.stringify(this.listQueue()));
+    }
+
+    return new Response('Not Found', { status: 404 });
+  }
+
+  // Retry failed runs once their delay is up, and reclaim the slots of runs that never reported
+  // back. While runs are in progress this also wakes the queue regularly; if it was restarted,
+  // the constructor has already reclaimed the runs it lost.
+  async alarm(): Promise<void> {
+    const now = Date.now();
+    this.sweep(now);
+    await this.drain(now);
+  }
+
+  private async enqueue(run: DispatchRequest & { job: DispatchJob }): Promise<QueueTicket> {
+    const id = crypto.randomUUID();
+    const payload = await encrypt(JSON.stringify(run.job), this.env);
+
+    // Nothing below waits on I/O until the slots are taken, so two runs can't both take the last one
+    const now = Date.now();
+    this.sweep(now);
+
+    this.storage.sql.exec(
+      `INSERT INTO dispatch_queue (
+        id, provider, installation, repository, reference, container_name, trigger_event, status, payload, enqueued_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, 'queued', ?, ?)`,
+      id,
+      run.provider,
+      installationForRepository(run.repository),
+      run.repository,
+      run.reference,
+      run.containerName,
+      run.triggerEvent,
+      payload,
+      new Date(now).toISOString()
+    );
+
+    const started = await this.drain(now, id);
+    if (started.includes(id)) {
+      return { id, status: 'running' };
+    }
+
+    const order = planDispatch(this.entriesWithStatus('queued'), this.entriesWithStatus('running'), this.limits).order;
+    return { id, status: 'queued', position: order.indexOf(id) + 1, queueLength: order.length };
+  }
+
+  // Start every waiting run the fair order has a slot for. Each run gives its slot back when it
+  // finishes, which drains the queue again. `enqueuedId` is the run being queued right now;
+  // any other run that starts has waited.
+  private async drain(now: number, enqueuedId?: string): Promise<string[]> {
+    const ready = this.storage.sql.exec(
+      `SELECT * FROM dispatch_queue WHERE status = 'queued' AND (retry_at IS NULL OR retry_at <= ?) ORDER BY enqueued_at`,
+      now
+    ).toArray().map(row => this.toEntry(row));
+    const { startable } = planDispatch(ready, this.entriesWithStatus('running'), this.limits);
+
+    for (const id of startable) {
+      this.storage.sql.exec(`UPDATE dispatch_queue SET status = 'running', started_at = ? WHERE id = ?`, now, id);
+      this.state.waitUntil(this.execute(id, id !== enqueuedId));
+    }
+
+    await this.scheduleAlarm();
+    return startable;
+  }
+
+  private async execute(id: string, waited: boolean): Promise<void> {
+    const row = this.storage.sql.exec('SELECT * FROM dispatch_queue WHERE id = ? LIMIT 1', id).toArray()[0];
+    if (!row) {
+      return;
+    }
+
+    const request: DispatchRequest = {
+      provider: row.provider as DispatchRequest['provider'],
+      repository: row.repository as string,
+      reference: row.reference as string,
+      containerName: row.container_name as string,
+      triggerEvent: row.trigger_event as string
+    };
+
+    let error: string | undefined;
+    let handedOff = false;
+    try {
+      const job = JSON.parse(await decrypt(row.payload as string, this.env)) as DispatchJob;
+      await runDispatchJob(this.env, request, job, waited, jobId => {
+        handedOff = true;
+        this.storage.sql.exec('UPDATE dispatch_queue SET job_id = ?, handed_off_at = ? WHERE id = ?', jobId, Date.now(), id);
+      });
+    } catch (runError) {
+      error = runError instanceof Error ? runError.message : String(runError);
+    }
+
+    this.finish(id, error, !handedOff);
+    await this.drain(Date.now());
+  }
+
+  // A new instance has no run in progress, so runs still marked running were lost when the
+  // previous one was evicted or restarted. Those the container never got are queued again;
+  // the others may have made changes already, so they are given up on.
+  private async reclaimLostRuns(): Promise<void> {
+    const lost = this.storage.sql.exec(`SELECT id, job_id, handed_off_at FROM dispatch_queue WHERE status = 'running'`).toArray();
+    if (lost.length === 0) {
+      return;
+    }
+
+    for (const row of lost) {
+      const handedOff = row.handed_off_at !== null;
+      const error = handedOff
+        ? 'The dispatch queue restarted while the run was in progress'
+        : 'The dispatch queue restarted before the run started';
+      if (handedOff) {
+        await finishJob(this.env, row.job_id as string | null, { status: 'failed', error });
+      }
+      this.finish(row.id as string, error, !handedOff);
+    }
+
+    logWithContext('DISPATCH_QUEUE', 'Reclaimed runs lost in a restart', { runs: lost.length });
+    await this.drain(Date.now());
+  }
+
+  // Free a run's slot. A retryable run that failed goes back in the queue, keeping its place
+  // (its original enqueued_at), until it has used up its attempts; any other is dead-lettered.
+  private finish(id: string, error?: string, retryable: boolean = true): void {
+    if (!error) {
+      this.storage.sql.exec('DELETE FROM dispatch_queue WHERE id = ?', id);
+      return;
+    }
+
+    const rows = this.storage.sql.exec('SELECT attempts, container_name FROM dispatch_queue WHERE id = ? LIMIT 1', id).toArray();
+    if (rows.length === 0) {
+      return;
+    }
+
+    const attempts = (rows[0].attempts as number) + 1;
+    const now = Date.now();
+
+    if (!retryable || attempts >= MAX_DISPATCH_ATTEMPTS) {
+      // The credentials in the payload aren't kept once the run is given up on
+      this.storage.sql.exec(
+        `UPDATE dispatch_queue SET status = 'dead_letter', payload = NULL, attempts = ?, last_error = ?, dead_lettered_at = ? WHERE id = ?`,
+        attempts,
+        error,
+        now,
+        id
+      );
+      logWithContext('DISPATCH_QUEUE', 'Run dead-lettered', { id, containerName: rows[0].container_name, attempts, error });
+      return;
+    }
+
+    this.storage.sql.exec(
+      `UPDATE dispatch_queue SET status = 'queued', attempts = ?, last_error = ?, retry_at = ?, started_at = NULL, job_id = NULL, handed_off_at = NULL WHERE id = ?`,
+      attempts,
+      error,
+      now + RETRY_DELAY_MS * attempts,
+      id
+    );
+    logWithContext('DISPATCH_QUEUE', 'Run failed, queued again', { id, containerName: rows[0].container_name, attempts, error });
+  }
+
+  // Count runs that never reported back as failed, and forget old dead letters
+  private sweep(now: number): void {
+    const expired = this.storage.sql.exec(
+      `SELECT id, handed_off_at FROM dispatch_queue WHERE status = 'running' AND started_at < ?`,
+      now - RUN_LEASE_MS
+    ).toArray();
+    for (const row of expired) {
+      this.finish(row.id as string, `No result after ${RUN_LEASE_MS / 60000} minutes`, row.handed_off_at === null);
+    }
+
+    this.storage.sql.exec(`DELETE FROM dispatch_queue WHERE status = 'dead_letter' AND dead_lettered_at < ?`, now - DEAD_LETTER_TTL_MS);
+  }
+
+  // Wake up for the next retry or lease expiry, and regularly while runs are in progress.
+  // Runs waiting for a slot need no alarm: the run that frees the slot drains the queue.
+  private async scheduleAlarm(): Promise<void> {
+    const next = this.storage.sql.exec(
+      `SELECT MIN(wake_at) AS wake_at FROM (
+        SELECT retry_at AS wake_at FROM dispatch_queue WHERE status = 'queued' AND retry_at IS NOT NULL
+        UNION ALL
+        SELECT MIN(started_at + ?, ?) AS wake_at FROM dispatch_queue WHERE status = 'running'
+      )`,
+      RUN_LEASE_MS,
+      Date.now() + RUN_CHECK_INTERVAL_MS
+    ).toArray()[0]?.wake_at as number | null;
+
+    if (next) {
+      await this.storage.setAlarm(next);
+    }
+  }
+
+  private toEntry(row: Record<string, SqlStorageValue>): QueueEntry {
+    return {
+      id: row.id as string,
+      installation: row.installation as string,
+      repository: row.repository as string,
+      containerName: row.container_name as string,
+      enqueuedAt: row.enqueued_at as string
+    };
+  }
+
+  private entriesWithStatus(status: QueueStatus): QueueEntry[] {
+    return this.storage.sql.exec(
+      'SELECT * FROM dispatch_queue WHERE status = ? ORDER BY enqueued_at',
+      status
+    ).toArray().map(row => this.toEntry(row));
+  }
+
+  private listQueue(): any {
+    const now = Date.now();
+    this.sweep(now);
+
+    const rows = this.storage.sql.exec('SELECT * FROM dispatch_queue ORDER BY enqueued_at').toArray();
+    const plan = planDispatch(this.entriesWithStatus('queued'), this.entriesWithStatus('running'), this.limits);
+    const toRun = (row: Record<string, any>) => ({
+      id: row.id,
+      provider: row.provider,
+      installation: row.installation,
+      repository: row.repository,
+      reference: row.reference,
+      containerName: row.container_name,
+      triggerEvent: row.trigger_event,
+      attempts: row.attempts,
+      lastError: row.last_error,
+      enqueuedAt: row.enqueued_at,
+      retryAt: row.retry_at ? new Date(row.retry_at).toISOString() : null,
+      startedAt: row.started_at ? new Date(row.started_at).toISOString() : null
+    });
+
+    return {
+      limits: this.limits,
+      running: rows.filter(row => row.status === 'running').map(toRun),
+      queued: plan.order.map(id => toRun(rows.find(row => row.id === id)!)),
+      deadLetter: rows.filter(row => row.status === 'dead_letter').map(toRun)
+    };
+  }
+}
+
+export interface Env {
+  MY_CONTAINER: DurableObjectNamespace<Container<unknown>>;
   GITHUB_APP_CONFIG: DurableObjectNamespace<GitHubAppConfigDO>;
   GITLAB_APP_CONFIG: DurableObjectNamespace<GitLabAppConfigDO>;
+  BITBUCKET_APP_CONFIG: DurableObjectNamespace<BitbucketAppConfigDO>;
+  GITEA_APP_CONFIG: DurableObjectNamespace<GiteaAppConfigDO>;
+  JOB_TRACKER: DurableObjectNamespace<JobTrackerDO>;
+  WEBHOOK_DELIVERIES: DurableObjectNamespace<WebhookDeliveryDO>;
+  DISPATCH_QUEUE: DurableObjectNamespace<DispatchQueueDO>;
   ANTHROPIC_API_KEY?: string;
+  ENCRYPTION_KEY?: string;
+  ENCRYPTION_KEY_PREVIOUS?: string;
+  ADMIN_TOKEN?: string;
+  CF_ACCESS_TEAM_DOMAIN?: string;
+  CF_ACCESS_AUD?: string;
   ENVIRONMENT?: string;
+  // Optional bucket for transcripts too large for Durable Object storage
+  TRANSCRIPTS?: R2Bucket;
+  // Concurrency limits for container runs (see dispatch_queue.ts for the defaults)
+  MAX_CONCURRENT_RUNS?: string;
+  MAX_RUNS_PER_INSTALLATION?: string;
+  MAX_RUNS_PER_REPOSITORY?: string;
 }
 
 export default {
@@ -1098,8 +2928,23 @@ export default {
     let routeMatched = false;
 
     try {
+      // Setup, status and job history pages require an authenticated admin
+      const adminRejection = isAdminRoute(pathname) ? await requireAdmin(request, env) : null;
+
+      if (adminRejection) {
+        routeMatched = true;
+        response = adminRejection;
+      }
+
+      // Admin login routes
+      else if (pathname === '/admin/login' || pathname === '/admin/logout') {
+        logWithContext('MAIN_HANDLER', 'Routing to admin login');
+        routeMatched = true;
+        response = await handleAdminLogin(request, env);
+      }
+
       // Claude Code Setup Route
-      if (pathname === '/claude-setup') {
+      else if (pathname === '/claude-setup') {
         logWithContext('MAIN_HANDLER', 'Routing to Claude setup');
         routeMatched = true;
         response = await handleClaudeSetup(request, url.origin, env);
@@ -1125,6 +2970,13 @@ export default {
         response = await handleGitHubStatus(request, env);
       }
 
+      // Token and cost totals per day, repository and installation
+      else if (pathname === '/gh-usage' || pathname === '/gh-usage/totals') {
+        logWithContext('MAIN_HANDLER', 'Routing to usage');
+        routeMatched = true;
+        response = await handleUsageRequest(request, env);
+      }
+
       // GitHub webhook endpoint
       else if (pathname === '/webhooks/github') {
         logWithContext('MAIN_HANDLER', 'Routing to GitHub webhook handler');
@@ -1146,6 +2998,76 @@ export default {
         response = await handleGitLabWebhook(request, env, ctx);
       }
 
+      // Bitbucket setup routes
+      else if (pathname === '/bitbucket-setup' || pathname.startsWith('/bitbucket-setup/')) {
+        logWithContext('MAIN_HANDLER', 'Routing to Bitbucket setup');
+        routeMatched = true;
+        response = await handleBitbucketSetup(request, url.origin, env);
+      }
+
+      // Bitbucket webhook endpoint
+      else if (pathname === '/webhooks/bitbucket') {
+        logWithContext('MAIN_HANDLER', 'Routing to Bitbucket webhook handler');
+        routeMatched = true;
+        response = await handleBitbucketWebhook(request, env, ctx);
+      }
+
+      // Gitea/Forgejo setup routes
+      else if (pathname === '/gitea-setup' || pathname.startsWith('/gitea-setup/')) {
+        logWithContext('MAIN_HANDLER', 'Routing to Gitea setup');
+        routeMatched = true;
+        response = await handleGiteaSetup(request, url.origin, env);
+      }
+
+      // Gitea/Forgejo webhook endpoint
+      else if (pathname === '/webhooks/gitea') {
+        logWithContext('MAIN_HANDLER', 'Routing to Gitea webhook handler');
+        routeMatched = true;
+        response = await handleGiteaWebhook(request, env, ctx);
+      }
+
+      // Issue trigger policy (per installation and per repository)
+      else if (pathname === '/gh-trigger-policy') {
+        logWithContext('MAIN_HANDLER', 'Routing to trigger policy');
+        routeMatched = true;
+        response = await handleTriggerPolicyRequest(request, env);
+      }
+
+      // Model, turn, time and budget limits per run
+      else if (pathname === '/run-limits') {
+        logWithContext('MAIN_HANDLER', 'Routing to run limits');
+        routeMatched = true;
+        response = await handleRunLimitsRequest(request, env);
+      }
+
+      // Webhook delivery history and replay
+      else if (pathname === '/webhooks/deliveries' || pathname.startsWith('/webhooks/deliveries/')) {
+        logWithContext('MAIN_HANDLER', 'Routing to webhook deliveries');
+        routeMatched = true;
+        response = await handleWebhookDeliveriesRequest(request, env, ctx);
+      }
+
+      // Job history routes
+      else if (pathname === '/jobs' || pathname.startsWith('/jobs/')) {
+        logWithContext('MAIN_HANDLER', 'Routing to job history');
+        routeMatched = true;
+        response = await handleJobsRequest(request, env);
+      }
+
+      // Dispatch queue
+      else if (pathname === '/queue') {
+        logWithContext('MAIN_HANDLER', 'Routing to dispatch queue');
+        routeMatched = true;
+        response = await handleDispatchQueueRequest(request, env);
+      }
+
+      // Run transcripts
+      else if (pathname.startsWith('/runs/')) {
+        logWithContext('MAIN_HANDLER', 'Routing to run transcript');
+        routeMatched = true;
+        response = await handleTranscriptRequest(request, env);
+      }
+
       // Container routes
       else if (pathname.startsWith('/container')) {
         logWithContext('MAIN_HANDLER', 'Routing to basic container');
@@ -1200,10 +3122,18 @@ export default {
         response = new Response(`
 🤖 Claude Code Container Integration
 
-Setup Instructions:
+Setup Instructions (sign in first at /admin/login):
 1. Configure Claude Code: /claude-setup
 2. Setup GitHub Integration: /gh-setup
 3. Setup GitLab Integration: /gitlab-setup
+4. Setup Bitbucket Integration: /bitbucket-setup
+5. Setup Gitea/Forgejo Integration: /gitea-setup
+
+Job History:
+- /jobs - Recent container runs (filter with ?repository=, ?status=, ?reference=, ?limit=)
+- /jobs/:id - Details of a single run
+- /runs/:id/transcript - Everything Claude did during a run (?format=json to download)
+- /queue - Container runs in progress, waiting for a slot and dead-lettered
 
 Container Testing Routes:
 - /container - Basic container health check
@@ -1211,7 +3141,7 @@ Container Testing Routes:
 - /error - Test error handling
 - /singleton - Single container instance
 
-Once setup is complete, create GitHub issues or GitLab @duo-agent comments to trigger automatic Claude Code processing!
+Once setup is complete, create GitHub issues, GitLab @duo-agent comments, or Bitbucket and Gitea @claude comments to trigger automatic Claude Code processing!
 
 Debug Info:
 - Pathname: ${pathname}
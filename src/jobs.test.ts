@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { startJob, finishJob, handleJobsRequest, installationForRepository } from './jobs';
+import { handleUsageRequest } from './handlers/usage';
+
+describe('Job tracking', () => {
+  let mockTracker: any;
+  let mockEnv: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockTracker = {
+      fetch: vi.fn().mockImplementation(async (request: Request) => {
+        const url = new URL(request.url);
+        if (url.pathname === '/start') {
+          return new Response(JSON.stringify({ id: 'job-1' }));
+        }
+        if (url.pathname === '/get') {
+          return new Response(JSON.stringify(url.searchParams.get('id') === 'job-1' ? { id: 'job-1', status: 'failed' } : null));
+        }
+        if (url.pathname === '/list') {
+          return new Response(JSON.stringify([{ id: 'job-1' }]));
+        }
+        if (url.pathname === '/usage') {
+          const totals = { runs: 2, inputTokens: 1200, outputTokens: 300, cacheReadTokens: 5000, cacheWriteTokens: 0, costUsd: 0.75 };
+          return new Response(JSON.stringify({
+            from: '2026-09-19',
+            to: '2026-10-18',
+            totals,
+            byDay: [{ day: '2026-10-18', ...totals }],
+            byRepository: [{ provider: 'github', repository: 'acme/<script>', ...totals }],
+            byInstallation: [{ provider: 'github', installation: 'acme', ...totals }]
+          }));
+        }
+        return new Response('OK');
+      })
+    };
+
+    mockEnv = {
+      JOB_TRACKER: {
+        idFromName: vi.fn().mockReturnValue('mock-tracker-id'),
+        get: vi.fn().mockReturnValue(mockTracker)
+      }
+    };
+  });
+
+  it('should record job start and finish', async () => {
+    const jobId = await startJob(mockEnv, {
+      triggerEvent: 'issues.opened',
+      provider: 'github',
+      repository: 'acme/my-repo',
+      reference: '#412',
+      containerName: 'claude-issue-1'
+    });
+    expect(jobId).toBe('job-1');
+
+    await finishJob(mockEnv, jobId, { status: 'failed', error: 'Git clone failed', turnCount: 3 });
+
+    const finishRequest = mockTracker.fetch.mock.calls[1][0];
+    expect(new URL(finishRequest.url).pathname).toBe('/finish');
+    expect(JSON.parse(await finishRequest.text())).toMatchObject({
+      id: 'job-1',
+      status: 'failed',
+      error: 'Git clone failed',
+      turnCount: 3
+    });
+  });
+
+  it('should not throw when the tracker is unavailable', async () => {
+    const jobId = await startJob({}, {
+      triggerEvent: 'issues.opened',
+      provider: 'github',
+      repository: 'acme/my-repo',
+      reference: '#1',
+      containerName: 'claude-issue-1'
+    });
+    expect(jobId).toBeNull();
+    await expect(finishJob({}, jobId, { status: 'succeeded' })).resolves.toBeUndefined();
+  });
+
+  it('should pass list filters through to the tracker', async () => {
+    const response = await handleJobsRequest(new Request('https://worker.example/jobs?repository=acme/my-repo&status=failed'), mockEnv);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual([{ id: 'job-1' }]);
+
+    const listRequest = mockTracker.fetch.mock.calls[0][0];
+    expect(listRequest.url).toBe('http://internal/list?repository=acme/my-repo&status=failed');
+  });
+
+  it('should return a single job or 404', async () => {
+    const found = await handleJobsRequest(new Request('https://worker.example/jobs/job-1'), mockEnv);
+    expect(found.status).toBe(200);
+    expect(await found.json()).toEqual({ id: 'job-1', status: 'failed' });
+
+    const missing = await handleJobsRequest(new Request('https://worker.example/jobs/unknown'), mockEnv);
+    expect(missing.status).toBe(404);
+  });
+
+  it('should send the run usage with the job result', async () => {
+    const usage = { inputTokens: 1000, outputTokens: 200, cacheReadTokens: 0, cacheWriteTokens: 50, costUsd: 0.12 };
+    await finishJob(mockEnv, 'job-1', { status: 'succeeded', usage });
+
+    expect(JSON.parse(await mockTracker.fetch.mock.calls[0][0].text())).toMatchObject({ id: 'job-1', usage });
+  });
+
+  it('should group repositories under their owner or top-level group', () => {
+    expect(installationForRepository('Acme/my-repo')).toBe('acme');
+    expect(installationForRepository('platform/backend/api')).toBe('platform');
+  });
+
+  it('should serve usage totals as JSON and as an HTML page', async () => {
+    const json = await handleUsageRequest(new Request('https://worker.example/gh-usage/totals?days=7&provider=gitlab'), mockEnv);
+    expect(json.headers.get('Content-Type')).toBe('application/json');
+    expect((await json.json() as any).totals.costUsd).toBe(0.75);
+    expect(mockTracker.fetch.mock.calls[0][0].url).toBe('http://internal/usage?days=7&provider=gitlab');
+
+    const page = await handleUsageRequest(new Request('https://worker.example/gh-usage'), mockEnv);
+    const html = await page.text();
+    expect(page.headers.get('Content-Type')).toBe('text/html');
+    expect(html).toContain('<strong>$0.75</strong> across 2 runs');
+    expect(html).toContain('acme/&lt;script&gt; (github)');
+  });
+});
@@ -0,0 +1,165 @@
+import { logWithContext } from './log';
+
+// Job tracking helpers for recording container runs in JobTrackerDO.
+// Tracking is best-effort: a failure to record a job must never block processing.
+
+export interface JobStart {
+  triggerEvent: string;
+  provider: 'github' | 'gitlab' | 'bitbucket' | 'gitea';
+  repository: string;
+  reference: string; // issue number, PR number or MR IID, e.g. "#42", "!7" or "PR #7"
+  containerName: string;
+}
+
+export interface JobResult {
+  status: 'succeeded' | 'failed' | 'cancelled' | 'refused';
+  outcome?: string;
+  turnCount?: number;
+  prUrl?: string;
+  error?: string;
+  usage?: RunUsage;
+}
+
+// Tokens and cost reported by the container for one run
+export interface RunUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd: number;
+}
+
+export interface UsageTotals extends RunUsage {
+  runs: number;
+}
+
+// Usage over a window of days, totalled overall and per day, repository and installation
+// (the account or top-level group a repository belongs to)
+export interface UsageSummary {
+  from: string;
+  to: string;
+  totals: UsageTotals;
+  byDay: Array<UsageTotals & { day: string }>;
+  byRepository: Array<UsageTotals & { provider: string; repository: string }>;
+  byInstallation: Array<UsageTotals & { provider: string; installation: string }>;
+}
+
+export const DEFAULT_USAGE_DAYS = 30;
+export const MAX_USAGE_DAYS = 366;
+
+// The installation a repository belongs to: its owner, or its top-level GitLab group
+export function installationForRepository(repository: string): string {
+  return repository.split('/')[0].toLowerCase();
+}
+
+export function getJobTracker(env: any): any {
+  return env.JOB_TRACKER.get(env.JOB_TRACKER.idFromName('job-tracker'));
+}
+
+// Record the start of a container run, returning the job ID (or null if tracking failed)
+export async function startJob(env: any, job: JobStart): Promise<string | null> {
+  try {
+    const response = await getJobTracker(env).fetch(new Request('http://internal/start', {
+      method: 'POST',
+      body: JSON.stringify(job)
+    }));
+    const data = await response.json() as { id: string };
+
+    logWithContext('JOB_TRACKER', 'Job started', {
+      jobId: data.id,
+      triggerEvent: job.triggerEvent,
+      repository: job.repository,
+      reference: job.reference
+    });
+
+    return data.id;
+  } catch (error) {
+    logWithContext('JOB_TRACKER', 'Failed to record job start', {
+      error: error instanceof Error ? error.message : String(error),
+      containerName: job.containerName
+    });
+    return null;
+  }
+}
+
+// Record the end of a container run
+export async function finishJob(env: any, jobId: string | null, result: JobResult): Promise<void> {
+  if (!jobId) {
+    return;
+  }
+
+  try {
+    await getJobTracker(env).fetch(new Request('http://internal/finish', {
+      method: 'POST',
+      body: JSON.stringify({ id: jobId, ...result })
+    }));
+
+    logWithContext('JOB_TRACKER', 'Job finished', {
+      jobId,
+      status: result.status,
+      turnCount: result.turnCount,
+      costUsd: result.usage?.costUsd
+    });
+  } catch (error) {
+    logWithContext('JOB_TRACKER', 'Failed to record job result', {
+      error: error instanceof Error ? error.message : String(error),
+      jobId
+    });
+  }
+}
+
+// Handle /jobs and /jobs/:id JSON routes
+export async function handleJobsRequest(request: Request, env: any): Promise<Response> {
+  const url = new URL(request.url);
+  const jobTracker = getJobTracker(env);
+
+  if (request.method !== 'GET') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const jobId = url.pathname.replace(/^\/jobs\/?/, '');
+
+  if (jobId) {
+    const response = await jobTracker.fetch(new Request(`http://internal/get?id=${encodeURIComponent(jobId)}`));
+    const job = await response.json();
+
+    if (!job) {
+      return new Response(JSON.stringify({ error: 'Job not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response(JSON.stringify(job, null, 2), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  // Pass filters (repository, status, reference, limit) through to the tracker
+  const response = await jobTracker.fetch(new Request(`http://internal/list${url.search}`));
+  const jobs = await response.json();
+
+  return new Response(JSON.stringify(jobs, null, 2), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// Usage for the last `days` days (including today), optionally for one provider or repository
+export async function getUsageSummary(
+  env: any,
+  filters: { days?: number; provider?: string | null; repository?: string | null } = {}
+): Promise<UsageSummary> {
+  const params = new URLSearchParams({ days: String(filters.days ?? DEFAULT_USAGE_DAYS) });
+  if (filters.provider) {
+    params.set('provider', filters.provider);
+  }
+  if (filters.repository) {
+    params.set('repository', filters.repository);
+  }
+
+  const response = await getJobTracker(env).fetch(new Request(`http://internal/usage?${params}`));
+  return await response.json() as UsageSummary;
+}
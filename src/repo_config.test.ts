@@ -0,0 +1,191 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  parseRepoConfig,
+  loadGitHubRepoConfig,
+  matchesTriggerLabels,
+  formatRepoConfigErrors,
+  DEFAULT_REPO_CONFIG,
+  DEFAULT_ALLOWED_TOOLS
+} from './repo_config';
+
+describe('Repository configuration', () => {
+  it('should map a YAML file onto the config', () => {
+    const result = parseRepoConfig(`
+triggers:
+  labels: [claude, ai-fix]
+  mentions: ["@acme-bot", helper]
+branch_prefix: bots/claude/
+base_branch: develop
+prompt_instructions: |
+  Use pnpm, never npm.
+setup_commands:
+  - pnpm install --frozen-lockfile
+build_commands:
+  - pnpm build
+test_commands:
+  - pnpm test
+max_repair_attempts: 1
+max_ci_fix_attempts: 5
+command_timeout_minutes: 20
+draft_pull_requests: true
+code_review: true
+authorization:
+  minimum_permission: maintain
+  allowed_users: ["@trusted-dev", jane.doe]
+  allowed_teams: [acme/platform]
+`, '.claude-containers.yml');
+
+    expect(result.errors).toEqual([]);
+    expect(result.config).toEqual({
+      triggers: { labels: ['claude', 'ai-fix'], mentions: ['@acme-bot', '@helper'] },
+      branchPrefix: 'bots/claude/',
+      baseBranch: 'develop',
+      promptInstructions: 'Use pnpm, never npm.',
+      setupCommands: ['pnpm install --frozen-lockfile'],
+      buildCommands: ['pnpm build'],
+      testCommands: ['pnpm test'],
+      maxRepairAttempts: 1,
+      maxCiFixAttempts: 5,
+      commandTimeoutMinutes: 20,
+      draftPullRequests: true,
+      codeReview: true,
+      authorization: {
+        minimumPermission: 'maintain',
+        allowedUsers: ['trusted-dev', 'jane.doe'],
+        allowedTeams: ['acme/platform']
+      }
+    });
+  });
+
+  it('should accept JSON and fill in defaults for missing keys', () => {
+    const result = parseRepoConfig('{"test_commands": ["npm test"]}', '.claude-containers.json');
+
+    expect(result.errors).toEqual([]);
+    expect(result.config).toEqual({ ...DEFAULT_REPO_CONFIG, testCommands: ['npm test'] });
+  });
+
+  it('should report schema errors and fall back to the defaults', () => {
+    const result = parseRepoConfig(`
+branch-prefix: claude/
+branch_prefix: "../escape"
+draft_pull_requests: "yes"
+max_repair_attempts: 10
+triggers:
+  labels: claude
+`, '.claude-containers.yml');
+
+    expect(result.errors).toEqual([
+      expect.stringContaining('Unknown key `branch-prefix`'),
+      '`triggers.labels` must be a list of non-empty strings',
+      expect.stringContaining('`branch_prefix` may only contain'),
+      '`max_repair_attempts` must be a whole number from 0 to 5',
+      '`draft_pull_requests` must be `true` or `false`'
+    ]);
+    expect(result.config).toEqual(DEFAULT_REPO_CONFIG);
+  });
+
+  it('should reject unknown authorization settings', () => {
+    const result = parseRepoConfig(`
+authorization:
+  minimum_permission: owner
+  allowed_users: ["not a user"]
+  allowed_groups: [acme]
+`, '.claude-containers.yml');
+
+    expect(result.errors).toEqual([
+      expect.stringContaining('Unknown key `authorization.allowed_groups`'),
+      '`authorization.minimum_permission` must be one of read, triage, write, maintain, admin',
+      expect.stringContaining('`authorization.allowed_users` contains invalid usernames')
+    ]);
+    expect(result.config.authorization).toEqual(DEFAULT_REPO_CONFIG.authorization);
+  });
+
+  it('should map a tool policy and default its allowed tools', () => {
+    const result = parseRepoConfig(`
+tools:
+  disallowed: [Task]
+  bash_commands: ["npm test", "npm run lint:*"]
+`, '.claude-containers.yml');
+
+    expect(result.errors).toEqual([]);
+    expect(result.config.tools).toEqual({
+      allowedTools: DEFAULT_ALLOWED_TOOLS,
+      disallowedTools: ['Task'],
+      bashCommands: ['npm test', 'npm run lint:*'],
+      network: false
+    });
+    expect(DEFAULT_REPO_CONFIG.tools).toBeUndefined();
+  });
+
+  it('should only skip permission checks when the policy says so on its own', () => {
+    const unrestricted = parseRepoConfig('tools:\n  unrestricted: true\n', '.claude-containers.yml');
+    expect(unrestricted.errors).toEqual([]);
+    expect(unrestricted.config.tools?.unrestricted).toBe(true);
+
+    const mixed = parseRepoConfig('tools:\n  unrestricted: true\n  bash_commands: ["npm test"]\n', '.claude-containers.yml');
+    expect(mixed.errors).toEqual([
+      "`tools.unrestricted: true` allows every tool, so it can't be combined with other `tools` keys"
+    ]);
+  });
+
+  it('should reject network tools unless network access is enabled', () => {
+    const result = parseRepoConfig(`
+tools:
+  allowed: [Read, WebFetch, "Bash(git log:*)"]
+  bash_commands: ["rm (all)"]
+  network: "yes"
+`, '.claude-containers.yml');
+
+    expect(result.errors).toEqual([
+      expect.stringContaining('`tools.bash_commands` may not contain parentheses'),
+      '`tools.network` must be `true` or `false`',
+      expect.stringContaining('`tools.allowed` lists `WebFetch`, which needs `tools.network: true`')
+    ]);
+    expect(result.config.tools).toBeUndefined();
+  });
+
+  it('should report files that cannot be parsed', () => {
+    const result = parseRepoConfig('triggers: [unclosed', '.claude-containers.yml');
+    expect(result.errors[0]).toContain('Could not parse the file');
+  });
+
+  it('should read the first config file found on the requested ref', async () => {
+    const getFileContent = vi.fn().mockImplementation(async (_owner: string, _repo: string, path: string) =>
+      path === '.claude-containers.json' ? { content: '{"draft_pull_requests": true}', sha: 'abc' } : null
+    );
+
+    const result = await loadGitHubRepoConfig({ getFileContent } as any, 'acme', 'my-repo', 'main');
+
+    expect(getFileContent).toHaveBeenCalledWith('acme', 'my-repo', '.claude-containers.yml', 'main');
+    expect(result.path).toBe('.claude-containers.json');
+    expect(result.config.draftPullRequests).toBe(true);
+  });
+
+  it('should use the defaults when the repository has no config file', async () => {
+    const getFileContent = vi.fn().mockResolvedValue(null);
+
+    const result = await loadGitHubRepoConfig({ getFileContent } as any, 'acme', 'my-repo');
+
+    expect(getFileContent).toHaveBeenCalledTimes(3);
+    expect(result).toEqual({ config: DEFAULT_REPO_CONFIG, path: null, errors: [] });
+  });
+
+  it('should match trigger labels case-insensitively', () => {
+    const config = { ...DEFAULT_REPO_CONFIG, triggers: { labels: ['Claude'], mentions: [] } };
+
+    expect(matchesTriggerLabels(DEFAULT_REPO_CONFIG, [])).toBe(true);
+    expect(matchesTriggerLabels(config, ['bug', 'claude'])).toBe(true);
+    expect(matchesTriggerLabels(config, ['bug'])).toBe(false);
+  });
+
+  it('should list every error in the issue comment', () => {
+    const comment = formatRepoConfigErrors({
+      config: DEFAULT_REPO_CONFIG,
+      path: '.claude-containers.yml',
+      errors: ['first problem', 'second problem']
+    });
+
+    expect(comment).toContain('`.claude-containers.yml`');
+    expect(comment).toContain('- first problem\n- second problem');
+  });
+});
@@ -0,0 +1,477 @@
+import { parse as parseYaml } from 'yaml';
+import { GitHubAPI } from './github_client';
+import { GitLabApiCredentials, getGitLabFileContent } from './gitlab_api';
+import { BitbucketApiCredentials, getBitbucketFileContent } from './bitbucket_api';
+import { GiteaApiCredentials, getGiteaFileContent } from './gitea_api';
+import { logWithContext } from './log';
+import { AuthorizationConfig, DEFAULT_AUTHORIZATION, PERMISSION_LEVELS, PermissionLevel } from './authorization';
+
+// Per-repository configuration, read from the target repository's default branch
+// at the start of every job. Looked up in this order; the first file found wins.
+export const REPO_CONFIG_PATHS = ['.claude-containers.yml', '.claude-containers.yaml', '.claude-containers.json'];
+
+export interface RepoConfig {
+  triggers: {
+    // Only issues carrying one of these labels start a run (empty = every issue)
+    labels: string[];
+    // Mentions that trigger a run from a comment (empty = the provider default)
+    mentions: string[];
+  };
+  branchPrefix: string;
+  // Branch to work from and open pull requests against (unset = repository default)
+  baseBranch?: string;
+  promptInstructions?: string;
+  setupCommands: string[];
+  // Verification after Claude finishes: build commands, then test commands
+  buildCommands: string[];
+  testCommands: string[];
+  // Times Claude is asked to fix failing verification commands before the PR is opened
+  maxRepairAttempts: number;
+  // Runs started to fix failing CI on each pull request Claude opened (0 = never)
+  maxCiFixAttempts: number;
+  // Time limit for each setup or verification command
+  commandTimeoutMinutes: number;
+  draftPullRequests: boolean;
+  // Review pull requests and merge requests when they are opened or updated
+  codeReview: boolean;
+  // Who may trigger runs, on top of the permission check
+  authorization: AuthorizationConfig;
+  // Tools Claude may use; unset means reading, searching and editing files only
+  tools?: ToolPolicyConfig;
+}
+
+export interface ToolPolicyConfig {
+  allowedTools: string[];
+  disallowedTools: string[];
+  // Bash command patterns Claude may run, e.g. "npm test" or "npm run lint:*"
+  bashCommands: string[];
+  // Whether web fetch and search, curl and wget are permitted
+  network: boolean;
+  // Set by `unrestricted: true`: every tool is allowed and permission checks are skipped
+  unrestricted?: true;
+}
+
+// Tools allowed when there is no `tools` section or it doesn't list its own: reading,
+// searching and editing files
+export const DEFAULT_ALLOWED_TOOLS = [
+  'Read',
+  'Grep',
+  'Glob',
+  'LS',
+  'Edit',
+  'MultiEdit',
+  'Write',
+  'NotebookRead',
+  'NotebookEdit',
+  'TodoRead',
+  'TodoWrite'
+];
+
+// Tools that reach the network; only allowed with `network: true`
+const NETWORK_TOOLS = ['WebFetch', 'WebSearch'];
+
+export interface RepoConfigResult {
+  config: RepoConfig;
+  // Path of the file the config was read from, or null when the defaults apply
+  path: string | null;
+  errors: string[];
+}
+
+export const DEFAULT_REPO_CONFIG: RepoConfig = {
+  triggers: { labels: [], mentions: [] },
+  branchPrefix: 'claude-code/',
+  setupCommands: [],
+  buildCommands: [],
+  testCommands: [],
+  maxRepairAttempts: 2,
+  maxCiFixAttempts: 3,
+  commandTimeoutMinutes: 10,
+  draftPullRequests: false,
+  codeReview: false,
+  authorization: DEFAULT_AUTHORIZATION
+};
+
+const TOP_LEVEL_KEYS = [
+  'triggers',
+  'branch_prefix',
+  'base_branch',
+  'prompt_instructions',
+  'setup_commands',
+  'build_commands',
+  'test_commands',
+  'max_repair_attempts',
+  'max_ci_fix_attempts',
+  'command_timeout_minutes',
+  'draft_pull_requests',
+  'code_review',
+  'authorization',
+  'tools'
+];
+const TRIGGER_KEYS = ['labels', 'mentions'];
+const AUTHORIZATION_KEYS = ['minimum_permission', 'allowed_users', 'allowed_teams'];
+const TOOLS_KEYS = ['allowed', 'disallowed', 'bash_commands', 'network', 'unrestricted'];
+
+const BRANCH_NAME_PATTERN = /^[A-Za-z0-9._\/-]+$/;
+const MENTION_PATTERN = /^@?[A-Za-z0-9][\w-]*$/;
+// A tool name, optionally with a rule in parentheses: Edit, Bash(npm test:*), mcp__server__tool
+const TOOL_PATTERN = /^[A-Za-z][\w-]*(\([^()]+\))?$/;
+// GitHub logins and GitLab usernames (which may also contain dots)
+const USERNAME_PATTERN = /^@?[A-Za-z0-9][\w.-]*$/;
+
+function defaultRepoConfig(): RepoConfig {
+  return {
+    ...DEFAULT_REPO_CONFIG,
+    triggers: { labels: [], mentions: [] },
+    setupCommands: [],
+    buildCommands: [],
+    testCommands: [],
+    authorization: { ...DEFAULT_AUTHORIZATION, allowedUsers: [], allowedTeams: [] }
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readStringList(value: unknown, key: string, errors: string[]): string[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || !item.trim())) {
+    errors.push(`\`${key}\` must be a list of non-empty strings`);
+    return undefined;
+  }
+  return value.map(item => item.trim());
+}
+
+function readString(value: unknown, key: string, errors: string[]): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    errors.push(`\`${key}\` must be a non-empty string`);
+    return undefined;
+  }
+  return value.trim();
+}
+
+function readInteger(value: unknown, key: string, min: number, max: number, errors: string[]): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    errors.push(`\`${key}\` must be a whole number from ${min} to ${max}`);
+    return undefined;
+  }
+  return value;
+}
+
+function readBoolean(value: unknown, key: string, errors: string[]): boolean | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'boolean') {
+    errors.push(`\`${key}\` must be \`true\` or \`false\``);
+    return undefined;
+  }
+  return value;
+}
+
+function readToolList(value: unknown, key: string, errors: string[]): string[] | undefined {
+  const tools = readStringList(value, key, errors);
+  const invalid = tools?.filter(tool => !TOOL_PATTERN.test(tool)) ?? [];
+  if (invalid.length > 0) {
+    errors.push(`\`${key}\` contains invalid tool names: ${invalid.map(tool => `\`${tool}\``).join(', ')}`);
+    return undefined;
+  }
+  return tools;
+}
+
+function isValidBranchName(name: string): boolean {
+  return BRANCH_NAME_PATTERN.test(name) &&
+         !name.includes('..') &&
+         !name.includes('//') &&
+         !name.startsWith('/') &&
+         !name.startsWith('-');
+}
+
+// Validate a parsed config document and map it onto RepoConfig
+export function validateRepoConfig(raw: unknown): { config: RepoConfig; errors: string[] } {
+  const config = defaultRepoConfig();
+  const errors: string[] = [];
+
+  // An empty file means "use the defaults"
+  if (raw === undefined || raw === null) {
+    return { config, errors };
+  }
+
+  if (!isPlainObject(raw)) {
+    return { config, errors: ['The configuration must be a mapping of keys to values'] };
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (!TOP_LEVEL_KEYS.includes(key)) {
+      errors.push(`Unknown key \`${key}\` (expected one of ${TOP_LEVEL_KEYS.map(k => `\`${k}\``).join(', ')})`);
+    }
+  }
+
+  if (raw.triggers !== undefined && raw.triggers !== null) {
+    if (!isPlainObject(raw.triggers)) {
+      errors.push('`triggers` must be a mapping with `labels` and/or `mentions`');
+    } else {
+      for (const key of Object.keys(raw.triggers)) {
+        if (!TRIGGER_KEYS.includes(key)) {
+          errors.push(`Unknown key \`triggers.${key}\` (expected \`labels\` or \`mentions\`)`);
+        }
+      }
+
+      const labels = readStringList(raw.triggers.labels, 'triggers.labels', errors);
+      if (labels) {
+        config.triggers.labels = labels;
+      }
+
+      const mentions = readStringList(raw.triggers.mentions, 'triggers.mentions', errors);
+      if (mentions) {
+        const invalid = mentions.filter(mention => !MENTION_PATTERN.test(mention));
+        if (invalid.length > 0) {
+          errors.push(`\`triggers.mentions\` contains invalid handles: ${invalid.map(m => `\`${m}\``).join(', ')}`);
+        } else {
+          config.triggers.mentions = mentions.map(mention => mention.startsWith('@') ? mention : `@${mention}`);
+        }
+      }
+    }
+  }
+
+  const branchPrefix = readString(raw.branch_prefix, 'branch_prefix', errors);
+  if (branchPrefix) {
+    if (!isValidBranchName(branchPrefix)) {
+      errors.push('`branch_prefix` may only contain letters, digits, `.`, `_`, `-` and `/`');
+    } else {
+      config.branchPrefix = branchPrefix;
+    }
+  }
+
+  const baseBranch = readString(raw.base_branch, 'base_branch', errors);
+  if (baseBranch) {
+    if (!isValidBranchName(baseBranch) || baseBranch.endsWith('/')) {
+      errors.push('`base_branch` is not a valid branch name');
+    } else {
+      config.baseBranch = baseBranch;
+    }
+  }
+
+  config.promptInstructions = readString(raw.prompt_instructions, 'prompt_instructions', errors);
+  config.setupCommands = readStringList(raw.setup_commands, 'setup_commands', errors) ?? [];
+  config.buildCommands = readStringList(raw.build_commands, 'build_commands', errors) ?? [];
+  config.testCommands = readStringList(raw.test_commands, 'test_commands', errors) ?? [];
+  config.maxRepairAttempts = readInteger(raw.max_repair_attempts, 'max_repair_attempts', 0, 5, errors) ??
+    DEFAULT_REPO_CONFIG.maxRepairAttempts;
+  config.maxCiFixAttempts = readInteger(raw.max_ci_fix_attempts, 'max_ci_fix_attempts', 0, 10, errors) ??
+    DEFAULT_REPO_CONFIG.maxCiFixAttempts;
+  config.commandTimeoutMinutes = readInteger(raw.command_timeout_minutes, 'command_timeout_minutes', 1, 60, errors) ??
+    DEFAULT_REPO_CONFIG.commandTimeoutMinutes;
+
+  config.draftPullRequests = readBoolean(raw.draft_pull_requests, 'draft_pull_requests', errors) ??
+    DEFAULT_REPO_CONFIG.draftPullRequests;
+  config.codeReview = readBoolean(raw.code_review, 'code_review', errors) ?? DEFAULT_REPO_CONFIG.codeReview;
+
+  if (raw.authorization !== undefined && raw.authorization !== null) {
+    if (!isPlainObject(raw.authorization)) {
+      errors.push('`authorization` must be a mapping with `minimum_permission`, `allowed_users` and/or `allowed_teams`');
+    } else {
+      for (const key of Object.keys(raw.authorization)) {
+        if (!AUTHORIZATION_KEYS.includes(key)) {
+          errors.push(`Unknown key \`authorization.${key}\` (expected one of ${AUTHORIZATION_KEYS.map(k => `\`${k}\``).join(', ')})`);
+        }
+      }
+
+      const minimumPermission = readString(raw.authorization.minimum_permission, 'authorization.minimum_permission', errors);
+      if (minimumPermission) {
+        if (!PERMISSION_LEVELS.includes(minimumPermission as PermissionLevel)) {
+          errors.push(`\`authorization.minimum_permission\` must be one of ${PERMISSION_LEVELS.join(', ')}`);
+        } else {
+          config.authorization.minimumPermission = minimumPermission as PermissionLevel;
+        }
+      }
+
+      const allowedUsers = readStringList(raw.authorization.allowed_users, 'authorization.allowed_users', errors);
+      if (allowedUsers) {
+        const invalid = allowedUsers.filter(user => !USERNAME_PATTERN.test(user));
+        if (invalid.length > 0) {
+          errors.push(`\`authorization.allowed_users\` contains invalid usernames: ${invalid.map(u => `\`${u}\``).join(', ')}`);
+        } else {
+          config.authorization.allowedUsers = allowedUsers.map(user => user.replace(/^@/, ''));
+        }
+      }
+
+      config.authorization.allowedTeams =
+        readStringList(raw.authorization.allowed_teams, 'authorization.allowed_teams', errors) ?? [];
+    }
+  }
+
+  if (raw.tools !== undefined && raw.tools !== null) {
+    if (!isPlainObject(raw.tools)) {
+      errors.push('`tools` must be a mapping with `allowed`, `disallowed`, `bash_commands` and/or `network`, or `unrestricted: true`');
+    } else {
+      for (const key of Object.keys(raw.tools)) {
+        if (!TOOLS_KEYS.includes(key)) {
+          errors.push(`Unknown key \`tools.${key}\` (expected one of ${TOOLS_KEYS.map(k => `\`${k}\``).join(', ')})`);
+        }
+      }
+
+      const allowedTools = readToolList(raw.tools.allowed, 'tools.allowed', errors) ?? [...DEFAULT_ALLOWED_TOOLS];
+      const disallowedTools = readToolList(raw.tools.disallowed, 'tools.disallowed', errors) ?? [];
+
+      const bashCommands = readStringList(raw.tools.bash_commands, 'tools.bash_commands', errors) ?? [];
+      const invalidCommands = bashCommands.filter(command => /[()]/.test(command));
+      if (invalidCommands.length > 0) {
+        errors.push(`\`tools.bash_commands\` may not contain parentheses: ${invalidCommands.map(c => `\`${c}\``).join(', ')}`);
+      }
+
+      let network = false;
+      if (raw.tools.network !== undefined && raw.tools.network !== null) {
+        if (typeof raw.tools.network !== 'boolean') {
+          errors.push('`tools.network` must be `true` or `false`');
+        } else {
+          network = raw.tools.network;
+        }
+      }
+
+      const networkTools = allowedTools.filter(tool => NETWORK_TOOLS.includes(tool));
+      if (!network && networkTools.length > 0) {
+        errors.push(`\`tools.allowed\` lists ${networkTools.map(t => `\`${t}\``).join(', ')}, which needs \`tools.network: true\``);
+      }
+
+      // Turning permission checks off is a deliberate choice, not something a partial policy can imply
+      let unrestricted = false;
+      if (raw.tools.unrestricted !== undefined && raw.tools.unrestricted !== null) {
+        if (typeof raw.tools.unrestricted !== 'boolean') {
+          errors.push('`tools.unrestricted` must be `true` or `false`');
+        } else if (raw.tools.unrestricted && Object.keys(raw.tools).length > 1) {
+          errors.push('`tools.unrestricted: true` allows every tool, so it can\'t be combined with other `tools` keys');
+        } else {
+          unrestricted = raw.tools.unrestricted;
+        }
+      }
+
+      config.tools = { allowedTools, disallowedTools, bashCommands, network, ...(unrestricted ? { unrestricted: true as const } : {}) };
+    }
+  }
+
+  // Never run with a half-applied configuration
+  return errors.length > 0 ? { config: defaultRepoConfig(), errors } : { config, errors };
+}
+
+// Parse the content of a config file (YAML, or JSON for .json paths)
+export function parseRepoConfig(content: string, path: string): RepoConfigResult {
+  let raw: unknown;
+  try {
+    raw = path.endsWith('.json') ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    return {
+      config: defaultRepoConfig(),
+      path,
+      errors: [`Could not parse the file: ${error instanceof Error ? error.message : String(error)}`]
+    };
+  }
+
+  const { config, errors } = validateRepoConfig(raw);
+  return { config, path, errors };
+}
+
+async function loadRepoConfig(
+  provider: string,
+  repository: string,
+  getFile: (path: string) => Promise<string | null>
+): Promise<RepoConfigResult> {
+  for (const path of REPO_CONFIG_PATHS) {
+    const content = await getFile(path);
+    if (content === null) {
+      continue;
+    }
+
+    const result = parseRepoConfig(content, path);
+    logWithContext('REPO_CONFIG', 'Repository configuration loaded', {
+      provider,
+      repository,
+      path,
+      errorCount: result.errors.length
+    });
+    return result;
+  }
+
+  logWithContext('REPO_CONFIG', 'No repository configuration found, using defaults', { provider, repository });
+  return { config: defaultRepoConfig(), path: null, errors: [] };
+}
+
+export async function loadGitHubRepoConfig(
+  githubAPI: GitHubAPI,
+  owner: string,
+  repo: string,
+  ref?: string
+): Promise<RepoConfigResult> {
+  return loadRepoConfig('github', `${owner}/${repo}`, async path => {
+    const file = await githubAPI.getFileContent(owner, repo, path, ref);
+    return file ? file.content : null;
+  });
+}
+
+// loadGitHubRepoConfig for webhook handlers: a configuration that can't be read (rate limit,
+// server error, expired token) is logged and comes back as null, so the handler can refuse
+// the event instead of failing the delivery
+export async function tryLoadGitHubRepoConfig(
+  githubAPI: GitHubAPI,
+  owner: string,
+  repo: string,
+  ref?: string
+): Promise<RepoConfigResult | null> {
+  try {
+    return await loadGitHubRepoConfig(githubAPI, owner, repo, ref);
+  } catch (error) {
+    logWithContext('REPO_CONFIG', 'Failed to load repository configuration', {
+      repository: `${owner}/${repo}`,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return null;
+  }
+}
+
+export async function loadGitLabRepoConfig(
+  credentials: GitLabApiCredentials,
+  projectId: string | number,
+  projectPath: string,
+  ref: string
+): Promise<RepoConfigResult> {
+  return loadRepoConfig('gitlab', projectPath, path => getGitLabFileContent(credentials, projectId, path, ref));
+}
+
+export async function loadBitbucketRepoConfig(
+  credentials: BitbucketApiCredentials,
+  repository: string,
+  ref: string
+): Promise<RepoConfigResult> {
+  return loadRepoConfig('bitbucket', repository, path => getBitbucketFileContent(credentials, repository, path, ref));
+}
+
+export async function loadGiteaRepoConfig(
+  credentials: GiteaApiCredentials,
+  repository: string,
+  ref: string
+): Promise<RepoConfigResult> {
+  return loadRepoConfig('gitea', repository, path => getGiteaFileContent(credentials, repository, path, ref));
+}
+
+// Does the issue carry one of the configured trigger labels? (no labels configured = always)
+export function matchesTriggerLabels(config: RepoConfig, labels: string[]): boolean {
+  if (config.triggers.labels.length === 0) {
+    return true;
+  }
+  const wanted = config.triggers.labels.map(label => label.toLowerCase());
+  return labels.some(label => wanted.includes(label.toLowerCase()));
+}
+
+// Comment explaining why the configuration was rejected
+export function formatRepoConfigErrors(result: RepoConfigResult): string {
+  const errors = result.errors.map(error => `- ${error}`).join('\n');
+  return `⚠️ **Claude Code Assistant**\n\nI couldn't start because \`${result.path}\` on the default branch is invalid:\n\n${errors}\n\nPlease fix the configuration file and try again.\n\n---\n🚀 Powered by Claude Code`;
+}
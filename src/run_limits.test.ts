@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  validateRunLimits,
+  mergeRunLimits,
+  getRunLimits,
+  runLimitsContext,
+  handleRunLimitsRequest
+} from './run_limits';
+
+describe('Run limits', () => {
+  it('should validate limits sent to the admin endpoint', () => {
+    expect(validateRunLimits({ model: 'claude-sonnet-4-20250514', maxTurns: 30, maxCostUsd: 2.5 })).toEqual({
+      limits: { model: 'claude-sonnet-4-20250514', maxTurns: 30, maxCostUsd: 2.5 },
+      errors: []
+    });
+
+    const invalid = validateRunLimits({ maxTurns: 2.5, maxDurationMinutes: 0, model: 'rm -rf /', turns: 3 });
+    expect(invalid.limits).toBeNull();
+    expect(invalid.errors).toHaveLength(4);
+
+    expect(validateRunLimits([]).errors).toEqual(['Run limits must be an object']);
+  });
+
+  it('should let repository settings override installation settings key by key', () => {
+    const resolved = mergeRunLimits(
+      { model: 'claude-sonnet-4-20250514', maxTurns: 50, maxCostUsd: 5 },
+      { maxTurns: 10 }
+    );
+
+    expect(resolved.limits).toEqual({ model: 'claude-sonnet-4-20250514', maxTurns: 10, maxCostUsd: 5 });
+    expect(resolved.sources).toEqual({ model: 'installation', maxTurns: 'repository', maxCostUsd: 'installation' });
+  });
+
+  it('should only pass limits to the container when some are set', () => {
+    expect(runLimitsContext({})).toEqual({});
+    expect(runLimitsContext({ maxTokens: 200_000 })).toEqual({ RUN_LIMITS: '{"maxTokens":200000}' });
+  });
+
+  it('should load the resolved limits, or none when the config DO fails', async () => {
+    const configDO = { fetch: vi.fn().mockRejectedValue(new Error('unavailable')) };
+    expect(await getRunLimits(configDO, 'owner/repo')).toEqual({});
+
+    const limits = await getRunLimits(
+      { fetch: vi.fn().mockResolvedValue(new Response(JSON.stringify({ limits: { maxTurns: 5 }, sources: {} }))) },
+      'Owner/Repo'
+    );
+    expect(limits).toEqual({ maxTurns: 5 });
+  });
+
+  it('should store validated limits for the GitLab configuration', async () => {
+    const configDO = { fetch: vi.fn().mockResolvedValue(new Response('OK')) };
+    const env = {
+      GITLAB_APP_CONFIG: {
+        idFromName: vi.fn().mockReturnValue('gitlab-id'),
+        get: vi.fn().mockReturnValue(configDO)
+      }
+    };
+
+    const put = (body: any) => handleRunLimitsRequest(new Request(
+      'https://worker.example/run-limits?provider=gitlab&repository=group/project',
+      { method: 'PUT', body: JSON.stringify(body) }
+    ), env);
+
+    expect((await put({ maxTurns: -1 })).status).toBe(400);
+    expect(configDO.fetch).not.toHaveBeenCalled();
+
+    const response = await put({ maxDurationMinutes: 30 });
+    expect(response.status).toBe(200);
+    expect(env.GITLAB_APP_CONFIG.idFromName).toHaveBeenCalledWith('gitlab-config');
+
+    const stored = configDO.fetch.mock.calls[0][0] as Request;
+    expect(new URL(stored.url).pathname).toBe('/store-run-limits');
+    expect(JSON.parse(await stored.text())).toEqual({ repository: 'group/project', limits: { maxDurationMinutes: 30 } });
+  });
+});
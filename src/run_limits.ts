@@ -0,0 +1,287 @@
+import { logWithContext } from './log';
+
+// Per-run limits for Claude: model, turn limit, wall-clock time and spend.
+// Stored in the provider config Durable Object (GitHubAppConfigDO for a GitHub App,
+// the GitLab, Bitbucket and Gitea config DOs otherwise) as an installation-wide setting plus optional
+// per-repository overrides, passed to the container as RUN_LIMITS and enforced there.
+// Every key is optional; unset keys mean "no limit" (or the SDK's default model).
+export interface RunLimits {
+  model?: string;
+  maxTurns?: number;
+  maxDurationMinutes?: number;
+  maxCostUsd?: number;
+  maxTokens?: number;
+}
+
+export interface ResolvedRunLimits {
+  limits: RunLimits;
+  // Where each key came from, e.g. { maxTurns: 'repository', model: 'installation' }
+  sources: Partial<Record<keyof RunLimits, 'repository' | 'installation'>>;
+}
+
+const NUMERIC_LIMITS: Array<{ key: Exclude<keyof RunLimits, 'model'>; min: number; max: number; integer: boolean }> = [
+  { key: 'maxTurns', min: 1, max: 1000, integer: true },
+  { key: 'maxDurationMinutes', min: 1, max: 24 * 60, integer: true },
+  { key: 'maxCostUsd', min: 0.01, max: 10_000, integer: false },
+  { key: 'maxTokens', min: 1000, max: 1_000_000_000, integer: true }
+];
+
+export const RUN_LIMIT_KEYS: Array<keyof RunLimits> = ['model', ...NUMERIC_LIMITS.map(limit => limit.key)];
+
+const MODEL_PATTERN = /^[A-Za-z0-9._:-]+$/;
+
+// Validate limits sent to the admin endpoint. `null` clears a key.
+export function validateRunLimits(input: any): { limits: RunLimits | null; errors: string[] } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { limits: null, errors: ['Run limits must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const limits: RunLimits = {};
+
+  for (const key of Object.keys(input)) {
+    if (!RUN_LIMIT_KEYS.includes(key as keyof RunLimits)) {
+      errors.push(`Unknown key \`${key}\` (expected one of ${RUN_LIMIT_KEYS.map(k => `\`${k}\``).join(', ')})`);
+    }
+  }
+
+  if (input.model !== undefined && input.model !== null) {
+    if (typeof input.model !== 'string' || !MODEL_PATTERN.test(input.model)) {
+      errors.push('`model` must be a model name such as `claude-sonnet-4-20250514`');
+    } else {
+      limits.model = input.model;
+    }
+  }
+
+  for (const { key, min, max, integer } of NUMERIC_LIMITS) {
+    const value = input[key];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+      errors.push(`\`${key}\` must be ${integer ? 'a whole number' : 'a number'} from ${min} to ${max}`);
+    } else {
+      limits[key] = value;
+    }
+  }
+
+  return errors.length > 0 ? { limits: null, errors } : { limits, errors };
+}
+
+// Repository settings override installation settings key by key
+export function mergeRunLimits(installation: RunLimits | null, repository: RunLimits | null): ResolvedRunLimits {
+  const limits: RunLimits = {};
+  const sources: ResolvedRunLimits['sources'] = {};
+
+  for (const key of RUN_LIMIT_KEYS) {
+    if (repository?.[key] !== undefined) {
+      (limits as any)[key] = repository[key];
+      sources[key] = 'repository';
+    } else if (installation?.[key] !== undefined) {
+      (limits as any)[key] = installation[key];
+      sources[key] = 'installation';
+    }
+  }
+
+  return { limits, sources };
+}
+
+// SQLite storage for run limits, shared by the provider config Durable Objects.
+// scope is 'installation' or a lower-cased repository path.
+export class RunLimitsStore {
+  private storage: DurableObjectStorage;
+
+  constructor(storage: DurableObjectStorage) {
+    this.storage = storage;
+  }
+
+  initializeTable(): void {
+    this.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS run_limits (
+        scope TEXT PRIMARY KEY,
+        limits TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+  }
+
+  private scope(repository: string | null): string {
+    return repository ? repository.toLowerCase() : 'installation';
+  }
+
+  private read(scope: string): RunLimits | null {
+    const results = this.storage.sql.exec('SELECT limits FROM run_limits WHERE scope = ? LIMIT 1', scope).toArray();
+    return results.length > 0 ? JSON.parse(results[0].limits as string) : null;
+  }
+
+  resolve(repository: string | null): ResolvedRunLimits {
+    return mergeRunLimits(this.read('installation'), repository ? this.read(this.scope(repository)) : null);
+  }
+
+  list(): { installation: RunLimits; repositories: Record<string, RunLimits> } {
+    const rows = this.storage.sql.exec('SELECT * FROM run_limits ORDER BY scope').toArray();
+    const repositories: Record<string, RunLimits> = {};
+    let installation: RunLimits = {};
+
+    for (const row of rows) {
+      const limits = JSON.parse(row.limits as string);
+      if (row.scope === 'installation') {
+        installation = limits;
+      } else {
+        repositories[row.scope as string] = limits;
+      }
+    }
+
+    return { installation, repositories };
+  }
+
+  store(repository: string | null, limits: RunLimits): void {
+    this.storage.sql.exec(
+      'INSERT OR REPLACE INTO run_limits (scope, limits, updated_at) VALUES (?, ?, ?)',
+      this.scope(repository),
+      JSON.stringify(limits),
+      new Date().toISOString()
+    );
+  }
+
+  remove(repository: string | null): void {
+    this.storage.sql.exec('DELETE FROM run_limits WHERE scope = ?', this.scope(repository));
+  }
+
+  // Internal Durable Object routes; returns null for other paths
+  async handleRequest(request: Request, url: URL): Promise<Response | null> {
+    const repository = url.searchParams.get('repository');
+
+    if (url.pathname === '/get-run-limits' && request.method === 'GET') {
+      return new Response(JSON.stringify(this.resolve(repository)));
+    }
+
+    if (url.pathname === '/list-run-limits' && request.method === 'GET') {
+      return new Response(JSON.stringify(this.list()));
+    }
+
+    if (url.pathname === '/store-run-limits' && request.method === 'POST') {
+      const body = await request.json() as { repository: string | null; limits: RunLimits };
+      this.store(body.repository, body.limits);
+      return new Response('OK');
+    }
+
+    if (url.pathname === '/remove-run-limits' && request.method === 'DELETE') {
+      this.remove(repository);
+      return new Response('OK');
+    }
+
+    return null;
+  }
+}
+
+// Look up the limits for a repository. No limits apply if the config DO can't answer.
+export async function getRunLimits(configDO: any, repository: string): Promise<RunLimits> {
+  try {
+    const response = await configDO.fetch(new Request(
+      `http://internal/get-run-limits?repository=${encodeURIComponent(repository)}`
+    ));
+
+    if (!response.ok) {
+      throw new Error(`Config DO returned status ${response.status}`);
+    }
+
+    const resolved = await response.json() as ResolvedRunLimits;
+    return resolved?.limits || {};
+  } catch (error) {
+    logWithContext('RUN_LIMITS', 'Failed to load run limits, running without them', {
+      repository,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return {};
+  }
+}
+
+// Container context for the limits; empty when nothing is configured
+export function runLimitsContext(limits: RunLimits): Record<string, string> {
+  return Object.keys(limits).length > 0 ? { RUN_LIMITS: JSON.stringify(limits) } : {};
+}
+
+function jsonResponse(body: any, status: number = 200): Response {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// Admin endpoint: /run-limits?provider=github&app_id=<id>[&repository=<owner/name>]
+//             or: /run-limits?provider=gitlab[&repository=<group/project>]
+//             or: /run-limits?provider=bitbucket[&repository=<workspace/repo-slug>]
+// GET shows the limits (resolved for one repository, or all of them), PUT stores them,
+// DELETE removes them.
+export async function handleRunLimitsRequest(request: Request, env: any): Promise<Response> {
+  const url = new URL(request.url);
+  const provider = url.searchParams.get('provider') || 'github';
+  const repository = url.searchParams.get('repository');
+
+  let configDO: any;
+  if (provider === 'github') {
+    const appId = url.searchParams.get('app_id');
+    if (!appId) {
+      return jsonResponse({ error: 'Missing app_id parameter' }, 400);
+    }
+    configDO = env.GITHUB_APP_CONFIG.get(env.GITHUB_APP_CONFIG.idFromName(appId));
+  } else if (provider === 'gitlab') {
+    configDO = env.GITLAB_APP_CONFIG.get(env.GITLAB_APP_CONFIG.idFromName('gitlab-config'));
+  } else if (provider === 'bitbucket') {
+    configDO = env.BITBUCKET_APP_CONFIG.get(env.BITBUCKET_APP_CONFIG.idFromName('bitbucket-config'));
+  } else if (provider === 'gitea') {
+    configDO = env.GITEA_APP_CONFIG.get(env.GITEA_APP_CONFIG.idFromName('gitea-config'));
+  } else {
+    return jsonResponse({ error: 'provider must be github, gitlab, bitbucket or gitea' }, 400);
+  }
+
+  const repositoryQuery = repository ? `?repository=${encodeURIComponent(repository)}` : '';
+
+  if (request.method === 'GET') {
+    const response = await configDO.fetch(new Request(
+      repository ? `http://internal/get-run-limits${repositoryQuery}` : 'http://internal/list-run-limits'
+    ));
+    return jsonResponse(await response.json());
+  }
+
+  if (request.method === 'PUT') {
+    let body: any;
+    try {
+      body = await request.json();
+    } catch {
+      return jsonResponse({ error: 'Request body must be JSON' }, 400);
+    }
+
+    const { limits, errors } = validateRunLimits(body);
+    if (!limits) {
+      return jsonResponse({ error: 'Invalid run limits', details: errors }, 400);
+    }
+
+    await configDO.fetch(new Request('http://internal/store-run-limits', {
+      method: 'POST',
+      body: JSON.stringify({ repository, limits })
+    }));
+
+    logWithContext('RUN_LIMITS', 'Run limits updated', {
+      provider,
+      scope: repository || 'installation',
+      limits
+    });
+
+    return jsonResponse({ scope: repository || 'installation', limits });
+  }
+
+  if (request.method === 'DELETE') {
+    await configDO.fetch(new Request(`http://internal/remove-run-limits${repositoryQuery}`, { method: 'DELETE' }));
+
+    logWithContext('RUN_LIMITS', 'Run limits removed', {
+      provider,
+      scope: repository || 'installation'
+    });
+
+    return jsonResponse({ scope: repository || 'installation', removed: true });
+  }
+
+  return jsonResponse({ error: 'Method not allowed' }, 405);
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  getThreadSession,
+  storeThreadSession,
+  clearThreadSession,
+  isResetCommand,
+  sessionContext,
+  threadKey,
+  MAX_STORED_SESSION_BYTES,
+  ThreadRef
+} from './sessions';
+
+describe('Thread sessions', () => {
+  const thread: ThreadRef = { provider: 'github', repository: 'acme/my-repo', reference: '#42' };
+  const session = {
+    sessionId: '0b7c6a4e-2f1d-4c5e-9a8b-1d2e3f4a5b6c',
+    branch: 'claude-code/issue-42-2026-10-18-10-00-00',
+    data: '{"uuid":"first","type":"user"}\n{"uuid":"second","type":"assistant"}\n'
+  };
+
+  let sessions: Map<string, Record<string, any>>;
+  let mockEnv: any;
+
+  beforeEach(() => {
+    sessions = new Map();
+    const tracker = {
+      fetch: vi.fn().mockImplementation(async (request: Request) => {
+        const url = new URL(request.url);
+        const key = url.searchParams.get('thread') || '';
+        if (url.pathname !== '/session') {
+          return new Response('Not Found', { status: 404 });
+        }
+        if (request.method === 'POST') {
+          const stored = await request.json() as Record<string, any>;
+          sessions.set(stored.thread, stored);
+          return new Response('OK');
+        }
+        const stored = sessions.get(key) ?? null;
+        if (request.method === 'DELETE') {
+          sessions.delete(key);
+        }
+        return new Response(JSON.stringify(stored));
+      })
+    };
+    mockEnv = {
+      ENCRYPTION_KEY: 'test-encryption-key',
+      JOB_TRACKER: {
+        idFromName: vi.fn().mockReturnValue('mock-tracker-id'),
+        get: vi.fn().mockReturnValue(tracker)
+      }
+    };
+  });
+
+  it('should recognise reset commands', () => {
+    expect(isResetCommand('reset')).toBe(true);
+    expect(isResetCommand(' Reset! ')).toBe(true);
+    expect(isResetCommand('new session')).toBe(true);
+    expect(isResetCommand('reset the counter when the page reloads')).toBe(false);
+  });
+
+  it('should keep the session out of the string context', () => {
+    expect(sessionContext(session)).toEqual({ SESSION: session });
+    expect(sessionContext(null)).toEqual({});
+  });
+
+  it('should resume the stored session for the same thread only', async () => {
+    await storeThreadSession(mockEnv, thread, session);
+
+    expect(sessions.get('github:acme/my-repo#42')).toMatchObject({ storage: 'durable_object', data: expect.stringMatching(/^enc:v1:/) });
+    expect(await getThreadSession(mockEnv, thread)).toEqual(session);
+    expect(await getThreadSession(mockEnv, { ...thread, reference: '#43' })).toBeNull();
+    expect(await getThreadSession(mockEnv, { ...thread, provider: 'gitlab' })).toBeNull();
+  });
+
+  it('should put large session files in R2 and keep only the branch without it', async () => {
+    const large = { ...session, data: 'x'.repeat(MAX_STORED_SESSION_BYTES + 1) };
+
+    await storeThreadSession(mockEnv, thread, large);
+    expect(await getThreadSession(mockEnv, thread)).toEqual({ sessionId: session.sessionId, branch: session.branch, data: undefined });
+
+    const objects = new Map<string, string>();
+    mockEnv.TRANSCRIPTS = {
+      put: vi.fn().mockImplementation(async (key: string, value: string) => { objects.set(key, value); }),
+      get: vi.fn().mockImplementation(async (key: string) => objects.has(key) ? { text: async () => objects.get(key)! } : null),
+      delete: vi.fn().mockImplementation(async (key: string) => { objects.delete(key); })
+    };
+
+    await storeThreadSession(mockEnv, thread, large);
+    expect(sessions.get(threadKey(thread))).toMatchObject({ storage: 'r2', data: null });
+    expect([...objects.values()][0]).toMatch(/^enc:v1:/);
+    expect((await getThreadSession(mockEnv, thread))?.data).toBe(large.data);
+
+    expect(await clearThreadSession(mockEnv, thread)).toBe(true);
+    expect(objects.size).toBe(0);
+  });
+
+  it('should start fresh after a reset', async () => {
+    await storeThreadSession(mockEnv, thread, session);
+
+    expect(await clearThreadSession(mockEnv, thread)).toBe(true);
+    expect(await getThreadSession(mockEnv, thread)).toBeNull();
+    expect(await clearThreadSession(mockEnv, thread)).toBe(false);
+  });
+
+  it('should not store runs that ended without a session', async () => {
+    await storeThreadSession(mockEnv, thread, undefined);
+    expect(sessions.size).toBe(0);
+  });
+});
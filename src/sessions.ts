@@ -0,0 +1,174 @@
+import { getJobTracker } from './jobs';
+import { logWithContext } from './log';
+import { encrypt, decrypt, getCiphertextKeyId } from './crypto';
+
+// Claude sessions per issue or merge request thread. After each run the container returns
+// the session it ended with: the session ID, the CLI's session file and the branch it pushed
+// to. The next run on the same thread restores the file and resumes the session, so a
+// follow-up instruction builds on the earlier conversation and changes. `@claude reset`
+// (`@duo-agent reset` on GitLab) forgets the session.
+// Session files up to MAX_STORED_SESSION_BYTES are kept in JobTrackerDO. Larger ones go to
+// the TRANSCRIPTS R2 bucket when it is bound; otherwise only the branch is kept. Session
+// files are a full record of the conversation, so they are encrypted wherever they are kept.
+
+export interface ThreadSession {
+  sessionId: string;
+  // Branch the thread's changes were pushed to, reused by the next run
+  branch?: string;
+  // Contents of the CLI's session file (JSON lines), needed to resume the session
+  data?: string;
+}
+
+export interface ThreadRef {
+  provider: 'github' | 'gitlab' | 'bitbucket' | 'gitea';
+  repository: string;
+  // `#<number>` for issues and Gitea pull requests, `!<iid>` for merge requests,
+  // `PR #<id>` for Bitbucket pull requests, as in the job history
+  reference: string;
+}
+
+// Largest session file kept in Durable Object storage (SQLite values are limited to 2 MB)
+export const MAX_STORED_SESSION_BYTES = 1024 * 1024;
+
+const encoder = new TextEncoder();
+
+export function threadKey(thread: ThreadRef): string {
+  return `${thread.provider}:${thread.repository}${thread.reference}`;
+}
+
+// R2 key of a thread's session file, by threadKey()
+export function sessionObjectKey(thread: string): string {
+  return `sessions/${encodeURIComponent(thread)}.jsonl`;
+}
+
+function sessionKey(thread: ThreadRef): string {
+  return sessionObjectKey(threadKey(thread));
+}
+
+// `@claude reset` and friends: start the thread's next run from a fresh session
+export function isResetCommand(userPrompt: string): boolean {
+  return /^(reset|new session)[.!]?$/i.test(userPrompt.trim());
+}
+
+// SESSION for the container. It is an object rather than a string so that it is never
+// copied into the container's environment, which the CLI would inherit.
+export function sessionContext(session: ThreadSession | null): Record<string, ThreadSession> {
+  return session ? { SESSION: session } : {};
+}
+
+// Load the session to resume for a thread. Like job tracking this is best-effort:
+// without a session the run simply starts fresh.
+export async function getThreadSession(env: any, thread: ThreadRef): Promise<ThreadSession | null> {
+  try {
+    const response = await getJobTracker(env).fetch(
+      new Request(`http://internal/session?thread=${encodeURIComponent(threadKey(thread))}`)
+    );
+    const stored = await response.json() as {
+      sessionId: string;
+      branch?: string;
+      storage: string;
+      keyId: string | null;
+      data: string | null;
+    } | null;
+
+    if (!stored) {
+      return null;
+    }
+
+    let data = stored.data ?? undefined;
+    if (stored.storage === 'r2') {
+      const object = env.TRANSCRIPTS ? await env.TRANSCRIPTS.get(sessionKey(thread)) : null;
+      data = object ? await object.text() : undefined;
+    }
+
+    // Sessions stored before they were encrypted have no key ID
+    if (data && stored.keyId) {
+      data = await decrypt(data, env);
+    }
+
+    logWithContext('SESSIONS', 'Resuming thread session', {
+      thread: threadKey(thread),
+      sessionId: stored.sessionId,
+      branch: stored.branch,
+      hasData: !!data
+    });
+
+    return { sessionId: stored.sessionId, branch: stored.branch, data };
+  } catch (error) {
+    logWithContext('SESSIONS', 'Failed to load thread session', {
+      error: error instanceof Error ? error.message : String(error),
+      thread: threadKey(thread)
+    });
+    return null;
+  }
+}
+
+// Store the session a run ended with. Failing to store it must never fail the run.
+export async function storeThreadSession(env: any, thread: ThreadRef, session: ThreadSession | undefined): Promise<void> {
+  if (!session?.sessionId) {
+    return;
+  }
+
+  try {
+    const sizeBytes = session.data ? encoder.encode(session.data).length : 0;
+    let storage = 'durable_object';
+    let data: string | null = session.data ? await encrypt(session.data, env) : null;
+    const keyId = data ? getCiphertextKeyId(data) : null;
+
+    if (sizeBytes > MAX_STORED_SESSION_BYTES) {
+      if (env.TRANSCRIPTS) {
+        await env.TRANSCRIPTS.put(sessionKey(thread), data, {
+          httpMetadata: { contentType: 'text/plain' }
+        });
+        storage = 'r2';
+      }
+      data = null;
+    }
+
+    await getJobTracker(env).fetch(new Request('http://internal/session', {
+      method: 'POST',
+      body: JSON.stringify({
+        thread: threadKey(thread),
+        sessionId: session.sessionId,
+        branch: session.branch,
+        storage,
+        keyId: storage === 'r2' || data !== null ? keyId : null,
+        data
+      })
+    }));
+
+    logWithContext('SESSIONS', 'Thread session stored', {
+      thread: threadKey(thread),
+      sessionId: session.sessionId,
+      branch: session.branch,
+      storage,
+      sizeBytes,
+      resumable: storage === 'r2' || data !== null
+    });
+  } catch (error) {
+    logWithContext('SESSIONS', 'Failed to store thread session', {
+      error: error instanceof Error ? error.message : String(error),
+      thread: threadKey(thread)
+    });
+  }
+}
+
+// Forget a thread's session, returning whether there was one
+export async function clearThreadSession(env: any, thread: ThreadRef): Promise<boolean> {
+  const response = await getJobTracker(env).fetch(new Request(
+    `http://internal/session?thread=${encodeURIComponent(threadKey(thread))}`,
+    { method: 'DELETE' }
+  ));
+  const cleared = await response.json() as { storage: string } | null;
+
+  if (cleared?.storage === 'r2' && env.TRANSCRIPTS) {
+    await env.TRANSCRIPTS.delete(sessionKey(thread));
+  }
+
+  logWithContext('SESSIONS', 'Thread session reset', {
+    thread: threadKey(thread),
+    hadSession: !!cleared
+  });
+
+  return !!cleared;
+}
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { storeTranscript, getTranscript, fitTranscript, transcriptContext, MAX_STORED_TRANSCRIPT_BYTES } from './transcripts';
+import { handleTranscriptRequest, renderDiff, renderTranscriptPage } from './handlers/transcript';
+
+describe('Run transcripts', () => {
+  const messages = [
+    { type: 'system', subtype: 'init', model: 'claude-sonnet-4-20250514', tools: ['Read', 'Edit'] },
+    {
+      type: 'assistant',
+      message: {
+        content: [
+          { type: 'text', text: 'The <script> tag is escaped wrongly, fixing it.' },
+          { type: 'tool_use', id: 'tool-1', name: 'Edit', input: { file_path: 'src/app.ts', old_string: 'a\nold\nc', new_string: 'a\nnew\nc' } }
+        ]
+      }
+    },
+    { type: 'user', message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'tool-1', content: 'File updated' }] } },
+    { type: 'result', subtype: 'success', num_turns: 3, total_cost_usd: 0.12, result: 'Fixed the escaping.' }
+  ];
+
+  let stored: Record<string, any> | null;
+  let mockTracker: any;
+  let mockEnv: any;
+
+  beforeEach(() => {
+    stored = null;
+    mockTracker = {
+      fetch: vi.fn().mockImplementation(async (request: Request) => {
+        const url = new URL(request.url);
+        if (url.pathname === '/transcript' && request.method === 'POST') {
+          stored = await request.json() as Record<string, any>;
+          return new Response('OK');
+        }
+        if (url.pathname === '/transcript') {
+          return new Response(JSON.stringify(stored ? { ...stored, createdAt: '2026-10-18T10:00:00.000Z' } : null));
+        }
+        if (url.pathname === '/get') {
+          return new Response(JSON.stringify({
+            id: 'job-1',
+            triggerEvent: 'issues.opened',
+            repository: 'acme/my-repo',
+            reference: '#42',
+            status: 'succeeded',
+            startedAt: '2026-10-18T10:00:00.000Z'
+          }));
+        }
+        return new Response('Not Found', { status: 404 });
+      })
+    };
+    mockEnv = {
+      ENCRYPTION_KEY: 'test-encryption-key',
+      JOB_TRACKER: {
+        idFromName: vi.fn().mockReturnValue('mock-tracker-id'),
+        get: vi.fn().mockReturnValue(mockTracker)
+      }
+    };
+  });
+
+  it('should pass the transcript URL to the container once a job exists', () => {
+    expect(transcriptContext('https://worker.example.com', 'job-1'))
+      .toEqual({ TRANSCRIPT_URL: 'https://worker.example.com/runs/job-1/transcript' });
+    expect(transcriptContext('https://worker.example.com', null)).toEqual({});
+    expect(transcriptContext(undefined, 'job-1')).toEqual({});
+  });
+
+  it('should keep small transcripts in the job tracker', async () => {
+    await storeTranscript(mockEnv, 'job-1', messages);
+
+    expect(stored).toMatchObject({ jobId: 'job-1', storage: 'durable_object', messageCount: 4, truncated: false });
+    expect((await getTranscript(mockEnv, 'job-1'))?.messages).toEqual(messages);
+  });
+
+  it('should encrypt transcripts and still read those stored before encryption', async () => {
+    await storeTranscript(mockEnv, 'job-1', messages);
+
+    expect(stored?.messages).toMatch(/^enc:v1:/);
+    expect(stored?.messages).not.toContain('escaped wrongly');
+    expect(stored?.keyId).toEqual(expect.any(String));
+
+    stored = { jobId: 'job-1', storage: 'durable_object', sizeBytes: 100, messageCount: 4, truncated: false, keyId: null, messages: JSON.stringify(messages) };
+    expect((await getTranscript(mockEnv, 'job-1'))?.messages).toEqual(messages);
+  });
+
+  it('should put large transcripts in R2 when the bucket is bound', async () => {
+    const objects = new Map<string, string>();
+    mockEnv.TRANSCRIPTS = {
+      put: vi.fn().mockImplementation(async (key: string, value: string) => { objects.set(key, value); }),
+      get: vi.fn().mockImplementation(async (key: string) => objects.has(key) ? { text: async () => objects.get(key)! } : null)
+    };
+    const large = [...messages, { type: 'user', message: { content: [{ type: 'tool_result', tool_use_id: 'x', content: 'x'.repeat(MAX_STORED_TRANSCRIPT_BYTES) }] } }];
+
+    await storeTranscript(mockEnv, 'job-1', large);
+
+    expect(mockEnv.TRANSCRIPTS.put).toHaveBeenCalledWith('transcripts/job-1.json', expect.any(String), expect.anything());
+    expect(stored).toMatchObject({ storage: 'r2', messageCount: 5, truncated: false });
+    expect(stored?.messages).toBeUndefined();
+    expect(objects.get('transcripts/job-1.json')).toMatch(/^enc:v1:/);
+    expect((await getTranscript(mockEnv, 'job-1'))?.messages).toEqual(large);
+  });
+
+  it('should cut transcripts down to fit without R2', () => {
+    const longResult = { type: 'user', message: { content: [{ type: 'tool_result', tool_use_id: 'x', content: 'x'.repeat(10_000) }] } };
+
+    const shortened = fitTranscript([messages[0], longResult], 8_000);
+    expect(shortened.truncated).toBe(true);
+    expect(shortened.messages).toHaveLength(2);
+    expect(shortened.messages[1].message.content[0].content).toContain('[6000 characters omitted]');
+
+    const dropped = fitTranscript([messages[0], longResult, longResult, longResult], 6_000);
+    expect(dropped.truncated).toBe(true);
+    expect(dropped.messages).toHaveLength(2);
+
+    expect(fitTranscript(messages, MAX_STORED_TRANSCRIPT_BYTES)).toEqual({ messages, truncated: false });
+  });
+
+  it('should render tool calls and edits readably', async () => {
+    await storeTranscript(mockEnv, 'job-1', messages);
+
+    const response = await handleTranscriptRequest(new Request('https://worker.example.com/runs/job-1/transcript'), mockEnv);
+    const html = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/html');
+    expect(html).toContain('acme/my-repo #42');
+    expect(html).toContain('The &lt;script&gt; tag is escaped wrongly');
+    expect(html).toContain('<span class="removed">- old</span>');
+    expect(html).toContain('<span class="added">+ new</span>');
+    expect(html).toContain('↩️ Result of Edit');
+    expect(html).toContain('Fixed the escaping.');
+  });
+
+  it('should offer the raw messages as a download', async () => {
+    await storeTranscript(mockEnv, 'job-1', messages);
+
+    const response = await handleTranscriptRequest(new Request('https://worker.example.com/runs/job-1/transcript?format=json'), mockEnv);
+
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="transcript-job-1.json"');
+    expect(await response.json()).toEqual(messages);
+  });
+
+  it('should only link pull request URLs that are web links', () => {
+    const transcript = { jobId: 'job-1', storage: 'durable_object' as const, sizeBytes: 100, messageCount: 0, truncated: false, createdAt: '', messages: [] };
+    const job = { triggerEvent: 'issues.opened', status: 'succeeded', startedAt: '2026-10-18T10:00:00.000Z' };
+
+    expect(renderTranscriptPage(transcript, { ...job, prUrl: 'https://github.com/acme/my-repo/pull/7' }))
+      .toContain('<a href="https://github.com/acme/my-repo/pull/7">');
+    const html = renderTranscriptPage(transcript, { ...job, prUrl: 'javascript:alert(1)' });
+    expect(html).not.toContain('href="javascript:');
+    expect(html).toContain('javascript:alert(1)');
+  });
+
+  it('should return 404 for runs without a transcript', async () => {
+    const response = await handleTranscriptRequest(new Request('https://worker.example.com/runs/job-2/transcript'), mockEnv);
+    expect(response.status).toBe(404);
+  });
+
+  it('should only mark the changed lines of an edit', () => {
+    expect(renderDiff('a\nb', 'a\nb\nc')).toBe(
+      '<pre class="diff"><span class="context">  a</span>\n<span class="context">  b</span>\n<span class="added">+ c</span></pre>'
+    );
+  });
+});
@@ -0,0 +1,201 @@
+import { getJobTracker } from './jobs';
+import { logWithContext } from './log';
+import { encrypt, decrypt, getCiphertextKeyId } from './crypto';
+
+// Full transcripts of container runs: every message query() returned, as sent back by
+// the container, so that a surprising change can be traced back to Claude's reasoning.
+// Transcripts up to MAX_STORED_TRANSCRIPT_BYTES are kept in JobTrackerDO. Larger ones
+// go to the TRANSCRIPTS R2 bucket when it is bound, and are cut down to fit otherwise.
+// Transcripts hold the code, tool output and any secrets a run came across, so they are
+// encrypted like stored credentials, in Durable Object storage and in R2 alike.
+
+export interface TranscriptInfo {
+  jobId: string;
+  storage: 'durable_object' | 'r2';
+  // Size of the transcript returned by the container, before any cutting down
+  sizeBytes: number;
+  messageCount: number;
+  truncated: boolean;
+  createdAt: string;
+}
+
+export interface Transcript extends TranscriptInfo {
+  messages: any[];
+}
+
+// Largest transcript kept in Durable Object storage (SQLite values are limited to 2 MB)
+export const MAX_STORED_TRANSCRIPT_BYTES = 1024 * 1024;
+
+// Tool results are shortened to this many characters before messages are dropped
+const MAX_TOOL_RESULT_LENGTH = 4000;
+
+const encoder = new TextEncoder();
+
+function byteLength(value: unknown): number {
+  return encoder.encode(JSON.stringify(value)).length;
+}
+
+export function transcriptKey(jobId: string): string {
+  return `transcripts/${jobId}.json`;
+}
+
+export function transcriptPath(jobId: string): string {
+  return `/runs/${encodeURIComponent(jobId)}/transcript`;
+}
+
+// TRANSCRIPT_URL for the container, which links it from the final progress comment
+export function transcriptContext(origin: string | undefined, jobId: string | null): Record<string, string> {
+  return origin && jobId ? { TRANSCRIPT_URL: `${origin}${transcriptPath(jobId)}` } : {};
+}
+
+function shortenText(text: string): string {
+  return text.length > MAX_TOOL_RESULT_LENGTH
+    ? `${text.substring(0, MAX_TOOL_RESULT_LENGTH)}… [${text.length - MAX_TOOL_RESULT_LENGTH} characters omitted]`
+    : text;
+}
+
+function shortenToolResults(message: any): any {
+  const content = message?.message?.content;
+  if (message?.type !== 'user' || !Array.isArray(content)) {
+    return message;
+  }
+
+  return {
+    ...message,
+    message: {
+      ...message.message,
+      content: content.map((block: any) => {
+        if (block?.type !== 'tool_result') {
+          return block;
+        }
+        if (typeof block.content === 'string') {
+          return { ...block, content: shortenText(block.content) };
+        }
+        if (Array.isArray(block.content)) {
+          return {
+            ...block,
+            content: block.content.map((part: any) => typeof part?.text === 'string' ? { ...part, text: shortenText(part.text) } : part)
+          };
+        }
+        return block;
+      })
+    }
+  };
+}
+
+// Cut a transcript down to maxBytes of JSON: long tool results are shortened first,
+// then the latest messages are dropped
+export function fitTranscript(messages: any[], maxBytes: number): { messages: any[]; truncated: boolean } {
+  if (byteLength(messages) <= maxBytes) {
+    return { messages, truncated: false };
+  }
+
+  const shortened = messages.map(shortenToolResults);
+  if (byteLength(shortened) <= maxBytes) {
+    return { messages: shortened, truncated: true };
+  }
+
+  const kept: any[] = [];
+  let size = 2;
+  for (const message of shortened) {
+    const messageSize = byteLength(message) + 1;
+    if (size + messageSize > maxBytes) {
+      break;
+    }
+    kept.push(message);
+    size += messageSize;
+  }
+
+  return { messages: kept, truncated: true };
+}
+
+// Store the transcript of a finished run. Like job tracking this is best-effort:
+// failing to store a transcript must never fail the run.
+export async function storeTranscript(env: any, jobId: string | null, messages: any[] | undefined): Promise<void> {
+  if (!jobId || !Array.isArray(messages) || messages.length === 0) {
+    return;
+  }
+
+  try {
+    const json = JSON.stringify(messages);
+    const sizeBytes = encoder.encode(json).length;
+    let record: Record<string, any>;
+
+    if (sizeBytes > MAX_STORED_TRANSCRIPT_BYTES && env.TRANSCRIPTS) {
+      const encrypted = await encrypt(json, env);
+      await env.TRANSCRIPTS.put(transcriptKey(jobId), encrypted, {
+        httpMetadata: { contentType: 'text/plain' }
+      });
+      record = {
+        jobId,
+        storage: 'r2',
+        keyId: getCiphertextKeyId(encrypted),
+        sizeBytes,
+        messageCount: messages.length,
+        truncated: false
+      };
+    } else {
+      const fitted = fitTranscript(messages, MAX_STORED_TRANSCRIPT_BYTES);
+      const encrypted = await encrypt(JSON.stringify(fitted.messages), env);
+      record = {
+        jobId,
+        storage: 'durable_object',
+        keyId: getCiphertextKeyId(encrypted),
+        sizeBytes,
+        messageCount: messages.length,
+        truncated: fitted.truncated,
+        messages: encrypted
+      };
+    }
+
+    await getJobTracker(env).fetch(new Request('http://internal/transcript', {
+      method: 'POST',
+      body: JSON.stringify(record)
+    }));
+
+    logWithContext('TRANSCRIPTS', 'Transcript stored', {
+      jobId,
+      storage: record.storage,
+      sizeBytes,
+      messageCount: messages.length,
+      truncated: record.truncated
+    });
+  } catch (error) {
+    logWithContext('TRANSCRIPTS', 'Failed to store transcript', {
+      error: error instanceof Error ? error.message : String(error),
+      jobId
+    });
+  }
+}
+
+// Load a run's transcript, or null if none was stored. Transcripts stored before they
+// were encrypted have no key ID and are read as they are.
+export async function getTranscript(env: any, jobId: string): Promise<Transcript | null> {
+  const response = await getJobTracker(env).fetch(new Request(`http://internal/transcript?id=${encodeURIComponent(jobId)}`));
+  const stored = await response.json() as (TranscriptInfo & { keyId: string | null; messages: string | null }) | null;
+
+  if (!stored) {
+    return null;
+  }
+
+  let text = stored.messages;
+  if (stored.storage === 'r2') {
+    const object = env.TRANSCRIPTS ? await env.TRANSCRIPTS.get(transcriptKey(jobId)) : null;
+    if (!object) {
+      logWithContext('TRANSCRIPTS', 'Transcript missing from R2', { jobId });
+      return null;
+    }
+    text = await object.text();
+  }
+
+  const json = text && stored.keyId ? await decrypt(text, env) : text;
+  return {
+    jobId: stored.jobId,
+    storage: stored.storage,
+    sizeBytes: stored.sizeBytes,
+    messageCount: stored.messageCount,
+    truncated: stored.truncated,
+    createdAt: stored.createdAt,
+    messages: json ? JSON.parse(json) : []
+  };
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  evaluateTriggerPolicy,
+  validateTriggerPolicy,
+  withdrawsTrigger,
+  getTriggerPolicy,
+  handleTriggerPolicyRequest,
+  DEFAULT_TRIGGER_POLICY
+} from './trigger_policy';
+
+describe('Issue trigger policy', () => {
+  it('should pick up every new issue by default', () => {
+    expect(evaluateTriggerPolicy(DEFAULT_TRIGGER_POLICY, 'opened', []).trigger).toBe(true);
+    expect(evaluateTriggerPolicy(DEFAULT_TRIGGER_POLICY, 'labeled', ['claude'], 'claude').trigger).toBe(false);
+  });
+
+  it('should only start on the trigger label in label mode', () => {
+    const policy = { mode: 'label' as const, triggerLabel: 'Claude' };
+
+    // Labels set when opening an issue arrive as separate labeled events
+    expect(evaluateTriggerPolicy(policy, 'opened', ['claude']).trigger).toBe(false);
+    expect(evaluateTriggerPolicy(policy, 'labeled', ['bug', 'claude'], 'claude').trigger).toBe(true);
+    expect(evaluateTriggerPolicy(policy, 'labeled', ['bug', 'claude'], 'bug').trigger).toBe(false);
+  });
+
+  it('should never start on issues with the deny label or when turned off', () => {
+    const policy = { mode: 'label' as const, triggerLabel: 'claude', denyLabel: 'no-bot' };
+
+    const denied = evaluateTriggerPolicy(policy, 'labeled', ['claude', 'No-Bot'], 'claude');
+    expect(denied).toEqual({ trigger: false, reason: 'Issue carries the deny label "no-bot"' });
+    expect(evaluateTriggerPolicy({ mode: 'off', triggerLabel: 'claude' }, 'opened', []).trigger).toBe(false);
+  });
+
+  it('should withdraw the trigger when the trigger label is removed or the deny label added', () => {
+    const policy = { mode: 'label' as const, triggerLabel: 'claude', denyLabel: 'no-bot' };
+
+    expect(withdrawsTrigger(policy, 'unlabeled', 'Claude')).toBe(true);
+    expect(withdrawsTrigger(policy, 'labeled', 'no-bot')).toBe(true);
+    expect(withdrawsTrigger(policy, 'unlabeled', 'bug')).toBe(false);
+    expect(withdrawsTrigger(DEFAULT_TRIGGER_POLICY, 'unlabeled', 'claude')).toBe(false);
+  });
+
+  it('should validate policies sent to the admin endpoint', () => {
+    expect(validateTriggerPolicy({ mode: 'label', denyLabel: ' no-bot ' })).toEqual({
+      policy: { mode: 'label', triggerLabel: 'claude', denyLabel: 'no-bot' },
+      errors: []
+    });
+
+    expect(validateTriggerPolicy({ mode: 'sometimes', triggerLabel: '' }).errors).toEqual([
+      '`mode` must be one of all, label, off',
+      '`triggerLabel` must be a non-empty string'
+    ]);
+    expect(validateTriggerPolicy({ triggerLabel: 'claude', denyLabel: 'CLAUDE' }).errors).toEqual([
+      '`triggerLabel` and `denyLabel` must be different'
+    ]);
+  });
+
+  it('should fail closed when the config DO fails', async () => {
+    const configDO = { fetch: vi.fn().mockRejectedValue(new Error('storage unavailable')) };
+
+    const resolved = await getTriggerPolicy(configDO, 'acme/my-repo', 31);
+
+    expect(configDO.fetch.mock.calls[0][0].url).toBe(
+      'http://internal/get-trigger-policy?repository=acme%2Fmy-repo&installation_id=31'
+    );
+    expect(resolved.source).toBe('unavailable');
+    expect(evaluateTriggerPolicy(resolved.policy, 'opened', []).trigger).toBe(false);
+  });
+
+  it('should store policies per installation or repository, never for the whole app', async () => {
+    const configDO = { fetch: vi.fn().mockImplementation(async () => new Response('OK')) };
+    const env = {
+      GITHUB_APP_CONFIG: { idFromName: vi.fn().mockReturnValue('config-id'), get: vi.fn().mockReturnValue(configDO) }
+    };
+    const put = (query: string) => handleTriggerPolicyRequest(new Request(`https://worker/gh-trigger-policy?${query}`, {
+      method: 'PUT',
+      body: JSON.stringify({ mode: 'label' })
+    }), env);
+
+    expect((await put('app_id=7')).status).toBe(400);
+    expect((await put('app_id=7&installation_id=31&repository=acme/my-repo')).status).toBe(400);
+    expect(configDO.fetch).not.toHaveBeenCalled();
+
+    const response = await put('app_id=7&installation_id=31');
+    expect(await response.json()).toMatchObject({ scope: 'installation 31' });
+    expect(JSON.parse(await configDO.fetch.mock.calls[0][0].text())).toEqual({
+      installationId: '31',
+      policy: { mode: 'label', triggerLabel: 'claude' }
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import { logWithContext } from './log';
+
+// Which GitHub issues start a run. Stored in GitHubAppConfigDO: one policy per
+// installation of the app plus optional per-repository overrides.
+//
+// - all:   every newly opened issue (the original behaviour, and the default)
+// - label: only issues that get the trigger label, either when they are opened with it
+//          or when it is added later
+// - off:   issues never start a run (comments and reviews still do)
+export type TriggerMode = 'all' | 'label' | 'off';
+
+export interface TriggerPolicy {
+  mode: TriggerMode;
+  triggerLabel: string;
+  // Issues carrying this label are never picked up, whatever the mode
+  denyLabel?: string;
+}
+
+export interface ResolvedTriggerPolicy {
+  policy: TriggerPolicy;
+  // 'repository' when a per-repository override applies, 'installation' when the
+  // installation-wide policy applies, 'default' when nothing has been configured and
+  // 'unavailable' when the policy could not be read
+  source: 'repository' | 'installation' | 'default' | 'unavailable';
+}
+
+// What a stored policy applies to: one repository, or every repository of one installation
+export interface TriggerPolicyTarget {
+  repository?: string | null;
+  installationId?: string | null;
+}
+
+export interface TriggerDecision {
+  trigger: boolean;
+  reason: string;
+}
+
+export const TRIGGER_MODES: TriggerMode[] = ['all', 'label', 'off'];
+
+export const DEFAULT_TRIGGER_POLICY: TriggerPolicy = {
+  mode: 'all',
+  triggerLabel: 'claude'
+};
+
+// Used when the policy cannot be read: nothing starts until it can be
+const UNAVAILABLE_TRIGGER_POLICY: TriggerPolicy = {
+  mode: 'off',
+  triggerLabel: DEFAULT_TRIGGER_POLICY.triggerLabel
+};
+
+function sameLabel(a: string | undefined, b: string | undefined): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+// Issues carrying the deny label never start a run, from the issue itself or from a comment
+export function carriesDenyLabel(policy: TriggerPolicy, issueLabels: string[]): boolean {
+  return !!policy.denyLabel && issueLabels.some(label => sameLabel(label, policy.denyLabel));
+}
+
+// Validate a policy sent to the admin endpoint. Returns the normalised policy or the errors.
+export function validateTriggerPolicy(input: any): { policy: TriggerPolicy | null; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { policy: null, errors: ['Policy must be an object'] };
+  }
+
+  const mode = input.mode ?? DEFAULT_TRIGGER_POLICY.mode;
+  if (!TRIGGER_MODES.includes(mode)) {
+    errors.push(`\`mode\` must be one of ${TRIGGER_MODES.join(', ')}`);
+  }
+
+  const triggerLabel = input.triggerLabel ?? DEFAULT_TRIGGER_POLICY.triggerLabel;
+  if (typeof triggerLabel !== 'string' || !triggerLabel.trim()) {
+    errors.push('`triggerLabel` must be a non-empty string');
+  }
+
+  const denyLabel = input.denyLabel ?? undefined;
+  if (denyLabel !== undefined && (typeof denyLabel !== 'string' || !denyLabel.trim())) {
+    errors.push('`denyLabel` must be a non-empty string');
+  }
+
+  if (errors.length === 0 && sameLabel(triggerLabel, denyLabel)) {
+    errors.push('`triggerLabel` and `denyLabel` must be different');
+  }
+
+  if (errors.length > 0) {
+    return { policy: null, errors };
+  }
+
+  return {
+    policy: {
+      mode,
+      triggerLabel: triggerLabel.trim(),
+      ...(denyLabel ? { denyLabel: denyLabel.trim() } : {})
+    },
+    errors
+  };
+}
+
+// Decide whether an `issues` webhook should start a run.
+// GitHub sends a separate `labeled` event for every label set when an issue is opened,
+// so in label mode only `labeled` events trigger; otherwise a labelled new issue
+// would start two runs.
+export function evaluateTriggerPolicy(
+  policy: TriggerPolicy,
+  action: string,
+  issueLabels: string[],
+  addedLabel?: string
+): TriggerDecision {
+  if (carriesDenyLabel(policy, issueLabels)) {
+    return { trigger: false, reason: `Issue carries the deny label "${policy.denyLabel}"` };
+  }
+
+  if (policy.mode === 'off') {
+    return { trigger: false, reason: 'Issue triggers are turned off' };
+  }
+
+  if (policy.mode === 'all') {
+    return action === 'opened'
+      ? { trigger: true, reason: 'Every new issue is picked up' }
+      : { trigger: false, reason: `Action "${action}" does not start a run` };
+  }
+
+  if (action === 'labeled' && sameLabel(addedLabel, policy.triggerLabel)) {
+    return { trigger: true, reason: `Trigger label "${policy.triggerLabel}" was added` };
+  }
+
+  return { trigger: false, reason: `Waiting for the trigger label "${policy.triggerLabel}"` };
+}
+
+// Whether a label change withdraws the trigger from a run in progress: the trigger label
+// was removed (label mode) or the deny label was added
+export function withdrawsTrigger(policy: TriggerPolicy, action: string, label?: string): boolean {
+  if (action === 'unlabeled') {
+    return policy.mode === 'label' && sameLabel(label, policy.triggerLabel);
+  }
+  return action === 'labeled' && sameLabel(label, policy.denyLabel);
+}
+
+// Look up the policy for a repository of an installation. When the config DO cannot
+// answer, issues don't start runs: a policy meant to restrict the bot fails closed.
+export async function getTriggerPolicy(
+  configDO: any,
+  repositoryFullName: string,
+  installationId?: string | number | null
+): Promise<ResolvedTriggerPolicy> {
+  const params = new URLSearchParams({ repository: repositoryFullName });
+  if (installationId) {
+    params.set('installation_id', String(installationId));
+  }
+
+  try {
+    const response = await configDO.fetch(new Request(`http://internal/get-trigger-policy?${params}`));
+
+    if (!response.ok) {
+      throw new Error(`Config DO returned status ${response.status}`);
+    }
+
+    const resolved = await response.json() as ResolvedTriggerPolicy;
+    if (!resolved?.policy || !TRIGGER_MODES.includes(resolved.policy.mode)) {
+      throw new Error('Config DO returned no trigger policy');
+    }
+
+    return resolved;
+  } catch (error) {
+    logWithContext('TRIGGER_POLICY', 'Failed to load trigger policy, not starting runs', {
+      repository: repositoryFullName,
+      installationId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return { policy: UNAVAILABLE_TRIGGER_POLICY, source: 'unavailable' };
+  }
+}
+
+function jsonResponse(body: any, status: number = 200): Response {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// Admin endpoint: /gh-trigger-policy?app_id=<id>&(installation_id=<id>|repository=<owner/name>)
+// A policy applies to one installation of the app (one account or organisation) or to one
+// repository, never to every account the app is installed on.
+// GET lists every installation policy and override, or resolves one repository (pass
+// installation_id too to fall back to its installation policy). PUT stores a policy and
+// DELETE removes one.
+export async function handleTriggerPolicyRequest(request: Request, env: any): Promise<Response> {
+  const url = new URL(request.url);
+  const appId = url.searchParams.get('app_id');
+  const installationId = url.searchParams.get('installation_id');
+  const repository = url.searchParams.get('repository');
+
+  if (!appId) {
+    return jsonResponse({ error: 'Missing app_id parameter' }, 400);
+  }
+
+  if (installationId !== null && !/^\d+$/.test(installationId)) {
+    return jsonResponse({ error: 'installation_id must be a number' }, 400);
+  }
+
+  const configDO = env.GITHUB_APP_CONFIG.get(env.GITHUB_APP_CONFIG.idFromName(appId));
+
+  if (request.method === 'GET') {
+    const params = new URLSearchParams();
+    if (repository) params.set('repository', repository);
+    if (installationId) params.set('installation_id', installationId);
+
+    const target = repository
+      ? `http://internal/get-trigger-policy?${params}`
+      : 'http://internal/list-trigger-policies';
+    const response = await configDO.fetch(new Request(target));
+    return jsonResponse(await response.json());
+  }
+
+  if (request.method !== 'PUT' && request.method !== 'DELETE') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  // Changes target exactly one scope
+  if (!repository === !installationId) {
+    return jsonResponse({ error: 'Pass either installation_id or repository' }, 400);
+  }
+
+  const target = repository ? { repository } : { installationId };
+  const scope = repository ? repository : `installation ${installationId}`;
+
+  if (request.method === 'PUT') {
+    let body: any;
+    try {
+      body = await request.json();
+    } catch {
+      return jsonResponse({ error: 'Request body must be JSON' }, 400);
+    }
+
+    const { policy, errors } = validateTriggerPolicy(body);
+    if (!policy) {
+      return jsonResponse({ error: 'Invalid trigger policy', details: errors }, 400);
+    }
+
+    await configDO.fetch(new Request('http://internal/store-trigger-policy', {
+      method: 'POST',
+      body: JSON.stringify({ ...target, policy })
+    }));
+
+    logWithContext('TRIGGER_POLICY', 'Trigger policy updated', { appId, scope, policy });
+
+    return jsonResponse({ scope, policy });
+  }
+
+  await configDO.fetch(new Request('http://internal/remove-trigger-policy', {
+    method: 'DELETE',
+    body: JSON.stringify(target)
+  }));
+
+  logWithContext('TRIGGER_POLICY', 'Trigger policy removed', { appId, scope });
+
+  return jsonResponse({ scope, removed: true });
+}
@@ -14,6 +14,9 @@ interface GitHubAppManifest {
     metadata: string;
     pull_requests: string;
     issues: string;
+    members?: string;
+    checks?: string;
+    actions?: string;
   };
   default_events: string[];
 }
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { recordWebhookDelivery, finishWebhookDelivery, pickHeaders, GITHUB_REPLAY_HEADERS, MAX_STORED_PAYLOAD_LENGTH } from './webhook_deliveries';
+import { handleWebhookDeliveriesRequest } from './handlers/webhook_deliveries';
+
+describe('Webhook delivery tracking', () => {
+  let mockTracker: any;
+  let mockEnv: any;
+
+  const delivery = (payload: string = '{"action":"opened"}') => ({
+    provider: 'github' as const,
+    deliveryId: 'delivery-1',
+    event: 'issues',
+    headers: { 'x-github-event': 'issues' },
+    payload
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockTracker = {
+      fetch: vi.fn().mockResolvedValue(new Response(JSON.stringify({ duplicate: false })))
+    };
+
+    mockEnv = {
+      WEBHOOK_DELIVERIES: {
+        idFromName: vi.fn().mockReturnValue('mock-tracker-id'),
+        get: vi.fn().mockReturnValue(mockTracker)
+      }
+    };
+  });
+
+  it('should record the delivery and report duplicates', async () => {
+    mockTracker.fetch.mockResolvedValue(new Response(JSON.stringify({ duplicate: true })));
+
+    const result = await recordWebhookDelivery(mockEnv, delivery());
+    expect(result).toEqual({ duplicate: true });
+
+    const request = mockTracker.fetch.mock.calls[0][0];
+    expect(new URL(request.url).pathname).toBe('/record');
+    expect(JSON.parse(await request.text())).toMatchObject({
+      provider: 'github',
+      deliveryId: 'delivery-1',
+      payload: '{"action":"opened"}',
+      replay: false
+    });
+  });
+
+  it('should not store payloads too large to replay', async () => {
+    await recordWebhookDelivery(mockEnv, delivery('x'.repeat(MAX_STORED_PAYLOAD_LENGTH + 1)), { replay: true });
+
+    const body = JSON.parse(await mockTracker.fetch.mock.calls[0][0].text());
+    expect(body.payload).toBeNull();
+    expect(body.replay).toBe(true);
+  });
+
+  it('should process the delivery when the tracker is unavailable', async () => {
+    expect(await recordWebhookDelivery({}, delivery())).toEqual({ duplicate: false });
+  });
+
+  it('should mark a recorded delivery processed or failed', async () => {
+    mockTracker.fetch.mockImplementation(async () => new Response('OK'));
+
+    await finishWebhookDelivery(mockEnv, 'github', 'delivery-1', false);
+    await finishWebhookDelivery(mockEnv, 'github', null, true);
+
+    expect(mockTracker.fetch).toHaveBeenCalledTimes(1);
+    const request = mockTracker.fetch.mock.calls[0][0];
+    expect(new URL(request.url).pathname).toBe('/finish');
+    expect(JSON.parse(await request.text())).toEqual({ provider: 'github', deliveryId: 'delivery-1', succeeded: false });
+  });
+
+  it('should only keep the headers needed for replay', () => {
+    const request = new Request('https://worker.example/webhooks/github', {
+      headers: {
+        'X-GitHub-Event': 'issues',
+        'X-GitHub-Delivery': 'delivery-1',
+        'X-Hub-Signature-256': 'sha256=abc',
+        'Cookie': 'session=secret'
+      }
+    });
+
+    expect(pickHeaders(request, GITHUB_REPLAY_HEADERS)).toEqual({
+      'x-github-event': 'issues',
+      'x-github-delivery': 'delivery-1',
+      'x-hub-signature-256': 'sha256=abc'
+    });
+  });
+
+  it('should refuse to replay unknown or unstored deliveries', async () => {
+    const replay = (id: string) => handleWebhookDeliveriesRequest(
+      new Request(`https://worker.example/webhooks/deliveries/github/${id}/replay`, { method: 'POST' }),
+      mockEnv,
+      {} as any
+    );
+
+    mockTracker.fetch.mockResolvedValueOnce(new Response(JSON.stringify(null)));
+    expect((await replay('missing')).status).toBe(404);
+
+    mockTracker.fetch.mockResolvedValueOnce(new Response(JSON.stringify({ headers: {}, payload: null })));
+    expect((await replay('too-large')).status).toBe(409);
+
+    expect(new URL(mockTracker.fetch.mock.calls[0][0].url).search).toBe('?provider=github&id=missing');
+  });
+});
@@ -0,0 +1,146 @@
+import { logWithContext } from './log';
+
+// Webhook delivery tracking in WebhookDeliveryDO.
+// Every verified delivery is recorded under its provider delivery ID (GitHub's
+// X-GitHub-Delivery, GitLab's X-Gitlab-Event-UUID, Bitbucket's X-Request-UUID, Gitea's
+// X-Gitea-Delivery) for DELIVERY_TTL_SECONDS, as processing until the router finishes it.
+// A delivery seen again within that window (a retry or a manual "Redeliver") is skipped
+// while it is processing or once it was processed, so it can't start a second container.
+// A delivery that failed is processed again. Stored deliveries can be replayed deliberately.
+
+export type WebhookProvider = 'github' | 'gitlab' | 'bitbucket' | 'gitea';
+
+export interface WebhookDelivery {
+  provider: WebhookProvider;
+  deliveryId: string;
+  event: string;
+  // Headers needed to process the delivery again (never the GitLab secret token)
+  headers: Record<string, string>;
+  payload: string;
+}
+
+export interface WebhookOptions {
+  // Set when an admin replays a stored delivery: the duplicate check is bypassed
+  replay?: boolean;
+}
+
+export const DELIVERY_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// A delivery still processing after this long was cut off (the Worker was stopped mid-request)
+export const DELIVERY_PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Larger payloads are still deduplicated, but not kept for replay
+export const MAX_STORED_PAYLOAD_LENGTH = 512 * 1024;
+
+export const GITHUB_REPLAY_HEADERS = [
+  'content-type',
+  'x-github-event',
+  'x-github-delivery',
+  'x-hub-signature-256',
+  'x-github-hook-installation-target-id',
+  'x-github-hook-installation-target-type'
+];
+
+export const GITLAB_REPLAY_HEADERS = ['content-type', 'x-gitlab-event', 'x-gitlab-event-uuid'];
+
+export const BITBUCKET_REPLAY_HEADERS = ['content-type', 'x-event-key', 'x-request-uuid', 'x-hub-signature'];
+
+export const GITEA_REPLAY_HEADERS = ['content-type', 'x-gitea-event', 'x-gitea-delivery', 'x-gitea-signature'];
+
+export function getDeliveryTracker(env: any): any {
+  return env.WEBHOOK_DELIVERIES.get(env.WEBHOOK_DELIVERIES.idFromName('webhook-deliveries'));
+}
+
+export function pickHeaders(request: Request, names: string[]): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const name of names) {
+    const value = request.headers.get(name);
+    if (value !== null) {
+      headers[name] = value;
+    }
+  }
+  return headers;
+}
+
+// Record a verified delivery. Returns duplicate: true when the same delivery was already
+// processed within the TTL. Tracking is best-effort: if the tracker can't be reached the
+// delivery is processed rather than dropped.
+export async function recordWebhookDelivery(
+  env: any,
+  delivery: WebhookDelivery,
+  options: WebhookOptions = {}
+): Promise<{ duplicate: boolean }> {
+  try {
+    const response = await getDeliveryTracker(env).fetch(new Request('http://internal/record', {
+      method: 'POST',
+      body: JSON.stringify({
+        ...delivery,
+        payload: delivery.payload.length <= MAX_STORED_PAYLOAD_LENGTH ? delivery.payload : null,
+        replay: !!options.replay
+      })
+    }));
+
+    if (!response.ok) {
+      throw new Error(`Delivery tracker returned status ${response.status}`);
+    }
+
+    const result = await response.json() as { duplicate: boolean };
+
+    if (result.duplicate) {
+      logWithContext('WEBHOOK_DELIVERIES', 'Duplicate delivery skipped', {
+        provider: delivery.provider,
+        deliveryId: delivery.deliveryId,
+        event: delivery.event
+      });
+    }
+
+    return result;
+  } catch (error) {
+    logWithContext('WEBHOOK_DELIVERIES', 'Failed to record delivery, processing it anyway', {
+      error: error instanceof Error ? error.message : String(error),
+      provider: delivery.provider,
+      deliveryId: delivery.deliveryId
+    });
+    return { duplicate: false };
+  }
+}
+
+// Mark a recorded delivery processed, or failed so that a retry of it isn't skipped. A 5xx
+// response counts as a failure: the forge shows it as failed and retries it.
+// Best-effort like recording: a delivery left processing is taken on again after
+// DELIVERY_PROCESSING_TIMEOUT_MS.
+export async function finishWebhookDelivery(
+  env: any,
+  provider: WebhookProvider,
+  deliveryId: string | null,
+  succeeded: boolean
+): Promise<void> {
+  if (!deliveryId) {
+    return;
+  }
+
+  try {
+    const response = await getDeliveryTracker(env).fetch(new Request('http://internal/finish', {
+      method: 'POST',
+      body: JSON.stringify({ provider, deliveryId, succeeded })
+    }));
+
+    if (!response.ok) {
+      throw new Error(`Delivery tracker returned status ${response.status}`);
+    }
+  } catch (error) {
+    logWithContext('WEBHOOK_DELIVERIES', 'Failed to finish delivery', {
+      error: error instanceof Error ? error.message : String(error),
+      provider,
+      deliveryId,
+      succeeded
+    });
+  }
+}
+
+export function duplicateDeliveryResponse(deliveryId: string): Response {
+  return new Response(JSON.stringify({ message: 'Duplicate delivery skipped', delivery: deliveryId }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
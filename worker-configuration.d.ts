@@ -3,11 +3,22 @@
 // Runtime types generated with workerd@1.20250705.0 2025-05-23 nodejs_compat
 declare namespace Cloudflare {
 	interface Env {
+		ADMIN_TOKEN: string;
 		ANTHROPIC_API_KEY: string;
+		CF_ACCESS_AUD: string;
+		CF_ACCESS_TEAM_DOMAIN: string;
+		ENCRYPTION_KEY: string;
+		ENCRYPTION_KEY_PREVIOUS: string;
 		ENVIRONMENT: string;
 		MY_CONTAINER: DurableObjectNamespace<import("./src/index").MyContainer>;
 		GITHUB_APP_CONFIG: DurableObjectNamespace<import("./src/index").GitHubAppConfigDO>;
 		GITLAB_APP_CONFIG: DurableObjectNamespace<import("./src/index").GitLabAppConfigDO>;
+		BITBUCKET_APP_CONFIG: DurableObjectNamespace<import("./src/index").BitbucketAppConfigDO>;
+		GITEA_APP_CONFIG: DurableObjectNamespace<import("./src/index").GiteaAppConfigDO>;
+		JOB_TRACKER: DurableObjectNamespace<import("./src/index").JobTrackerDO>;
+		WEBHOOK_DELIVERIES: DurableObjectNamespace<import("./src/index").WebhookDeliveryDO>;
+		DISPATCH_QUEUE: DurableObjectNamespace<import("./src/index").DispatchQueueDO>;
+		TRANSCRIPTS: R2Bucket;
 	}
 }
 interface Env extends Cloudflare.Env {}
@@ -15,7 +26,7 @@ type StringifyValues<EnvType extends Record<string, unknown>> = {
 	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
 };
 declare namespace NodeJS {
-	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "ANTHROPIC_API_KEY" | "ENVIRONMENT">> {}
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "ADMIN_TOKEN" | "ANTHROPIC_API_KEY" | "CF_ACCESS_AUD" | "CF_ACCESS_TEAM_DOMAIN" | "ENCRYPTION_KEY" | "ENCRYPTION_KEY_PREVIOUS" | "ENVIRONMENT">> {}
 }
 
 // Begin runtime types